@@ -1,12 +1,16 @@
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { flushOutbox, persistOptions, registerOutbox } from "./lib/outbox";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { OfflineBanner } from "@/components/offline-banner";
 import { useTheme } from "@/hooks/use-theme";
 import Home from "@/pages/home";
 import NotFound from "@/pages/not-found";
 
+registerOutbox(queryClient);
+
 function Router() {
   return (
     <Switch>
@@ -21,12 +25,17 @@ function App() {
   useTheme();
 
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={persistOptions}
+      onSuccess={() => flushOutbox(queryClient)}
+    >
       <TooltipProvider>
         <Toaster />
+        <OfflineBanner />
         <Router />
       </TooltipProvider>
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
 }
 
@@ -1,14 +1,30 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { SystemSettings } from "@shared/schema";
-import { Settings } from "lucide-react";
+import { useApiMutation, useApiQuery } from "@/lib/api";
+import { DEFAULT_LEVEL_CURVE, levelCurveSchema, xpForLevel, type LevelCurve } from "@shared/leveling";
+import { DEFAULT_STREAK_MILESTONES, streakMilestonesSchema, type StreakMilestone } from "@shared/streaks";
+import { Flame, Settings, TrendingUp } from "lucide-react";
+
+// "3:1.1, 7:1.25" <-> [{ streak: 3, multiplier: 1.1 }, { streak: 7, multiplier: 1.25 }]
+function formatMilestones(milestones: StreakMilestone[]): string {
+  return milestones.map((milestone) => `${milestone.streak}:${milestone.multiplier}`).join(", ");
+}
+
+function parseMilestones(text: string) {
+  return streakMilestonesSchema.safeParse(
+    text.split(",").filter((part) => part.trim()).map((part) => {
+      const [streak, multiplier] = part.split(":");
+      return { streak: Number(streak), multiplier: Number(multiplier) };
+    }),
+  );
+}
 
 export function AdminPanel() {
   const { toast } = useToast();
@@ -17,10 +33,14 @@ export function AdminPanel() {
   const [maxXp, setMaxXp] = useState(10000);
   const [maxAttributes, setMaxAttributes] = useState(100);
   const [questReset, setQuestReset] = useState(24);
+  const [curveType, setCurveType] = useState<LevelCurve["type"]>(DEFAULT_LEVEL_CURVE.type);
+  const [xpPerLevel, setXpPerLevel] = useState(800);
+  const [baseXp, setBaseXp] = useState(800);
+  const [growth, setGrowth] = useState(1.2);
+  const [thresholds, setThresholds] = useState("800, 1600, 2400");
+  const [milestones, setMilestones] = useState(formatMilestones(DEFAULT_STREAK_MILESTONES));
 
-  const { data: settings } = useQuery<SystemSettings>({
-    queryKey: ["/api/system-settings"],
-  });
+  const { data: settings } = useApiQuery("getSystemSettings");
 
   // Update local state when settings data changes
   useEffect(() => {
@@ -28,17 +48,25 @@ export function AdminPanel() {
       setMaxXp(settings.maxXp || 10000);
       setMaxAttributes(settings.maxAttributePoints || 100);
       setQuestReset(settings.questResetInterval || 24);
+
+      const curve = settings.levelCurve || DEFAULT_LEVEL_CURVE;
+      setCurveType(curve.type);
+      if (curve.type === "linear") setXpPerLevel(curve.xpPerLevel);
+      if (curve.type === "exponential") {
+        setBaseXp(curve.baseXp);
+        setGrowth(curve.growth);
+      }
+      if (curve.type === "table") setThresholds(curve.thresholds.join(", "));
+
+      setMilestones(formatMilestones(settings.streakMilestones || DEFAULT_STREAK_MILESTONES));
     }
   }, [settings]);
 
 
-  const updateSettingsMutation = useMutation({
-    mutationFn: async (data: Partial<SystemSettings>) => {
-      const response = await apiRequest("PATCH", "/api/system-settings", data);
-      return response.json();
-    },
+  const updateSettingsMutation = useApiMutation("updateSystemSettings", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
       toast({
         title: "Success",
         description: "System settings updated successfully",
@@ -54,15 +82,53 @@ export function AdminPanel() {
   });
 
   const handleUpdateMaxXp = () => {
-    updateSettingsMutation.mutate({ maxXp });
+    updateSettingsMutation.mutate({ body: { maxXp } });
   };
 
   const handleUpdateMaxAttributes = () => {
-    updateSettingsMutation.mutate({ maxAttributePoints: maxAttributes });
+    updateSettingsMutation.mutate({ body: { maxAttributePoints: maxAttributes } });
   };
 
   const handleUpdateQuestReset = () => {
-    updateSettingsMutation.mutate({ questResetInterval: questReset });
+    updateSettingsMutation.mutate({ body: { questResetInterval: questReset } });
+  };
+
+  const buildLevelCurve = () => {
+    switch (curveType) {
+      case "linear":
+        return { type: curveType, xpPerLevel };
+      case "exponential":
+        return { type: curveType, baseXp, growth };
+      case "table":
+        return { type: curveType, thresholds: thresholds.split(",").map((xp) => Number(xp.trim())).filter((xp) => xp > 0) };
+    }
+  };
+
+  const levelCurve = levelCurveSchema.safeParse(buildLevelCurve());
+
+  const handleUpdateLevelCurve = () => {
+    if (!levelCurve.success) {
+      toast({
+        title: "Invalid Level Curve",
+        description: levelCurve.error.errors[0]?.message || "Check the curve values",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateSettingsMutation.mutate({ body: { levelCurve: levelCurve.data } });
+  };
+
+  const handleUpdateStreakMilestones = () => {
+    const parsed = parseMilestones(milestones);
+    if (!parsed.success) {
+      toast({
+        title: "Invalid Streak Milestones",
+        description: "Use streak:multiplier pairs, e.g. 3:1.1, 7:1.25 (streaks of 2 or more, multipliers 1 to 10)",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateSettingsMutation.mutate({ body: { streakMilestones: parsed.data } });
   };
 
   return (
@@ -79,6 +145,7 @@ export function AdminPanel() {
             <Settings className="w-5 h-5" />
             <span>System Settings</span>
           </CardTitle>
+          <CardDescription>These apply to your own account; every user has their own</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center justify-between p-4 bg-muted/30 rounded-lg">
@@ -149,6 +216,135 @@ export function AdminPanel() {
         </CardContent>
       </Card>
 
+      {/* Level Curve */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <TrendingUp className="w-5 h-5" />
+            <span>Level Curve</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between p-4 bg-muted/30 rounded-lg">
+            <Label className="font-medium">Curve Type</Label>
+            <Select value={curveType} onValueChange={(value) => setCurveType(value as LevelCurve["type"])}>
+              <SelectTrigger className="w-40" data-testid="select-level-curve">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="linear">Linear</SelectItem>
+                <SelectItem value="exponential">Exponential</SelectItem>
+                <SelectItem value="table">Custom table</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {curveType === "linear" && (
+            <div className="flex items-center justify-between p-4 bg-muted/30 rounded-lg">
+              <Label htmlFor="xpPerLevel" className="font-medium">XP per Level</Label>
+              <Input
+                id="xpPerLevel"
+                type="number"
+                value={xpPerLevel}
+                onChange={(e) => setXpPerLevel(Number(e.target.value))}
+                className="w-24 text-right"
+                data-testid="input-xp-per-level"
+              />
+            </div>
+          )}
+
+          {curveType === "exponential" && (
+            <>
+              <div className="flex items-center justify-between p-4 bg-muted/30 rounded-lg">
+                <Label htmlFor="baseXp" className="font-medium">XP for Level 2</Label>
+                <Input
+                  id="baseXp"
+                  type="number"
+                  value={baseXp}
+                  onChange={(e) => setBaseXp(Number(e.target.value))}
+                  className="w-24 text-right"
+                  data-testid="input-base-xp"
+                />
+              </div>
+              <div className="flex items-center justify-between p-4 bg-muted/30 rounded-lg">
+                <Label htmlFor="growth" className="font-medium">Growth per Level</Label>
+                <Input
+                  id="growth"
+                  type="number"
+                  step="0.05"
+                  value={growth}
+                  onChange={(e) => setGrowth(Number(e.target.value))}
+                  className="w-24 text-right"
+                  data-testid="input-growth"
+                />
+              </div>
+            </>
+          )}
+
+          {curveType === "table" && (
+            <div className="p-4 bg-muted/30 rounded-lg space-y-2">
+              <Label htmlFor="thresholds" className="font-medium">Total XP to reach level 2, 3, ...</Label>
+              <Input
+                id="thresholds"
+                value={thresholds}
+                onChange={(e) => setThresholds(e.target.value)}
+                placeholder="800, 1600, 2400"
+                data-testid="input-level-thresholds"
+              />
+            </div>
+          )}
+
+          {levelCurve.success && (
+            <p className="text-xs text-muted-foreground">
+              Level 2: {xpForLevel(2, levelCurve.data).toLocaleString()} XP · Level 5: {xpForLevel(5, levelCurve.data).toLocaleString()} XP · Level 10: {xpForLevel(10, levelCurve.data).toLocaleString()} XP
+            </p>
+          )}
+
+          <Button
+            onClick={handleUpdateLevelCurve}
+            disabled={updateSettingsMutation.isPending}
+            className="w-full"
+            data-testid="button-update-level-curve"
+          >
+            Update Level Curve
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Streak Milestones */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Flame className="w-5 h-5" />
+            <span>Streak Milestones</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="p-4 bg-muted/30 rounded-lg space-y-2">
+            <Label htmlFor="streakMilestones" className="font-medium">Streak : XP multiplier</Label>
+            <Input
+              id="streakMilestones"
+              value={milestones}
+              onChange={(e) => setMilestones(e.target.value)}
+              placeholder="3:1.1, 7:1.25, 30:1.5"
+              data-testid="input-streak-milestones"
+            />
+            <p className="text-xs text-muted-foreground">
+              Completing a recurring quest this many periods in a row multiplies its XP reward.
+            </p>
+          </div>
+
+          <Button
+            onClick={handleUpdateStreakMilestones}
+            disabled={updateSettingsMutation.isPending}
+            className="w-full"
+            data-testid="button-update-streak-milestones"
+          >
+            Update Streak Milestones
+          </Button>
+        </CardContent>
+      </Card>
+
     </motion.div>
   );
 }
@@ -1,14 +1,15 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { QuestGroup, Quest, QuestProgress } from "@shared/schema";
+import { useDayClock } from "@/hooks/use-day-clock";
+import { useApiMutation, useApiQuery } from "@/lib/api";
+import { attributeLabel } from "@/lib/attributes";
 import { 
   Calendar, Target, Star, Trophy, Zap, Heart, Shield, Brain, 
-  Rocket, Gem, Flame, Compass, Trash2, Undo, CheckCircle 
+  Rocket, Gem, Flame, Compass, Trash2, Undo, CheckCircle, XCircle 
 } from "lucide-react";
 
 const ICON_MAP = {
@@ -30,24 +31,19 @@ export function Archive() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: questGroups = [] } = useQuery<QuestGroup[]>({
-    queryKey: ["/api/quest-groups"],
-  });
+  const { timezone } = useDayClock();
+  const { data: questGroups = [] } = useApiQuery("listQuestGroups");
 
-  const { data: quests = [] } = useQuery<Quest[]>({
-    queryKey: ["/api/quests"],
-  });
+  const { data: quests = [] } = useApiQuery("listQuests");
 
-  const { data: questProgress = [] } = useQuery<QuestProgress[]>({
-    queryKey: ["/api/quest-progress"],
-  });
+  const { data: questProgress = [] } = useApiQuery("listQuestProgress");
+
+  const { data: questFailures = [] } = useApiQuery("listQuestFailures");
+
+  const { data: attributes = [] } = useApiQuery("listAttributes");
 
   // Archive completed quest mutation
-  const archiveQuestMutation = useMutation({
-    mutationFn: async (questId: string) => {
-      const response = await apiRequest("POST", `/api/quests/${questId}/archive`);
-      return response.json();
-    },
+  const archiveQuestMutation = useApiMutation("archiveQuest", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
       toast({
@@ -65,13 +61,10 @@ export function Archive() {
   });
 
   // Delete archived quest permanently
-  const deleteArchivedQuestMutation = useMutation({
-    mutationFn: async (questId: string) => {
-      const response = await apiRequest("DELETE", `/api/quests/${questId}/archive`);
-      return response.json();
-    },
+  const deleteArchivedQuestMutation = useApiMutation("deleteArchivedQuest", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quests"] });
       toast({
         title: "Quest Deleted",
         description: "Quest has been permanently deleted from archive.",
@@ -87,17 +80,13 @@ export function Archive() {
   });
 
   // Undo quest completion (return to active)
-  const undoQuestMutation = useMutation({
-    mutationFn: async (questId: string) => {
-      const response = await apiRequest("POST", `/api/quests/${questId}/undo`);
-      return response.json();
-    },
+  const undoQuestMutation = useApiMutation("undoQuestCompletion", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
       toast({
         title: "Quest Completion Undone",
-        description: "Quest returned to active status and XP deducted from cumulative total.",
+        description: "Quest returned to active status and its rewards were rolled back.",
       });
     },
     onError: () => {
@@ -126,18 +115,18 @@ export function Archive() {
   };
 
   const handleArchiveQuest = (questId: string) => {
-    archiveQuestMutation.mutate(questId);
+    archiveQuestMutation.mutate({ params: { questId } });
   };
 
   const handleDeleteArchivedQuest = (questId: string, questTitle: string) => {
     if (confirm(`Are you sure you want to permanently delete "${questTitle}"? This action cannot be undone.`)) {
-      deleteArchivedQuestMutation.mutate(questId);
+      deleteArchivedQuestMutation.mutate({ params: { questId } });
     }
   };
 
   const handleUndoQuest = (questId: string, questTitle: string) => {
-    if (confirm(`Are you sure you want to undo completion of "${questTitle}"? XP will be deducted from your cumulative total.`)) {
-      undoQuestMutation.mutate(questId);
+    if (confirm(`Are you sure you want to undo completion of "${questTitle}"? Its XP and attribute points will be rolled back.`)) {
+      undoQuestMutation.mutate({ params: { questId } });
     }
   };
 
@@ -268,27 +257,77 @@ export function Archive() {
                         </p>
                       </div>
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleUndoQuest(quest.id, quest.title)}
-                        disabled={undoQuestMutation.isPending}
-                        className="text-orange-600 border-orange-200 hover:bg-orange-50 dark:text-orange-400 dark:border-orange-800 dark:hover:bg-orange-950/20"
-                      >
-                        <Undo className="w-3 h-3 mr-1" />
-                        Undo
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeleteArchivedQuest(quest.id, quest.title)}
-                        disabled={deleteArchivedQuestMutation.isPending}
-                        className="text-destructive border-destructive/20 hover:bg-destructive/10"
-                      >
-                        <Trash2 className="w-3 h-3 mr-1" />
-                        Delete
-                      </Button>
+                    {progress.canUndo === false ? (
+                      // Completions from past recurring periods are kept as history
+                      <span className="text-xs text-muted-foreground" data-testid={`text-archive-history-${progress.id}`}>
+                        {progress.archiveReason || "History"}
+                      </span>
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUndoQuest(quest.id, quest.title)}
+                          disabled={undoQuestMutation.isPending}
+                          className="text-orange-600 border-orange-200 hover:bg-orange-50 dark:text-orange-400 dark:border-orange-800 dark:hover:bg-orange-950/20"
+                        >
+                          <Undo className="w-3 h-3 mr-1" />
+                          Undo
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteArchivedQuest(quest.id, quest.title)}
+                          disabled={deleteArchivedQuestMutation.isPending}
+                          className="text-destructive border-destructive/20 hover:bg-destructive/10"
+                        >
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Delete
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Failed Quests */}
+      {questFailures.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <XCircle className="w-5 h-5 text-destructive" />
+              <span>Failed Quests</span>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              These quests missed their deadline. Penalties have already been applied.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {questFailures.map((failure) => {
+                const quest = quests.find(q => q.id === failure.questId);
+                if (!quest) return null;
+
+                return (
+                  <div
+                    key={failure.id}
+                    className="flex items-center justify-between p-4 bg-destructive/5 border border-destructive/20 rounded-lg"
+                    data-testid={`failed-quest-${failure.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{quest.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Deadline {new Date(failure.deadline).toLocaleString(undefined, { timeZone: timezone })}
+                      </p>
+                      {((failure.penaltyXP || 0) > 0 || (failure.penaltyAttributePoints || 0) > 0) && (
+                        <p className="text-xs text-destructive">
+                          -{failure.penaltyXP || 0} XP • -{failure.penaltyAttributePoints || 0} {attributeLabel(attributes, failure.targetAttribute)} pts
+                        </p>
+                      )}
                     </div>
                   </div>
                 );
@@ -299,7 +338,7 @@ export function Archive() {
       )}
 
       {/* Empty State */}
-      {completedQuests.length === 0 && archivedQuests.length === 0 && (
+      {completedQuests.length === 0 && archivedQuests.length === 0 && questFailures.length === 0 && (
         <Card>
           <CardContent className="text-center py-12">
             <Calendar className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiQueryKey, useApiMutation, useApiQuery } from "@/lib/api";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { ATTRIBUTE_COLORS, ATTRIBUTE_ICONS, attributeColor, attributeIcon } from "@/lib/attributes";
+import { activeAttributes, attributeCap, type AttributeColor, type AttributeIcon } from "@shared/attributes";
+import type { AttributeDefinition } from "@shared/schema";
+import { ArrowDown, ArrowUp, Archive, Edit, Plus, RotateCcw } from "lucide-react";
+
+interface AttributesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Keys are derived from the first label and never change afterwards
+function attributeKey(label: string, taken: string[]): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^[_0-9]+|_+$/g, "").slice(0, 28) || "attribute";
+  let key = base;
+  for (let suffix = 2; taken.includes(key); suffix++) {
+    key = `${base}_${suffix}`;
+  }
+  return key;
+}
+
+interface AttributeFormProps {
+  attribute: AttributeDefinition | null;
+  defaultCap: number;
+  isSaving: boolean;
+  onSave: (values: { label: string; icon: AttributeIcon; color: AttributeColor; cap: number | null }) => void;
+  onCancel: () => void;
+}
+
+function AttributeForm({ attribute, defaultCap, isSaving, onSave, onCancel }: AttributeFormProps) {
+  const [label, setLabel] = useState(attribute?.label ?? "");
+  const [icon, setIcon] = useState<AttributeIcon>(attribute?.icon ?? "star");
+  const [color, setColor] = useState<AttributeColor>(attribute?.color ?? "blue");
+  const [cap, setCap] = useState(attribute?.cap != null ? String(attribute.cap) : "");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) {
+      return;
+    }
+    const parsedCap = parseInt(cap);
+    onSave({ label: label.trim(), icon, color, cap: parsedCap > 0 ? parsedCap : null });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="attribute-label">Name</Label>
+        <Input
+          id="attribute-label"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. Creativity"
+          maxLength={40}
+          data-testid="input-attribute-label"
+        />
+      </div>
+
+      <div>
+        <Label>Icon</Label>
+        <div className="flex flex-wrap gap-2 border border-border rounded-lg p-3">
+          {(Object.keys(ATTRIBUTE_ICONS) as AttributeIcon[]).map((name) => {
+            const IconComponent = ATTRIBUTE_ICONS[name];
+            return (
+              <button
+                key={name}
+                type="button"
+                className={`w-8 h-8 flex items-center justify-center hover:bg-accent rounded-lg transition-colors ${
+                  icon === name ? "bg-primary/10 text-primary" : ""
+                }`}
+                onClick={() => setIcon(name)}
+                data-testid={`attribute-icon-${name}`}
+              >
+                <IconComponent className="w-5 h-5" />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <Label>Color</Label>
+        <div className="flex flex-wrap gap-2 border border-border rounded-lg p-3">
+          {(Object.keys(ATTRIBUTE_COLORS) as AttributeColor[]).map((name) => (
+            <button
+              key={name}
+              type="button"
+              className={`w-8 h-8 rounded-full border-2 ${color === name ? "border-foreground" : "border-transparent"}`}
+              style={{ backgroundColor: ATTRIBUTE_COLORS[name].stroke }}
+              onClick={() => setColor(name)}
+              aria-label={name}
+              data-testid={`attribute-color-${name}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="attribute-cap">Cap</Label>
+        <Input
+          id="attribute-cap"
+          type="number"
+          min="1"
+          max={defaultCap}
+          value={cap}
+          onChange={(e) => setCap(e.target.value)}
+          placeholder={`Default (${defaultCap})`}
+          data-testid="input-attribute-cap"
+        />
+      </div>
+
+      <div className="flex items-center space-x-3 pt-2">
+        <Button type="submit" className="flex-1" disabled={isSaving || !label.trim()} data-testid="button-save-attribute">
+          {isSaving ? "Saving..." : "Save Attribute"}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// Add, rename, restyle, reorder, retire and restore the user's attributes
+export function AttributesModal({ isOpen, onClose }: AttributesModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<AttributeDefinition | "new" | null>(null);
+  const [retiring, setRetiring] = useState<AttributeDefinition | null>(null);
+  const [moveTo, setMoveTo] = useState("none");
+
+  const { data: attributes = [] } = useApiQuery("listAttributes");
+  const { data: systemSettings } = useApiQuery("getSystemSettings");
+
+  const active = activeAttributes(attributes);
+  const retired = attributes.filter((attribute) => attribute.retiredAt);
+  const defaultCap = systemSettings?.maxAttributePoints || 100;
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: apiQueryKey("listAttributes") });
+  };
+
+  const onFailed = (fallback: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: apiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useApiMutation("createAttribute", {
+    onSuccess: () => {
+      onChanged();
+      setEditing(null);
+    },
+    onError: onFailed("Failed to add attribute"),
+  });
+
+  const updateMutation = useApiMutation("updateAttribute", {
+    onSuccess: () => {
+      onChanged();
+      setEditing(null);
+    },
+    onError: onFailed("Failed to update attribute"),
+  });
+
+  const retireMutation = useApiMutation("retireAttribute", {
+    onSuccess: ({ profile }) => {
+      onChanged();
+      queryClient.setQueryData(apiQueryKey("getProfile"), profile);
+      queryClient.invalidateQueries({ queryKey: ["/api/quests"] });
+      setRetiring(null);
+    },
+    onError: onFailed("Failed to retire attribute"),
+  });
+
+  const restoreMutation = useApiMutation("restoreAttribute", {
+    onSuccess: onChanged,
+    onError: onFailed("Failed to restore attribute"),
+  });
+
+  const handleSave = (values: { label: string; icon: AttributeIcon; color: AttributeColor; cap: number | null }) => {
+    if (editing === "new") {
+      createMutation.mutate({ body: { ...values, key: attributeKey(values.label, attributes.map((attribute) => attribute.key)) } });
+    } else if (editing) {
+      updateMutation.mutate({ params: { key: editing.key }, body: values });
+    }
+  };
+
+  // Swap places with the neighbour in the given direction
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const attribute = active[index];
+    const neighbour = active[index + direction];
+    if (!neighbour) {
+      return;
+    }
+    const sortOrder = neighbour.sortOrder === attribute.sortOrder ? attribute.sortOrder + direction : neighbour.sortOrder;
+    updateMutation.mutate({ params: { key: attribute.key }, body: { sortOrder } });
+    updateMutation.mutate({ params: { key: neighbour.key }, body: { sortOrder: attribute.sortOrder } });
+  };
+
+  const handleRetire = () => {
+    if (retiring) {
+      retireMutation.mutate({ params: { key: retiring.key }, body: { moveTo: moveTo === "none" ? null : moveTo } });
+    }
+  };
+
+  const handleClose = () => {
+    setEditing(null);
+    setRetiring(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">
+            {editing === "new" ? "Add Attribute" : editing ? `Edit ${editing.label}` : "Attributes"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {editing ? (
+          <AttributeForm
+            attribute={editing === "new" ? null : editing}
+            defaultCap={defaultCap}
+            isSaving={createMutation.isPending || updateMutation.isPending}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : retiring ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {retiring.label} will be hidden and stop taking rewards. Its points stay on record, and you can restore it later.
+            </p>
+            <div>
+              <Label>Move points and quests to</Label>
+              <Select value={moveTo} onValueChange={setMoveTo}>
+                <SelectTrigger data-testid="select-retire-move-to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nowhere (quests reward available points)</SelectItem>
+                  {active.filter((attribute) => attribute.key !== retiring.key).map((attribute) => (
+                    <SelectItem key={attribute.key} value={attribute.key}>
+                      {attribute.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-3 pt-2">
+              <Button
+                variant="destructive"
+                className="flex-1"
+                onClick={handleRetire}
+                disabled={retireMutation.isPending}
+                data-testid="button-confirm-retire"
+              >
+                {retireMutation.isPending ? "Retiring..." : `Retire ${retiring.label}`}
+              </Button>
+              <Button variant="outline" onClick={() => setRetiring(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {active.map((attribute, index) => {
+                const IconComponent = attributeIcon(attribute);
+                return (
+                  <div
+                    key={attribute.key}
+                    className="flex items-center justify-between p-2 bg-muted/50 rounded-lg"
+                    data-testid={`attribute-definition-${attribute.key}`}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <IconComponent className={`w-5 h-5 ${attributeColor(attribute).text}`} />
+                      <span className="truncate">{attribute.label}</span>
+                      <span className="text-xs text-muted-foreground">max {attributeCap(attribute, defaultCap)}</span>
+                    </div>
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="sm" className="p-2" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="w-3 h-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="p-2" onClick={() => handleMove(index, 1)} disabled={index === active.length - 1}>
+                        <ArrowDown className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-2"
+                        onClick={() => setEditing(attribute)}
+                        data-testid={`button-edit-attribute-${attribute.key}`}
+                      >
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="p-2 text-destructive hover:text-destructive"
+                        onClick={() => {
+                          setMoveTo("none");
+                          setRetiring(attribute);
+                        }}
+                        data-testid={`button-retire-attribute-${attribute.key}`}
+                      >
+                        <Archive className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <Button variant="outline" className="w-full" onClick={() => setEditing("new")} data-testid="button-add-attribute">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Attribute
+            </Button>
+
+            {retired.length > 0 && (
+              <div className="space-y-2 pt-2 border-t border-border">
+                <p className="text-sm text-muted-foreground">Retired</p>
+                {retired.map((attribute) => (
+                  <div key={attribute.key} className="flex items-center justify-between p-2 rounded-lg border border-dashed border-border">
+                    <span className="text-muted-foreground">{attribute.label}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate({ params: { key: attribute.key } })}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`button-restore-attribute-${attribute.key}`}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
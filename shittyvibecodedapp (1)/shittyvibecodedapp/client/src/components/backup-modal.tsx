@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/use-admin";
+import { callApi, useApiMutation } from "@/lib/api";
+import type { ImportMode } from "@shared/backup";
+import { Download, Upload } from "lucide-react";
+
+interface BackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function BackupModal({ isOpen, onClose }: BackupModalProps) {
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [file, setFile] = useState<File | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const { isAdmin } = useAdmin();
+  const queryClient = useQueryClient();
+
+  const importMutation = useApiMutation("importData", {
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries();
+      toast({
+        title: "Backup imported",
+        description: `${summary.quests} quests and ${summary.notes} notes restored`,
+      });
+      setFile(null);
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to import backup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await callApi("exportData");
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `cryptoalerts-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    let backup;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "That file is not a backup",
+        variant: "destructive",
+      });
+      return;
+    }
+    importMutation.mutate({ body: { mode, backup } });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Backup</DialogTitle>
+          <DialogDescription>
+            Download everything as a JSON file, or restore from one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={handleExport}
+            disabled={isExporting}
+            data-testid="button-export"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export data"}
+          </Button>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="backup-file">Backup file</Label>
+              <Input
+                id="backup-file"
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                data-testid="input-backup-file"
+              />
+            </div>
+
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="merge" id="import-merge" data-testid="radio-import-merge" />
+                <Label htmlFor="import-merge" className="font-normal">
+                  Merge — add the backup's quests and notes to what you have
+                </Label>
+              </div>
+              <div className="flex items-start space-x-2">
+                <RadioGroupItem value="replace" id="import-replace" data-testid="radio-import-replace" />
+                <Label htmlFor="import-replace" className="font-normal">
+                  {isAdmin
+                    ? "Replace — delete your current data and restore the backup, including XP and attributes"
+                    : "Replace — delete your current quests and notes and restore the backup's; XP, gold and attributes stay as they are"}
+                </Label>
+              </div>
+            </RadioGroup>
+
+            <Button
+              className="w-full"
+              variant={mode === "replace" ? "destructive" : "default"}
+              onClick={handleImport}
+              disabled={!file || importMutation.isPending}
+              data-testid="button-import"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importMutation.isPending ? "Importing..." : "Import backup"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
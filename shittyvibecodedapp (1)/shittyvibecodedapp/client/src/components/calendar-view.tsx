@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { CompletionHeatmap, type HeatmapMetric } from "@/components/completion-heatmap";
+import { DaySettings } from "@/components/day-settings";
+import { useDayClock } from "@/hooks/use-day-clock";
+import { useApiQuery } from "@/lib/api";
+import { localDateTime, userDate } from "@shared/timezone";
+import { CalendarDays, CheckCircle, Clock, Flame } from "lucide-react";
+
+const METRICS: { value: HeatmapMetric; label: string }[] = [
+  { value: "completions", label: "Quests" },
+  { value: "xpEarned", label: "XP" },
+];
+
+function dateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+// A year-long heatmap, a month calendar with completions and deadlines, and what happened on the chosen day
+export function CalendarView() {
+  const clock = useDayClock();
+  const [metric, setMetric] = useState<HeatmapMetric>("completions");
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selected, setSelected] = useState(() => userDate(new Date(), clock));
+
+  // Calendar data changes with almost every mutation, so it is fetched fresh whenever the tab opens;
+  // days are the user's days, so the time zone comes from the profile
+  const { data: year, isLoading } = useApiQuery("getCalendar", {}, { staleTime: 0 });
+  const { data: monthData } = useApiQuery("getCalendar", {
+    query: { from: dateKey(month), to: dateKey(endOfMonth(month)) },
+  }, { staleTime: 0 });
+  const { data: day } = useApiQuery("getCalendarDay", { params: { date: selected } }, { staleTime: 0 });
+  const { data: questGroups = [] } = useApiQuery("listQuestGroups");
+
+  const monthDays = monthData?.days ?? [];
+  const completedDays = monthDays.filter((entry) => entry.completions > 0).map((entry) => parseISO(entry.date));
+  const deadlineDays = monthDays.filter((entry) => entry.deadlines > 0).map((entry) => parseISO(entry.date));
+
+  const activeDays = year?.days.filter((entry) => entry.completions > 0).length ?? 0;
+  const groupName = (groupId: string | null) => questGroups.find((group) => group.id === groupId)?.name;
+
+  const handleSelect = (date: string) => {
+    setSelected(date);
+    setMonth(startOfMonth(parseISO(date)));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold">Calendar</h2>
+      </div>
+
+      <DaySettings />
+
+      {/* Year heatmap */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <Flame className="w-5 h-5 text-orange-500" />
+              <span>Past Year</span>
+            </span>
+            <div className="flex items-center space-x-1">
+              {METRICS.map((option) => (
+                <Button
+                  key={option.value}
+                  size="sm"
+                  variant={metric === option.value ? "default" : "ghost"}
+                  onClick={() => setMetric(option.value)}
+                  data-testid={`button-heatmap-${option.value}`}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground" data-testid="text-active-days">
+            Quests completed on {activeDays} {activeDays === 1 ? "day" : "days"}
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !year ? (
+            <div className="h-28 bg-muted/30 rounded-lg animate-pulse" />
+          ) : (
+            <CompletionHeatmap
+              from={year.from}
+              to={year.to}
+              days={year.days}
+              metric={metric}
+              selected={selected}
+              onSelect={handleSelect}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Month calendar */}
+      <Card>
+        <CardContent className="flex justify-center pt-6">
+          <Calendar
+            mode="single"
+            month={month}
+            onMonthChange={setMonth}
+            selected={parseISO(selected)}
+            onSelect={(date) => date && setSelected(dateKey(date))}
+            modifiers={{ completed: completedDays, deadline: deadlineDays }}
+            modifiersClassNames={{
+              completed: "font-bold text-green-600 dark:text-green-400",
+              deadline: "underline decoration-orange-500 decoration-2 underline-offset-4",
+            }}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Selected day */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <CalendarDays className="w-5 h-5 text-primary" />
+              <span data-testid="text-selected-day">{format(parseISO(selected), "EEEE, MMM d")}</span>
+            </span>
+            {day && day.xpEarned !== 0 && (
+              <span className="text-sm font-medium text-primary">{day.xpEarned > 0 ? "+" : ""}{day.xpEarned} XP</span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!day ? (
+            <div className="h-16 bg-muted/30 rounded-lg animate-pulse" />
+          ) : day.completions.length === 0 && day.deadlines.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">Nothing completed or due on this day.</p>
+          ) : (
+            <div className="space-y-3">
+              {day.completions.map((completion) => (
+                <div
+                  key={completion.entryId}
+                  className="flex items-center justify-between p-3 bg-muted/30 rounded-lg"
+                  data-testid={`calendar-completion-${completion.entryId}`}
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{completion.title ?? "Deleted quest"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {localDateTime(new Date(completion.completedAt), clock.timezone).slice(11)}
+                        {groupName(completion.groupId) && ` • ${groupName(completion.groupId)}`}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="text-sm text-primary whitespace-nowrap">+{completion.xpEarned} XP</span>
+                </div>
+              ))}
+              {day.deadlines.map((quest) => (
+                <div
+                  key={quest.id}
+                  className="flex items-center justify-between p-3 rounded-lg border border-dashed border-orange-300 dark:border-orange-800"
+                  data-testid={`calendar-deadline-${quest.id}`}
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Clock className="w-4 h-4 text-orange-500 shrink-0" />
+                    <p className="font-medium truncate">{quest.title}</p>
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    Due {quest.deadline && localDateTime(new Date(quest.deadline), clock.timezone).slice(11)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,80 @@
+import { format, parseISO } from "date-fns";
+import type { CalendarDay } from "@shared/calendar";
+import { addDays, daysBetween } from "@shared/timezone";
+
+export type HeatmapMetric = "completions" | "xpEarned";
+
+interface CompletionHeatmapProps {
+  from: string;
+  to: string;
+  days: CalendarDay[];
+  metric: HeatmapMetric;
+  selected?: string;
+  onSelect: (date: string) => void;
+}
+
+// Empty, then four shades up to the busiest day
+const LEVELS = ["bg-muted", "bg-primary/25", "bg-primary/50", "bg-primary/75", "bg-primary"];
+
+function level(value: number, max: number): number {
+  return value <= 0 || max <= 0 ? 0 : Math.min(4, Math.ceil((value / max) * 4));
+}
+
+// A week per column from Monday to Sunday, like GitHub's contribution graph
+export function CompletionHeatmap({ from, to, days, metric, selected, onSelect }: CompletionHeatmapProps) {
+  const byDate = new Map(days.map((day) => [day.date, day]));
+  const max = Math.max(0, ...days.map((day) => day[metric]));
+
+  // Pad back to the Monday before `from`
+  const start = addDays(from, -((parseISO(from).getDay() + 6) % 7));
+  const weeks: string[][] = [];
+  for (let offset = 0; offset <= daysBetween(start, to); offset++) {
+    if (offset % 7 === 0) {
+      weeks.push([]);
+    }
+    weeks[weeks.length - 1].push(addDays(start, offset));
+  }
+
+  return (
+    <div className="overflow-x-auto" data-testid="completion-heatmap">
+      <div className="inline-flex flex-col">
+        {/* Month labels over the week they start in */}
+        <div className="flex gap-[3px] mb-1 text-[10px] text-muted-foreground">
+          {weeks.map((week, index) => {
+            const first = week.find((date) => date.endsWith("-01"));
+            return (
+              <div key={week[0]} className="w-3 overflow-visible whitespace-nowrap">
+                {(first || index === 0) && format(parseISO(first ?? week[0]), "MMM")}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-[3px]">
+          {weeks.map((week) => (
+            <div key={week[0]} className="flex flex-col gap-[3px]">
+              {week.map((date) => {
+                const day = byDate.get(date);
+                const value = day?.[metric] ?? 0;
+                const outside = date < from || date > to;
+                return (
+                  <button
+                    key={date}
+                    type="button"
+                    disabled={outside}
+                    className={`w-3 h-3 rounded-sm ${outside ? "invisible" : LEVELS[level(value, max)]} ${
+                      selected === date ? "ring-2 ring-foreground" : ""
+                    }`}
+                    title={`${format(parseISO(date), "MMM d, yyyy")}: ${value} ${metric === "xpEarned" ? "XP" : "completed"}`}
+                    onClick={() => onSelect(date)}
+                    data-testid={`heatmap-day-${date}`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useDayClock } from "@/hooks/use-day-clock";
+import { apiQueryKey, useApiMutation } from "@/lib/api";
+import { browserTimezone } from "@/lib/timezone";
+import { Globe } from "lucide-react";
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function hourLabel(hour: number): string {
+  return `${hour.toString().padStart(2, "0")}:00`;
+}
+
+// Where the user's days begin: resets, streaks, deadlines and the calendar all follow it
+export function DaySettings() {
+  const clock = useDayClock();
+  const deviceTimezone = browserTimezone();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateMutation = useApiMutation("updateTimezone", {
+    onSuccess: (updatedProfile) => {
+      queryClient.setQueryData(apiQueryKey("getProfile"), updatedProfile);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update time zone",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="flex flex-wrap items-center justify-between gap-3 pt-6">
+        <div className="flex items-center space-x-2 text-sm">
+          <Globe className="w-4 h-4 text-muted-foreground" />
+          <span data-testid="text-timezone">{clock.timezone}</span>
+          {deviceTimezone !== clock.timezone && (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={updateMutation.isPending}
+              onClick={() => updateMutation.mutate({ body: { timezone: deviceTimezone } })}
+              data-testid="button-use-device-timezone"
+            >
+              Use {deviceTimezone}
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <span className="text-muted-foreground">Days start at</span>
+          <Select
+            value={clock.dayStartHour.toString()}
+            onValueChange={(value) => updateMutation.mutate({ body: { dayStartHour: Number(value) } })}
+            disabled={updateMutation.isPending}
+          >
+            <SelectTrigger className="w-24" data-testid="select-day-start">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HOURS.map((hour) => (
+                <SelectItem key={hour} value={hour.toString()}>{hourLabel(hour)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
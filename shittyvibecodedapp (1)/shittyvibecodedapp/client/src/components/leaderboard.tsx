@@ -1,19 +1,18 @@
-import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Profile as ProfileType, QuestProgress } from "@shared/schema";
+import { useApiQuery } from "@/lib/api";
+import { lockedAchievements, unlockedAchievements } from "@/lib/achievements";
+import { AchievementRow } from "./recent-achievements";
 import { Trophy, Star, Target, Zap } from "lucide-react";
 
 export function Leaderboard() {
-  const { data: profile, isLoading: profileLoading } = useQuery<ProfileType>({
-    queryKey: ["/api/profile"],
-  });
+  const { data: profile, isLoading: profileLoading } = useApiQuery("getProfile");
 
-  const { data: questProgress = [], isLoading: progressLoading } = useQuery<QuestProgress[]>({
-    queryKey: ["/api/quest-progress"],
-  });
+  const { data: questProgress = [], isLoading: progressLoading } = useApiQuery("listQuestProgress");
 
-  const isLoading = profileLoading || progressLoading;
+  const { data: unlockables = [], isLoading: achievementsLoading } = useApiQuery("listAchievements");
+
+  const isLoading = profileLoading || progressLoading || achievementsLoading;
 
   if (isLoading) {
     return (
@@ -110,6 +109,19 @@ export function Leaderboard() {
           </div>
         </CardContent>
       </Card>
+
+      <Card className="mt-4">
+        <CardHeader>
+          <CardTitle>Achievements</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {[...unlockedAchievements(unlockables), ...lockedAchievements(unlockables)].map((achievement, index) => (
+              <AchievementRow key={achievement.id} achievement={achievement} index={index} />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
     </motion.div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,12 @@
+import { useState } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import { Switch } from "@/components/ui/switch";
 import { useAdmin } from "@/hooks/use-admin";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { User, Target, FileText, Shield, Settings, Zap, Archive } from "lucide-react";
+import { BackupModal } from "@/components/backup-modal";
+import { useApiQuery } from "@/lib/api";
+import { levelProgress } from "@shared/leveling";
+import { User, Target, FileText, Shield, Settings, Zap, Archive, ShoppingBag, BarChart3, CalendarDays } from "lucide-react";
 
 interface NavigationProps {
   currentTab: string;
@@ -15,17 +18,23 @@ interface NavigationProps {
 }
 
 export function Navigation({ currentTab, onTabChange, user }: NavigationProps) {
-  const { isAdminMode, toggleAdminMode } = useAdmin();
+  const { isAdmin } = useAdmin();
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+
+  const { data: systemSettings } = useApiQuery("getSystemSettings");
 
   const tabs = [
     { id: "profile", label: "Profile", icon: User },
     { id: "quests", label: "Quests", icon: Target },
     { id: "archive", label: "Archive", icon: Archive },
+    { id: "stats", label: "Stats", icon: BarChart3 },
+    { id: "calendar", label: "Calendar", icon: CalendarDays },
+    { id: "shop", label: "Shop", icon: ShoppingBag },
     { id: "notes", label: "Notes", icon: FileText },
-    ...(isAdminMode ? [{ id: "admin", label: "Admin", icon: Shield }] : []),
+    ...(isAdmin ? [{ id: "admin", label: "Admin", icon: Shield }] : []),
   ];
 
-  const xpPercentage = user ? (user.xp / 3000) * 100 : 0; // TODO: Use dynamic max XP
+  const progress = user ? levelProgress(user.xp, systemSettings?.levelCurve) : null;
 
   return (
     <>
@@ -48,16 +57,14 @@ export function Navigation({ currentTab, onTabChange, user }: NavigationProps) {
           
           {/* Controls */}
           <div className="flex items-center space-x-3">
-            <div className="flex items-center space-x-2">
-              <span className="text-sm text-muted-foreground">Admin</span>
-              <Switch
-                checked={isAdminMode}
-                onCheckedChange={toggleAdminMode}
-                data-testid="switch-admin-mode"
-              />
-            </div>
             <ThemeToggle />
-            <Button variant="ghost" size="sm" className="p-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="p-2"
+              onClick={() => setIsBackupOpen(true)}
+              data-testid="button-settings"
+            >
               <Settings className="w-5 h-5" />
             </Button>
           </div>
@@ -69,14 +76,16 @@ export function Navigation({ currentTab, onTabChange, user }: NavigationProps) {
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm font-medium">XP Progress</span>
               <span className="text-sm text-muted-foreground" data-testid="text-xp-progress">
-                {user.xp.toLocaleString()} / 3,000
+                {progress?.levelSpanXp == null
+                  ? "Max level"
+                  : `${progress.currentLevelXp.toLocaleString()} / ${progress.levelSpanXp.toLocaleString()}`}
               </span>
             </div>
             <div className="w-full bg-muted rounded-full h-2">
               <motion.div 
                 className="bg-primary h-2 rounded-full"
                 initial={{ width: 0 }}
-                animate={{ width: `${xpPercentage}%` }}
+                animate={{ width: `${progress?.percent ?? 0}%` }}
                 transition={{ duration: 1, ease: "easeOut" }}
               />
             </div>
@@ -110,6 +119,8 @@ export function Navigation({ currentTab, onTabChange, user }: NavigationProps) {
           })}
         </div>
       </nav>
+
+      <BackupModal isOpen={isBackupOpen} onClose={() => setIsBackupOpen(false)} />
     </>
   );
 }
@@ -1,5 +1,5 @@
 import { useEffect } from "react";
-import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { onlineManager, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -8,7 +8,8 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useApiMutation } from "@/lib/api";
+import { applyServerErrors } from "@/lib/form-errors";
 import { Note, insertNoteSchema, InsertNote } from "@shared/schema";
 import { z } from "zod";
 import { FileText, Save, X } from "lucide-react";
@@ -54,11 +55,7 @@ export function NoteEditor({ isOpen, onClose, note }: NoteEditorProps) {
     }
   }, [note, form]);
 
-  const createMutation = useMutation({
-    mutationFn: async (data: NoteFormData) => {
-      const response = await apiRequest("POST", "/api/notes", data);
-      return response.json();
-    },
+  const createMutation = useApiMutation("createNote", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
       toast({
@@ -67,7 +64,10 @@ export function NoteEditor({ isOpen, onClose, note }: NoteEditorProps) {
       });
       onClose();
     },
-    onError: () => {
+    onError: (error) => {
+      if (applyServerErrors(form, error)) {
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to create note",
@@ -76,11 +76,7 @@ export function NoteEditor({ isOpen, onClose, note }: NoteEditorProps) {
     },
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: NoteFormData) => {
-      const response = await apiRequest("PATCH", `/api/notes/${note!.id}`, data);
-      return response.json();
-    },
+  const updateMutation = useApiMutation("updateNote", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
       toast({
@@ -89,7 +85,10 @@ export function NoteEditor({ isOpen, onClose, note }: NoteEditorProps) {
       });
       onClose();
     },
-    onError: () => {
+    onError: (error) => {
+      if (applyServerErrors(form, error)) {
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update note",
@@ -100,9 +99,18 @@ export function NoteEditor({ isOpen, onClose, note }: NoteEditorProps) {
 
   const onSubmit = (data: NoteFormData) => {
     if (note) {
-      updateMutation.mutate(data);
+      updateMutation.mutate({ params: { id: note!.id }, body: data });
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate({ body: data });
+    }
+
+    // Queued in the outbox; no point keeping the editor open until it syncs
+    if (!onlineManager.isOnline()) {
+      toast({
+        title: "Saved offline",
+        description: "The note will sync when you're back online",
+      });
+      onClose();
     }
   };
 
@@ -1,11 +1,11 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useApiMutation, useApiQuery } from "@/lib/api";
 import { Note } from "@shared/schema";
 import { NoteEditor } from "./note-editor.tsx";
 import { 
@@ -20,15 +20,9 @@ export function Notes() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: notes = [], isLoading } = useQuery<Note[]>({
-    queryKey: ["/api/notes"],
-  });
+  const { data: notes = [], isLoading } = useApiQuery("listNotes");
 
-  const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const response = await apiRequest("DELETE", `/api/notes/${id}`);
-      return response.json();
-    },
+  const deleteMutation = useApiMutation("deleteNote", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
       toast({
@@ -63,7 +57,7 @@ export function Notes() {
 
   const handleDeleteNote = (id: string) => {
     if (confirm("Are you sure you want to delete this note?")) {
-      deleteMutation.mutate(id);
+      deleteMutation.mutate({ params: { id } });
     }
   };
 
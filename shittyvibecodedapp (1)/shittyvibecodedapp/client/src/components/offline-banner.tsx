@@ -0,0 +1,45 @@
+import { useSyncExternalStore } from "react";
+import { onlineManager, useMutationState } from "@tanstack/react-query";
+import { AnimatePresence, motion } from "framer-motion";
+import { isOutboxMutation } from "@/lib/outbox";
+import { CloudOff, RefreshCw } from "lucide-react";
+
+// Shows when the app is offline or still has queued changes to send
+export function OfflineBanner() {
+  const isOnline = useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline(),
+  );
+  const queued = useMutationState({
+    filters: { status: "pending", predicate: isOutboxMutation },
+  }).length;
+
+  const visible = !isOnline || queued > 0;
+  const changes = `${queued} change${queued === 1 ? "" : "s"}`;
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+          className="fixed top-0 inset-x-0 z-50 flex items-center justify-center gap-2 bg-muted px-4 py-2 text-sm text-muted-foreground"
+          data-testid="banner-offline"
+        >
+          {isOnline ? (
+            <>
+              <RefreshCw className="w-4 h-4 animate-spin" />
+              Syncing {changes}…
+            </>
+          ) : (
+            <>
+              <CloudOff className="w-4 h-4" />
+              {queued > 0 ? `Offline — ${changes} will sync when you reconnect` : "Offline — showing saved data"}
+            </>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
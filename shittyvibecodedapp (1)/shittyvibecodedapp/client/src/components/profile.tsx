@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,51 +7,37 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { Profile as ProfileType, SystemSettings } from "@shared/schema";
+import { useAdmin } from "@/hooks/use-admin";
+import { apiQueryKey, useApiMutation, useApiQuery } from "@/lib/api";
+import { attributeColor, attributeIcon } from "@/lib/attributes";
+import { levelProgress } from "@shared/leveling";
+import { activeAttributes, attributeCap } from "@shared/attributes";
+import type { AttributeDefinition } from "@shared/schema";
 import { RadarChart } from "./radar-chart";
-import { Brain, Zap, Shield, Heart, Star, Plus, Minus, Award, TrendingUp, Settings, Crown } from "lucide-react";
-
-const ATTRIBUTE_ICONS = {
-  physique: Shield,
-  mental: Brain,
-  success: Star,
-  social: Heart,
-  skills: Zap,
-};
-
-const ATTRIBUTE_COLORS = {
-  physique: "text-green-400",
-  mental: "text-blue-400",
-  success: "text-yellow-400",
-  social: "text-red-400",
-  skills: "text-purple-400",
-};
+import { AttributesModal } from "./attributes-modal";
+import { RecentAchievements } from "./recent-achievements";
+import { StreaksCard } from "./streaks-card";
+import { Plus, Minus, Settings, Crown, RotateCcw, SlidersHorizontal } from "lucide-react";
 
 export function Profile() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { isAdmin } = useAdmin();
 
-  const { data: profile, isLoading } = useQuery<ProfileType>({
-    queryKey: ["/api/profile"],
-  });
+  const { data: profile, isLoading } = useApiQuery("getProfile");
 
-  const { data: systemSettings } = useQuery<SystemSettings>({
-    queryKey: ["/api/system-settings"],
-  });
+  const { data: systemSettings } = useApiQuery("getSystemSettings");
 
-  const [localAttributes, setLocalAttributes] = useState(profile?.attributes || {
-    physique: 10,
-    mental: 10,
-    success: 10,
-    social: 10,
-    skills: 10,
-  });
+  const { data: attributeDefinitions = [] } = useApiQuery("listAttributes");
+
+  const [localAttributes, setLocalAttributes] = useState<Record<string, number>>(profile?.attributes || {});
+  const [isAttributesModalOpen, setIsAttributesModalOpen] = useState(false);
 
   const [localAvailablePoints, setLocalAvailablePoints] = useState(profile?.availablePoints || 0);
   const [adminMode, setAdminMode] = useState(false);
   const [adminPointsInput, setAdminPointsInput] = useState('');
   const [adminMaxXpInput, setAdminMaxXpInput] = useState('');
+  const [adminFreezeTokensInput, setAdminFreezeTokensInput] = useState('');
 
   // Update local state when profile data changes
   useEffect(() => {
@@ -61,32 +47,39 @@ export function Profile() {
     }
   }, [profile]);
 
-  const updateAttributesMutation = useMutation({
-    mutationFn: async (data: { attributes: typeof localAttributes; availablePoints: number }) => {
-      const response = await apiRequest("PATCH", "/api/profile/attributes", data);
-      return response.json();
+  const allocateMutation = useApiMutation("allocateAttributes", {
+    onSuccess: (updatedProfile) => {
+      queryClient.setQueryData(apiQueryKey("getProfile"), updatedProfile);
     },
-    onSuccess: () => {
+    onError: () => {
+      // Fall back to the server's numbers
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
       toast({
-        title: "Success",
-        description: "Attributes updated successfully",
+        title: "Error",
+        description: "Failed to update attributes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const respecMutation = useApiMutation("respecAttributes", {
+    onSuccess: (updatedProfile) => {
+      queryClient.setQueryData(apiQueryKey("getProfile"), updatedProfile);
+      toast({
+        title: "Attributes Reset",
+        description: "All allocated points have been refunded.",
       });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to update attributes",
+        description: "Failed to reset attributes",
         variant: "destructive",
       });
     },
   });
 
-  const adminUpdatePointsMutation = useMutation({
-    mutationFn: async (points: number) => {
-      const response = await apiRequest("PATCH", "/api/profile/admin-points", { availablePoints: points });
-      return response.json();
-    },
+  const adminUpdatePointsMutation = useApiMutation("setAvailablePoints", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
       toast({
@@ -104,11 +97,7 @@ export function Profile() {
     },
   });
 
-  const adminUpdateMaxXpMutation = useMutation({
-    mutationFn: async (maxXp: number) => {
-      const response = await apiRequest("PATCH", "/api/system-settings/max-xp", { maxXp });
-      return response.json();
-    },
+  const adminUpdateMaxXpMutation = useApiMutation("updateSystemSettings", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/system-settings"] });
       toast({
@@ -126,6 +115,25 @@ export function Profile() {
     },
   });
 
+  const adminUpdateFreezeTokensMutation = useApiMutation("setFreezeTokens", {
+    onSuccess: (updatedProfile) => {
+      queryClient.setQueryData(apiQueryKey("getProfile"), updatedProfile);
+      queryClient.invalidateQueries({ queryKey: ["/api/streaks"] });
+      toast({
+        title: "Success",
+        description: "Freeze tokens updated successfully",
+      });
+      setAdminFreezeTokensInput('');
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update freeze tokens",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleAdminPointsUpdate = () => {
     const points = parseInt(adminPointsInput);
     if (isNaN(points) || points < 0) {
@@ -136,7 +144,7 @@ export function Profile() {
       });
       return;
     }
-    adminUpdatePointsMutation.mutate(points);
+    adminUpdatePointsMutation.mutate({ body: { availablePoints: points } });
   };
 
   const handleAdminMaxXpUpdate = () => {
@@ -149,11 +157,35 @@ export function Profile() {
       });
       return;
     }
-    adminUpdateMaxXpMutation.mutate(maxXp);
+    adminUpdateMaxXpMutation.mutate({ body: { maxXp } });
   };
 
-  const handleAttributeChange = (attribute: string, delta: number) => {
-    const newValue = localAttributes[attribute as keyof typeof localAttributes] + delta;
+  const handleAdminFreezeTokensUpdate = () => {
+    const freezeTokens = parseInt(adminFreezeTokensInput);
+    if (isNaN(freezeTokens) || freezeTokens < 0) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter a valid number of freeze tokens (0 or greater)",
+        variant: "destructive",
+      });
+      return;
+    }
+    adminUpdateFreezeTokensMutation.mutate({ body: { freezeTokens } });
+  };
+
+  const maxAttributePoints = systemSettings?.maxAttributePoints || 100;
+  const attributes = useMemo(() => activeAttributes(attributeDefinitions), [attributeDefinitions]);
+
+  // One radar axis per active attribute, scaled to its cap
+  const radarAxes = useMemo(() => attributes.map((attribute) => ({
+    label: attribute.label,
+    value: localAttributes[attribute.key] || 0,
+    max: attributeCap(attribute, maxAttributePoints),
+  })), [attributes, localAttributes, maxAttributePoints]);
+
+  const handleAttributeChange = (definition: AttributeDefinition, delta: number) => {
+    const attribute = definition.key;
+    const newValue = (localAttributes[attribute] || 0) + delta;
     
     if (delta > 0 && localAvailablePoints <= 0) {
       toast({
@@ -164,24 +196,24 @@ export function Profile() {
       return;
     }
 
-    if (newValue < 0 || newValue > 100) {
+    if (newValue < 0 || (delta > 0 && newValue > attributeCap(definition, maxAttributePoints))) {
       return;
     }
 
+    // Show the change right away; the server response replaces it
     setLocalAttributes(prev => ({
       ...prev,
       [attribute]: newValue,
     }));
-
     setLocalAvailablePoints(prev => prev - delta);
 
-    // Auto-save after a short delay
-    setTimeout(() => {
-      updateAttributesMutation.mutate({
-        attributes: { ...localAttributes, [attribute]: newValue },
-        availablePoints: localAvailablePoints - delta,
-      });
-    }, 500);
+    allocateMutation.mutate({ body: { deltas: { [attribute]: delta } } });
+  };
+
+  const handleRespec = () => {
+    if (confirm("Refund all allocated attribute points?")) {
+      respecMutation.mutate();
+    }
   };
 
   if (isLoading) {
@@ -201,27 +233,8 @@ export function Profile() {
     );
   }
 
-  // Calculate XP requirements: level 1: 0-800, level 2: 800-1600, etc.
-  const calculateXPForLevel = (level: number): number => {
-    return level * 800;
-  };
-
-  const calculateLevelFromXP = (xp: number): number => {
-    return Math.floor(xp / 800) + 1;
-  };
-
-  const getCurrentLevelXP = (xp: number): number => {
-    const currentLevel = calculateLevelFromXP(xp);
-    return xp - ((currentLevel - 1) * 800);
-  };
-
-  const getNextLevelXP = (): number => {
-    return 800; // Each level requires 800 XP
-  };
-
-  const currentLevelXP = getCurrentLevelXP(profile.xp || 0);
-  const nextLevelXP = getNextLevelXP();
-  const xpPercentage = (currentLevelXP / nextLevelXP) * 100;
+  // Level requirements come from the configured level curve
+  const { level, currentLevelXp, levelSpanXp, percent: xpPercentage } = levelProgress(profile.xp || 0, systemSettings?.levelCurve);
 
   return (
     <motion.div
@@ -245,18 +258,21 @@ export function Profile() {
               </h2>
               <div className="flex items-center space-x-4 mt-2">
                 <span className="text-sm bg-primary/10 text-primary px-2 py-1 rounded-lg">
-                  Level {calculateLevelFromXP(profile.xp || 0)}
+                  Level {level}
                 </span>
                 <span className="text-sm text-muted-foreground" data-testid="text-user-xp">
                   {(profile.xp || 0).toLocaleString()} XP
                 </span>
+                <span className="text-sm text-yellow-600 dark:text-yellow-400" data-testid="text-user-gold">
+                  {(profile.gold || 0).toLocaleString()} gold
+                </span>
               </div>
               
               {/* XP Progress Bar */}
               <div className="mt-3">
                 <div className="flex justify-between text-xs text-muted-foreground mb-1">
                   <span>Level Progress</span>
-                  <span>{currentLevelXP}/{nextLevelXP} XP</span>
+                  <span>{levelSpanXp === null ? "Max level" : `${currentLevelXp}/${levelSpanXp} XP`}</span>
                 </div>
                 <div className="w-full bg-muted/30 rounded-full h-2">
                   <div 
@@ -287,24 +303,37 @@ export function Profile() {
 
           {/* Radar Chart */}
           <div className="mt-8">
-            <h3 className="text-lg font-semibold mb-4 text-center">Skill Attributes</h3>
-            <RadarChart attributes={localAttributes} />
+            <div className="relative mb-4">
+              <h3 className="text-lg font-semibold text-center">Skill Attributes</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute right-0 top-0 p-2"
+                onClick={() => setIsAttributesModalOpen(true)}
+                data-testid="button-manage-attributes"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </Button>
+            </div>
+            <RadarChart axes={radarAxes} />
             
             {/* Attribute Allocator */}
             <div className="mt-6 space-y-4">
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center space-x-3">
                   <span>Available Points:</span>
-                  <div className="flex items-center space-x-2">
-                    <Crown className="w-4 h-4 text-yellow-500" />
-                    <Label htmlFor="admin-mode" className="text-xs font-medium">Admin Mode</Label>
-                    <Switch
-                      id="admin-mode"
-                      checked={adminMode}
-                      onCheckedChange={setAdminMode}
-                      className="scale-75"
-                    />
-                  </div>
+                  {isAdmin && (
+                    <div className="flex items-center space-x-2">
+                      <Crown className="w-4 h-4 text-yellow-500" />
+                      <Label htmlFor="admin-mode" className="text-xs font-medium">Admin Mode</Label>
+                      <Switch
+                        id="admin-mode"
+                        checked={adminMode}
+                        onCheckedChange={setAdminMode}
+                        className="scale-75"
+                      />
+                    </div>
+                  )}
                 </div>
                 <span 
                   className="bg-primary/10 text-primary px-2 py-1 rounded-lg" 
@@ -315,7 +344,7 @@ export function Profile() {
               </div>
               
               {/* Admin Mode Panel */}
-              {adminMode && (
+              {isAdmin && adminMode && (
                 <motion.div
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: "auto" }}
@@ -370,6 +399,28 @@ export function Profile() {
                       {adminUpdateMaxXpMutation.isPending ? "Updating..." : "Update"}
                     </Button>
                   </div>
+                  <div className="flex items-center space-x-3 mt-4 pt-3 border-t border-yellow-500/20">
+                    <div className="flex-1">
+                      <Label htmlFor="admin-freeze-tokens" className="text-xs text-muted-foreground">Set Streak Freeze Tokens</Label>
+                      <Input
+                        id="admin-freeze-tokens"
+                        type="number"
+                        min="0"
+                        placeholder={`Currently ${profile?.freezeTokens ?? 0}`}
+                        value={adminFreezeTokensInput}
+                        onChange={(e) => setAdminFreezeTokensInput(e.target.value)}
+                        className="mt-1"
+                      />
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={handleAdminFreezeTokensUpdate}
+                      disabled={adminUpdateFreezeTokensMutation.isPending || !adminFreezeTokensInput}
+                      className="bg-sky-600 hover:bg-sky-700 mt-6"
+                    >
+                      {adminUpdateFreezeTokensMutation.isPending ? "Updating..." : "Update"}
+                    </Button>
+                  </div>
                   <p className="text-xs text-muted-foreground mt-2">
                     🛠️ Admin mode allows you to modify attribute points and XP progress settings.
                   </p>
@@ -377,9 +428,11 @@ export function Profile() {
               )}
               
               <div className="grid grid-cols-1 gap-3">
-                {Object.entries(localAttributes).map(([attribute, value]) => {
-                  const IconComponent = ATTRIBUTE_ICONS[attribute as keyof typeof ATTRIBUTE_ICONS];
-                  const colorClass = ATTRIBUTE_COLORS[attribute as keyof typeof ATTRIBUTE_COLORS];
+                {attributes.map((definition) => {
+                  const attribute = definition.key;
+                  const value = localAttributes[attribute] || 0;
+                  const IconComponent = attributeIcon(definition);
+                  const colorClass = attributeColor(definition).text;
                   
                   return (
                     <div 
@@ -389,14 +442,14 @@ export function Profile() {
                     >
                       <div className="flex items-center space-x-3">
                         <IconComponent className={`w-5 h-5 ${colorClass}`} />
-                        <span className="capitalize">{attribute}</span>
+                        <span>{definition.label}</span>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Button
                           variant="outline"
                           size="sm"
                           className="w-8 h-8 p-0 bg-destructive/10 hover:bg-destructive/20 text-destructive border-destructive/20"
-                          onClick={() => handleAttributeChange(attribute, -1)}
+                          onClick={() => handleAttributeChange(definition, -1)}
                           disabled={value <= 0}
                           data-testid={`button-decrease-${attribute}`}
                         >
@@ -412,8 +465,8 @@ export function Profile() {
                           variant="outline"
                           size="sm"
                           className="w-8 h-8 p-0 bg-primary/10 hover:bg-primary/20 text-primary border-primary/20"
-                          onClick={() => handleAttributeChange(attribute, 1)}
-                          disabled={localAvailablePoints <= 0 || value >= 100}
+                          onClick={() => handleAttributeChange(definition, 1)}
+                          disabled={localAvailablePoints <= 0 || value >= attributeCap(definition, maxAttributePoints)}
                           data-testid={`button-increase-${attribute}`}
                         >
                           <Plus className="w-4 h-4" />
@@ -423,52 +476,28 @@ export function Profile() {
                   );
                 })}
               </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={handleRespec}
+                disabled={respecMutation.isPending}
+                data-testid="button-respec"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Respec
+              </Button>
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {/* Recent Achievements */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Recent Achievements</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            <motion.div
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ duration: 0.3 }}
-              className="flex items-center space-x-3 p-3 bg-muted/30 rounded-lg"
-            >
-              <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
-                <Award className="w-5 h-5 text-primary" />
-              </div>
-              <div className="flex-1">
-                <p className="font-medium">Quest Master</p>
-                <p className="text-sm text-muted-foreground">Completed 50 quests</p>
-              </div>
-              <span className="text-xs text-muted-foreground">2h ago</span>
-            </motion.div>
-            
-            <motion.div
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ duration: 0.3, delay: 0.1 }}
-              className="flex items-center space-x-3 p-3 bg-muted/30 rounded-lg"
-            >
-              <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
-                <TrendingUp className="w-5 h-5 text-primary" />
-              </div>
-              <div className="flex-1">
-                <p className="font-medium">Level Up!</p>
-                <p className="text-sm text-muted-foreground">Reached level {profile.level}</p>
-              </div>
-              <span className="text-xs text-muted-foreground">1d ago</span>
-            </motion.div>
-          </div>
-        </CardContent>
-      </Card>
+      <StreaksCard />
+
+      <RecentAchievements />
+
+      <AttributesModal isOpen={isAttributesModalOpen} onClose={() => setIsAttributesModalOpen(false)} />
     </motion.div>
   );
 }
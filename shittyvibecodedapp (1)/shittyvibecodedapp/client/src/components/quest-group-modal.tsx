@@ -1,13 +1,13 @@
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useApiMutation } from "@/lib/api";
 import { QuestGroup } from "@shared/schema";
 import { 
   Calendar, Target, Star, Trophy, Zap, Heart, Shield, Brain, 
@@ -54,11 +54,7 @@ export function QuestGroupModal({ isOpen, onClose, group }: QuestGroupModalProps
     }
   }, [group]);
 
-  const createMutation = useMutation({
-    mutationFn: async (data: { name: string; description: string; icon: string }) => {
-      const response = await apiRequest("POST", "/api/quest-groups", data);
-      return response.json();
-    },
+  const createMutation = useApiMutation("createQuestGroup", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quest-groups"] });
       toast({
@@ -76,11 +72,7 @@ export function QuestGroupModal({ isOpen, onClose, group }: QuestGroupModalProps
     },
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: { name: string; description: string; icon: string }) => {
-      const response = await apiRequest("PATCH", `/api/quest-groups/${group!.id}`, data);
-      return response.json();
-    },
+  const updateMutation = useApiMutation("updateQuestGroup", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quest-groups"] });
       toast({
@@ -117,9 +109,9 @@ export function QuestGroupModal({ isOpen, onClose, group }: QuestGroupModalProps
     };
 
     if (group) {
-      updateMutation.mutate(data);
+      updateMutation.mutate({ params: { id: group!.id }, body: data });
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate({ body: data });
     }
   };
 
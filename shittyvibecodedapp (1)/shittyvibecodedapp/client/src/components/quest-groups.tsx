@@ -1,16 +1,18 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { QuestGroup, Quest, QuestProgress } from "@shared/schema";
+import { useApiMutation, useApiQuery } from "@/lib/api";
+import { attributeLabel } from "@/lib/attributes";
+import { QuestGroup, Quest } from "@shared/schema";
 import { QuestGroupModal } from "./quest-group-modal";
 import { QuestModal } from "./quest-modal";
 import { 
   Calendar, Target, Star, Trophy, Zap, Heart, Shield, Brain, 
-  Rocket, Gem, Flame, Compass, Plus, Edit2, Trash2, Undo 
+  Rocket, Gem, Flame, Compass, Plus, Minus, Edit2, Trash2, Undo 
 } from "lucide-react";
 
 const ICON_MAP = {
@@ -37,23 +39,17 @@ export function QuestGroups() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: questGroups = [] } = useQuery<QuestGroup[]>({
-    queryKey: ["/api/quest-groups"],
-  });
+  const { data: questGroups = [] } = useApiQuery("listQuestGroups");
 
-  const { data: quests = [] } = useQuery<Quest[]>({
-    queryKey: ["/api/quests"],
-  });
+  const { data: quests = [] } = useApiQuery("listQuests");
 
-  const { data: questProgress = [] } = useQuery<QuestProgress[]>({
-    queryKey: ["/api/quest-progress"],
-  });
+  const { data: questProgress = [] } = useApiQuery("listQuestProgress");
 
-  const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const response = await apiRequest("DELETE", `/api/quest-groups/${id}`);
-      return response.json();
-    },
+  const { data: streaks } = useApiQuery("getStreaks");
+
+  const { data: attributes = [] } = useApiQuery("listAttributes");
+
+  const deleteMutation = useApiMutation("deleteQuestGroup", {
     onSuccess: () => {
       // Invalidate all related caches after group deletion
       queryClient.invalidateQueries({ queryKey: ["/api/quest-groups"] });
@@ -73,11 +69,7 @@ export function QuestGroups() {
     },
   });
 
-  const deleteQuestMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const response = await apiRequest("DELETE", `/api/quests/${id}`);
-      return response.json();
-    },
+  const deleteQuestMutation = useApiMutation("deleteQuest", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
@@ -95,16 +87,13 @@ export function QuestGroups() {
     },
   });
 
-  const completeQuestMutation = useMutation({
-    mutationFn: async (questId: string) => {
-      const response = await apiRequest("POST", `/api/quests/${questId}/complete`);
-      return response.json();
-    },
+  const completeQuestMutation = useApiMutation("completeQuest", {
     onSuccess: () => {
       // Invalidate quest progress to show completion status
       queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
       // Invalidate profile to show updated XP from quest rewards
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/streaks"] });
       toast({
         title: "Quest Completed!",
         description: "You've earned XP and attribute points for completing this quest.",
@@ -119,16 +108,49 @@ export function QuestGroups() {
     },
   });
 
-  const cancelQuestMutation = useMutation({
-    mutationFn: async (questId: string) => {
-      const response = await apiRequest("POST", `/api/quests/${questId}/cancel`);
-      return response.json();
+  const addProgressMutation = useApiMutation("addQuestProgress", {
+    onSuccess: (progress) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
+      if (progress.completed) {
+        queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/streaks"] });
+        toast({
+          title: "Quest Completed!",
+          description: "You've earned XP and attribute points for completing this quest.",
+        });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to log quest progress",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const undoProgressMutation = useApiMutation("undoQuestProgressStep", {
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/streaks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to undo last step",
+        variant: "destructive",
+      });
     },
+  });
+
+  const cancelQuestMutation = useApiMutation("cancelQuestCompletion", {
     onSuccess: () => {
       // Invalidate quest progress to show cancellation status
       queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
       // Invalidate profile to show rollback of XP and attribute points
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/streaks"] });
       toast({
         title: "Quest Completion Cancelled",
         description: "XP and attribute points have been rolled back.",
@@ -155,7 +177,7 @@ export function QuestGroups() {
 
   const handleDeleteGroup = (group: QuestGroup) => {
     if (confirm(`Are you sure you want to delete "${group.name}"?`)) {
-      deleteMutation.mutate(group.id);
+      deleteMutation.mutate({ params: { id: group.id } });
     }
   };
 
@@ -173,7 +195,7 @@ export function QuestGroups() {
 
   const handleDeleteQuest = (quest: Quest) => {
     if (confirm(`Are you sure you want to delete "${quest.title}"?`)) {
-      deleteQuestMutation.mutate(quest.id);
+      deleteQuestMutation.mutate({ params: { id: quest.id } });
     }
   };
 
@@ -181,8 +203,14 @@ export function QuestGroups() {
     return quests.filter(quest => quest.groupId === groupId);
   };
 
+  // Only recurring quests have a streak
+  const getQuestStreak = (questId: string) => {
+    return streaks?.quests.find(streak => streak.questId === questId);
+  };
+
+  // Recurring quests keep one row per period; the newest row is the current one
   const getQuestProgress = (questId: string) => {
-    return questProgress.find(qp => qp.questId === questId);
+    return questProgress.findLast(qp => qp.questId === questId);
   };
 
   return (
@@ -276,6 +304,10 @@ export function QuestGroups() {
                       const currentProgress = getQuestProgress(quest.id);
                       const progress = currentProgress?.progress || 0;
                       const isCompleted = currentProgress?.completed || false;
+                      const isFailed = currentProgress?.failed || false;
+                      const maxProgress = quest.maxProgress || 1;
+                      const isMultiStep = maxProgress > 1;
+                      const streak = getQuestStreak(quest.id);
 
                       return (
                         <div
@@ -288,21 +320,45 @@ export function QuestGroups() {
                               className={`w-2 h-2 rounded-full ${
                                 isCompleted 
                                   ? "bg-green-500" 
+                                  : isFailed
+                                    ? "bg-destructive"
                                   : progress > 0 
                                     ? "bg-primary animate-radar-pulse"
                                     : "bg-muted-foreground"
                               }`}
                             />
                             <div>
-                              <p className="font-medium" data-testid={`text-quest-title-${quest.id}`}>
-                                {quest.title}
-                              </p>
+                              <div className="flex items-center space-x-2">
+                                <p className="font-medium" data-testid={`text-quest-title-${quest.id}`}>
+                                  {quest.title}
+                                </p>
+                                {streak && streak.current > 0 && (
+                                  <span
+                                    className="flex items-center text-xs font-medium text-orange-500"
+                                    title={`Best streak: ${streak.best}`}
+                                    data-testid={`text-quest-streak-${quest.id}`}
+                                  >
+                                    <Flame className="w-3 h-3 mr-0.5" />
+                                    {streak.current}
+                                    {streak.multiplier > 1 && <span className="ml-1">×{streak.multiplier}</span>}
+                                  </span>
+                                )}
+                              </div>
                               <p className="text-sm text-muted-foreground">
                                 {isCompleted 
                                   ? "Completed ✓" 
-                                  : `Progress: ${progress}/${quest.maxProgress}`
+                                  : isFailed
+                                    ? "Failed ✗ Deadline passed"
+                                    : `Progress: ${progress}/${maxProgress}`
                                 }
                               </p>
+                              {isMultiStep && !isCompleted && (
+                                <Progress
+                                  value={(progress / maxProgress) * 100}
+                                  className="h-1.5 mt-2 w-32"
+                                  data-testid={`progress-quest-${quest.id}`}
+                                />
+                              )}
                             </div>
                           </div>
                           <div className="flex items-center space-x-3">
@@ -329,18 +385,44 @@ export function QuestGroups() {
                                   +{quest.xpReward} XP
                                 </p>
                                 <p className="text-xs text-muted-foreground">
-                                  +{quest.attributePointReward || 0} {quest.targetAttribute ? quest.targetAttribute : "attribute"} pts
+                                  +{quest.attributePointReward || 0} {attributeLabel(attributes, quest.targetAttribute)} pts
                                 </p>
+                                {(quest.coinReward || 0) > 0 && (
+                                  <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                                    +{quest.coinReward} gold
+                                  </p>
+                                )}
                                 {quest.difficulty && (
                                   <p className="text-xs text-muted-foreground">
                                     Rank {quest.difficulty}
                                   </p>
                                 )}
                               </div>
-                              {!isCompleted ? (
+                              {isFailed ? null : !isCompleted && isMultiStep ? (
+                                <div className="flex items-center space-x-1">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => undoProgressMutation.mutate({ params: { questId: quest.id } })}
+                                    disabled={progress <= 0 || undoProgressMutation.isPending}
+                                    data-testid={`button-undo-step-${quest.id}`}
+                                  >
+                                    <Minus className="w-3 h-3" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    onClick={() => addProgressMutation.mutate({ params: { questId: quest.id }, body: { delta: 1 } })}
+                                    disabled={addProgressMutation.isPending && !addProgressMutation.isPaused}
+                                    data-testid={`button-add-step-${quest.id}`}
+                                  >
+                                    <Plus className="w-3 h-3 mr-1" />
+                                    Step
+                                  </Button>
+                                </div>
+                              ) : !isCompleted ? (
                                 <Button
                                   size="sm"
-                                  onClick={() => completeQuestMutation.mutate(quest.id)}
+                                  onClick={() => completeQuestMutation.mutate({ params: { questId: quest.id } })}
                                   disabled={completeQuestMutation.isPending}
                                   data-testid={`button-complete-quest-${quest.id}`}
                                 >
@@ -352,7 +434,7 @@ export function QuestGroups() {
                                   variant="outline"
                                   onClick={() => {
                                     if (confirm(`Are you sure you want to cancel completion of "${quest.title}"? This will rollback your XP and attribute points.`)) {
-                                      cancelQuestMutation.mutate(quest.id);
+                                      cancelQuestMutation.mutate({ params: { questId: quest.id } });
                                     }
                                   }}
                                   disabled={cancelQuestMutation.isPending}
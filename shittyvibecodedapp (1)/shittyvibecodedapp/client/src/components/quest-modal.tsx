@@ -1,5 +1,5 @@
 import { useEffect } from "react";
-import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -10,8 +10,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { Quest, QuestGroup, insertQuestSchema, InsertQuest } from "@shared/schema";
+import { useDayClock } from "@/hooks/use-day-clock";
+import { useApiMutation, useApiQuery } from "@/lib/api";
+import { applyServerErrors } from "@/lib/form-errors";
+import { Quest, insertQuestSchema, InsertQuest } from "@shared/schema";
+import { activeAttributes } from "@shared/attributes";
+import { localDateTime, zonedDateTime } from "@shared/timezone";
 import { z } from "zod";
 
 interface QuestModalProps {
@@ -25,15 +29,6 @@ interface QuestModalProps {
 const difficultyRanks = ['E', 'D', 'C', 'B', 'A', 'S', 'SS', 'SSS'] as const;
 type DifficultyRank = typeof difficultyRanks[number];
 
-// Define attribute options
-const attributeOptions = [
-  { value: 'physique', label: 'Physique' },
-  { value: 'mental', label: 'Mental' },
-  { value: 'success', label: 'Success' },
-  { value: 'social', label: 'Social' },
-  { value: 'skills', label: 'Skills' },
-] as const;
-
 // Repetition frequency options
 const repetitionOptions = [
   { value: 'none', label: 'None' },
@@ -49,6 +44,7 @@ const questFormSchema = insertQuestSchema.extend({
   groupId: z.string().min(1, "Please select a quest group"),
   xpReward: z.number().min(0, "XP reward must be 0 or greater").max(10000, "XP reward must be less than 10,000"),
   attributePointReward: z.number().min(0, "Attribute point reward must be 0 or greater").max(100, "Attribute point reward must be less than 100"),
+  coinReward: z.number().min(0, "Gold reward must be 0 or greater").max(10000, "Gold reward must be less than 10,000"),
   targetAttribute: z.string().optional(),
   difficulty: z.enum(difficultyRanks),
   maxProgress: z.number().min(1, "Max progress must be at least 1").max(1000, "Max progress must be less than 1,000"),
@@ -67,10 +63,11 @@ type QuestFormData = z.infer<typeof questFormSchema>;
 export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { timezone } = useDayClock();
 
-  const { data: questGroups = [] } = useQuery<QuestGroup[]>({
-    queryKey: ["/api/quest-groups"],
-  });
+  const { data: questGroups = [] } = useApiQuery("listQuestGroups");
+
+  const { data: attributes = [] } = useApiQuery("listAttributes");
 
   const form = useForm<QuestFormData>({
     resolver: zodResolver(questFormSchema),
@@ -80,6 +77,7 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
       groupId: "",
       xpReward: 100,
       attributePointReward: 1,
+      coinReward: 0,
       targetAttribute: "none",
       difficulty: "E" as DifficultyRank,
       maxProgress: 1,
@@ -102,16 +100,17 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
         groupId: quest.groupId || "",
         xpReward: quest.xpReward || 100,
         attributePointReward: quest.attributePointReward || 1,
+        coinReward: quest.coinReward || 0,
         targetAttribute: quest.targetAttribute || "",
         difficulty: (quest.difficulty as DifficultyRank) || "E",
         maxProgress: quest.maxProgress || 1,
-        enableRecurring: false,
-        repetitionFrequency: "none",
-        enableDeadline: false,
-        deadline: "",
-        enablePenalty: false,
-        penaltyXP: 0,
-        penaltyAttributePoints: 0,
+        enableRecurring: quest.enableRecurring || false,
+        repetitionFrequency: (quest.repetitionFrequency as QuestFormData["repetitionFrequency"]) || "none",
+        enableDeadline: quest.enableDeadline || false,
+        deadline: quest.deadline ? localDateTime(new Date(quest.deadline), timezone) : "",
+        enablePenalty: quest.enablePenalty || false,
+        penaltyXP: quest.penaltyXP || 0,
+        penaltyAttributePoints: quest.penaltyAttributePoints || 0,
       });
     } else {
       form.reset({
@@ -120,6 +119,7 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
         groupId: defaultGroupId || "",
         xpReward: 100,
         attributePointReward: 1,
+        coinReward: 0,
         targetAttribute: "none",
         difficulty: "E" as DifficultyRank,
         maxProgress: 1,
@@ -132,13 +132,9 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
         penaltyAttributePoints: 0,
       });
     }
-  }, [quest, defaultGroupId, form]);
+  }, [quest, defaultGroupId, form, timezone]);
 
-  const createMutation = useMutation({
-    mutationFn: async (data: QuestFormData) => {
-      const response = await apiRequest("POST", "/api/quests", data);
-      return response.json();
-    },
+  const createMutation = useApiMutation("createQuest", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
@@ -150,6 +146,9 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
       onClose();
     },
     onError: (error: any) => {
+      if (applyServerErrors(form, error)) {
+        return;
+      }
       toast({
         title: "Error",
         description: error?.message || "Failed to create quest",
@@ -158,11 +157,7 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
     },
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: QuestFormData) => {
-      const response = await apiRequest("PATCH", `/api/quests/${quest!.id}`, data);
-      return response.json();
-    },
+  const updateMutation = useApiMutation("updateQuest", {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/quest-progress"] });
@@ -174,6 +169,9 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
       onClose();
     },
     onError: (error: any) => {
+      if (applyServerErrors(form, error)) {
+        return;
+      }
       toast({
         title: "Error",
         description: error?.message || "Failed to update quest",
@@ -183,10 +181,16 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
   });
 
   const onSubmit = (data: QuestFormData) => {
+    // The deadline is entered as wall-clock time in the user's time zone; send it as an absolute instant
+    const payload = {
+      ...data,
+      deadline: data.enableDeadline && data.deadline ? zonedDateTime(data.deadline, timezone).toISOString() : "",
+    };
+
     if (quest) {
-      updateMutation.mutate(data);
+      updateMutation.mutate({ params: { id: quest!.id }, body: payload });
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate({ body: payload });
     }
   };
 
@@ -356,9 +360,9 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="none">No specific attribute</SelectItem>
-                        {attributeOptions.map((option) => (
-                          <SelectItem key={option.value} value={option.value}>
-                            {option.label}
+                        {activeAttributes(attributes).map((attribute) => (
+                          <SelectItem key={attribute.key} value={attribute.key}>
+                            {attribute.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -369,6 +373,28 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="coinReward"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Gold Reward</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="10000"
+                      placeholder="0"
+                      data-testid="input-coin-reward"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="maxProgress"
@@ -484,6 +510,9 @@ export function QuestModal({ isOpen, onClose, quest, defaultGroupId }: QuestModa
                           {...field}
                         />
                       </FormControl>
+                      <div className="text-sm text-muted-foreground">
+                        Local time in {timezone}
+                      </div>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -1,18 +1,18 @@
 import { useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 
+// One axis per attribute, scaled to its own cap
+export interface RadarAxis {
+  label: string;
+  value: number;
+  max: number;
+}
+
 interface RadarChartProps {
-  attributes: {
-    physique: number;
-    mental: number;
-    success: number;
-    social: number;
-    skills: number;
-  };
-  maxValue?: number;
+  axes: RadarAxis[];
 }
 
-export function RadarChart({ attributes, maxValue = 20 }: RadarChartProps) {
+export function RadarChart({ axes }: RadarChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
 
@@ -27,17 +27,8 @@ export function RadarChart({ attributes, maxValue = 20 }: RadarChartProps) {
     const centerY = canvas.height / 2;
     const maxRadius = 120;
 
-    const attributeNames = ["Physique", "Mental", "Success", "Social", "Skills"];
-    const values = [
-      attributes.physique,
-      attributes.mental,
-      attributes.success,
-      attributes.social,
-      attributes.skills,
-    ];
-
     // Calculate angles for each attribute
-    const angles = attributeNames.map((_, i) => (i * 2 * Math.PI) / attributeNames.length - Math.PI / 2);
+    const angles = axes.map((_, i) => (i * 2 * Math.PI) / axes.length - Math.PI / 2);
 
     let animationFrame = 0;
     const maxFrames = 60;
@@ -79,14 +70,14 @@ export function RadarChart({ attributes, maxValue = 20 }: RadarChartProps) {
         ctx.textAlign = "center";
         const labelX = centerX + Math.cos(angle) * (maxRadius + 20);
         const labelY = centerY + Math.sin(angle) * (maxRadius + 20);
-        ctx.fillText(attributeNames[i], labelX, labelY + 4);
+        ctx.fillText(axes[i].label, labelX, labelY + 4);
       });
 
       // Draw attribute polygon with animation
       ctx.beginPath();
-      values.forEach((value, i) => {
+      axes.forEach(({ value, max }, i) => {
         const animatedValue = value * easeOut;
-        const normalizedValue = Math.min(animatedValue / maxValue, 1);
+        const normalizedValue = Math.min(animatedValue / Math.max(max, 1), 1);
         const radius = normalizedValue * maxRadius;
         const x = centerX + Math.cos(angles[i]) * radius;
         const y = centerY + Math.sin(angles[i]) * radius;
@@ -110,9 +101,9 @@ export function RadarChart({ attributes, maxValue = 20 }: RadarChartProps) {
 
       // Draw points
       ctx.fillStyle = "hsl(0, 0%, 20%)";
-      values.forEach((value, i) => {
+      axes.forEach(({ value, max }, i) => {
         const animatedValue = value * easeOut;
-        const normalizedValue = Math.min(animatedValue / maxValue, 1);
+        const normalizedValue = Math.min(animatedValue / Math.max(max, 1), 1);
         const radius = normalizedValue * maxRadius;
         const x = centerX + Math.cos(angles[i]) * radius;
         const y = centerY + Math.sin(angles[i]) * radius;
@@ -134,7 +125,7 @@ export function RadarChart({ attributes, maxValue = 20 }: RadarChartProps) {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [attributes, maxValue]);
+  }, [axes]);
 
   return (
     <motion.div
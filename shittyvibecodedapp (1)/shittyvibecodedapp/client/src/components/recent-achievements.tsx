@@ -0,0 +1,76 @@
+import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useApiQuery } from "@/lib/api";
+import { achievementIcon, lockedAchievements, unlockedAchievements } from "@/lib/achievements";
+import type { Achievement } from "@shared/achievements";
+
+const FEED_SIZE = 3;
+
+export function AchievementRow({ achievement, index }: { achievement: Achievement; index: number }) {
+  const Icon = achievementIcon(achievement);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ duration: 0.3, delay: index * 0.1 }}
+      className={`flex items-center space-x-3 p-3 rounded-lg ${achievement.unlockedAt ? "bg-muted/30" : "border border-dashed border-border"}`}
+      data-testid={`achievement-${achievement.id}`}
+    >
+      <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${achievement.unlockedAt ? "bg-primary/10" : "bg-muted"}`}>
+        <Icon className={`w-5 h-5 ${achievement.unlockedAt ? "text-primary" : "text-muted-foreground"}`} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium">{achievement.title}</p>
+        <p className="text-sm text-muted-foreground">{achievement.description}</p>
+        {!achievement.unlockedAt && (
+          <div className="flex items-center gap-2 mt-1">
+            <Progress value={(achievement.progress / achievement.target) * 100} className="h-1.5" />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {achievement.progress} / {achievement.target}
+            </span>
+          </div>
+        )}
+      </div>
+      {achievement.unlockedAt && (
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {formatDistanceToNow(new Date(achievement.unlockedAt), { addSuffix: true })}
+        </span>
+      )}
+    </motion.div>
+  );
+}
+
+// The latest unlocks, topped up with the achievements closest to unlocking
+export function RecentAchievements() {
+  const { data: achievements = [], isLoading } = useApiQuery("listAchievements");
+
+  const unlocked = unlockedAchievements(achievements);
+  const feed = [...unlocked, ...lockedAchievements(achievements)].slice(0, FEED_SIZE);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Recent Achievements</span>
+          {achievements.length > 0 && (
+            <span className="text-sm font-normal text-muted-foreground" data-testid="text-achievements-unlocked">
+              {unlocked.length} / {achievements.length}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {isLoading
+            ? [...Array(FEED_SIZE)].map((_, i) => <div key={i} className="h-16 bg-muted/30 rounded-lg animate-pulse" />)
+            : feed.map((achievement, index) => (
+              <AchievementRow key={achievement.id} achievement={achievement} index={index} />
+            ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
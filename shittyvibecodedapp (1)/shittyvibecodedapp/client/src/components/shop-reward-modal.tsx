@@ -0,0 +1,197 @@
+import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useApiMutation } from "@/lib/api";
+import { ShopReward } from "@shared/schema";
+import { Gift, Coffee, Gamepad2, Film, Pizza, Music, Book, Plane } from "lucide-react";
+
+interface ShopRewardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reward?: ShopReward | null;
+}
+
+export const REWARD_ICONS = [
+  { name: "gift", icon: Gift },
+  { name: "coffee", icon: Coffee },
+  { name: "gamepad", icon: Gamepad2 },
+  { name: "film", icon: Film },
+  { name: "pizza", icon: Pizza },
+  { name: "music", icon: Music },
+  { name: "book", icon: Book },
+  { name: "plane", icon: Plane },
+];
+
+export function rewardIcon(name: string | null | undefined) {
+  return REWARD_ICONS.find((icon) => icon.name === name)?.icon || Gift;
+}
+
+export function ShopRewardModal({ isOpen, onClose, reward }: ShopRewardModalProps) {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [cost, setCost] = useState(100);
+  const [selectedIcon, setSelectedIcon] = useState("gift");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setTitle(reward?.title || "");
+    setDescription(reward?.description || "");
+    setCost(reward?.cost ?? 100);
+    setSelectedIcon(reward?.icon || "gift");
+  }, [reward, isOpen]);
+
+  const onSaved = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/shop/rewards"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+    onClose();
+  };
+
+  const createMutation = useApiMutation("createShopReward", {
+    onSuccess: () => onSaved("Reward added to the shop"),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add reward",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useApiMutation("updateShopReward", {
+    onSuccess: () => onSaved("Reward updated successfully"),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update reward",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      toast({
+        title: "Error",
+        description: "Reward title is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const data = {
+      title: title.trim(),
+      description: description.trim(),
+      cost,
+      icon: selectedIcon,
+    };
+
+    if (reward) {
+      updateMutation.mutate({ params: { id: reward.id }, body: data });
+    } else {
+      createMutation.mutate({ body: data });
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">
+            {reward ? "Edit Reward" : "Add Reward"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="reward-title">Reward</Label>
+            <Input
+              id="reward-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. An hour of gaming"
+              data-testid="input-reward-title"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="reward-description">Description</Label>
+            <Textarea
+              id="reward-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Enter reward description"
+              rows={2}
+              data-testid="input-reward-description"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="reward-cost">Cost (gold)</Label>
+            <Input
+              id="reward-cost"
+              type="number"
+              min="0"
+              value={cost}
+              onChange={(e) => setCost(Math.max(0, parseInt(e.target.value) || 0))}
+              data-testid="input-reward-cost"
+            />
+          </div>
+
+          <div>
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-2 border border-border rounded-lg p-3">
+              {REWARD_ICONS.map((iconInfo) => {
+                const IconComponent = iconInfo.icon;
+                return (
+                  <button
+                    key={iconInfo.name}
+                    type="button"
+                    className={`w-8 h-8 flex items-center justify-center hover:bg-accent rounded-lg transition-colors ${
+                      selectedIcon === iconInfo.name ? "bg-primary/10 text-primary" : ""
+                    }`}
+                    onClick={() => setSelectedIcon(iconInfo.name)}
+                    data-testid={`reward-icon-${iconInfo.name}`}
+                  >
+                    <IconComponent className="w-5 h-5" />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3 pt-4">
+            <Button
+              type="submit"
+              className="flex-1"
+              disabled={isSaving}
+              data-testid="button-save-reward"
+            >
+              {isSaving ? "Saving..." : "Save Reward"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              data-testid="button-cancel"
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ShopRewardModal, rewardIcon } from "@/components/shop-reward-modal";
+import { useToast } from "@/hooks/use-toast";
+import { useApiMutation, useApiQuery } from "@/lib/api";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { ShopReward } from "@shared/schema";
+import { Coins, Edit, Gift, Plus, ShoppingBag, Trash2, Undo } from "lucide-react";
+
+export function Shop() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRewardModalOpen, setIsRewardModalOpen] = useState(false);
+  const [editingReward, setEditingReward] = useState<ShopReward | null>(null);
+
+  const { data: profile } = useApiQuery("getProfile");
+
+  const { data: rewards = [], isLoading } = useApiQuery("listShopRewards");
+
+  const { data: purchases = [] } = useApiQuery("listRewardPurchases");
+
+  const gold = profile?.gold || 0;
+
+  const onBalanceChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shop/purchases"] });
+  };
+
+  const purchaseMutation = useApiMutation("purchaseShopReward", {
+    onSuccess: ({ purchase }) => {
+      onBalanceChanged();
+      toast({
+        title: "Reward Purchased",
+        description: `Enjoy "${purchase.title}"!`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to purchase reward"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const refundMutation = useApiMutation("refundRewardPurchase", {
+    onSuccess: ({ purchase }) => {
+      onBalanceChanged();
+      toast({
+        title: "Purchase Refunded",
+        description: `${purchase.cost} gold returned.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to refund purchase"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRewardMutation = useApiMutation("deleteShopReward", {
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shop/rewards"] });
+      toast({
+        title: "Reward Removed",
+        description: "The reward was removed from the shop.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove reward",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddReward = () => {
+    setEditingReward(null);
+    setIsRewardModalOpen(true);
+  };
+
+  const handleEditReward = (reward: ShopReward) => {
+    setEditingReward(reward);
+    setIsRewardModalOpen(true);
+  };
+
+  const handleDeleteReward = (reward: ShopReward) => {
+    if (confirm(`Remove "${reward.title}" from the shop? Past purchases are kept.`)) {
+      deleteRewardMutation.mutate({ params: { id: reward.id } });
+    }
+  };
+
+  const handlePurchase = (reward: ShopReward) => {
+    if (confirm(`Buy "${reward.title}" for ${reward.cost} gold?`)) {
+      purchaseMutation.mutate({ params: { id: reward.id } });
+    }
+  };
+
+  const handleRefund = (purchaseId: string, title: string) => {
+    if (confirm(`Refund "${title}"? Its gold will be returned.`)) {
+      refundMutation.mutate({ params: { id: purchaseId } });
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold">Reward Shop</h2>
+        <div className="flex items-center space-x-1 text-yellow-600 dark:text-yellow-400 font-medium" data-testid="text-shop-gold">
+          <Coins className="w-4 h-4" />
+          <span>{gold.toLocaleString()} gold</span>
+        </div>
+      </div>
+
+      {/* Catalog */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <ShoppingBag className="w-5 h-5 text-primary" />
+              <span>Rewards</span>
+            </span>
+            <Button size="sm" onClick={handleAddReward} data-testid="button-add-reward">
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Treat yourself with the gold earned from quests.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-16 bg-muted/30 rounded-lg animate-pulse" />
+          ) : rewards.length === 0 ? (
+            <div className="text-center py-8">
+              <Gift className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                No rewards yet. Add something worth working for.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {rewards.map((reward) => {
+                const IconComponent = rewardIcon(reward.icon);
+                const affordable = gold >= reward.cost;
+
+                return (
+                  <div
+                    key={reward.id}
+                    className="flex items-center justify-between p-4 bg-muted/30 rounded-lg"
+                    data-testid={`shop-reward-${reward.id}`}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <div className="w-8 h-8 bg-primary/10 rounded-lg flex items-center justify-center">
+                        <IconComponent className="w-4 h-4 text-primary" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{reward.title}</p>
+                        {reward.description && (
+                          <p className="text-sm text-muted-foreground truncate">{reward.description}</p>
+                        )}
+                        <p className="text-xs text-yellow-600 dark:text-yellow-400">{reward.cost} gold</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEditReward(reward)}
+                        data-testid={`button-edit-reward-${reward.id}`}
+                      >
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteReward(reward)}
+                        className="text-destructive hover:text-destructive"
+                        data-testid={`button-delete-reward-${reward.id}`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handlePurchase(reward)}
+                        disabled={!affordable || purchaseMutation.isPending}
+                        data-testid={`button-buy-reward-${reward.id}`}
+                      >
+                        Buy
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Purchase history */}
+      {purchases.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Purchase History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {purchases.map((purchase) => (
+                <div
+                  key={purchase.id}
+                  className={`flex items-center justify-between p-3 rounded-lg ${purchase.refundedAt ? "bg-muted/50" : "bg-muted/30"}`}
+                  data-testid={`purchase-${purchase.id}`}
+                >
+                  <div>
+                    <p className={`font-medium ${purchase.refundedAt ? "text-muted-foreground line-through" : ""}`}>
+                      {purchase.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {purchase.cost} gold • {purchase.createdAt ? formatDistanceToNow(new Date(purchase.createdAt), { addSuffix: true }) : "recently"}
+                    </p>
+                  </div>
+                  {purchase.refundedAt ? (
+                    <span className="text-xs text-muted-foreground">Refunded</span>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRefund(purchase.id, purchase.title)}
+                      disabled={refundMutation.isPending}
+                      className="text-orange-600 border-orange-200 hover:bg-orange-50 dark:text-orange-400 dark:border-orange-800 dark:hover:bg-orange-950/20"
+                      data-testid={`button-refund-${purchase.id}`}
+                    >
+                      <Undo className="w-3 h-3 mr-1" />
+                      Refund
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <ShopRewardModal
+        isOpen={isRewardModalOpen}
+        onClose={() => setIsRewardModalOpen(false)}
+        reward={editingReward}
+      />
+    </motion.div>
+  );
+}
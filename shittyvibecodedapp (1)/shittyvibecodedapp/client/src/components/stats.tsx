@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { format, parseISO, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useApiQuery } from "@/lib/api";
+import { attributeColor } from "@/lib/attributes";
+import { activeAttributes } from "@shared/attributes";
+import type { HistoryGranularity } from "@shared/history";
+import { BarChart3, CheckCircle, TrendingUp, Zap } from "lucide-react";
+
+const RANGES = [
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last year" },
+];
+
+const GRANULARITIES: { value: HistoryGranularity; label: string }[] = [
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+];
+
+// Quest groups take the theme's chart colors in turn
+const GROUP_COLORS = ["var(--chart-1)", "var(--chart-2)", "var(--chart-3)", "var(--chart-4)", "var(--chart-5)"];
+
+const xpChartConfig: ChartConfig = {
+  xpEarned: { label: "XP", color: "var(--chart-1)" },
+};
+
+function periodLabel(period: string, granularity: HistoryGranularity): string {
+  return format(parseISO(period), granularity === "month" ? "MMM yyyy" : "MMM d");
+}
+
+// XP, attribute growth and completions per group over a chosen range, from GET /api/history
+export function Stats() {
+  const [days, setDays] = useState(30);
+  const [granularity, setGranularity] = useState<HistoryGranularity>("day");
+
+  const today = new Date();
+  const query = {
+    from: format(subDays(today, days - 1), "yyyy-MM-dd"),
+    to: format(today, "yyyy-MM-dd"),
+    granularity,
+  };
+
+  // Most mutations change the history, so it is fetched fresh whenever the tab opens
+  const { data: history, isLoading } = useApiQuery("getHistory", { query }, { staleTime: 0 });
+  const { data: attributes = [] } = useApiQuery("listAttributes");
+  const { data: questGroups = [] } = useApiQuery("listQuestGroups");
+
+  const points = history?.points ?? [];
+  const shownAttributes = activeAttributes(attributes);
+
+  const attributeChartConfig: ChartConfig = Object.fromEntries(shownAttributes.map((attribute) => [
+    attribute.key,
+    { label: attribute.label, color: attributeColor(attribute).stroke },
+  ]));
+
+  // Only groups with completions in range get a bar; deleted groups count as "Other"
+  const groupKeys = Array.from(new Set(points.flatMap((point) => Object.keys(point.completionsByGroup))));
+
+  const groupChartConfig: ChartConfig = Object.fromEntries(groupKeys.map((key, index) => [
+    key,
+    { label: questGroups.find((group) => group.id === key)?.name ?? "Other", color: GROUP_COLORS[index % GROUP_COLORS.length] },
+  ]));
+
+  const attributeData = points.map((point) => ({ period: point.period, ...point.attributes }));
+  const groupData = points.map((point) => ({ period: point.period, ...point.completionsByGroup }));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const totalXp = points.reduce((sum, point) => sum + point.xpEarned, 0);
+  const totalCompleted = points.reduce((sum, point) => sum + point.questsCompleted, 0);
+  const levelsGained = first && last ? last.level - first.level : 0;
+
+  const tickFormatter = (period: string) => periodLabel(period, granularity);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold">Stats</h2>
+        <div className="flex items-center space-x-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-36" data-testid="select-stats-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((range) => (
+                <SelectItem key={range.days} value={String(range.days)}>
+                  {range.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={granularity} onValueChange={(value) => setGranularity(value as HistoryGranularity)}>
+            <SelectTrigger className="w-28" data-testid="select-stats-granularity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRANULARITIES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading || !history ? (
+        <div className="space-y-6">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-48 bg-muted/30 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 bg-muted/30 rounded-lg">
+              <Zap className="w-5 h-5 text-primary mx-auto mb-1" />
+              <p className="text-xl font-bold" data-testid="text-stats-xp">{totalXp.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">XP earned</p>
+            </div>
+            <div className="p-3 bg-muted/30 rounded-lg">
+              <CheckCircle className="w-5 h-5 text-green-500 mx-auto mb-1" />
+              <p className="text-xl font-bold" data-testid="text-stats-completed">{totalCompleted}</p>
+              <p className="text-xs text-muted-foreground">Quests done</p>
+            </div>
+            <div className="p-3 bg-muted/30 rounded-lg">
+              <TrendingUp className="w-5 h-5 text-yellow-500 mx-auto mb-1" />
+              <p className="text-xl font-bold" data-testid="text-stats-levels">{levelsGained}</p>
+              <p className="text-xs text-muted-foreground">Levels gained</p>
+            </div>
+          </div>
+
+          {/* XP per period */}
+          <Card>
+            <CardHeader>
+              <CardTitle>XP Earned</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={xpChartConfig} className="aspect-auto h-48 w-full" data-testid="chart-xp">
+                <BarChart data={points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} tickFormatter={tickFormatter} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={tickFormatter} />} />
+                  <Bar dataKey="xpEarned" fill="var(--color-xpEarned)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {/* Attribute growth */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Attributes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={attributeChartConfig} className="aspect-auto h-56 w-full" data-testid="chart-attributes">
+                <LineChart data={attributeData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} tickFormatter={tickFormatter} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={tickFormatter} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {shownAttributes.map((attribute) => (
+                    <Line
+                      key={attribute.key}
+                      dataKey={attribute.key}
+                      type="monotone"
+                      stroke={`var(--color-${attribute.key})`}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {/* Completions per quest group */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Quests Completed</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {totalCompleted === 0 ? (
+                <div className="text-center py-8">
+                  <BarChart3 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No quests completed in this range yet.</p>
+                </div>
+              ) : (
+                <ChartContainer config={groupChartConfig} className="aspect-auto h-56 w-full" data-testid="chart-completions">
+                  <BarChart data={groupData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} axisLine={false} tickFormatter={tickFormatter} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={tickFormatter} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {groupKeys.map((key) => (
+                      <Bar key={key} dataKey={key} stackId="completions" fill={`var(--color-${key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useApiQuery } from "@/lib/api";
+import { nextStreakMilestone } from "@shared/streaks";
+import { Flame, Snowflake, Trophy } from "lucide-react";
+
+// The overall daily streak, freeze tokens and the best-running quest streaks
+export function StreaksCard() {
+  const { data: streaks, isLoading } = useApiQuery("getStreaks");
+  const { data: quests = [] } = useApiQuery("listQuests");
+
+  const questStreaks = (streaks?.quests ?? [])
+    .filter((streak) => streak.current > 0)
+    .sort((a, b) => b.current - a.current);
+  const questTitle = (questId: string) => quests.find((quest) => quest.id === questId)?.title;
+
+  // The milestone the longest running quest streak reaches next
+  const topStreak = questStreaks[0];
+  const nextMilestone = topStreak && streaks ? nextStreakMilestone(topStreak.current, streaks.milestones) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Streaks</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !streaks ? (
+          <div className="h-16 bg-muted/30 rounded-lg animate-pulse" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 bg-muted/30 rounded-lg">
+                <Flame className="w-5 h-5 text-orange-500 mx-auto mb-1" />
+                <p className="text-xl font-bold" data-testid="text-daily-streak">{streaks.daily.current}</p>
+                <p className="text-xs text-muted-foreground">Day streak</p>
+              </div>
+              <div className="p-3 bg-muted/30 rounded-lg">
+                <Trophy className="w-5 h-5 text-yellow-500 mx-auto mb-1" />
+                <p className="text-xl font-bold" data-testid="text-best-daily-streak">{streaks.daily.best}</p>
+                <p className="text-xs text-muted-foreground">Best</p>
+              </div>
+              <div className="p-3 bg-muted/30 rounded-lg">
+                <Snowflake className="w-5 h-5 text-sky-400 mx-auto mb-1" />
+                <p className="text-xl font-bold" data-testid="text-freeze-tokens">{streaks.freezeTokens}</p>
+                <p className="text-xs text-muted-foreground">Freezes</p>
+              </div>
+            </div>
+
+            {questStreaks.length > 0 && (
+              <div className="space-y-2">
+                {questStreaks.map((streak) => (
+                  <div key={streak.questId} className="flex items-center justify-between text-sm" data-testid={`streak-${streak.questId}`}>
+                    <span className="truncate">{questTitle(streak.questId)}</span>
+                    <span className="flex items-center text-orange-500 font-medium whitespace-nowrap">
+                      <Flame className="w-3 h-3 mr-1" />
+                      {streak.current}
+                      {streak.multiplier > 1 && <span className="ml-1">×{streak.multiplier} XP</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {nextMilestone
+                ? `${nextMilestone.streak - topStreak.current} more in a row for ×${nextMilestone.multiplier} XP on "${questTitle(topStreak.questId)}".`
+                : "Complete recurring quests every period to build streaks and earn bonus XP."}
+              {" "}A freeze token is used automatically when a period is missed.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
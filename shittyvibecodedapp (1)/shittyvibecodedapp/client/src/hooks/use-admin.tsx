@@ -1,23 +1,10 @@
-import { useState, useEffect } from "react";
+import { useApiQuery } from "@/lib/api";
 
+// Admin access is decided by the server; the role comes from /api/me
 export function useAdmin() {
-  const [isAdminMode, setIsAdminMode] = useState(false);
-
-  useEffect(() => {
-    const stored = localStorage.getItem("cryptoalerts_admin_mode");
-    if (stored === "true") {
-      setIsAdminMode(true);
-    }
-  }, []);
-
-  const toggleAdminMode = () => {
-    const newMode = !isAdminMode;
-    setIsAdminMode(newMode);
-    localStorage.setItem("cryptoalerts_admin_mode", newMode.toString());
-  };
+  const { data: me } = useApiQuery("getMe");
 
   return {
-    isAdminMode,
-    toggleAdminMode,
+    isAdmin: me?.role === "admin",
   };
 }
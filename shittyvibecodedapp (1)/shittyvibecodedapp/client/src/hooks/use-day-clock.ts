@@ -0,0 +1,40 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiQueryKey, useApiMutation, useApiQuery } from "@/lib/api";
+import { browserTimezone } from "@/lib/timezone";
+import { dayClock, type DayClock } from "@shared/timezone";
+
+/**
+ * The user's time zone and day start from the profile. Read-only: the zone of a
+ * profile without one is filled in by useTimezoneDetection.
+ */
+export function useDayClock(): DayClock {
+  const { data: profile } = useApiQuery("getProfile");
+
+  // Until the profile loads, or while it is being filled in, the browser's zone is the best guess
+  return profile?.timezone ? dayClock(profile) : { timezone: browserTimezone(), dayStartHour: profile?.dayStartHour ?? 0 };
+}
+
+/**
+ * Profiles start without a time zone; the first client to load one (a browser or
+ * the Telegram web app) fills in its own. Mounted once, by Home, and sends at most
+ * one request per mount.
+ */
+export function useTimezoneDetection(): void {
+  const { data: profile } = useApiQuery("getProfile");
+  const queryClient = useQueryClient();
+  const requested = useRef(false);
+  const updateMutation = useApiMutation("updateTimezone", {
+    onSuccess: (updatedProfile) => {
+      queryClient.setQueryData(apiQueryKey("getProfile"), updatedProfile);
+    },
+  });
+
+  const detect = !!profile && !profile.timezone;
+  useEffect(() => {
+    if (detect && !requested.current) {
+      requested.current = true;
+      updateMutation.mutate({ body: { timezone: browserTimezone() } });
+    }
+  }, [detect]);
+}
@@ -0,0 +1,120 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { REALTIME_PATH, type SyncEvent } from "@shared/events";
+import type { Note } from "@shared/schema";
+import { apiQueryKey } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import { TelegramWebApp } from "@/lib/telegram";
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Apply an event from another device to the cached server state
+export function applySyncEvent(queryClient: QueryClient, event: SyncEvent) {
+  switch (event.type) {
+    case "profile.changed":
+      queryClient.setQueryData(apiQueryKey("getProfile"), event.profile);
+      // Freeze tokens live on the profile
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("getStreaks") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("getHistory") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("getCalendar") });
+      break;
+    case "quest.completed":
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listQuestProgress") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("getStreaks") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("getCalendar") });
+      break;
+    case "quests.changed":
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listQuestGroups") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listQuests") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listQuestProgress") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listQuestFailures") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("getStreaks") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("getHistory") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("getCalendar") });
+      break;
+    case "note.updated":
+      queryClient.setQueryData(apiQueryKey("getNote", { params: { id: event.note.id } }), event.note);
+      queryClient.setQueryData<Note[]>(apiQueryKey("listNotes"), (notes) => {
+        if (!notes) return notes;
+        // The list is oldest first, so new notes go at the end
+        return notes.some((note) => note.id === event.note.id)
+          ? notes.map((note) => (note.id === event.note.id ? event.note : note))
+          : [...notes, event.note];
+      });
+      break;
+    case "note.deleted":
+      queryClient.removeQueries({ queryKey: apiQueryKey("getNote", { params: { id: event.noteId } }) });
+      queryClient.setQueryData<Note[]>(apiQueryKey("listNotes"), (notes) => notes?.filter((note) => note.id !== event.noteId));
+      break;
+    case "settings.changed":
+      queryClient.setQueryData(apiQueryKey("getSystemSettings"), event.settings);
+      break;
+    case "achievement.unlocked":
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listAchievements") });
+      toast({
+        title: "Achievement unlocked!",
+        description: `${event.achievement.title} — ${event.achievement.description}`,
+      });
+      break;
+    case "shop.changed":
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listShopRewards") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listRewardPurchases") });
+      break;
+    case "attributes.changed":
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listAttributes") });
+      queryClient.invalidateQueries({ queryKey: apiQueryKey("listQuests") });
+      break;
+    case "data.imported":
+      queryClient.invalidateQueries();
+      break;
+  }
+}
+
+/**
+ * Keep this tab in sync with changes made on the user's other devices.
+ * Reconnects with backoff and refetches everything after a dropped connection,
+ * since events sent while disconnected are lost.
+ */
+export function useRealtimeSync() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let socket: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const params = new URLSearchParams();
+      if (TelegramWebApp.initData) {
+        params.set("initData", TelegramWebApp.initData);
+      }
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}?${params}`);
+
+      socket.onopen = () => {
+        if (attempts > 0) {
+          queryClient.invalidateQueries();
+        }
+        attempts = 0;
+      };
+      socket.onmessage = (message) => {
+        applySyncEvent(queryClient, JSON.parse(message.data) as SyncEvent);
+      };
+      socket.onclose = () => {
+        if (stopped) return;
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,37 @@
+import type { LucideIcon } from "lucide-react";
+import { Award, Brain, Compass, Crown, Dumbbell, Flame, Star, Target, TrendingUp, Trophy, Users, Wrench } from "lucide-react";
+import type { Achievement } from "@shared/achievements";
+
+// Icons named by the definitions in shared/achievements.ts
+const ACHIEVEMENT_ICONS: Record<string, LucideIcon> = {
+  award: Award,
+  brain: Brain,
+  compass: Compass,
+  crown: Crown,
+  dumbbell: Dumbbell,
+  flame: Flame,
+  star: Star,
+  target: Target,
+  "trending-up": TrendingUp,
+  trophy: Trophy,
+  users: Users,
+  wrench: Wrench,
+};
+
+export function achievementIcon(achievement: Pick<Achievement, "icon">): LucideIcon {
+  return ACHIEVEMENT_ICONS[achievement.icon] ?? Award;
+}
+
+// Most recent first
+export function unlockedAchievements(achievements: Achievement[]): Achievement[] {
+  return achievements
+    .filter((achievement) => achievement.unlockedAt)
+    .sort((a, b) => new Date(b.unlockedAt!).getTime() - new Date(a.unlockedAt!).getTime());
+}
+
+// Closest to unlocking first
+export function lockedAchievements(achievements: Achievement[]): Achievement[] {
+  return achievements
+    .filter((achievement) => !achievement.unlockedAt)
+    .sort((a, b) => b.progress / b.target - a.progress / a.target);
+}
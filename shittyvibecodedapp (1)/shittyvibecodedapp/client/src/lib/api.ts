@@ -0,0 +1,106 @@
+import { useMutation, useQuery, type UseMutationOptions, type UseQueryOptions } from "@tanstack/react-query";
+import {
+  apiPath, apiRoutes, IDEMPOTENCY_KEY_HEADER, type ApiBody, type ApiPathParams, type ApiQuery, type ApiResponse, type ApiRouteName,
+} from "@shared/api";
+import { apiRequest } from "./queryClient";
+
+// Typed client for the routes in shared/api.ts
+
+type Field<Key extends string, Value> = [Value] extends [never]
+  ? {}
+  : {} extends Value
+    ? { [K in Key]?: Value }
+    : { [K in Key]: Value };
+
+export type ApiArgs<Name extends ApiRouteName> =
+  Field<"params", ApiPathParams<Name>> & Field<"query", ApiQuery<Name>> & Field<"body", ApiBody<Name>>;
+
+// Routes without required arguments can be called without any
+type ArgsParameter<Name extends ApiRouteName> = {} extends ApiArgs<Name> ? [args?: ApiArgs<Name>] : [args: ApiArgs<Name>];
+
+interface UntypedArgs {
+  params?: Record<string, string>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  idempotencyKey?: string;
+}
+
+function resolveUrl(name: ApiRouteName, { params, query }: UntypedArgs): string {
+  const path = apiPath(apiRoutes[name].path, params);
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) {
+      search.set(key, String(value));
+    }
+  }
+  const queryString = search.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+async function request<Name extends ApiRouteName>(name: Name, args: UntypedArgs = {}): Promise<ApiResponse<Name>> {
+  const headers: Record<string, string> = args.idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: args.idempotencyKey } : {};
+  const response = await apiRequest(apiRoutes[name].method, resolveUrl(name, args), args.body, headers);
+  return response.json();
+}
+
+export function callApi<Name extends ApiRouteName>(name: Name, ...[args]: ArgsParameter<Name>): Promise<ApiResponse<Name>> {
+  return request(name, args as UntypedArgs);
+}
+
+/**
+ * Keys start with the resolved path, e.g. ["/api/quests"] or ["/api/quests", { groupId }],
+ * so invalidating ["/api/quests"] also refreshes filtered lists.
+ */
+export function apiQueryKey<Name extends ApiRouteName>(name: Name, ...[args]: ArgsParameter<Name>): unknown[] {
+  const { params, query } = (args ?? {}) as UntypedArgs;
+  const path = apiPath(apiRoutes[name].path, params);
+  return query ? [path, query] : [path];
+}
+
+type ApiQueryOptions<Name extends ApiRouteName> = Omit<UseQueryOptions<ApiResponse<Name>>, "queryKey" | "queryFn">;
+
+export function useApiQuery<Name extends ApiRouteName>(
+  name: Name,
+  ...[args, options]: {} extends ApiArgs<Name>
+    ? [args?: ApiArgs<Name>, options?: ApiQueryOptions<Name>]
+    : [args: ApiArgs<Name>, options?: ApiQueryOptions<Name>]
+) {
+  return useQuery<ApiResponse<Name>>({
+    ...options,
+    queryKey: apiQueryKey<ApiRouteName>(name, args as ApiArgs<ApiRouteName>),
+    queryFn: () => request(name, args as UntypedArgs),
+  });
+}
+
+// `idempotencyKey` is sent as the Idempotency-Key header, so a retried or replayed call runs once
+type MutationArgs<Name extends ApiRouteName> = ApiArgs<Name> & { idempotencyKey?: string };
+
+export type ApiVariables<Name extends ApiRouteName> = {} extends ApiArgs<Name> ? MutationArgs<Name> | void : MutationArgs<Name>;
+
+export function apiMutationFn<Name extends ApiRouteName>(name: Name) {
+  return (variables: ApiVariables<Name>): Promise<ApiResponse<Name>> => request(name, (variables ?? {}) as UntypedArgs);
+}
+
+/**
+ * Mutations are keyed by route name, which is how outbox.ts finds and replays
+ * queued ones. Every call gets a fresh idempotency key unless one is passed in.
+ */
+export function useApiMutation<Name extends ApiRouteName, Context = unknown>(
+  name: Name,
+  options?: Omit<UseMutationOptions<ApiResponse<Name>, Error, ApiVariables<Name>, Context>, "mutationFn" | "mutationKey">,
+) {
+  const mutation = useMutation<ApiResponse<Name>, Error, ApiVariables<Name>, Context>({
+    ...options,
+    mutationKey: [name],
+    mutationFn: apiMutationFn(name),
+  });
+
+  const withIdempotencyKey = (variables: ApiVariables<Name>) => ({
+    ...(variables ?? {}),
+    idempotencyKey: (variables as MutationArgs<Name> | void)?.idempotencyKey ?? crypto.randomUUID(),
+  }) as ApiVariables<Name>;
+  const mutate: typeof mutation.mutate = (variables, mutateOptions) => mutation.mutate(withIdempotencyKey(variables), mutateOptions);
+  const mutateAsync: typeof mutation.mutateAsync = (variables, mutateOptions) => mutation.mutateAsync(withIdempotencyKey(variables), mutateOptions);
+
+  return { ...mutation, mutate, mutateAsync };
+}
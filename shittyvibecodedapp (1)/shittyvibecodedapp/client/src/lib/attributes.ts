@@ -0,0 +1,48 @@
+import type { LucideIcon } from "lucide-react";
+import { Book, Brain, Coins, Dumbbell, Flame, Heart, Music, Palette, Shield, Star, Target, Zap } from "lucide-react";
+import type { AttributeColor, AttributeIcon } from "@shared/attributes";
+import type { AttributeDefinition } from "@shared/schema";
+
+// Icons and colors named by attribute definitions (see shared/attributes.ts)
+export const ATTRIBUTE_ICONS: Record<AttributeIcon, LucideIcon> = {
+  shield: Shield,
+  brain: Brain,
+  star: Star,
+  heart: Heart,
+  zap: Zap,
+  dumbbell: Dumbbell,
+  book: Book,
+  music: Music,
+  palette: Palette,
+  coins: Coins,
+  flame: Flame,
+  target: Target,
+};
+
+// Tailwind needs the full class names spelled out; `stroke` is used on the radar chart
+export const ATTRIBUTE_COLORS: Record<AttributeColor, { text: string; stroke: string }> = {
+  green: { text: "text-green-400", stroke: "hsl(142, 69%, 58%)" },
+  blue: { text: "text-blue-400", stroke: "hsl(213, 94%, 68%)" },
+  yellow: { text: "text-yellow-400", stroke: "hsl(48, 96%, 53%)" },
+  red: { text: "text-red-400", stroke: "hsl(0, 91%, 71%)" },
+  purple: { text: "text-purple-400", stroke: "hsl(270, 95%, 75%)" },
+  orange: { text: "text-orange-400", stroke: "hsl(27, 96%, 61%)" },
+  pink: { text: "text-pink-400", stroke: "hsl(329, 86%, 70%)" },
+  teal: { text: "text-teal-400", stroke: "hsl(172, 66%, 50%)" },
+};
+
+export function attributeIcon(attribute: Pick<AttributeDefinition, "icon">): LucideIcon {
+  return ATTRIBUTE_ICONS[attribute.icon] ?? Star;
+}
+
+export function attributeColor(attribute: Pick<AttributeDefinition, "color">) {
+  return ATTRIBUTE_COLORS[attribute.color] ?? ATTRIBUTE_COLORS.blue;
+}
+
+// The label for a quest's target attribute; unknown keys are shown as they are
+export function attributeLabel(attributes: AttributeDefinition[], key: string | null | undefined): string {
+  if (!key || key === "none") {
+    return "attribute";
+  }
+  return attributes.find((attribute) => attribute.key === key)?.label ?? key;
+}
@@ -0,0 +1,25 @@
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form";
+import { isValidationErrorResponse } from "@shared/validation";
+import { ApiError } from "./queryClient";
+
+/**
+ * Show a server-side validation error on the matching form fields.
+ * Returns false when none of the errors belong to a field of this form,
+ * so the caller can fall back to a toast.
+ */
+export function applyServerErrors<T extends FieldValues>(form: UseFormReturn<T>, error: unknown): boolean {
+  if (!(error instanceof ApiError) || !isValidationErrorResponse(error.body)) {
+    return false;
+  }
+
+  const fields = form.getValues();
+  let applied = false;
+  for (const fieldError of error.body.errors) {
+    const [field] = fieldError.path.split(".");
+    if (field && field in fields) {
+      form.setError(fieldError.path as Path<T>, { type: "server", message: fieldError.message });
+      applied = true;
+    }
+  }
+  return applied;
+}
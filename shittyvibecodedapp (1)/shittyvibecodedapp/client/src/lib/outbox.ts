@@ -0,0 +1,66 @@
+import type { Mutation, QueryClient } from "@tanstack/react-query";
+import type { PersistQueryClientOptions } from "@tanstack/react-query-persist-client";
+import { createSyncStoragePersister } from "@tanstack/query-sync-storage-persister";
+import type { ApiRouteName } from "@shared/api";
+import { apiMutationFn } from "./api";
+import { ApiError } from "./queryClient";
+import { TelegramWebApp } from "./telegram";
+
+/**
+ * Mutations that wait for the connection instead of failing while offline.
+ * They are persisted with the query cache and replayed in order when the app
+ * is back online, each with the idempotency key it was first sent with.
+ */
+export const OUTBOX_ROUTES = [
+  "completeQuest",
+  "addQuestProgress",
+  "undoQuestProgressStep",
+  "createNote",
+  "updateNote",
+] as const satisfies readonly ApiRouteName[];
+
+// Matches the server's idempotency key lifetime, so nothing older is ever replayed
+const OUTBOX_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+export function isOutboxMutation(mutation: Mutation<unknown, Error, unknown, unknown>): boolean {
+  const [name] = mutation.options.mutationKey ?? [];
+  return (OUTBOX_ROUTES as readonly unknown[]).includes(name);
+}
+
+// Retry dropped connections and server errors; anything else the server said no to stays failed
+function shouldRetry(failureCount: number, error: Error): boolean {
+  if (failureCount >= MAX_ATTEMPTS) {
+    return false;
+  }
+  return !(error instanceof ApiError) || error.status === 409 || error.status >= 500;
+}
+
+// Must run before the persisted cache is restored, so restored mutations can be resumed
+export function registerOutbox(queryClient: QueryClient) {
+  for (const name of OUTBOX_ROUTES) {
+    queryClient.setMutationDefaults([name], {
+      mutationFn: apiMutationFn(name),
+      networkMode: "online",
+      retry: shouldRetry,
+      // One at a time, in the order they were made
+      scope: { id: "outbox" },
+    });
+  }
+}
+
+export const persistOptions: Omit<PersistQueryClientOptions, "queryClient"> = {
+  persister: createSyncStoragePersister({ storage: window.localStorage, key: "query-cache" }),
+  maxAge: OUTBOX_MAX_AGE_MS,
+  // Another Telegram account on the same device starts from an empty cache
+  buster: TelegramWebApp.getTelegramId() ?? "",
+  dehydrateOptions: {
+    shouldDehydrateMutation: (mutation) => mutation.state.isPaused && isOutboxMutation(mutation),
+  },
+};
+
+// Send everything queued while offline, then refetch what it changed
+export async function flushOutbox(queryClient: QueryClient) {
+  await queryClient.resumePausedMutations();
+  await queryClient.invalidateQueries();
+}
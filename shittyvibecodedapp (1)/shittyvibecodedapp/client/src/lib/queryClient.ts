@@ -1,20 +1,48 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { TelegramWebApp } from "./telegram";
+
+// Thrown for non-2xx responses; `body` is the parsed JSON error body, if any
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly body: unknown, text: string) {
+    super(`${status}: ${text}`);
+  }
+}
+
+// The server's `message` for a failed request, e.g. "Not enough gold: ..."
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  const body = error instanceof ApiError ? (error.body as { message?: unknown } | undefined) : undefined;
+  return typeof body?.message === "string" ? body.message : fallback;
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    throw new ApiError(res.status, body, text);
   }
 }
 
+// Signed Telegram initData; the server verifies it and scopes data to that user
+function authHeaders(): Record<string, string> {
+  const initData = TelegramWebApp.initData;
+  return initData ? { "X-Telegram-Init-Data": initData } : {};
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  extraHeaders: Record<string, string> = {},
 ): Promise<Response> {
+  const headers = { ...authHeaders(), ...extraHeaders };
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { ...headers, "Content-Type": "application/json" } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +58,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: authHeaders(),
       credentials: "include",
     });
 
@@ -48,10 +77,14 @@ export const queryClient = new QueryClient({
       refetchInterval: false,
       refetchOnWindowFocus: false,
       staleTime: Infinity,
+      // Kept for as long as the persisted cache (see outbox.ts), so it survives offline restarts
+      gcTime: 24 * 60 * 60 * 1000,
       retry: false,
     },
     mutations: {
       retry: false,
+      // Fail straight away when offline; only outbox mutations wait for the connection
+      networkMode: "always",
     },
   },
 });
@@ -69,6 +69,10 @@ export class TelegramWebApp {
     return this.instance?.initDataUnsafe?.user || null;
   }
 
+  static get initData(): string {
+    return this.instance?.initData || "";
+  }
+
   static get isAvailable(): boolean {
     return !!window.Telegram?.WebApp;
   }
@@ -125,8 +129,8 @@ export class TelegramWebApp {
     }
   }
 
-  static getTelegramId(): string {
-    return this.user?.id?.toString() || "123456789";
+  static getTelegramId(): string | null {
+    return this.user?.id?.toString() || null;
   }
 }
 
@@ -0,0 +1,4 @@
+// The IANA time zone the browser runs in, e.g. "Europe/Berlin"
+export function browserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
@@ -1,20 +1,27 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
-import { Profile as ProfileType } from "@shared/schema";
+import { useApiQuery } from "@/lib/api";
 import { Navigation } from "@/components/navigation";
 import { Profile } from "@/components/profile";
 import { QuestGroups } from "@/components/quest-groups";
 import { Archive } from "@/components/archive";
+import { Shop } from "@/components/shop";
+import { Stats } from "@/components/stats";
+import { CalendarView } from "@/components/calendar-view";
 import { Notes } from "@/components/notes";
 import { AdminPanel } from "@/components/admin-panel";
+import { useAdmin } from "@/hooks/use-admin";
+import { useRealtimeSync } from "@/hooks/use-realtime-sync";
+import { useTimezoneDetection } from "@/hooks/use-day-clock";
 
 export default function Home() {
   const [currentTab, setCurrentTab] = useState("profile");
+  const { isAdmin } = useAdmin();
+  useRealtimeSync();
+  // Fills in the time zone on first use
+  useTimezoneDetection();
 
-  const { data: profile } = useQuery<ProfileType>({
-    queryKey: ["/api/profile"],
-  });
+  const { data: profile } = useApiQuery("getProfile");
 
 
   const renderTabContent = () => {
@@ -25,10 +32,16 @@ export default function Home() {
         return <QuestGroups />;
       case "archive":
         return <Archive />;
+      case "stats":
+        return <Stats />;
+      case "calendar":
+        return <CalendarView />;
+      case "shop":
+        return <Shop />;
       case "notes":
         return <Notes />;
       case "admin":
-        return <AdminPanel />;
+        return isAdmin ? <AdminPanel /> : <Profile />;
       default:
         return <Profile />;
     }
@@ -0,0 +1,144 @@
+CREATE TABLE "notes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"title" text NOT NULL,
+	"content" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "profile" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"level" integer DEFAULT 1,
+	"xp" integer DEFAULT 0,
+	"cumulative_xp" integer DEFAULT 0,
+	"available_points" integer DEFAULT 0,
+	"attributes" jsonb DEFAULT '{"physique":10,"mental":10,"success":10,"social":10,"skills":10}'::jsonb,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "profile_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "quest_failures" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"quest_id" varchar,
+	"deadline" timestamp NOT NULL,
+	"penalty_xp" integer DEFAULT 0,
+	"penalty_attribute_points" integer DEFAULT 0,
+	"target_attribute" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "quest_failures_quest_id_deadline_unique" UNIQUE("quest_id","deadline")
+);
+--> statement-breakpoint
+CREATE TABLE "quest_groups" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"name" text NOT NULL,
+	"description" text,
+	"icon" text DEFAULT 'calendar',
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "quest_progress" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"quest_id" varchar,
+	"period_key" text DEFAULT 'once' NOT NULL,
+	"progress" integer DEFAULT 0,
+	"completed" boolean DEFAULT false,
+	"completed_at" timestamp,
+	"is_archived" boolean DEFAULT false,
+	"archived_at" timestamp,
+	"archive_reason" text,
+	"can_undo" boolean DEFAULT true,
+	"failed" boolean DEFAULT false,
+	"failed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "quest_progress_quest_id_period_key_unique" UNIQUE("quest_id","period_key")
+);
+--> statement-breakpoint
+CREATE TABLE "quest_progress_steps" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"progress_id" varchar NOT NULL,
+	"quest_id" varchar,
+	"delta" integer NOT NULL,
+	"note" text,
+	"logged_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "quests" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"group_id" varchar,
+	"title" text NOT NULL,
+	"description" text,
+	"xp_reward" integer DEFAULT 100,
+	"attribute_point_reward" integer DEFAULT 1,
+	"target_attribute" text,
+	"difficulty" text DEFAULT 'E',
+	"max_progress" integer DEFAULT 1,
+	"enable_recurring" boolean DEFAULT false,
+	"repetition_frequency" text DEFAULT 'none',
+	"enable_deadline" boolean DEFAULT false,
+	"deadline" timestamp,
+	"enable_penalty" boolean DEFAULT false,
+	"penalty_xp" integer DEFAULT 0,
+	"penalty_attribute_points" integer DEFAULT 0,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "reward_ledger" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"source" text NOT NULL,
+	"quest_id" varchar,
+	"progress_id" varchar,
+	"reverses_entry_id" varchar,
+	"xp_delta" integer DEFAULT 0 NOT NULL,
+	"cumulative_xp_delta" integer DEFAULT 0 NOT NULL,
+	"available_points_delta" integer DEFAULT 0 NOT NULL,
+	"attribute_deltas" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "system_settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"max_xp" integer DEFAULT 80000,
+	"max_attribute_points" integer DEFAULT 100,
+	"quest_reset_interval" integer DEFAULT 24,
+	"level_curve" jsonb DEFAULT '{"type":"linear","xpPerLevel":800}'::jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "system_settings_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"telegram_id" text NOT NULL,
+	"username" text,
+	"first_name" text,
+	"last_name" text,
+	"role" text DEFAULT 'user' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_telegram_id_unique" UNIQUE("telegram_id")
+);
+--> statement-breakpoint
+ALTER TABLE "notes" ADD CONSTRAINT "notes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "profile" ADD CONSTRAINT "profile_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_failures" ADD CONSTRAINT "quest_failures_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_failures" ADD CONSTRAINT "quest_failures_quest_id_quests_id_fk" FOREIGN KEY ("quest_id") REFERENCES "public"."quests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_groups" ADD CONSTRAINT "quest_groups_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD CONSTRAINT "quest_progress_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD CONSTRAINT "quest_progress_quest_id_quests_id_fk" FOREIGN KEY ("quest_id") REFERENCES "public"."quests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" ADD CONSTRAINT "quest_progress_steps_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" ADD CONSTRAINT "quest_progress_steps_progress_id_quest_progress_id_fk" FOREIGN KEY ("progress_id") REFERENCES "public"."quest_progress"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" ADD CONSTRAINT "quest_progress_steps_quest_id_quests_id_fk" FOREIGN KEY ("quest_id") REFERENCES "public"."quests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quests" ADD CONSTRAINT "quests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quests" ADD CONSTRAINT "quests_group_id_quest_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."quest_groups"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reward_ledger" ADD CONSTRAINT "reward_ledger_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD CONSTRAINT "system_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "achievement_unlocks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"achievement_id" text NOT NULL,
+	"unlocked_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "achievement_unlocks_user_id_achievement_id_unique" UNIQUE("user_id","achievement_id")
+);
+--> statement-breakpoint
+ALTER TABLE "achievement_unlocks" ADD CONSTRAINT "achievement_unlocks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
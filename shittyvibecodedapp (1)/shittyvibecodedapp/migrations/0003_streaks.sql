@@ -0,0 +1,11 @@
+CREATE TABLE "streak_freezes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"quest_id" varchar,
+	"period_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "profile" ADD COLUMN "freeze_tokens" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "streak_milestones" jsonb DEFAULT '[{"streak":3,"multiplier":1.1},{"streak":7,"multiplier":1.25},{"streak":30,"multiplier":1.5}]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "streak_freezes" ADD CONSTRAINT "streak_freezes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
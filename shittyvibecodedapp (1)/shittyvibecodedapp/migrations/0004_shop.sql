@@ -0,0 +1,26 @@
+CREATE TABLE "reward_purchases" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"reward_id" varchar,
+	"ledger_entry_id" varchar,
+	"title" text NOT NULL,
+	"cost" integer NOT NULL,
+	"refunded_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "shop_rewards" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"cost" integer NOT NULL,
+	"icon" text DEFAULT 'gift',
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "profile" ADD COLUMN "gold" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "quests" ADD COLUMN "coin_reward" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "reward_ledger" ADD COLUMN "gold_delta" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "reward_purchases" ADD CONSTRAINT "reward_purchases_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shop_rewards" ADD CONSTRAINT "shop_rewards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
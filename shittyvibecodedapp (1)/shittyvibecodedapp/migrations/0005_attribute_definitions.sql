@@ -0,0 +1,15 @@
+CREATE TABLE "attribute_definitions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"key" text NOT NULL,
+	"label" text NOT NULL,
+	"icon" text DEFAULT 'star' NOT NULL,
+	"color" text DEFAULT 'blue' NOT NULL,
+	"cap" integer,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"retired_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "attribute_definitions_user_id_key_unique" UNIQUE("user_id","key")
+);
+--> statement-breakpoint
+ALTER TABLE "attribute_definitions" ADD CONSTRAINT "attribute_definitions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "quest_failures" ALTER COLUMN "deadline" SET DATA TYPE timestamp with time zone USING "deadline" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "quests" ALTER COLUMN "deadline" SET DATA TYPE timestamp with time zone USING "deadline" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "profile" ADD COLUMN "timezone" text;--> statement-breakpoint
+ALTER TABLE "profile" ADD COLUMN "day_start_hour" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
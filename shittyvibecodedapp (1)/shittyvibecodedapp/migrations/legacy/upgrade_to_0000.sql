@@ -0,0 +1,97 @@
+-- Brings a database pushed before multi-user support (a `profile` table but no
+-- `users`) up to 0000_initial. Written by hand and safe to run on any of the
+-- single-user schemas; existing rows stay unowned until the first sign-in claims them.
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"telegram_id" text NOT NULL,
+	"username" text,
+	"first_name" text,
+	"last_name" text,
+	"role" text DEFAULT 'user' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_telegram_id_unique" UNIQUE("telegram_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "quest_failures" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"quest_id" varchar,
+	"deadline" timestamp NOT NULL,
+	"penalty_xp" integer DEFAULT 0,
+	"penalty_attribute_points" integer DEFAULT 0,
+	"target_attribute" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "quest_failures_quest_id_deadline_unique" UNIQUE("quest_id","deadline")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "reward_ledger" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" text NOT NULL,
+	"quest_id" varchar,
+	"progress_id" varchar,
+	"reverses_entry_id" varchar,
+	"xp_delta" integer DEFAULT 0 NOT NULL,
+	"cumulative_xp_delta" integer DEFAULT 0 NOT NULL,
+	"available_points_delta" integer DEFAULT 0 NOT NULL,
+	"attribute_deltas" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "quest_progress_steps" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"progress_id" varchar NOT NULL,
+	"quest_id" varchar,
+	"delta" integer NOT NULL,
+	"note" text,
+	"logged_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "profile" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "quest_failures" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "quest_groups" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD COLUMN IF NOT EXISTS "period_key" text DEFAULT 'once' NOT NULL;--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD COLUMN IF NOT EXISTS "failed" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD COLUMN IF NOT EXISTS "failed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "quests" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "reward_ledger" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN IF NOT EXISTS "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN IF NOT EXISTS "level_curve" jsonb DEFAULT '{"type":"linear","xpPerLevel":800}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "quest_progress" DROP CONSTRAINT IF EXISTS "quest_progress_quest_id_unique";--> statement-breakpoint
+ALTER TABLE "quest_progress" DROP CONSTRAINT IF EXISTS "quest_progress_quest_id_period_key_unique";--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD CONSTRAINT "quest_progress_quest_id_period_key_unique" UNIQUE("quest_id","period_key");--> statement-breakpoint
+ALTER TABLE "profile" DROP CONSTRAINT IF EXISTS "profile_user_id_unique";--> statement-breakpoint
+ALTER TABLE "profile" ADD CONSTRAINT "profile_user_id_unique" UNIQUE("user_id");--> statement-breakpoint
+ALTER TABLE "system_settings" DROP CONSTRAINT IF EXISTS "system_settings_user_id_unique";--> statement-breakpoint
+ALTER TABLE "system_settings" ADD CONSTRAINT "system_settings_user_id_unique" UNIQUE("user_id");--> statement-breakpoint
+ALTER TABLE "notes" DROP CONSTRAINT IF EXISTS "notes_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "notes" ADD CONSTRAINT "notes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "profile" DROP CONSTRAINT IF EXISTS "profile_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "profile" ADD CONSTRAINT "profile_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_failures" DROP CONSTRAINT IF EXISTS "quest_failures_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "quest_failures" ADD CONSTRAINT "quest_failures_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_failures" DROP CONSTRAINT IF EXISTS "quest_failures_quest_id_quests_id_fk";--> statement-breakpoint
+ALTER TABLE "quest_failures" ADD CONSTRAINT "quest_failures_quest_id_quests_id_fk" FOREIGN KEY ("quest_id") REFERENCES "public"."quests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_groups" DROP CONSTRAINT IF EXISTS "quest_groups_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "quest_groups" ADD CONSTRAINT "quest_groups_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress" DROP CONSTRAINT IF EXISTS "quest_progress_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD CONSTRAINT "quest_progress_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress" DROP CONSTRAINT IF EXISTS "quest_progress_quest_id_quests_id_fk";--> statement-breakpoint
+ALTER TABLE "quest_progress" ADD CONSTRAINT "quest_progress_quest_id_quests_id_fk" FOREIGN KEY ("quest_id") REFERENCES "public"."quests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" DROP CONSTRAINT IF EXISTS "quest_progress_steps_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" ADD CONSTRAINT "quest_progress_steps_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" DROP CONSTRAINT IF EXISTS "quest_progress_steps_progress_id_quest_progress_id_fk";--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" ADD CONSTRAINT "quest_progress_steps_progress_id_quest_progress_id_fk" FOREIGN KEY ("progress_id") REFERENCES "public"."quest_progress"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" DROP CONSTRAINT IF EXISTS "quest_progress_steps_quest_id_quests_id_fk";--> statement-breakpoint
+ALTER TABLE "quest_progress_steps" ADD CONSTRAINT "quest_progress_steps_quest_id_quests_id_fk" FOREIGN KEY ("quest_id") REFERENCES "public"."quests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quests" DROP CONSTRAINT IF EXISTS "quests_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "quests" ADD CONSTRAINT "quests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quests" DROP CONSTRAINT IF EXISTS "quests_group_id_quest_groups_id_fk";--> statement-breakpoint
+ALTER TABLE "quests" ADD CONSTRAINT "quests_group_id_quest_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."quest_groups"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reward_ledger" DROP CONSTRAINT IF EXISTS "reward_ledger_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "reward_ledger" ADD CONSTRAINT "reward_ledger_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_settings" DROP CONSTRAINT IF EXISTS "system_settings_user_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "system_settings" ADD CONSTRAINT "system_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,84 @@
+import type { AchievementUnlock, LedgerEntry, Profile, StreakFreeze } from "@shared/schema";
+import { ACHIEVEMENTS, type Achievement, type AchievementRule } from "@shared/achievements";
+import { dayClock } from "@shared/timezone";
+import type { IStorage } from "./storage";
+import { completionTimes, dailyStreak } from "./streaks";
+
+// What the achievement rules are measured against
+export interface AchievementStats {
+  questsCompleted: number;
+  dailyStreak: number;
+  level: number;
+  attributes: Record<string, number>;
+}
+
+export function achievementStats(profile: Profile, entries: LedgerEntry[], freezes: StreakFreeze[], now: Date): AchievementStats {
+  const completions = completionTimes(entries);
+  const frozenDays = new Set(freezes.filter((freeze) => freeze.questId === null).map((freeze) => freeze.periodKey));
+  return {
+    questsCompleted: completions.length,
+    dailyStreak: dailyStreak(completions, frozenDays, now, dayClock(profile)).current,
+    level: profile.level || 1,
+    attributes: { ...(profile.attributes || {}) },
+  };
+}
+
+function ruleProgress(rule: AchievementRule, stats: AchievementStats): { progress: number; target: number } {
+  switch (rule.type) {
+    case "quests_completed":
+      return { progress: stats.questsCompleted, target: rule.count };
+    case "daily_streak":
+      return { progress: stats.dailyStreak, target: rule.days };
+    case "level":
+      return { progress: stats.level, target: rule.level };
+    case "attribute":
+      return { progress: stats.attributes[rule.attribute] || 0, target: rule.value };
+  }
+}
+
+export function listAchievements(stats: AchievementStats, unlocks: AchievementUnlock[]): Achievement[] {
+  const unlockedAt = new Map(unlocks.map((unlock) => [unlock.achievementId, unlock.unlockedAt]));
+  return ACHIEVEMENTS.map((definition) => {
+    const { progress, target } = ruleProgress(definition.rule, stats);
+    const unlocked = unlockedAt.get(definition.id) ?? null;
+    return {
+      ...definition,
+      progress: unlocked ? target : Math.min(progress, target),
+      target,
+      unlockedAt: unlocked,
+    };
+  });
+}
+
+/**
+ * Evaluate every rule for the user and unlock the ones newly reached.
+ * Unlocks are permanent: undoing the completion that earned one keeps it.
+ * Returns the full list along with what this check unlocked.
+ */
+export async function checkAchievements(
+  storage: IStorage,
+  userId: string,
+  now: Date = new Date(),
+): Promise<{ achievements: Achievement[]; unlocked: Achievement[] }> {
+  const profile = await storage.getProfile(userId);
+  const entries = await storage.getLedgerEntries(userId);
+  const freezes = await storage.getStreakFreezes(userId);
+  const unlocks = await storage.getAchievementUnlocks(userId);
+
+  const stats = achievementStats(profile, entries, freezes, now);
+  const achievements = listAchievements(stats, unlocks);
+  const earned = achievements.filter((achievement) => !achievement.unlockedAt && achievement.progress >= achievement.target);
+  if (earned.length === 0) {
+    return { achievements, unlocked: [] };
+  }
+
+  // A concurrent check may have unlocked some of them first
+  const created = await storage.unlockAchievements(userId, earned.map((achievement) => achievement.id), now);
+  const createdAt = new Map(created.map((unlock) => [unlock.achievementId, unlock.unlockedAt]));
+  return {
+    achievements: listAchievements(stats, await storage.getAchievementUnlocks(userId)),
+    unlocked: earned
+      .filter((achievement) => createdAt.has(achievement.id))
+      .map((achievement) => ({ ...achievement, unlockedAt: createdAt.get(achievement.id)! })),
+  };
+}
@@ -0,0 +1,181 @@
+import { createHmac, randomBytes } from "crypto";
+import { describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import { INIT_DATA_HEADER, requireAdmin, telegramAuth, verifyInitData } from "./auth";
+import type { IStorage } from "./storage";
+
+// A throwaway bot token; nothing here talks to Telegram
+const botToken = `${Date.now()}:${randomBytes(24).toString("base64url")}`;
+const telegramUser = { id: 42, first_name: "Ada", username: "ada" };
+
+function signInitData(fields: Record<string, string>, token: string = botToken): string {
+  const dataCheckString = Object.keys(fields)
+    .sort()
+    .map((key) => `${key}=${fields[key]}`)
+    .join("\n");
+  const secretKey = createHmac("sha256", "WebAppData").update(token).digest();
+  const hash = createHmac("sha256", secretKey).update(dataCheckString).digest("hex");
+  return new URLSearchParams({ ...fields, hash }).toString();
+}
+
+function freshInitData(authDate: Date = new Date()): string {
+  return signInitData({
+    auth_date: Math.floor(authDate.getTime() / 1000).toString(),
+    query_id: "AAF-test",
+    user: JSON.stringify(telegramUser),
+  });
+}
+
+function mockResponse() {
+  const res = { statusCode: 200, body: undefined as unknown };
+  return Object.assign(res, {
+    status: vi.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: vi.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+  });
+}
+
+function mockRequest(headers: Record<string, string>): Request {
+  return { header: (name: string) => headers[name] } as unknown as Request;
+}
+
+describe("verifyInitData", () => {
+  it("accepts data signed with the bot token", () => {
+    expect(verifyInitData(freshInitData(), botToken)).toEqual(telegramUser);
+  });
+
+  it("rejects data signed with another token", () => {
+    const initData = signInitData({
+      auth_date: Math.floor(Date.now() / 1000).toString(),
+      user: JSON.stringify(telegramUser),
+    }, `${Date.now()}:${randomBytes(24).toString("base64url")}`);
+    expect(() => verifyInitData(initData, botToken)).toThrow("Invalid signature");
+  });
+
+  it("rejects tampered fields", () => {
+    const initData = new URLSearchParams(freshInitData());
+    initData.set("user", JSON.stringify({ ...telegramUser, id: 7 }));
+    expect(() => verifyInitData(initData.toString(), botToken)).toThrow("Invalid signature");
+  });
+
+  it("rejects data without a hash", () => {
+    const initData = new URLSearchParams(freshInitData());
+    initData.delete("hash");
+    expect(() => verifyInitData(initData.toString(), botToken)).toThrow("Missing hash");
+  });
+
+  it("rejects a stale auth_date", () => {
+    const now = new Date();
+    const issued = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+    expect(() => verifyInitData(freshInitData(issued), botToken, 60 * 60, now)).toThrow("Init data expired");
+    expect(verifyInitData(freshInitData(issued), botToken, 3 * 60 * 60, now)).toEqual(telegramUser);
+  });
+
+  it("rejects data without auth_date", () => {
+    const initData = signInitData({ user: JSON.stringify(telegramUser) });
+    expect(() => verifyInitData(initData, botToken)).toThrow("Missing auth_date");
+  });
+});
+
+describe("telegramAuth", () => {
+  function fakeStorage() {
+    return {
+      getOrCreateUser: vi.fn(async (identity) => ({ id: "user-1", role: "user", createdAt: null, ...identity })),
+      setUserRole: vi.fn(async (id, role) => ({ id, role, telegramId: "42", createdAt: null })),
+    } as unknown as IStorage & { getOrCreateUser: ReturnType<typeof vi.fn>; setUserRole: ReturnType<typeof vi.fn> };
+  }
+
+  it("attaches the verified Telegram user and its account", async () => {
+    const storage = fakeStorage();
+    const req = mockRequest({ [INIT_DATA_HEADER]: freshInitData() });
+    const res = mockResponse();
+    const next = vi.fn();
+
+    await telegramAuth(storage, { botToken })(req, res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.telegramUser).toEqual(telegramUser);
+    expect(req.user?.id).toBe("user-1");
+    expect(storage.getOrCreateUser).toHaveBeenCalledWith({
+      telegramId: "42",
+      username: "ada",
+      firstName: "Ada",
+      lastName: null,
+    });
+  });
+
+  it("promotes configured admin ids", async () => {
+    const storage = fakeStorage();
+    const req = mockRequest({ [INIT_DATA_HEADER]: freshInitData() });
+    const next = vi.fn();
+
+    await telegramAuth(storage, { botToken, adminTelegramIds: ["42"] })(req, mockResponse() as unknown as Response, next);
+
+    expect(storage.setUserRole).toHaveBeenCalledWith("user-1", "admin");
+    expect(req.user?.role).toBe("admin");
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("returns 401 without init data", async () => {
+    const storage = fakeStorage();
+    const res = mockResponse();
+    const next = vi.fn();
+
+    await telegramAuth(storage, { botToken })(mockRequest({}), res as unknown as Response, next);
+
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+    expect(storage.getOrCreateUser).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 for stale init data", async () => {
+    const storage = fakeStorage();
+    const req = mockRequest({ [INIT_DATA_HEADER]: freshInitData(new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)) });
+    const res = mockResponse();
+    const next = vi.fn();
+
+    await telegramAuth(storage, { botToken, maxAgeSeconds: 24 * 60 * 60 })(req, res as unknown as Response, next);
+
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("refuses unsigned requests unless explicitly allowed", async () => {
+    const res = mockResponse();
+    const next = vi.fn();
+    await telegramAuth(fakeStorage(), {})(mockRequest({}), res as unknown as Response, next);
+    expect(res.statusCode).toBe(500);
+    expect(next).not.toHaveBeenCalled();
+
+    const devNext = vi.fn();
+    await telegramAuth(fakeStorage(), { allowUnsigned: true })(mockRequest({}), mockResponse() as unknown as Response, devNext);
+    expect(devNext).toHaveBeenCalled();
+  });
+});
+
+describe("requireAdmin", () => {
+  it("returns 403 for regular users", () => {
+    const req = { user: { id: "user-1", role: "user" } } as unknown as Request;
+    const res = mockResponse();
+    const next = vi.fn();
+
+    requireAdmin(req, res as unknown as Response, next);
+
+    expect(res.statusCode).toBe(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("lets admins through", () => {
+    const req = { user: { id: "user-1", role: "admin" } } as unknown as Request;
+    const next = vi.fn();
+
+    requireAdmin(req, mockResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
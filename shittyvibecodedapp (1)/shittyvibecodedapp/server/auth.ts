@@ -0,0 +1,181 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { User as SelectUser } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export interface TelegramInitUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+
+    interface Request {
+      user?: User;
+      telegramUser?: TelegramInitUser;
+    }
+  }
+}
+
+export const INIT_DATA_HEADER = "X-Telegram-Init-Data";
+export const DEFAULT_INIT_DATA_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+// Used for every request when running locally without a bot token
+const DEV_TELEGRAM_USER: TelegramInitUser = { id: 0, username: "dev", first_name: "Developer" };
+
+export interface TelegramAuthOptions {
+  botToken?: string;
+  maxAgeSeconds?: number;
+  // Skip signature checks when no bot token is configured (local development only)
+  allowUnsigned?: boolean;
+  // Telegram ids that are always granted the admin role
+  adminTelegramIds?: string[];
+}
+
+/**
+ * Verify Telegram Web App initData as described in
+ * https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ * Throws if the signature does not match or auth_date is missing or stale.
+ */
+export function verifyInitData(
+  initData: string,
+  botToken: string,
+  maxAgeSeconds: number = DEFAULT_INIT_DATA_MAX_AGE_SECONDS,
+  now: Date = new Date(),
+): TelegramInitUser {
+  const params = new URLSearchParams(initData);
+  const hash = params.get("hash");
+  if (!hash) {
+    throw new Error('Missing hash');
+  }
+  params.delete("hash");
+
+  const dataCheckString = Array.from(params.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+
+  const secretKey = createHmac("sha256", "WebAppData").update(botToken).digest();
+  const expectedHash = createHmac("sha256", secretKey).update(dataCheckString).digest();
+  const receivedHash = Buffer.from(hash, "hex");
+  if (receivedHash.length !== expectedHash.length || !timingSafeEqual(receivedHash, expectedHash)) {
+    throw new Error('Invalid signature');
+  }
+
+  const authDate = Number(params.get("auth_date"));
+  if (!Number.isFinite(authDate) || authDate <= 0) {
+    throw new Error('Missing auth_date');
+  }
+  if (now.getTime() / 1000 - authDate > maxAgeSeconds) {
+    throw new Error('Init data expired');
+  }
+
+  const user = params.get("user");
+  if (!user) {
+    throw new Error('Missing user');
+  }
+  const telegramUser = JSON.parse(user) as TelegramInitUser;
+  if (typeof telegramUser?.id !== "number") {
+    throw new Error('Missing user');
+  }
+
+  return telegramUser;
+}
+
+export function telegramAuthOptionsFromEnv(): TelegramAuthOptions {
+  const maxAgeSeconds = Number(process.env.TELEGRAM_INIT_DATA_MAX_AGE);
+  return {
+    botToken: process.env.TELEGRAM_BOT_TOKEN,
+    maxAgeSeconds: maxAgeSeconds > 0 ? maxAgeSeconds : DEFAULT_INIT_DATA_MAX_AGE_SECONDS,
+    allowUnsigned: process.env.NODE_ENV === "development",
+    adminTelegramIds: (process.env.ADMIN_TELEGRAM_IDS || "").split(",").map((id) => id.trim()).filter(Boolean),
+  };
+}
+
+// Thrown by authenticateTelegramUser; `status` is the HTTP status to answer with
+export class TelegramAuthError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "TelegramAuthError";
+  }
+}
+
+/**
+ * Verify Telegram initData and return the Telegram user with the matching
+ * account. Users are provisioned on their first request.
+ */
+export async function authenticateTelegramUser(
+  storage: IStorage,
+  initData: string | undefined,
+  options: TelegramAuthOptions = telegramAuthOptionsFromEnv(),
+): Promise<{ telegramUser: TelegramInitUser; user: SelectUser }> {
+  let telegramUser: TelegramInitUser;
+
+  if (options.botToken) {
+    if (!initData) {
+      throw new TelegramAuthError(401, "Telegram init data required");
+    }
+
+    try {
+      telegramUser = verifyInitData(initData, options.botToken, options.maxAgeSeconds);
+    } catch (error) {
+      throw new TelegramAuthError(401, "Invalid Telegram init data");
+    }
+  } else if (options.allowUnsigned) {
+    telegramUser = DEV_TELEGRAM_USER;
+  } else {
+    console.error('TELEGRAM_BOT_TOKEN is not set; rejecting API request');
+    throw new TelegramAuthError(500, "Telegram authentication is not configured");
+  }
+
+  try {
+    let user = await storage.getOrCreateUser({
+      telegramId: telegramUser.id.toString(),
+      username: telegramUser.username || null,
+      firstName: telegramUser.first_name || null,
+      lastName: telegramUser.last_name || null,
+    });
+
+    if (user.role !== "admin" && options.adminTelegramIds?.includes(user.telegramId)) {
+      user = (await storage.setUserRole(user.id, "admin")) ?? user;
+    }
+
+    return { telegramUser, user };
+  } catch (error) {
+    console.error('Error authenticating Telegram user:', error);
+    throw new TelegramAuthError(500, "Failed to authenticate user");
+  }
+}
+
+/**
+ * Verify the Telegram initData sent with a request, then attach the Telegram
+ * user as `req.telegramUser` and the matching account as `req.user`.
+ */
+export function telegramAuth(storage: IStorage, options: TelegramAuthOptions = telegramAuthOptionsFromEnv()) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { telegramUser, user } = await authenticateTelegramUser(storage, req.header(INIT_DATA_HEADER), options);
+      req.telegramUser = telegramUser;
+      req.user = user;
+    } catch (error) {
+      if (error instanceof TelegramAuthError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      throw error;
+    }
+    next();
+  };
+}
+
+// Must run after telegramAuth
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.role !== "admin") {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { backupSchema } from "@shared/backup";
+import { remapBackup } from "./backup";
+
+function backup(overrides: Record<string, unknown> = {}) {
+  return backupSchema.parse({
+    version: 1,
+    exportedAt: "2026-01-01T00:00:00.000Z",
+    profile: {
+      level: 2, xp: 900, cumulativeXp: 900, availablePoints: 1,
+      attributes: { physique: 10, mental: 12, success: 10, social: 10, skills: 10 },
+      createdAt: "2025-12-01T00:00:00.000Z",
+    },
+    settings: {
+      maxXp: 10000, maxAttributePoints: 100, questResetInterval: 24,
+      levelCurve: { type: "linear", xpPerLevel: 800 }, updatedAt: null,
+    },
+    questGroups: [],
+    quests: [],
+    questProgress: [],
+    questProgressSteps: [],
+    questFailures: [],
+    ledger: [],
+    notes: [],
+    ...overrides,
+  });
+}
+
+const quest = {
+  id: "quest-1", groupId: "group-gone", title: "Run", description: null, xpReward: 100, attributePointReward: 1,
+  targetAttribute: null, difficulty: "E", maxProgress: 3, enableRecurring: false, repetitionFrequency: "none",
+  enableDeadline: false, deadline: null, enablePenalty: false, penaltyXP: 0, penaltyAttributePoints: 0,
+  isActive: true, createdAt: "2025-12-02T00:00:00.000Z",
+};
+
+function progress(id: string, questId: string | null) {
+  return {
+    id, questId, periodKey: "once", progress: 1, completed: false, completedAt: null, isArchived: false, archivedAt: null,
+    archiveReason: null, canUndo: true, failed: false, failedAt: null, createdAt: null,
+  };
+}
+
+function step(id: string, progressId: string) {
+  return { id, progressId, questId: "quest-1", delta: 1, note: null, loggedAt: null, createdAt: null };
+}
+
+describe("remapBackup", () => {
+  it("drops rows that lose their parent and nulls other dangling references", () => {
+    let next = 0;
+    const rows = remapBackup(backup({
+      quests: [quest],
+      questProgress: [progress("progress-1", "quest-1"), progress("progress-2", "quest-gone")],
+      questProgressSteps: [step("step-1", "progress-1"), step("step-2", "progress-2")],
+    }), "user-1", () => `new-${++next}`);
+
+    expect(rows.quests).toEqual([expect.objectContaining({ id: "new-1", userId: "user-1", groupId: null })]);
+    expect(rows.questProgress).toEqual([expect.objectContaining({ id: "new-2", questId: "new-1" })]);
+    expect(rows.questProgressSteps).toEqual([expect.objectContaining({ id: "new-3", progressId: "new-2", questId: "new-1" })]);
+  });
+
+  it("opens the ledger with the profile's balances when the backup has none", () => {
+    const rows = remapBackup(backup(), "user-1");
+
+    expect(rows.ledger).toEqual([expect.objectContaining({
+      userId: "user-1",
+      source: "opening_balance",
+      xpDelta: 900,
+      cumulativeXpDelta: 900,
+      availablePointsDelta: 1,
+      attributeDeltas: { physique: 10, mental: 12, success: 10, social: 10, skills: 10 },
+    })]);
+  });
+});
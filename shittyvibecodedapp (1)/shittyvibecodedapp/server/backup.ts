@@ -0,0 +1,154 @@
+import { randomUUID } from "crypto";
+import type {
+  AttributeDefinition, LedgerEntry, Note, Profile, Quest, QuestFailure, QuestGroup, QuestProgress, QuestProgressStep, RewardPurchase, ShopReward, SystemSettings,
+} from "@shared/schema";
+import { BACKUP_VERSION, type Backup, type ImportMode, type ImportSummary } from "@shared/backup";
+import { diffTotals, emptyTotals, profileTotals } from "./ledger";
+
+// Everything one user owns
+export interface UserData {
+  profile: Profile;
+  settings: SystemSettings;
+  questGroups: QuestGroup[];
+  quests: Quest[];
+  questProgress: QuestProgress[];
+  questProgressSteps: QuestProgressStep[];
+  questFailures: QuestFailure[];
+  ledger: LedgerEntry[];
+  notes: Note[];
+  shopRewards: ShopReward[];
+  rewardPurchases: RewardPurchase[];
+  attributes: AttributeDefinition[];
+}
+
+// A backup turned into rows owned by the importing user, with fresh ids.
+// The profile is left out: it is rebuilt from the ledger. Null settings are not restored.
+export type ImportedRows = Omit<UserData, "profile" | "settings"> & {
+  settings: Backup["settings"] | null;
+  // Without it a replace keeps the user's ledger, purchases and attributes (see contentOnly)
+  restoreBalances: boolean;
+};
+
+function withoutOwner<T extends { userId: string | null }>(row: T): Omit<T, "userId"> {
+  const { userId: _userId, ...rest } = row;
+  return rest;
+}
+
+export function toBackup(data: UserData, exportedAt: Date = new Date()): Backup {
+  const { id: _profileId, userId: _profileUserId, ...profile } = data.profile;
+  const { id: _settingsId, userId: _settingsUserId, ...settings } = data.settings;
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt,
+    profile,
+    settings,
+    questGroups: data.questGroups.map(withoutOwner),
+    quests: data.quests.map(withoutOwner),
+    questProgress: data.questProgress.map(withoutOwner),
+    questProgressSteps: data.questProgressSteps.map(withoutOwner),
+    questFailures: data.questFailures.map(withoutOwner),
+    ledger: data.ledger.map(withoutOwner),
+    notes: data.notes.map(withoutOwner),
+    shopRewards: data.shopRewards.map(withoutOwner),
+    rewardPurchases: data.rewardPurchases.map(withoutOwner),
+    attributes: data.attributes.map(withoutOwner),
+  };
+}
+
+/**
+ * Give every row in the backup a new id and point its references at the new ids,
+ * so importing never collides with existing rows (or with the same backup imported twice).
+ * Progress and steps whose quest is not in the backup are dropped; other references
+ * to rows outside the backup become null.
+ */
+export function remapBackup(backup: Backup, userId: string, newId: () => string = randomUUID): ImportedRows {
+  const ids = new Map<string, string>();
+  const assignId = <T extends { id: string }>(row: T) => {
+    const id = newId();
+    ids.set(row.id, id);
+    return { ...row, id, userId };
+  };
+  const ref = (id: string | null) => (id && ids.get(id)) || null;
+
+  const questGroups = backup.questGroups.map(assignId);
+  const quests = backup.quests.map(assignId).map((quest) => ({ ...quest, groupId: ref(quest.groupId) }));
+  const questProgress = backup.questProgress
+    .filter((progress) => progress.questId && ids.has(progress.questId))
+    .map(assignId)
+    .map((progress) => ({ ...progress, questId: ref(progress.questId) }));
+  const questProgressSteps = backup.questProgressSteps
+    .filter((step) => ids.has(step.progressId))
+    .map(assignId)
+    .map((step) => ({ ...step, progressId: ref(step.progressId)!, questId: ref(step.questId) }));
+  const questFailures = backup.questFailures.map(assignId).map((failure) => ({ ...failure, questId: ref(failure.questId) }));
+  const ledger = backup.ledger.map(assignId).map((entry) => ({
+    ...entry,
+    questId: ref(entry.questId),
+    progressId: ref(entry.progressId),
+    reversesEntryId: ref(entry.reversesEntryId),
+  }));
+  const notes = backup.notes.map(assignId);
+  const shopRewards = backup.shopRewards.map(assignId);
+  const rewardPurchases = backup.rewardPurchases.map(assignId).map((purchase) => ({
+    ...purchase,
+    rewardId: ref(purchase.rewardId),
+    ledgerEntryId: ref(purchase.ledgerEntryId),
+  }));
+  const attributes = backup.attributes.map(assignId);
+
+  // A backup without a ledger still restores its balances
+  if (ledger.length === 0) {
+    ledger.push({
+      id: newId(),
+      userId,
+      source: "opening_balance",
+      questId: null,
+      progressId: null,
+      reversesEntryId: null,
+      ...diffTotals(emptyTotals(), profileTotals(backup.profile)),
+      note: null,
+      createdAt: backup.exportedAt,
+    });
+  }
+
+  return {
+    settings: backup.settings, questGroups, quests, questProgress, questProgressSteps, questFailures, ledger, notes, shopRewards, rewardPurchases,
+    attributes, restoreBalances: true,
+  };
+}
+
+// What a non-admin may restore: a backup is just a document they upload, so its ledger,
+// purchases and settings would let them set their own XP, gold, points and caps, and its
+// completions would count towards their streaks. Quests come back open, without their steps
+export function contentOnly(rows: ImportedRows): ImportedRows {
+  const questProgress = rows.questProgress.map((progress) => ({
+    ...progress,
+    progress: 0,
+    completed: false,
+    completedAt: null,
+    isArchived: false,
+    archivedAt: null,
+    archiveReason: null,
+    canUndo: true,
+  }));
+  return { ...rows, settings: null, questProgress, questProgressSteps: [], ledger: [], rewardPurchases: [], restoreBalances: false };
+}
+
+// Merging only adds quests, notes and shop rewards, so its ledger rows, purchases and settings are not counted;
+// neither are they when only content is restored
+export function importSummary(rows: ImportedRows, mode: ImportMode): ImportSummary {
+  return {
+    mode,
+    questGroups: rows.questGroups.length,
+    quests: rows.quests.length,
+    questProgress: rows.questProgress.length,
+    questProgressSteps: rows.questProgressSteps.length,
+    questFailures: rows.questFailures.length,
+    ledgerEntries: mode === "replace" ? rows.ledger.length : 0,
+    notes: rows.notes.length,
+    shopRewards: rows.shopRewards.length,
+    rewardPurchases: mode === "replace" ? rows.rewardPurchases.length : 0,
+    settings: mode === "replace" && rows.settings !== null,
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { LedgerEntry, Quest } from "@shared/schema";
+import { UTC_CLOCK } from "@shared/timezone";
+import { CalendarRangeError, calendarDayDetail, calendarDays, calendarRange } from "./calendar";
+
+const now = new Date("2026-03-10T12:00:00Z");
+const tokyo = { timezone: "Asia/Tokyo", dayStartHour: 0 };
+
+function entry(id: string, source: string, createdAt: string, fields: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id, source, questId: null, reversesEntryId: null, createdAt: new Date(createdAt),
+    xpDelta: 0, cumulativeXpDelta: 0, availablePointsDelta: 0, attributeDeltas: {}, goldDelta: 0, ...fields,
+  } as LedgerEntry;
+}
+
+function quest(id: string, fields: Partial<Quest> = {}): Quest {
+  return { id, title: `Quest ${id}`, groupId: "g1", enableDeadline: false, deadline: null, isActive: true, ...fields } as Quest;
+}
+
+// 23:30 UTC on the 8th is already the 9th in Tokyo (UTC+9)
+const entries = [
+  entry("open", "opening_balance", "2026-03-01T10:00:00Z", { attributeDeltas: { mental: 10 } }),
+  entry("a", "quest_completion", "2026-03-08T23:30:00Z", { questId: "q1", xpDelta: 100, cumulativeXpDelta: 100 }),
+  entry("b", "quest_completion", "2026-03-09T09:00:00Z", { questId: "q2", xpDelta: 50, cumulativeXpDelta: 50 }),
+  entry("c", "quest_reversal", "2026-03-09T10:00:00Z", { reversesEntryId: "b", xpDelta: -50, cumulativeXpDelta: -50 }),
+  entry("d", "quest_completion", "2026-03-09T11:00:00Z", { questId: "deleted", xpDelta: 30, cumulativeXpDelta: 30 }),
+];
+
+const quests = [
+  quest("q1", { enableDeadline: true, deadline: new Date("2026-03-12T18:00:00Z") }),
+  quest("q2", { enableDeadline: true, deadline: new Date("2026-03-12T20:00:00Z"), isActive: false }),
+];
+
+describe("calendarRange", () => {
+  it("defaults to the year up to the user's today", () => {
+    expect(calendarRange({}, now, UTC_CLOCK)).toEqual({ from: "2025-03-11", to: "2026-03-10" });
+    expect(calendarRange({}, new Date("2026-03-10T20:00:00Z"), { timezone: "Pacific/Kiritimati", dayStartHour: 0 }).to).toBe("2026-03-11");
+    // 02:00 on the 11th in Kiritimati is still the 10th for a day starting at 4am
+    expect(calendarRange({}, new Date("2026-03-10T12:00:00Z"), { timezone: "Pacific/Kiritimati", dayStartHour: 4 }).to).toBe("2026-03-10");
+  });
+
+  it("rejects backwards and overlong ranges", () => {
+    expect(() => calendarRange({ from: "2026-03-10", to: "2026-03-01" }, now, UTC_CLOCK)).toThrow(CalendarRangeError);
+    expect(() => calendarRange({ from: "2024-01-01", to: "2026-01-01" }, now, UTC_CLOCK)).toThrow("at most 366 days");
+  });
+});
+
+describe("calendarDays", () => {
+  it("counts completions, net XP and deadlines per user day", () => {
+    expect(calendarDays(entries, quests, UTC_CLOCK, "2026-03-01", "2026-03-31")).toEqual([
+      { date: "2026-03-08", completions: 1, xpEarned: 100, deadlines: 0 },
+      { date: "2026-03-09", completions: 1, xpEarned: 30, deadlines: 0 },
+      { date: "2026-03-12", completions: 0, xpEarned: 0, deadlines: 1 },
+    ]);
+
+    expect(calendarDays(entries, quests, tokyo, "2026-03-01", "2026-03-31")).toEqual([
+      { date: "2026-03-09", completions: 2, xpEarned: 130, deadlines: 0 },
+      { date: "2026-03-13", completions: 0, xpEarned: 0, deadlines: 1 },
+    ]);
+  });
+
+  it("leaves out days outside the range", () => {
+    expect(calendarDays(entries, quests, UTC_CLOCK, "2026-03-09", "2026-03-10").map((day) => day.date)).toEqual(["2026-03-09"]);
+  });
+});
+
+describe("calendarDayDetail", () => {
+  it("lists the day's completions with their quests and the deadlines due", () => {
+    const day = calendarDayDetail(entries, quests, tokyo, "2026-03-09");
+    expect(day).toMatchObject({ date: "2026-03-09", timezone: "Asia/Tokyo", xpEarned: 130 });
+    expect(day.completions).toMatchObject([
+      { entryId: "a", questId: "q1", title: "Quest q1", groupId: "g1", xpEarned: 100 },
+      { entryId: "d", questId: "deleted", title: null, groupId: null, xpEarned: 30 },
+    ]);
+    expect(calendarDayDetail(entries, quests, UTC_CLOCK, "2026-03-12").deadlines.map((quest) => quest.id)).toEqual(["q1"]);
+  });
+});
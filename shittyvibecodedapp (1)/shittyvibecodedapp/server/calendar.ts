@@ -0,0 +1,114 @@
+import type { LedgerEntry, Quest } from "@shared/schema";
+import {
+  MAX_CALENDAR_DAYS, type Calendar, type CalendarDay, type CalendarDayDetail, type CalendarQuery,
+} from "@shared/calendar";
+import { addDays, dayClock, daysBetween, userDate, type DayClock } from "@shared/timezone";
+import { completionEntries } from "./streaks";
+import type { IStorage } from "./storage";
+
+const DEFAULT_CALENDAR_DAYS = 365;
+
+// Raised when a calendar range is backwards or longer than MAX_CALENDAR_DAYS
+export class CalendarRangeError extends Error {}
+
+type CalendarQuest = Pick<Quest, "id" | "title" | "groupId" | "enableDeadline" | "deadline" | "isActive">;
+
+// Deadlines of paused quests no longer matter
+function deadlineDate(quest: CalendarQuest, clock: DayClock): string | null {
+  return quest.enableDeadline && quest.deadline && quest.isActive !== false ? userDate(quest.deadline, clock) : null;
+}
+
+// The first and last day of the range, both inclusive
+export function calendarRange(query: CalendarQuery, now: Date, clock: DayClock): { from: string; to: string } {
+  const to = query.to ?? userDate(now, clock);
+  const from = query.from ?? addDays(to, -(DEFAULT_CALENDAR_DAYS - 1));
+
+  if (from > to) {
+    throw new CalendarRangeError("The range must not end before it starts");
+  }
+  if (daysBetween(from, to) + 1 > MAX_CALENDAR_DAYS) {
+    throw new CalendarRangeError(`A calendar covers at most ${MAX_CALENDAR_DAYS} days`);
+  }
+  return { from, to };
+}
+
+// Completions, net XP and deadlines per user day from `from` to `to`, leaving out empty days
+export function calendarDays(entries: LedgerEntry[], quests: CalendarQuest[], clock: DayClock, from: string, to: string): CalendarDay[] {
+  const days = new Map<string, CalendarDay>();
+  const day = (date: string) => {
+    if (date < from || date > to) {
+      return null;
+    }
+    if (!days.has(date)) {
+      days.set(date, { date, completions: 0, xpEarned: 0, deadlines: 0 });
+    }
+    return days.get(date)!;
+  };
+
+  const completions = new Set(completionEntries(entries).map((entry) => entry.id));
+  for (const entry of entries) {
+    if (!entry.createdAt || (!entry.cumulativeXpDelta && !completions.has(entry.id))) {
+      continue;
+    }
+    const counted = day(userDate(entry.createdAt, clock));
+    if (counted) {
+      counted.xpEarned += entry.cumulativeXpDelta;
+      counted.completions += completions.has(entry.id) ? 1 : 0;
+    }
+  }
+
+  for (const quest of quests) {
+    const date = deadlineDate(quest, clock);
+    const counted = date && day(date);
+    if (counted) {
+      counted.deadlines++;
+    }
+  }
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// What was completed and what is due on one day
+export function calendarDayDetail(entries: LedgerEntry[], quests: Quest[], clock: DayClock, date: string): CalendarDayDetail {
+  const onDay = (time: Date | null) => !!time && userDate(time, clock) === date;
+  const questById = new Map(quests.map((quest) => [quest.id, quest]));
+
+  const completions = completionEntries(entries)
+    .filter((entry) => onDay(entry.createdAt))
+    .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())
+    .map((entry) => {
+      const quest = entry.questId ? questById.get(entry.questId) : undefined;
+      return {
+        entryId: entry.id,
+        questId: entry.questId,
+        title: quest?.title ?? null,
+        groupId: quest?.groupId ?? null,
+        xpEarned: entry.cumulativeXpDelta,
+        completedAt: entry.createdAt!,
+      };
+    });
+
+  return {
+    date,
+    timezone: clock.timezone,
+    xpEarned: entries.filter((entry) => onDay(entry.createdAt)).reduce((sum, entry) => sum + entry.cumulativeXpDelta, 0),
+    completions,
+    deadlines: quests.filter((quest) => deadlineDate(quest, clock) === date),
+  };
+}
+
+export async function getCalendar(storage: IStorage, userId: string, query: CalendarQuery, now: Date = new Date()): Promise<Calendar> {
+  const clock = dayClock(await storage.getProfile(userId));
+  const { from, to } = calendarRange(query, now, clock);
+  const quests = await storage.getAllQuests(userId);
+  const entries = await storage.getLedgerEntries(userId);
+
+  return { from, to, timezone: clock.timezone, days: calendarDays(entries, quests, clock, from, to) };
+}
+
+export async function getCalendarDay(storage: IStorage, userId: string, date: string): Promise<CalendarDayDetail> {
+  const clock = dayClock(await storage.getProfile(userId));
+  const quests = await storage.getAllQuests(userId);
+  const entries = await storage.getLedgerEntries(userId);
+  return calendarDayDetail(entries, quests, clock, date);
+}
@@ -0,0 +1,27 @@
+// Database maintenance commands: `npm run db:migrate` and `npm run db:seed`
+import { runMigrations } from "./migrate";
+import { seedDatabase } from "./seed";
+
+const commands: Record<string, () => Promise<void>> = {
+  async migrate() {
+    await runMigrations();
+    console.log("Migrations applied");
+  },
+  async seed() {
+    const seeded = await seedDatabase();
+    console.log(seeded > 0 ? `Seeded starter quests for ${seeded} owner(s)` : "Nothing to seed; every user already has quest groups");
+  },
+};
+
+const command = commands[process.argv[2]];
+if (!command) {
+  console.error(`Usage: tsx server/db-cli.ts <${Object.keys(commands).join("|")}>`);
+  process.exit(1);
+}
+
+command()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
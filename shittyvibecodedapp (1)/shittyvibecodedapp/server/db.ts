@@ -2,18 +2,32 @@ import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+function createDb() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  // Configure PostgreSQL client for Replit environment
+  const sql = postgres(process.env.DATABASE_URL, {
+    ssl: false, // Disable SSL since DATABASE_URL includes sslmode=disable
+    max: 10,    // Maximum connections
+    idle_timeout: 20,
+    connect_timeout: 10,
+  });
+
+  return drizzle(sql, { schema });
 }
 
-// Configure PostgreSQL client for Replit environment
-const sql = postgres(process.env.DATABASE_URL, {
-  ssl: false, // Disable SSL since DATABASE_URL includes sslmode=disable
-  max: 10,    // Maximum connections
-  idle_timeout: 20,
-  connect_timeout: 10,
-});
+export type Database = ReturnType<typeof createDb>;
 
-export const db = drizzle(sql, { schema });
+let database: Database | undefined;
+
+// Connect on first use so the in-memory storage never needs DATABASE_URL
+export function getDb(): Database {
+  if (!database) {
+    database = createDb();
+  }
+  return database;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { LedgerEntry } from "@shared/schema";
+import { HistoryRangeError, bucketStart, buildHistory, historyRange } from "./history";
+
+const now = new Date("2026-03-10T12:00:00Z");
+
+function entry(id: string, source: string, createdAt: string, fields: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id, source, questId: null, reversesEntryId: null, createdAt: new Date(createdAt),
+    xpDelta: 0, cumulativeXpDelta: 0, availablePointsDelta: 0, attributeDeltas: {}, goldDelta: 0, ...fields,
+  } as LedgerEntry;
+}
+
+const entries = [
+  entry("open", "opening_balance", "2026-02-01T10:00:00Z", { attributeDeltas: { mental: 10 } }),
+  entry("a", "quest_completion", "2026-03-02T09:00:00Z", { questId: "q1", xpDelta: 900, cumulativeXpDelta: 900, attributeDeltas: { mental: 2 } }),
+  entry("b", "quest_completion", "2026-03-04T09:00:00Z", { questId: "q2", xpDelta: 100, cumulativeXpDelta: 100 }),
+  entry("c", "quest_reversal", "2026-03-04T10:00:00Z", { reversesEntryId: "b", xpDelta: -100, cumulativeXpDelta: -100 }),
+  entry("d", "quest_completion", "2026-03-09T09:00:00Z", { questId: "deleted", xpDelta: 50, cumulativeXpDelta: 50 }),
+];
+
+const quests = [{ id: "q1", groupId: "g1" }, { id: "q2", groupId: "g1" }];
+
+describe("bucketStart", () => {
+  it("starts weeks on Monday and months on the first", () => {
+    // 2026-03-10 is a Tuesday
+    expect(bucketStart("2026-03-10", "day")).toBe("2026-03-10");
+    expect(bucketStart("2026-03-10", "week")).toBe("2026-03-09");
+    expect(bucketStart("2026-03-10", "month")).toBe("2026-03-01");
+  });
+});
+
+describe("historyRange", () => {
+  it("defaults to the last 30 days", () => {
+    expect(historyRange({ granularity: "day" }, now)).toEqual({ from: "2026-02-09", to: "2026-03-10" });
+  });
+
+  it("ends on the user's today", () => {
+    // 02:00 in Berlin is still the 9th for a day starting at 4am
+    const night = new Date("2026-03-10T01:00:00Z");
+    expect(historyRange({ granularity: "day" }, night, { timezone: "Europe/Berlin", dayStartHour: 4 }).to).toBe("2026-03-09");
+    expect(historyRange({ granularity: "day" }, night, { timezone: "Asia/Tokyo", dayStartHour: 0 }).to).toBe("2026-03-10");
+  });
+
+  it("rejects impossible, backwards and overlong ranges", () => {
+    expect(() => historyRange({ from: "2026-02-31", granularity: "day" }, now)).toThrow(HistoryRangeError);
+    expect(() => historyRange({ from: "2026-03-10", to: "2026-03-01", granularity: "day" }, now)).toThrow(HistoryRangeError);
+    expect(() => historyRange({ from: "2024-01-01", to: "2026-01-01", granularity: "day" }, now)).toThrow("at most 366 days");
+    expect(historyRange({ from: "2024-01-01", to: "2026-01-01", granularity: "month" }, now).from).toBe("2024-01-01");
+  });
+});
+
+describe("buildHistory", () => {
+  it("replays the ledger into daily totals and activity", () => {
+    const points = buildHistory(entries, quests, "day", "2026-03-01", "2026-03-04");
+    expect(points.map((point) => point.period)).toEqual(["2026-03-01", "2026-03-02", "2026-03-03", "2026-03-04"]);
+
+    // Earlier entries count towards the totals but not the activity
+    expect(points[0]).toMatchObject({ xp: 0, level: 1, attributes: { mental: 10 }, xpEarned: 0, questsCompleted: 0 });
+    expect(points[1]).toMatchObject({ xp: 900, level: 2, attributes: { mental: 12 }, xpEarned: 900, questsCompleted: 1, completionsByGroup: { g1: 1 } });
+    expect(points[2]).toMatchObject({ xp: 900, xpEarned: 0, questsCompleted: 0 });
+    // An undone completion nets out and is not counted
+    expect(points[3]).toMatchObject({ xp: 900, xpEarned: 0, questsCompleted: 0, completionsByGroup: {} });
+  });
+
+  it("returns whole weeks and files completions of deleted quests under none", () => {
+    const points = buildHistory(entries, quests, "week", "2026-03-04", "2026-03-10");
+    expect(points.map((point) => point.period)).toEqual(["2026-03-02", "2026-03-09"]);
+    expect(points[0]).toMatchObject({ xpEarned: 900, questsCompleted: 1, completionsByGroup: { g1: 1 } });
+    expect(points[1]).toMatchObject({ xp: 950, cumulativeXp: 950, xpEarned: 50, completionsByGroup: { none: 1 } });
+  });
+
+  it("buckets entries by the user's day", () => {
+    // 09:00 UTC on the 2nd is 1am in Los Angeles, still the 1st for a day starting at 4am
+    const points = buildHistory(entries, quests, "day", "2026-03-01", "2026-03-02", undefined, { timezone: "America/Los_Angeles", dayStartHour: 4 });
+    expect(points.map((point) => point.questsCompleted)).toEqual([1, 0]);
+  });
+});
@@ -0,0 +1,129 @@
+import type { LedgerEntry, Quest } from "@shared/schema";
+import { DEFAULT_LEVEL_CURVE, levelForXp, type LevelCurve } from "@shared/leveling";
+import { MAX_HISTORY_DAYS, type History, type HistoryGranularity, type HistoryPoint, type HistoryQuery } from "@shared/history";
+import { UTC_CLOCK, addDays, dayClock, daysBetween, isoDateSchema, userDate, weekdayIndex, type DayClock } from "@shared/timezone";
+import { accumulate, emptyTotals } from "./ledger";
+import { completionEntries } from "./streaks";
+import type { IStorage } from "./storage";
+
+const DEFAULT_HISTORY_DAYS = 30;
+
+// Raised when a history range is malformed, backwards or too long for its granularity
+export class HistoryRangeError extends Error {}
+
+function checkDay(day: string): string {
+  if (!isoDateSchema.safeParse(day).success) {
+    throw new HistoryRangeError(`Invalid date: ${day}`);
+  }
+  return day;
+}
+
+// The user's days, weeks starting on Monday and calendar months
+export function bucketStart(day: string, granularity: HistoryGranularity): string {
+  if (granularity === "week") {
+    return addDays(day, -weekdayIndex(day));
+  }
+  if (granularity === "month") {
+    return `${day.slice(0, 7)}-01`;
+  }
+  return day;
+}
+
+function nextBucket(start: string, granularity: HistoryGranularity): string {
+  if (granularity === "week") {
+    return addDays(start, 7);
+  }
+  if (granularity === "month") {
+    // The 32nd day after the first is always in the next month
+    return bucketStart(addDays(start, 31), "month");
+  }
+  return addDays(start, 1);
+}
+
+// The first and last day of the range, both inclusive; today is the user's today
+export function historyRange(query: HistoryQuery, now: Date, clock: DayClock = UTC_CLOCK): { from: string; to: string } {
+  const to = query.to ? checkDay(query.to) : userDate(now, clock);
+  const from = query.from ? checkDay(query.from) : addDays(to, -(DEFAULT_HISTORY_DAYS - 1));
+
+  if (from > to) {
+    throw new HistoryRangeError("The range must not end before it starts");
+  }
+  if (daysBetween(from, to) + 1 > MAX_HISTORY_DAYS[query.granularity]) {
+    throw new HistoryRangeError(`A ${query.granularity} history covers at most ${MAX_HISTORY_DAYS[query.granularity]} days`);
+  }
+  return { from, to };
+}
+
+/**
+ * Replay the ledger into one point per bucket from `from` to `to`. Buckets that only
+ * partly overlap the range (the weeks or months at either end) are returned whole.
+ * Entries fall on the day they happened for the user; levels use the current level curve.
+ */
+export function buildHistory(
+  entries: LedgerEntry[],
+  quests: Pick<Quest, "id" | "groupId">[],
+  granularity: HistoryGranularity,
+  from: string,
+  to: string,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE,
+  clock: DayClock = UTC_CLOCK,
+): HistoryPoint[] {
+  const time = (entry: LedgerEntry) => entry.createdAt?.getTime() ?? 0;
+  const ordered = [...entries].sort((a, b) => time(a) - time(b));
+  const dayOf = (entry: LedgerEntry) => (entry.createdAt ? userDate(entry.createdAt, clock) : "");
+  const completions = new Set(completionEntries(entries).map((entry) => entry.id));
+  const groupOf = new Map(quests.map((quest) => [quest.id, quest.groupId]));
+
+  const totals = emptyTotals();
+  const points: HistoryPoint[] = [];
+  let index = 0;
+
+  for (let start = bucketStart(from, granularity); start <= to; start = nextBucket(start, granularity)) {
+    const end = nextBucket(start, granularity);
+    const point: HistoryPoint = {
+      period: start, xp: 0, cumulativeXp: 0, level: 1, attributes: {}, xpEarned: 0, questsCompleted: 0, completionsByGroup: {},
+    };
+
+    // Entries before the first bucket only count towards the totals
+    for (; index < ordered.length && dayOf(ordered[index]) < end; index++) {
+      const entry = ordered[index];
+      accumulate(totals, entry);
+      if (dayOf(entry) < start) {
+        continue;
+      }
+
+      point.xpEarned += entry.cumulativeXpDelta;
+      if (completions.has(entry.id)) {
+        const group = (entry.questId && groupOf.get(entry.questId)) || "none";
+        point.questsCompleted++;
+        point.completionsByGroup[group] = (point.completionsByGroup[group] || 0) + 1;
+      }
+    }
+
+    points.push({
+      ...point,
+      xp: totals.xp,
+      cumulativeXp: totals.cumulativeXp,
+      level: levelForXp(totals.xp, curve),
+      attributes: { ...totals.attributes },
+    });
+  }
+
+  return points;
+}
+
+export async function getHistory(storage: IStorage, userId: string, query: HistoryQuery, now: Date = new Date()): Promise<History> {
+  const profile = await storage.getProfile(userId);
+  const clock = dayClock(profile);
+  const { from, to } = historyRange(query, now, clock);
+  const settings = await storage.getSystemSettings(userId);
+  const quests = await storage.getAllQuests(userId);
+  const entries = await storage.getLedgerEntries(userId);
+
+  return {
+    from,
+    to,
+    granularity: query.granularity,
+    points: buildHistory(entries, quests, query.granularity, from, to, settings.levelCurve, clock),
+  };
+}
@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction } from "express";
+import { IDEMPOTENCY_KEY_HEADER } from "@shared/api";
+import type { IStorage } from "./storage";
+
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+// Clients replay their outbox within this window; older keys are deleted by the scheduler
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 200;
+
+/**
+ * Mutating requests that carry an Idempotency-Key run once per user and key.
+ * Repeats get the recorded status and body back without running the handler,
+ * so replaying a queued quest completion never grants its reward twice.
+ * Server errors release the key so the request can be retried.
+ * Must run after telegramAuth.
+ */
+export function idempotency(storage: IStorage) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header(IDEMPOTENCY_KEY_HEADER);
+    if (!key || req.method === "GET") {
+      return next();
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ message: "Invalid idempotency key" });
+    }
+
+    const userId = req.user!.id;
+    const request = { key, method: req.method, path: req.baseUrl + req.path };
+
+    try {
+      const existing = await storage.claimIdempotencyKey(userId, request);
+      if (existing) {
+        if (existing.method !== request.method || existing.path !== request.path) {
+          return res.status(422).json({ message: "Idempotency key was already used for a different request" });
+        }
+        if (existing.statusCode === null) {
+          return res.status(409).json({ message: "A request with this idempotency key is still in progress" });
+        }
+
+        res.setHeader(IDEMPOTENT_REPLAY_HEADER, "true");
+        return res.status(existing.statusCode).json(existing.responseBody);
+      }
+    } catch (error) {
+      console.error('Error checking idempotency key:', error);
+      return res.status(500).json({ message: "Failed to process request" });
+    }
+
+    // Record the response before sending it, so a replay can never see the key unfinished
+    const originalJson = res.json;
+    res.json = function (body) {
+      const record = res.statusCode >= 500
+        ? storage.releaseIdempotencyKey(userId, key)
+        : storage.saveIdempotentResponse(userId, key, res.statusCode, body);
+      record
+        .catch((error) => console.error('Error recording idempotent response:', error))
+        .finally(() => originalJson.call(res, body));
+      return res;
+    };
+
+    next();
+  };
+}
@@ -1,8 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { DatabaseStorage, storage } from "./storage";
+import { runMigrations } from "./migrate";
+import { startQuestScheduler } from "./scheduler";
 
 const app = express();
+// Backups can be far larger than any other request body
+app.use("/api/import", express.json({ limit: "10mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -37,6 +42,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Bring the database schema up to date before serving any requests
+  if (storage instanceof DatabaseStorage) {
+    await runMigrations();
+    log("database migrations applied");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,5 +78,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startQuestScheduler(storage);
   });
 })();
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { Quest } from "@shared/schema";
+import {
+  type ProfileTotals, AllocationError, CapExceededError, InsufficientGoldError, allocatedAttributes, allocationDeltas, applyDeltas,
+  assertWithinCaps, availablePointsCap, emptyDeltas, migrationDeltas, progressionRules, purchaseDeltas, questRewardDeltas,
+  respecDeltas,
+} from "./ledger";
+
+const rules = progressionRules({ levelCurve: { type: "linear", xpPerLevel: 800 }, maxXp: 1000, maxAttributePoints: 20 });
+
+function totals(overrides: Partial<ProfileTotals> = {}): ProfileTotals {
+  return {
+    xp: 0,
+    cumulativeXp: 0,
+    availablePoints: 0,
+    attributes: { physique: 10, mental: 10, success: 10, social: 10, skills: 10 },
+    gold: 0,
+    ...overrides,
+  };
+}
+
+function quest(overrides: Partial<Quest> = {}): Quest {
+  return { xpReward: 100, attributePointReward: 0, targetAttribute: null, ...overrides } as Quest;
+}
+
+describe("applyDeltas", () => {
+  it("drops XP earned past maxXp from both XP totals", () => {
+    const start = totals({ xp: 900, cumulativeXp: 950 });
+    const { totals: result, applied } = applyDeltas(start, questRewardDeltas(quest({ xpReward: 200 }), start, rules), rules);
+
+    expect(result.cumulativeXp).toBe(1000);
+    expect(result.xp).toBe(950);
+    expect(applied.xpDelta).toBe(50);
+  });
+
+  it("caps attributes at maxAttributePoints", () => {
+    const start = totals({ attributes: { ...totals().attributes, mental: 18 } });
+    const reward = questRewardDeltas(quest({ xpReward: 0, attributePointReward: 5, targetAttribute: "mental" }), start, rules);
+    const { totals: result, applied } = applyDeltas(start, reward, rules);
+
+    expect(result.attributes.mental).toBe(20);
+    expect(applied.attributeDeltas).toEqual({ mental: 2 });
+  });
+
+  it("caps available points at what the attributes can still absorb", () => {
+    const start = totals();
+    expect(availablePointsCap(start.attributes, rules)).toBe(50);
+
+    const deltas = { ...emptyDeltas(), availablePointsDelta: 80 };
+    expect(applyDeltas(start, deltas, rules).totals.availablePoints).toBe(50);
+  });
+
+  it("leaves values above a lowered cap alone", () => {
+    const start = totals({ attributes: { ...totals().attributes, skills: 30 } });
+    const deltas = { ...emptyDeltas(), attributeDeltas: { skills: -1 } };
+    expect(applyDeltas(start, deltas, rules).totals.attributes.skills).toBe(29);
+  });
+
+  it("only grants level-up points for XP under the cap", () => {
+    const start = totals({ xp: 700, cumulativeXp: 1000 });
+    expect(questRewardDeltas(quest({ xpReward: 500 }), start, rules).availablePointsDelta).toBe(0);
+  });
+});
+
+describe("assertWithinCaps", () => {
+  it("rejects raising an attribute past the cap", () => {
+    const from = totals({ availablePoints: 15 });
+    const to = { ...from, attributes: { ...from.attributes, physique: 25 } };
+    expect(() => assertWithinCaps(from, to, rules)).toThrow(CapExceededError);
+    expect(() => assertWithinCaps(from, to, rules)).toThrow("physique cannot exceed 20");
+  });
+
+  it("rejects available points that could never be spent", () => {
+    const from = totals();
+    expect(() => assertWithinCaps(from, { ...from, availablePoints: 51 }, rules)).toThrow("Available points cannot exceed 50");
+    expect(() => assertWithinCaps(from, { ...from, availablePoints: 50 }, rules)).not.toThrow();
+  });
+});
+
+describe("allocation", () => {
+  const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 0, minutes));
+
+  it("nets allocations since the last respec", () => {
+    expect(allocatedAttributes([
+      { source: "attribute_allocation", attributeDeltas: { mental: 3 }, createdAt: at(1) },
+      { source: "respec", attributeDeltas: { mental: -3 }, createdAt: at(2) },
+      { source: "attribute_allocation", attributeDeltas: { mental: 2, skills: 1 }, createdAt: at(3) },
+      { source: "quest_completion", attributeDeltas: { skills: 5 }, createdAt: at(4) },
+      { source: "attribute_allocation", attributeDeltas: { mental: -1 }, createdAt: at(5) },
+    ])).toEqual({ mental: 1, skills: 1 });
+  });
+
+  it("spends one available point per attribute point", () => {
+    const deltas = allocationDeltas(totals({ availablePoints: 3 }), { mental: 2, skills: 1 }, {}, rules);
+    expect(deltas.availablePointsDelta).toBe(-3);
+    expect(deltas.attributeDeltas).toEqual({ mental: 2, skills: 1 });
+  });
+
+  it("rejects spending more points than available", () => {
+    expect(() => allocationDeltas(totals({ availablePoints: 1 }), { mental: 2 }, {}, rules)).toThrow(AllocationError);
+  });
+
+  it("only refunds allocated points", () => {
+    expect(() => allocationDeltas(totals(), { mental: -1 }, {}, rules)).toThrow("Only 0 allocated points can be refunded from mental");
+    expect(allocationDeltas(totals(), { mental: -1 }, { mental: 2 }, rules).availablePointsDelta).toBe(1);
+  });
+
+  it("rejects unknown attributes and raising past the cap", () => {
+    expect(() => allocationDeltas(totals({ availablePoints: 5 }), { luck: 1 }, {}, rules)).toThrow("Unknown attribute: luck");
+    expect(() => allocationDeltas(totals({ availablePoints: 15 }), { mental: 11 }, {}, rules)).toThrow(CapExceededError);
+  });
+
+  it("respec refunds every allocated point", () => {
+    const deltas = respecDeltas(totals(), { mental: 2, skills: 1 });
+    expect(deltas.attributeDeltas).toEqual({ mental: -2, skills: -1 });
+    expect(deltas.availablePointsDelta).toBe(3);
+  });
+});
+
+describe("attribute definitions", () => {
+  const settings = { levelCurve: { type: "linear" as const, xpPerLevel: 800 }, maxXp: 1000, maxAttributePoints: 20 };
+  const customRules = progressionRules(settings, [
+    { key: "mental", cap: null, sortOrder: 0, retiredAt: null },
+    { key: "luck", cap: 12, sortOrder: 1, retiredAt: null },
+    { key: "skills", cap: null, sortOrder: 2, retiredAt: new Date() },
+  ]);
+
+  it("uses each attribute's own cap and leaves out retired attributes", () => {
+    expect(customRules.attributeCaps).toEqual({ mental: 20, luck: 12 });
+    expect(availablePointsCap({ mental: 10, luck: 10 }, customRules)).toBe(12);
+    expect(() => allocationDeltas(totals({ availablePoints: 5, attributes: { mental: 10, luck: 10 } }), { luck: 3 }, {}, customRules))
+      .toThrow(CapExceededError);
+    expect(() => allocationDeltas(totals({ availablePoints: 5 }), { skills: 1 }, {}, customRules)).toThrow("Unknown attribute: skills");
+  });
+
+  it("moves points into another attribute up to its cap", () => {
+    expect(migrationDeltas(totals({ attributes: { skills: 10, luck: 5 } }), "skills", "luck", customRules).attributeDeltas)
+      .toEqual({ skills: -7, luck: 7 });
+    expect(migrationDeltas(totals({ attributes: { skills: 10, luck: 12 } }), "skills", "luck", customRules).attributeDeltas).toEqual({});
+  });
+
+  it("carries allocated points along with a migration", () => {
+    const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 0, minutes));
+    expect(allocatedAttributes([
+      { source: "attribute_allocation", attributeDeltas: { skills: 3 }, createdAt: at(1) },
+      { source: "attribute_migration", attributeDeltas: { skills: -10, luck: 10 }, createdAt: at(2) },
+    ])).toEqual({ luck: 3 });
+  });
+});
+
+describe("purchaseDeltas", () => {
+  it("spends gold and refuses to go below zero", () => {
+    expect(purchaseDeltas(totals({ gold: 120 }), 100)).toEqual({ ...emptyDeltas(), goldDelta: -100 });
+    expect(() => purchaseDeltas(totals({ gold: 99 }), 100)).toThrow(InsufficientGoldError);
+  });
+});
@@ -0,0 +1,441 @@
+import type { Profile, Quest, QuestFailure, LedgerEntry, SystemSettings } from "@shared/schema";
+import { DEFAULT_LEVEL_CURVE, levelForXp, type LevelCurve } from "@shared/leveling";
+import { DEFAULT_STREAK_MILESTONES, type StreakMilestone } from "@shared/streaks";
+import { DEFAULT_ATTRIBUTES, activeAttributes, attributeCap, type AttributeLike } from "@shared/attributes";
+
+export type LedgerSource =
+  | "opening_balance"
+  | "quest_completion"
+  | "quest_reversal"
+  | "deadline_penalty"
+  | "admin_adjustment"
+  | "attribute_allocation"
+  | "respec"
+  | "reconciliation"
+  | "reward_purchase"
+  | "purchase_refund"
+  | "attribute_migration";
+
+export interface LedgerDeltas {
+  xpDelta: number;
+  cumulativeXpDelta: number;
+  availablePointsDelta: number;
+  attributeDeltas: Record<string, number>;
+  goldDelta: number;
+}
+
+export interface ProfileTotals {
+  xp: number;
+  cumulativeXp: number;
+  availablePoints: number;
+  attributes: Record<string, number>;
+  gold: number;
+}
+
+// Level curve and caps from systemSettings that every write path is held to
+export interface ProgressionRules {
+  levelCurve: LevelCurve;
+  maxXp: number;
+  maxAttribute: number;
+  streakMilestones: StreakMilestone[];
+  // Caps of the active attributes; only these take rewards and allocations
+  attributeCaps: Record<string, number>;
+}
+
+// Raised when an explicit change (allocation, admin edit) would break a cap
+export class CapExceededError extends Error {}
+
+// Raised when an allocation request does not add up against the profile
+export class AllocationError extends Error {}
+
+// Raised when a purchase costs more gold than the profile has
+export class InsufficientGoldError extends Error {}
+
+// Raised when a change to the user's attribute set is not possible (duplicate key, bad target)
+export class AttributeError extends Error {}
+
+export interface LedgerReconciliation {
+  inSync: boolean;
+  repaired: boolean;
+  entries: number;
+  profile: ProfileTotals;
+  ledger: ProfileTotals;
+  drift: LedgerDeltas;
+}
+
+// Users who never changed their attributes have no definitions stored and get the defaults
+export function progressionRules(
+  settings?: Pick<SystemSettings, "levelCurve" | "maxXp" | "maxAttributePoints"> & Partial<Pick<SystemSettings, "streakMilestones">>,
+  attributes?: AttributeLike[],
+): ProgressionRules {
+  const maxAttribute = settings?.maxAttributePoints ?? 100;
+  const definitions = attributes?.length
+    ? activeAttributes(attributes)
+    : DEFAULT_ATTRIBUTES.map((attribute) => ({ key: attribute.key, cap: null }));
+
+  return {
+    levelCurve: settings?.levelCurve ?? DEFAULT_LEVEL_CURVE,
+    maxXp: settings?.maxXp ?? 80000,
+    maxAttribute,
+    streakMilestones: settings?.streakMilestones ?? DEFAULT_STREAK_MILESTONES,
+    attributeCaps: Object.fromEntries(definitions.map((attribute) => [attribute.key, attributeCap(attribute, maxAttribute)])),
+  };
+}
+
+// Retired attributes fall back to maxAttribute; they only ever lose points
+function capOf(attribute: string, rules: ProgressionRules): number {
+  return rules.attributeCaps[attribute] ?? rules.maxAttribute;
+}
+
+function isActiveAttribute(attribute: string, rules: ProgressionRules): boolean {
+  return Object.prototype.hasOwnProperty.call(rules.attributeCaps, attribute);
+}
+
+// Points beyond what the attributes can still absorb could never be spent
+export function availablePointsCap(attributes: Record<string, number>, rules: ProgressionRules): number {
+  return Object.entries(rules.attributeCaps)
+    .reduce((room, [attribute, cap]) => room + Math.max(0, cap - (attributes[attribute] || 0)), 0);
+}
+
+export function emptyTotals(): ProfileTotals {
+  return { xp: 0, cumulativeXp: 0, availablePoints: 0, attributes: {}, gold: 0 };
+}
+
+export function emptyDeltas(): LedgerDeltas {
+  return { xpDelta: 0, cumulativeXpDelta: 0, availablePointsDelta: 0, attributeDeltas: {}, goldDelta: 0 };
+}
+
+export function profileTotals(
+  current: Pick<Profile, "xp" | "cumulativeXp" | "availablePoints" | "attributes"> & Partial<Pick<Profile, "gold">>,
+): ProfileTotals {
+  return {
+    xp: current.xp || 0,
+    cumulativeXp: current.cumulativeXp || 0,
+    availablePoints: current.availablePoints || 0,
+    attributes: { ...(current.attributes || {}) },
+    gold: current.gold || 0,
+  };
+}
+
+// Quests store "none" (or nothing) when the reward goes to available points
+function resolveTargetAttribute(targetAttribute: string | null | undefined, rules: ProgressionRules): string | null {
+  if (!targetAttribute || targetAttribute === "none") {
+    return null;
+  }
+  if (!isActiveAttribute(targetAttribute, rules)) {
+    throw new Error(`Invalid target attribute: ${targetAttribute}`);
+  }
+  return targetAttribute;
+}
+
+// Clamp to [0, cap]; a value already over a lowered cap may stay there but never grows
+function clampToCap(current: number, next: number, cap: number): number {
+  return Math.max(0, Math.min(next, Math.max(cap, current)));
+}
+
+/**
+ * Apply deltas to totals. Nothing may drop below zero or rise past the caps
+ * in `rules`, so the returned `applied` deltas are what was actually changed
+ * and what gets recorded.
+ */
+export function applyDeltas(totals: ProfileTotals, deltas: LedgerDeltas, rules: ProgressionRules): { totals: ProfileTotals; applied: LedgerDeltas } {
+  // XP earned past maxXp is dropped from both current and cumulative XP
+  const cumulativeXp = clampToCap(totals.cumulativeXp, totals.cumulativeXp + deltas.cumulativeXpDelta, rules.maxXp);
+  const xpOverflow = Math.max(0, totals.cumulativeXp + deltas.cumulativeXpDelta - cumulativeXp);
+  const xpDelta = deltas.xpDelta > 0 ? Math.max(0, deltas.xpDelta - xpOverflow) : deltas.xpDelta;
+  const xp = clampToCap(totals.xp, totals.xp + xpDelta, rules.maxXp);
+
+  const attributes = { ...totals.attributes };
+  const attributeDeltas: Record<string, number> = {};
+  for (const [attribute, delta] of Object.entries(deltas.attributeDeltas)) {
+    const currentValue = attributes[attribute] || 0;
+    const newValue = clampToCap(currentValue, currentValue + delta, capOf(attribute, rules));
+    attributes[attribute] = newValue;
+    if (newValue !== currentValue) {
+      attributeDeltas[attribute] = newValue - currentValue;
+    }
+  }
+
+  const availablePoints = clampToCap(
+    totals.availablePoints,
+    totals.availablePoints + deltas.availablePointsDelta,
+    availablePointsCap(attributes, rules),
+  );
+
+  // Gold has no cap; purchases check the balance before spending it
+  const gold = Math.max(0, totals.gold + deltas.goldDelta);
+
+  return {
+    totals: { xp, cumulativeXp, availablePoints, attributes, gold },
+    applied: {
+      xpDelta: xp - totals.xp,
+      cumulativeXpDelta: cumulativeXp - totals.cumulativeXp,
+      availablePointsDelta: availablePoints - totals.availablePoints,
+      attributeDeltas,
+      goldDelta: gold - totals.gold,
+    },
+  };
+}
+
+// XP, gold, the attribute or available points, plus one available point per level gained.
+// A streak multiplier scales the XP only. applyDeltas trims anything past the caps.
+export function questRewardDeltas(quest: Quest, totals: ProfileTotals, rules: ProgressionRules, multiplier: number = 1): LedgerDeltas {
+  const deltas = emptyDeltas();
+  const xpReward = Math.round((quest.xpReward || 0) * multiplier);
+  deltas.xpDelta = xpReward;
+  deltas.cumulativeXpDelta = xpReward;
+  deltas.goldDelta = quest.coinReward || 0;
+
+  const pointReward = quest.attributePointReward || 0;
+  if (pointReward > 0) {
+    const target = resolveTargetAttribute(quest.targetAttribute, rules);
+    if (target) {
+      deltas.attributeDeltas[target] = pointReward;
+    } else {
+      deltas.availablePointsDelta += pointReward;
+    }
+  }
+
+  // Only XP that fits under maxXp counts towards levels
+  const xpGained = Math.min(xpReward, Math.max(0, rules.maxXp - totals.cumulativeXp));
+  deltas.availablePointsDelta += levelForXp(totals.xp + xpGained, rules.levelCurve) - levelForXp(totals.xp, rules.levelCurve);
+  return deltas;
+}
+
+// Penalties cost current XP only; cumulative XP tracks what was earned
+export function penaltyDeltas(failure: QuestFailure, rules: ProgressionRules): LedgerDeltas {
+  const deltas = emptyDeltas();
+  deltas.xpDelta = -(failure.penaltyXP || 0);
+
+  const penaltyPoints = failure.penaltyAttributePoints || 0;
+  if (penaltyPoints > 0) {
+    const target = resolveTargetAttribute(failure.targetAttribute, rules);
+    if (target) {
+      deltas.attributeDeltas[target] = -penaltyPoints;
+    } else {
+      deltas.availablePointsDelta = -penaltyPoints;
+    }
+  }
+
+  return deltas;
+}
+
+export function reversalDeltas(entry: LedgerDeltas): LedgerDeltas {
+  return {
+    xpDelta: -entry.xpDelta,
+    cumulativeXpDelta: -entry.cumulativeXpDelta,
+    availablePointsDelta: -entry.availablePointsDelta,
+    attributeDeltas: Object.fromEntries(
+      Object.entries(entry.attributeDeltas).map(([attribute, delta]) => [attribute, -delta]),
+    ),
+    goldDelta: -entry.goldDelta,
+  };
+}
+
+/**
+ * Check an explicitly requested change against the caps. Only values the
+ * change raises are checked, so lowering a cap never blocks unrelated edits.
+ * Throws CapExceededError with a message suitable for the client.
+ */
+/**
+ * Check an imported ledger against the importing user's rules by replaying it
+ * entry by entry: no total may pass its cap or drop below zero along the way.
+ */
+export function replayLedger(entries: LedgerEntry[], rules: ProgressionRules): ProfileTotals {
+  const ordered = [...entries].sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  let totals = emptyTotals();
+  for (const entry of ordered) {
+    const next = { ...totals, attributes: { ...totals.attributes } };
+    accumulate(next, entry);
+    assertWithinCaps(totals, next, rules);
+    if ([next.xp, next.cumulativeXp, next.availablePoints, next.gold, ...Object.values(next.attributes)].some((value) => value < 0)) {
+      throw new CapExceededError("The ledger takes away more than it granted");
+    }
+    totals = next;
+  }
+  return totals;
+}
+
+export function assertWithinCaps(from: ProfileTotals, to: ProfileTotals, rules: ProgressionRules): void {
+  for (const [attribute, value] of Object.entries(to.attributes)) {
+    if (value > (from.attributes[attribute] || 0) && value > capOf(attribute, rules)) {
+      throw new CapExceededError(`${attribute} cannot exceed ${capOf(attribute, rules)}`);
+    }
+  }
+
+  const pointsCap = availablePointsCap(to.attributes, rules);
+  if (to.availablePoints > from.availablePoints && to.availablePoints > pointsCap) {
+    throw new CapExceededError(`Available points cannot exceed ${pointsCap}`);
+  }
+
+  if (to.cumulativeXp > from.cumulativeXp && to.cumulativeXp > rules.maxXp) {
+    throw new CapExceededError(`XP cannot exceed ${rules.maxXp}`);
+  }
+}
+
+/**
+ * Points currently allocated to each attribute: the net of allocation
+ * entries since the last respec. Only these can be taken back. Points moved
+ * off a retired attribute take their allocation with them.
+ */
+export function allocatedAttributes(entries: Pick<LedgerEntry, "source" | "attributeDeltas" | "createdAt">[]): Record<string, number> {
+  const ordered = [...entries].sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  let allocated: Record<string, number> = {};
+  for (const entry of ordered) {
+    if (entry.source === "respec") {
+      allocated = {};
+    } else if (entry.source === "attribute_allocation") {
+      for (const [attribute, delta] of Object.entries(entry.attributeDeltas)) {
+        allocated[attribute] = (allocated[attribute] || 0) + delta;
+      }
+    } else if (entry.source === "attribute_migration") {
+      const from = Object.keys(entry.attributeDeltas).find((attribute) => entry.attributeDeltas[attribute] < 0);
+      const to = Object.keys(entry.attributeDeltas).find((attribute) => entry.attributeDeltas[attribute] > 0);
+      if (from && allocated[from]) {
+        if (to) {
+          allocated[to] = (allocated[to] || 0) + Math.min(allocated[from], entry.attributeDeltas[to]);
+        }
+        delete allocated[from];
+      }
+    }
+  }
+  return allocated;
+}
+
+/**
+ * Spend (positive) or refund (negative) available points on attributes.
+ * Each point costs one available point; refunds are limited to what was
+ * allocated, so quest rewards and starting values cannot be cashed in.
+ */
+export function allocationDeltas(
+  totals: ProfileTotals,
+  requested: Record<string, number>,
+  allocated: Record<string, number>,
+  rules: ProgressionRules,
+): LedgerDeltas {
+  const deltas = emptyDeltas();
+  for (const [attribute, delta] of Object.entries(requested)) {
+    if (!isActiveAttribute(attribute, rules)) {
+      throw new AllocationError(`Unknown attribute: ${attribute}`);
+    }
+    if (!Number.isInteger(delta)) {
+      throw new AllocationError(`Invalid amount for ${attribute}`);
+    }
+    if (delta < 0 && (allocated[attribute] || 0) + delta < 0) {
+      throw new AllocationError(`Only ${allocated[attribute] || 0} allocated points can be refunded from ${attribute}`);
+    }
+    if (delta !== 0) {
+      deltas.attributeDeltas[attribute] = delta;
+    }
+  }
+
+  const cost = Object.values(deltas.attributeDeltas).reduce((sum, delta) => sum + delta, 0);
+  if (cost > totals.availablePoints) {
+    throw new AllocationError(`Not enough available points: ${cost} needed, ${totals.availablePoints} available`);
+  }
+  deltas.availablePointsDelta = -cost;
+
+  const attributes = { ...totals.attributes };
+  for (const [attribute, delta] of Object.entries(deltas.attributeDeltas)) {
+    attributes[attribute] = (attributes[attribute] || 0) + delta;
+  }
+  assertWithinCaps(totals, { ...totals, attributes, availablePoints: totals.availablePoints - cost }, rules);
+
+  return deltas;
+}
+
+// Spending gold in the shop
+export function purchaseDeltas(totals: ProfileTotals, cost: number): LedgerDeltas {
+  if (cost > totals.gold) {
+    throw new InsufficientGoldError(`Not enough gold: ${cost} needed, ${totals.gold} available`);
+  }
+  const deltas = emptyDeltas();
+  deltas.goldDelta = -cost;
+  return deltas;
+}
+
+/**
+ * Move a retired attribute's points onto another one. Whatever does not fit
+ * under the target's cap stays where it was.
+ */
+export function migrationDeltas(totals: ProfileTotals, from: string, to: string, rules: ProgressionRules): LedgerDeltas {
+  const deltas = emptyDeltas();
+  const moved = Math.min(totals.attributes[from] || 0, Math.max(0, capOf(to, rules) - (totals.attributes[to] || 0)));
+  if (moved > 0) {
+    deltas.attributeDeltas[from] = -moved;
+    deltas.attributeDeltas[to] = moved;
+  }
+  return deltas;
+}
+
+// Give back every allocated point
+export function respecDeltas(totals: ProfileTotals, allocated: Record<string, number>): LedgerDeltas {
+  const deltas = emptyDeltas();
+  for (const [attribute, points] of Object.entries(allocated)) {
+    // Never refund more than the attribute still holds
+    const refund = Math.min(points, totals.attributes[attribute] || 0);
+    if (refund > 0) {
+      deltas.attributeDeltas[attribute] = -refund;
+      deltas.availablePointsDelta += refund;
+    }
+  }
+  return deltas;
+}
+
+// Deltas that turn `from` into `to`
+export function diffTotals(from: ProfileTotals, to: ProfileTotals): LedgerDeltas {
+  const attributeDeltas: Record<string, number> = {};
+  const attributes = new Set([...Object.keys(from.attributes), ...Object.keys(to.attributes)]);
+  for (const attribute of Array.from(attributes)) {
+    const delta = (to.attributes[attribute] || 0) - (from.attributes[attribute] || 0);
+    if (delta !== 0) {
+      attributeDeltas[attribute] = delta;
+    }
+  }
+
+  return {
+    xpDelta: to.xp - from.xp,
+    cumulativeXpDelta: to.cumulativeXp - from.cumulativeXp,
+    availablePointsDelta: to.availablePoints - from.availablePoints,
+    attributeDeltas,
+    goldDelta: to.gold - from.gold,
+  };
+}
+
+export function hasChanges(deltas: LedgerDeltas): boolean {
+  return deltas.xpDelta !== 0
+    || deltas.cumulativeXpDelta !== 0
+    || deltas.availablePointsDelta !== 0
+    || Object.keys(deltas.attributeDeltas).length > 0
+    || deltas.goldDelta !== 0;
+}
+
+// Add deltas to running totals in place, without caps (they were applied when the entry was written)
+export function accumulate(totals: ProfileTotals, deltas: LedgerDeltas): void {
+  totals.xp += deltas.xpDelta;
+  totals.cumulativeXp += deltas.cumulativeXpDelta;
+  totals.availablePoints += deltas.availablePointsDelta;
+  totals.gold += deltas.goldDelta;
+  for (const [attribute, delta] of Object.entries(deltas.attributeDeltas)) {
+    totals.attributes[attribute] = (totals.attributes[attribute] || 0) + delta;
+  }
+}
+
+export function sumLedger(entries: LedgerEntry[]): ProfileTotals {
+  const totals = emptyTotals();
+  for (const entry of entries) {
+    accumulate(totals, entry);
+  }
+  return totals;
+}
+
+export function profileUpdateFromTotals(totals: ProfileTotals, curve: LevelCurve = DEFAULT_LEVEL_CURVE): Partial<Profile> {
+  return {
+    xp: totals.xp,
+    cumulativeXp: totals.cumulativeXp,
+    availablePoints: totals.availablePoints,
+    attributes: totals.attributes as Profile["attributes"],
+    gold: totals.gold,
+    level: levelForXp(totals.xp, curve),
+  };
+}
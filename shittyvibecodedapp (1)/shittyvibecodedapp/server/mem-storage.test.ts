@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemStorage } from "./mem-storage";
+import { AllocationError, CapExceededError } from "./ledger";
+import { contentOnly, remapBackup, toBackup } from "./backup";
+
+let storage: MemStorage;
+let userId: string;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  userId = (await storage.getOrCreateUser({ telegramId: "42", username: "tester" })).id;
+});
+
+describe("MemStorage", () => {
+  it("provisions a profile with an opening balance for new users", async () => {
+    const profile = await storage.getProfile(userId);
+    const entries = await storage.getLedgerEntries(userId);
+
+    expect(profile.level).toBe(1);
+    expect(profile.attributes?.mental).toBe(10);
+    expect(entries.map((entry) => entry.source)).toEqual(["opening_balance"]);
+    expect((await storage.reconcileLedger(userId, false)).inSync).toBe(true);
+  });
+
+  it("grants the reward once and gives it back on cancel", async () => {
+    const quest = await storage.createQuest(userId, { title: "Run", xpReward: 900, attributePointReward: 2, targetAttribute: "physique" });
+
+    await storage.completeQuest(userId, quest.id);
+    await storage.completeQuest(userId, quest.id);
+    let profile = await storage.getProfile(userId);
+    expect(profile.xp).toBe(900);
+    expect(profile.level).toBe(2);
+    expect(profile.attributes?.physique).toBe(12);
+
+    await storage.cancelQuestCompletion(userId, quest.id);
+    profile = await storage.getProfile(userId);
+    expect(profile.xp).toBe(0);
+    expect(profile.level).toBe(1);
+    expect(profile.attributes?.physique).toBe(10);
+    expect((await storage.reconcileLedger(userId, false)).inSync).toBe(true);
+  });
+
+  it("completes multi-step quests on the last step and undoes it", async () => {
+    const quest = await storage.createQuest(userId, { title: "Read", maxProgress: 3, xpReward: 100 });
+
+    await storage.addQuestProgress(userId, quest.id, { delta: 2 });
+    const completed = await storage.addQuestProgress(userId, quest.id, { delta: 5 });
+    expect(completed.progress).toBe(3);
+    expect(completed.completed).toBe(true);
+    await expect(storage.addQuestProgress(userId, quest.id, { delta: 1 })).rejects.toThrow('Quest already completed');
+
+    const undone = await storage.undoLastProgressStep(userId, quest.id);
+    expect(undone.progress).toBe(2);
+    expect(undone.completed).toBe(false);
+    expect((await storage.getProfile(userId)).xp).toBe(0);
+    expect(await storage.getQuestProgressSteps(userId, quest.id)).toHaveLength(1);
+  });
+
+  it("only deletes archived progress", async () => {
+    const quest = await storage.createQuest(userId, { title: "Clean" });
+    await storage.completeQuest(userId, quest.id);
+
+    await expect(storage.deleteArchivedQuest(userId, quest.id)).rejects.toThrow('Quest not archived');
+    await storage.archiveQuest(userId, quest.id, "Done");
+    expect(await storage.deleteArchivedQuest(userId, quest.id)).toBe(true);
+    expect(await storage.getQuestProgress(userId, quest.id)).toBeUndefined();
+  });
+
+  it("rolls back every change when an operation fails", async () => {
+    const before = await storage.getLedgerEntries(userId);
+
+    await expect(storage.allocateAttributes(userId, { mental: 5 })).rejects.toThrow(AllocationError);
+    expect(await storage.getLedgerEntries(userId)).toEqual(before);
+    expect((await storage.getProfile(userId)).attributes?.mental).toBe(10);
+  });
+
+  it("archives past recurring completions and reopens the new period", async () => {
+    const quest = await storage.createQuest(userId, { title: "Stretch", enableRecurring: true, repetitionFrequency: "weekly" });
+    await storage.completeQuest(userId, quest.id);
+
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    expect(await storage.resetRecurringQuests(nextWeek)).toBe(1);
+    expect(await storage.resetRecurringQuests(nextWeek)).toBe(0);
+
+    const [history] = (await storage.getAllQuestProgress(userId)).filter((progress) => progress.completed);
+    expect(history.isArchived).toBe(true);
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("penalises a missed deadline once", async () => {
+    const deadline = new Date(Date.now() - 60 * 1000);
+    const quest = await storage.createQuest(userId, {
+      title: "File taxes",
+      enableDeadline: true,
+      deadline,
+      enablePenalty: true,
+      penaltyAttributePoints: 3,
+      targetAttribute: "success",
+    });
+
+    expect(await storage.processExpiredDeadlines(new Date())).toHaveLength(1);
+    expect(await storage.processExpiredDeadlines(new Date())).toHaveLength(0);
+    expect((await storage.getProfile(userId)).attributes?.success).toBe(7);
+    expect((await storage.getQuestProgress(userId, quest.id))?.failed).toBe(true);
+  });
+
+  it("refuses to complete a failed quest", async () => {
+    const quest = await storage.createQuest(userId, { title: "File taxes", enableDeadline: true, deadline: new Date(Date.now() - 60 * 1000) });
+    await storage.processExpiredDeadlines(new Date());
+
+    // Failed stays failed even once the deadline moves out again
+    await storage.updateQuest(userId, quest.id, { deadline: new Date(Date.now() + 60 * 60 * 1000) });
+    await expect(storage.completeQuest(userId, quest.id)).rejects.toThrow("Quest failed");
+    await expect(storage.addQuestProgress(userId, quest.id, { delta: 1 })).rejects.toThrow("Quest failed");
+    expect((await storage.getProfile(userId)).xp).toBe(0);
+  });
+
+  it("fails other quests when one of them cannot be failed", async () => {
+    const otherUserId = (await storage.getOrCreateUser({ telegramId: "43", username: "other" })).id;
+    const deadline = new Date(Date.now() - 60 * 1000);
+    const overdue = { enableDeadline: true, deadline, enablePenalty: true, penaltyAttributePoints: 1 };
+    await storage.createQuest(userId, { title: "Broken", ...overdue, targetAttribute: "missing" });
+    const quest = await storage.createQuest(otherUserId, { title: "File taxes", ...overdue, targetAttribute: "success" });
+
+    const failures = await storage.processExpiredDeadlines(new Date());
+    expect(failures.map((failure) => failure.questId)).toEqual([quest.id]);
+    expect((await storage.getProfile(otherUserId)).attributes?.success).toBe(9);
+    expect(await storage.getAllQuestFailures(userId)).toHaveLength(0);
+  });
+
+  it("takes nothing back when an imported completion is undone", async () => {
+    const quest = await storage.createQuest(userId, { title: "Run", xpReward: 900, targetAttribute: "mental" });
+    await storage.completeQuest(userId, quest.id);
+    const before = await storage.getProfile(userId);
+
+    await storage.importUserData(userId, remapBackup(toBackup(await storage.getUserData(userId)), userId), "merge");
+    const imported = (await storage.getAllQuests(userId)).find((candidate) => candidate.id !== quest.id)!;
+    expect((await storage.getQuestProgress(userId, imported.id))?.completed).toBe(true);
+
+    expect((await storage.undoLastProgressStep(userId, imported.id)).completed).toBe(false);
+    expect(await storage.getProfile(userId)).toEqual(before);
+    expect((await storage.reconcileLedger(userId, false)).inSync).toBe(true);
+  });
+
+  it("opens imported quests again when only content is restored", async () => {
+    const quest = await storage.createQuest(userId, { title: "Run", xpReward: 900 });
+    await storage.completeQuest(userId, quest.id);
+
+    const rows = contentOnly(remapBackup(toBackup(await storage.getUserData(userId)), userId));
+    await storage.importUserData(userId, rows, "merge");
+    const imported = (await storage.getAllQuests(userId)).find((candidate) => candidate.id !== quest.id)!;
+    expect(await storage.getQuestProgress(userId, imported.id)).toMatchObject({ progress: 0, completed: false });
+  });
+
+  it("restores a ledger only when it keeps to the caps", async () => {
+    const quest = await storage.createQuest(userId, { title: "Run", xpReward: 900 });
+    await storage.completeQuest(userId, quest.id);
+    const backup = toBackup(await storage.getUserData(userId));
+
+    await storage.importUserData(userId, remapBackup(backup, userId), "replace");
+    expect((await storage.getProfile(userId)).xp).toBe(900);
+
+    // Past maxXp, and spending gold that was never earned
+    for (const forged of [{ cumulativeXpDelta: 1_000_000, xpDelta: 1_000_000 }, { goldDelta: -50 }]) {
+      const ledger = [...backup.ledger, { ...backup.ledger[1], id: "forged", source: "admin_adjustment", ...forged }];
+      await expect(storage.importUserData(userId, remapBackup({ ...backup, ledger }, userId), "replace")).rejects.toThrow(CapExceededError);
+    }
+    expect((await storage.getProfile(userId)).xp).toBe(900);
+    expect((await storage.reconcileLedger(userId, false)).inSync).toBe(true);
+  });
+});
@@ -0,0 +1,1307 @@
+import { randomUUID } from "crypto";
+import type { User, UserRole, Profile, QuestGroup, InsertQuestGroup, Quest, InsertQuest, QuestProgress, QuestProgressStep, QuestProgressStepInput, QuestFailure, LedgerEntry, InsertLedgerEntry, Note, InsertNote, SystemSettings, IdempotencyKey, AchievementUnlock, StreakFreeze, ShopReward, InsertShopReward, RewardPurchase, AttributeDefinition, InsertAttributeDefinition, UpdateAttributeDefinition } from "@shared/schema";
+import { DEFAULT_LEVEL_CURVE, levelForXp } from "@shared/leveling";
+import { DEFAULT_STREAK_MILESTONES, streakMultiplier } from "@shared/streaks";
+import { DEFAULT_ATTRIBUTES, startingAttributes } from "@shared/attributes";
+import { dayClock } from "@shared/timezone";
+import type { ImportMode } from "@shared/backup";
+import type { IdempotentRequest, IStorage, PurchaseResult, RetireAttributeResult, TelegramIdentity } from "./storage";
+import type { ImportedRows, UserData } from "./backup";
+import { carriedPeriod, getQuestPeriod, isPastDeadline, isRecurringQuest } from "./recurring";
+import { questStreak } from "./streaks";
+import {
+  type LedgerDeltas, type LedgerReconciliation, type LedgerSource, type ProfileTotals, type ProgressionRules,
+  AttributeError, allocatedAttributes, allocationDeltas, applyDeltas, assertWithinCaps, diffTotals, emptyDeltas, emptyTotals, hasChanges,
+  migrationDeltas, penaltyDeltas, profileTotals, profileUpdateFromTotals, progressionRules, purchaseDeltas, questRewardDeltas, respecDeltas,
+  replayLedger, reversalDeltas, sumLedger,
+} from "./ledger";
+
+interface Tables {
+  users: Map<string, User>;
+  profiles: Map<string, Profile>;
+  questGroups: Map<string, QuestGroup>;
+  quests: Map<string, Quest>;
+  questProgress: Map<string, QuestProgress>;
+  questProgressSteps: Map<string, QuestProgressStep>;
+  questFailures: Map<string, QuestFailure>;
+  rewardLedger: Map<string, LedgerEntry>;
+  notes: Map<string, Note>;
+  systemSettings: Map<string, SystemSettings>;
+  idempotencyKeys: Map<string, IdempotencyKey>;
+  achievementUnlocks: Map<string, AchievementUnlock>;
+  streakFreezes: Map<string, StreakFreeze>;
+  shopRewards: Map<string, ShopReward>;
+  rewardPurchases: Map<string, RewardPurchase>;
+  attributeDefinitions: Map<string, AttributeDefinition>;
+}
+
+function emptyTables(): Tables {
+  return {
+    users: new Map(),
+    profiles: new Map(),
+    questGroups: new Map(),
+    quests: new Map(),
+    questProgress: new Map(),
+    questProgressSteps: new Map(),
+    questFailures: new Map(),
+    rewardLedger: new Map(),
+    notes: new Map(),
+    systemSettings: new Map(),
+    idempotencyKeys: new Map(),
+    achievementUnlocks: new Map(),
+    streakFreezes: new Map(),
+    shopRewards: new Map(),
+    rewardPurchases: new Map(),
+    attributeDefinitions: new Map(),
+  };
+}
+
+// Rows are never mutated in place, so copying the maps is a full snapshot
+function copyTables(tables: Tables): Tables {
+  return Object.fromEntries(
+    Object.entries(tables).map(([name, rows]) => [name, new Map(rows)]),
+  ) as unknown as Tables;
+}
+
+// Like an SQL insert/update: undefined values keep the existing (or default) column value
+function assignDefined<T extends object>(row: T, values: object): T {
+  const result = { ...row };
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      (result as Record<string, unknown>)[key] = value;
+    }
+  }
+  return result;
+}
+
+function time(date: Date | null): number {
+  return date ? date.getTime() : 0;
+}
+
+// Oldest first; rows created in the same millisecond keep insertion order
+function oldestFirst<T extends { createdAt: Date | null }>(rows: Iterable<T>): T[] {
+  return Array.from(rows).sort((a, b) => time(a.createdAt) - time(b.createdAt));
+}
+
+function newestFirst<T extends { createdAt: Date | null }>(rows: Iterable<T>): T[] {
+  return oldestFirst(rows).reverse();
+}
+
+/**
+ * IStorage kept entirely in process memory, for tests and for running without Postgres.
+ * Mirrors DatabaseStorage: the same ledger rules, error messages and archive/undo behaviour.
+ * Every operation runs synchronously inside `transaction`, which restores a snapshot on error.
+ */
+export class MemStorage implements IStorage {
+  private tables: Tables = emptyTables();
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    return this.tables.users.get(id);
+  }
+
+  async getOrCreateUser(identity: TelegramIdentity): Promise<User> {
+    return this.transaction(() => {
+      const existingUser = this.findUserByTelegramId(identity.telegramId);
+      if (existingUser) {
+        return existingUser;
+      }
+
+      const newUser = assignDefined<User>({
+        id: randomUUID(),
+        telegramId: identity.telegramId,
+        username: null,
+        firstName: null,
+        lastName: null,
+        role: "user",
+        createdAt: new Date(),
+      }, identity);
+      this.tables.users.set(newUser.id, newUser);
+
+      // Provision the profile and settings up front
+      this.ensureProfile(newUser.id);
+      this.ensureSystemSettings(newUser.id);
+
+      return newUser;
+    });
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return oldestFirst(this.tables.users.values());
+  }
+
+  async setUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const user = this.tables.users.get(id);
+    return user ? this.update(this.tables.users, user, { role }) : undefined;
+  }
+
+  // Profile
+  async getProfile(userId: string): Promise<Profile> {
+    return this.transaction(() => this.ensureProfile(userId));
+  }
+
+  async updateProfile(userId: string, profileData: Partial<Profile>): Promise<Profile> {
+    return this.transaction(() => {
+      const currentProfile = this.ensureProfile(userId);
+      return this.update(this.tables.profiles, currentProfile, { ...profileData, id: currentProfile.id });
+    });
+  }
+
+  // Set points or attributes directly; the difference is recorded on the ledger
+  async adjustProfile(userId: string, source: LedgerSource, changes: Partial<Pick<ProfileTotals, "availablePoints" | "attributes">>, note?: string): Promise<Profile> {
+    return this.transaction(() => {
+      this.ensureProfile(userId);
+      return this.appendLedgerEntry(userId, source, (totals, rules) => {
+        const target = {
+          ...totals,
+          availablePoints: changes.availablePoints ?? totals.availablePoints,
+          attributes: { ...totals.attributes, ...changes.attributes },
+        };
+        // Explicit edits are rejected rather than silently clamped
+        assertWithinCaps(totals, target, rules);
+        return diffTotals(totals, target);
+      }, { note }).profile;
+    });
+  }
+
+  async allocateAttributes(userId: string, deltas: Record<string, number>): Promise<Profile> {
+    return this.transaction(() => {
+      this.ensureProfile(userId);
+      const allocated = this.getAllocatedAttributes(userId);
+      return this.appendLedgerEntry(userId, "attribute_allocation",
+        (totals, rules) => allocationDeltas(totals, deltas, allocated, rules)).profile;
+    });
+  }
+
+  async respecAttributes(userId: string): Promise<Profile> {
+    return this.transaction(() => {
+      this.ensureProfile(userId);
+      const allocated = this.getAllocatedAttributes(userId);
+      return this.appendLedgerEntry(userId, "respec",
+        (totals) => respecDeltas(totals, allocated), { note: "Refunded all allocated points" }).profile;
+    });
+  }
+
+  // Reward Ledger
+  async getLedgerEntries(userId: string): Promise<LedgerEntry[]> {
+    return newestFirst(this.ledgerEntries(userId));
+  }
+
+  async reconcileLedger(userId: string, repair: boolean): Promise<LedgerReconciliation> {
+    return this.transaction(() => {
+      const currentProfile = this.ensureProfile(userId);
+      const entries = this.ledgerEntries(userId);
+      const { levelCurve } = this.getProgressionRules(userId);
+
+      const profileSide = profileTotals(currentProfile);
+      const ledgerSide = sumLedger(entries);
+      const drift = diffTotals(ledgerSide, profileSide);
+      const inSync = !hasChanges(drift) && currentProfile.level === levelForXp(profileSide.xp, levelCurve);
+
+      if (!repair || inSync) {
+        return { inSync, repaired: false, entries: entries.length, profile: profileSide, ledger: ledgerSide, drift };
+      }
+
+      if (entries.length === 0) {
+        // Profile predates the ledger: open it with the current balances
+        this.insertLedgerEntry(userId, "opening_balance", drift);
+        return { inSync: false, repaired: true, entries: 1, profile: profileSide, ledger: profileSide, drift };
+      }
+
+      // Otherwise the ledger is the source of truth
+      this.update(this.tables.profiles, currentProfile, profileUpdateFromTotals(ledgerSide, levelCurve));
+      return { inSync: false, repaired: true, entries: entries.length, profile: ledgerSide, ledger: ledgerSide, drift };
+    });
+  }
+
+  // Quest Groups
+  async getAllQuestGroups(userId: string): Promise<QuestGroup[]> {
+    return oldestFirst(this.ownedBy(this.tables.questGroups, userId));
+  }
+
+  async getQuestGroup(userId: string, id: string): Promise<QuestGroup | undefined> {
+    return this.findOwned(this.tables.questGroups, userId, id);
+  }
+
+  async createQuestGroup(userId: string, group: InsertQuestGroup): Promise<QuestGroup> {
+    const newGroup = assignDefined<QuestGroup>({
+      id: randomUUID(),
+      userId,
+      name: group.name,
+      description: null,
+      icon: "calendar",
+      createdAt: new Date(),
+    }, { ...group, userId });
+    this.tables.questGroups.set(newGroup.id, newGroup);
+    return newGroup;
+  }
+
+  async updateQuestGroup(userId: string, id: string, group: Partial<QuestGroup>): Promise<QuestGroup | undefined> {
+    const existingGroup = this.findOwned(this.tables.questGroups, userId, id);
+    return existingGroup ? this.update(this.tables.questGroups, existingGroup, { ...group, userId }) : undefined;
+  }
+
+  async deleteQuestGroup(userId: string, id: string): Promise<boolean> {
+    return this.transaction(() => {
+      // First delete all quests in this group, along with their progress
+      for (const quest of this.ownedBy(this.tables.quests, userId)) {
+        if (quest.groupId === id) {
+          this.removeQuest(quest.id);
+        }
+      }
+
+      return !!this.findOwned(this.tables.questGroups, userId, id) && this.tables.questGroups.delete(id);
+    });
+  }
+
+  // Quests
+  async getQuestsByGroupId(userId: string, groupId: string): Promise<Quest[]> {
+    return oldestFirst(this.ownedBy(this.tables.quests, userId).filter((quest) => quest.groupId === groupId));
+  }
+
+  async getAllQuests(userId: string): Promise<Quest[]> {
+    return oldestFirst(this.ownedBy(this.tables.quests, userId));
+  }
+
+  async getQuest(userId: string, id: string): Promise<Quest | undefined> {
+    return this.findOwned(this.tables.quests, userId, id);
+  }
+
+  async createQuest(userId: string, quest: InsertQuest): Promise<Quest> {
+    const newQuest = assignDefined<Quest>({
+      id: randomUUID(),
+      userId,
+      groupId: null,
+      title: quest.title,
+      description: null,
+      xpReward: 100,
+      attributePointReward: 1,
+      coinReward: 0,
+      targetAttribute: null,
+      difficulty: "E",
+      maxProgress: 1,
+      enableRecurring: false,
+      repetitionFrequency: "none",
+      enableDeadline: false,
+      deadline: null,
+      enablePenalty: false,
+      penaltyXP: 0,
+      penaltyAttributePoints: 0,
+      isActive: true,
+      createdAt: new Date(),
+    }, { ...quest, userId });
+    this.tables.quests.set(newQuest.id, newQuest);
+    return newQuest;
+  }
+
+  async updateQuest(userId: string, id: string, quest: Partial<Quest>): Promise<Quest | undefined> {
+    const existingQuest = this.findOwned(this.tables.quests, userId, id);
+    return existingQuest ? this.update(this.tables.quests, existingQuest, { ...quest, userId }) : undefined;
+  }
+
+  async deleteQuest(userId: string, id: string): Promise<boolean> {
+    return this.transaction(() => {
+      if (!this.findOwned(this.tables.quests, userId, id)) {
+        return false;
+      }
+      return this.removeQuest(id);
+    });
+  }
+
+  // Quest Progress
+  async getAllQuestProgress(userId: string): Promise<QuestProgress[]> {
+    return oldestFirst(this.ownedBy(this.tables.questProgress, userId));
+  }
+
+  // Progress for the quest's current period (see getQuestPeriod)
+  async getQuestProgress(userId: string, questId: string): Promise<QuestProgress | undefined> {
+    return this.transaction(() => this.currentProgress(userId, questId));
+  }
+
+  async completeQuest(userId: string, questId: string): Promise<QuestProgress> {
+    return this.transaction(() => {
+      const quest = this.requireQuest(userId, questId);
+      this.ensureProfile(userId);
+      const currentProgress = this.ensureProgress(userId, quest, this.getCurrentPeriodKey(quest));
+
+      // Repeat calls within the same period are idempotent and never grant the reward twice
+      if (currentProgress.completed) {
+        return currentProgress;
+      }
+      if (currentProgress.failed || isPastDeadline(quest, new Date())) {
+        throw new Error('Quest failed');
+      }
+
+      // Log the remaining steps in one go
+      return this.logProgressStep(userId, quest, currentProgress, {
+        delta: (quest.maxProgress || 1) - (currentProgress.progress || 0),
+      });
+    });
+  }
+
+  // Steps logged in the quest's current period, oldest first
+  async getQuestProgressSteps(userId: string, questId: string): Promise<QuestProgressStep[]> {
+    return this.transaction(() => {
+      const currentProgress = this.currentProgress(userId, questId);
+      return currentProgress ? this.progressSteps(currentProgress.id) : [];
+    });
+  }
+
+  async addQuestProgress(userId: string, questId: string, step: QuestProgressStepInput): Promise<QuestProgress> {
+    return this.transaction(() => {
+      const quest = this.requireQuest(userId, questId);
+      this.ensureProfile(userId);
+      const currentProgress = this.ensureProgress(userId, quest, this.getCurrentPeriodKey(quest));
+      if (currentProgress.completed) {
+        throw new Error('Quest already completed');
+      }
+      if (currentProgress.failed || isPastDeadline(quest, new Date())) {
+        throw new Error('Quest failed');
+      }
+
+      return this.logProgressStep(userId, quest, currentProgress, step);
+    });
+  }
+
+  async undoLastProgressStep(userId: string, questId: string): Promise<QuestProgress> {
+    return this.transaction(() => {
+      const quest = this.requireQuest(userId, questId);
+      this.ensureProfile(userId);
+      const currentProgress = this.findProgress(questId, this.getCurrentPeriodKey(quest));
+      const lastStep = currentProgress ? this.progressSteps(currentProgress.id).pop() : undefined;
+      if (!currentProgress || !lastStep) {
+        throw new Error('No progress to undo');
+      }
+
+      this.tables.questProgressSteps.delete(lastStep.id);
+
+      // Stepping back from completion also takes back the reward
+      const progressResult = this.update(this.tables.questProgress, currentProgress, {
+        progress: Math.max(0, (currentProgress.progress || 0) - lastStep.delta),
+        ...(currentProgress.completed ? {
+          completed: false,
+          completedAt: null,
+          isArchived: false,
+          archivedAt: null,
+          archiveReason: null
+        } : {})
+      });
+
+      if (currentProgress.completed) {
+        this.reverseQuestCompletion(userId, quest, currentProgress);
+      }
+
+      return progressResult;
+    });
+  }
+
+  async cancelQuestCompletion(userId: string, questId: string): Promise<QuestProgress> {
+    return this.transaction(() => {
+      const quest = this.requireQuest(userId, questId);
+      const existingProgress = this.currentProgress(userId, questId);
+      if (!existingProgress || !existingProgress.completed) {
+        throw new Error('Quest not completed');
+      }
+
+      this.ensureProfile(userId);
+      return this.reopenCompletedQuest(userId, quest, existingProgress);
+    });
+  }
+
+  async archiveQuest(userId: string, questId: string, reason: string): Promise<QuestProgress> {
+    return this.transaction(() => {
+      this.requireQuest(userId, questId);
+
+      // Only completed quests can be archived
+      const existingProgress = this.currentProgress(userId, questId);
+      if (!existingProgress?.completed) {
+        throw new Error('Quest not completed');
+      }
+
+      return this.update(this.tables.questProgress, existingProgress, {
+        isArchived: true,
+        archivedAt: new Date(),
+        archiveReason: reason,
+        canUndo: true
+      });
+    });
+  }
+
+  async restoreQuestFromArchive(userId: string, questId: string): Promise<QuestProgress> {
+    return this.transaction(() => {
+      const existingProgress = this.currentProgress(userId, questId);
+      if (!existingProgress) {
+        throw new Error('Quest progress not found');
+      }
+
+      return this.update(this.tables.questProgress, existingProgress, {
+        isArchived: false,
+        archivedAt: null,
+        archiveReason: null,
+        canUndo: true
+      });
+    });
+  }
+
+  async deleteArchivedQuest(userId: string, questId: string): Promise<boolean> {
+    return this.transaction(() => {
+      this.requireQuest(userId, questId);
+
+      // Only allow deletion of archived quests
+      const existingProgress = this.currentProgress(userId, questId);
+      if (!existingProgress?.isArchived) {
+        throw new Error('Quest not archived');
+      }
+
+      // The quest goes with its progress, see DatabaseStorage.deleteArchivedQuest
+      return this.removeQuest(questId);
+    });
+  }
+
+  async undoQuestCompletion(userId: string, questId: string): Promise<QuestProgress> {
+    return this.transaction(() => {
+      const quest = this.requireQuest(userId, questId);
+
+      // Works for both active and archived quests
+      const existingProgress = this.currentProgress(userId, questId);
+      if (!existingProgress || !existingProgress.completed) {
+        throw new Error('Quest not completed');
+      }
+
+      this.ensureProfile(userId);
+      return this.reopenCompletedQuest(userId, quest, existingProgress);
+    });
+  }
+
+  // Runs for every user; each quest uses its owner's settings
+  async resetRecurringQuests(now: Date): Promise<number> {
+    let reopened = 0;
+    for (const quest of oldestFirst(this.tables.quests.values())) {
+      if (!isRecurringQuest(quest) || !quest.userId || quest.isActive === false) {
+        continue;
+      }
+
+      this.transaction(() => {
+        const period = this.getCurrentPeriod(quest, now);
+
+        // Completions from earlier periods stay as read-only history
+        for (const progress of Array.from(this.tables.questProgress.values())) {
+          if (progress.questId === quest.id && progress.periodKey !== period.key && progress.completed && progress.canUndo) {
+            this.update(this.tables.questProgress, progress, {
+              isArchived: true,
+              archivedAt: progress.archivedAt ?? now,
+              archiveReason: progress.archiveReason ?? 'Recurring period ended',
+              canUndo: false
+            });
+          }
+        }
+
+        // Unfinished progress does not carry over into the next period
+        this.deleteProgress((progress) =>
+          progress.questId === quest.id && progress.periodKey !== period.key && progress.completed === false);
+
+        if (!this.findProgress(quest.id, period.key)) {
+          this.insertProgress({ userId: quest.userId, questId: quest.id, periodKey: period.key });
+          reopened++;
+        }
+      });
+    }
+
+    return reopened;
+  }
+
+  // Deadlines
+  async getAllQuestFailures(userId: string): Promise<QuestFailure[]> {
+    return newestFirst(this.ownedBy(this.tables.questFailures, userId));
+  }
+
+  // Runs for every user; penalties land on the quest owner's profile
+  async processExpiredDeadlines(now: Date): Promise<QuestFailure[]> {
+    const failures: QuestFailure[] = [];
+    for (const quest of oldestFirst(this.tables.quests.values())) {
+      if (!isPastDeadline(quest, now) || !quest.deadline || !quest.userId || quest.isActive === false) {
+        continue;
+      }
+
+      // A quest that cannot be failed (e.g. it targets an unknown attribute) must not hold up the rest
+      try {
+        const userId = quest.userId;
+        const deadline = quest.deadline;
+        const failure = this.transaction(() => {
+          const periodKey = this.getCurrentPeriodKey(quest, now);
+          if (this.findProgress(quest.id, periodKey)?.completed) {
+            return undefined;
+          }
+
+          // One failure per (questId, deadline), so a missed deadline is only penalised once
+          const alreadyFailed = Array.from(this.tables.questFailures.values())
+            .some((existing) => existing.questId === quest.id && existing.deadline.getTime() === deadline.getTime());
+          if (alreadyFailed) {
+            return undefined;
+          }
+
+          this.ensureProfile(userId);
+
+          const newFailure: QuestFailure = {
+            id: randomUUID(),
+            userId,
+            questId: quest.id,
+            deadline,
+            penaltyXP: quest.enablePenalty ? quest.penaltyXP || 0 : 0,
+            penaltyAttributePoints: quest.enablePenalty ? quest.penaltyAttributePoints || 0 : 0,
+            targetAttribute: quest.targetAttribute,
+            createdAt: new Date(),
+          };
+          this.tables.questFailures.set(newFailure.id, newFailure);
+
+          const currentProgress = this.findProgress(quest.id, periodKey);
+          if (currentProgress) {
+            this.update(this.tables.questProgress, currentProgress, { failed: true, failedAt: now });
+          } else {
+            this.insertProgress({ userId, questId: quest.id, periodKey, failed: true, failedAt: now });
+          }
+
+          if ((newFailure.penaltyXP || 0) > 0 || (newFailure.penaltyAttributePoints || 0) > 0) {
+            this.appendLedgerEntry(userId, "deadline_penalty", (_totals, rules) => penaltyDeltas(newFailure, rules), {
+              questId: quest.id,
+              note: "Missed deadline",
+            });
+          }
+
+          return newFailure;
+        });
+
+        if (failure) {
+          failures.push(failure);
+        }
+      } catch (error) {
+        console.error(`Error failing quest ${quest.id}:`, error);
+      }
+    }
+
+    return failures;
+  }
+
+  // Notes
+  async getAllNotes(userId: string): Promise<Note[]> {
+    return oldestFirst(this.ownedBy(this.tables.notes, userId));
+  }
+
+  async getNote(userId: string, id: string): Promise<Note | undefined> {
+    return this.findOwned(this.tables.notes, userId, id);
+  }
+
+  async createNote(userId: string, note: InsertNote): Promise<Note> {
+    const now = new Date();
+    const newNote = assignDefined<Note>({
+      id: randomUUID(),
+      userId,
+      title: note.title,
+      content: null,
+      createdAt: now,
+      updatedAt: now,
+    }, { ...note, userId });
+    this.tables.notes.set(newNote.id, newNote);
+    return newNote;
+  }
+
+  async updateNote(userId: string, id: string, note: Partial<Note>): Promise<Note | undefined> {
+    const existingNote = this.findOwned(this.tables.notes, userId, id);
+    return existingNote
+      ? this.update(this.tables.notes, existingNote, { ...note, userId, updatedAt: new Date() })
+      : undefined;
+  }
+
+  async deleteNote(userId: string, id: string): Promise<boolean> {
+    return !!this.findOwned(this.tables.notes, userId, id) && this.tables.notes.delete(id);
+  }
+
+  // System Settings
+  async getSystemSettings(userId: string): Promise<SystemSettings> {
+    return this.transaction(() => this.ensureSystemSettings(userId));
+  }
+
+  async updateSystemSettings(userId: string, settings: Partial<SystemSettings>): Promise<SystemSettings> {
+    return this.transaction(() => {
+      const currentSettings = this.ensureSystemSettings(userId);
+      const updatedSettings = this.update(this.tables.systemSettings, currentSettings, {
+        ...settings,
+        userId,
+        updatedAt: new Date()
+      });
+
+      // Levels follow the curve, so a new curve recomputes the profile's level
+      const currentProfile = this.findProfile(userId);
+      if (settings.levelCurve && currentProfile) {
+        this.update(this.tables.profiles, currentProfile, {
+          level: levelForXp(currentProfile.xp || 0, updatedSettings.levelCurve),
+        });
+      }
+
+      return updatedSettings;
+    });
+  }
+
+  // Achievements
+  async getAchievementUnlocks(userId: string): Promise<AchievementUnlock[]> {
+    return this.ownedBy(this.tables.achievementUnlocks, userId)
+      .sort((a, b) => b.unlockedAt.getTime() - a.unlockedAt.getTime());
+  }
+
+  async unlockAchievements(userId: string, achievementIds: string[], unlockedAt: Date): Promise<AchievementUnlock[]> {
+    return this.transaction(() => {
+      const unlocked = new Set(this.ownedBy(this.tables.achievementUnlocks, userId).map((unlock) => unlock.achievementId));
+      const created: AchievementUnlock[] = [];
+      for (const achievementId of achievementIds) {
+        if (!unlocked.has(achievementId)) {
+          unlocked.add(achievementId);
+          const unlock: AchievementUnlock = { id: randomUUID(), userId, achievementId, unlockedAt };
+          this.tables.achievementUnlocks.set(unlock.id, unlock);
+          created.push(unlock);
+        }
+      }
+      return created;
+    });
+  }
+
+  // Streaks
+  async getStreakFreezes(userId: string): Promise<StreakFreeze[]> {
+    return oldestFirst(this.ownedBy(this.tables.streakFreezes, userId));
+  }
+
+  async useStreakFreeze(userId: string, questId: string | null, periodKey: string): Promise<StreakFreeze | undefined> {
+    return this.transaction(() => {
+      const currentProfile = this.ensureProfile(userId);
+      const frozen = this.ownedBy(this.tables.streakFreezes, userId)
+        .some((freeze) => freeze.questId === questId && freeze.periodKey === periodKey);
+      if (currentProfile.freezeTokens <= 0 || frozen) {
+        return undefined;
+      }
+
+      this.update(this.tables.profiles, currentProfile, { freezeTokens: currentProfile.freezeTokens - 1 });
+      const freeze: StreakFreeze = { id: randomUUID(), userId, questId, periodKey, createdAt: new Date() };
+      this.tables.streakFreezes.set(freeze.id, freeze);
+      return freeze;
+    });
+  }
+
+  // Shop
+  async getAllShopRewards(userId: string): Promise<ShopReward[]> {
+    return oldestFirst(this.ownedBy(this.tables.shopRewards, userId));
+  }
+
+  async createShopReward(userId: string, reward: InsertShopReward): Promise<ShopReward> {
+    const newReward = assignDefined<ShopReward>({
+      id: randomUUID(),
+      userId,
+      title: reward.title,
+      description: null,
+      cost: reward.cost,
+      icon: "gift",
+      createdAt: new Date(),
+    }, { ...reward, userId });
+    this.tables.shopRewards.set(newReward.id, newReward);
+    return newReward;
+  }
+
+  async updateShopReward(userId: string, id: string, reward: Partial<ShopReward>): Promise<ShopReward | undefined> {
+    const existingReward = this.findOwned(this.tables.shopRewards, userId, id);
+    return existingReward ? this.update(this.tables.shopRewards, existingReward, { ...reward, userId }) : undefined;
+  }
+
+  async deleteShopReward(userId: string, id: string): Promise<boolean> {
+    return !!this.findOwned(this.tables.shopRewards, userId, id) && this.tables.shopRewards.delete(id);
+  }
+
+  async getRewardPurchases(userId: string): Promise<RewardPurchase[]> {
+    return newestFirst(this.ownedBy(this.tables.rewardPurchases, userId));
+  }
+
+  async purchaseReward(userId: string, rewardId: string): Promise<PurchaseResult> {
+    return this.transaction(() => {
+      const reward = this.findOwned(this.tables.shopRewards, userId, rewardId);
+      if (!reward) {
+        throw new Error('Reward not found');
+      }
+
+      this.ensureProfile(userId);
+      const { profile, entry } = this.appendLedgerEntry(userId, "reward_purchase", (totals) => purchaseDeltas(totals, reward.cost), {
+        note: reward.title,
+      });
+
+      const purchase: RewardPurchase = {
+        id: randomUUID(),
+        userId,
+        rewardId: reward.id,
+        ledgerEntryId: entry.id,
+        title: reward.title,
+        cost: reward.cost,
+        refundedAt: null,
+        createdAt: new Date(),
+      };
+      this.tables.rewardPurchases.set(purchase.id, purchase);
+      return { purchase, profile };
+    });
+  }
+
+  async refundPurchase(userId: string, purchaseId: string): Promise<PurchaseResult> {
+    return this.transaction(() => {
+      const purchase = this.findOwned(this.tables.rewardPurchases, userId, purchaseId);
+      if (!purchase) {
+        throw new Error('Purchase not found');
+      }
+      if (purchase.refundedAt) {
+        return { purchase, profile: this.ensureProfile(userId) };
+      }
+
+      const grant = purchase.ledgerEntryId ? this.tables.rewardLedger.get(purchase.ledgerEntryId) : undefined;
+      const { profile } = this.appendLedgerEntry(
+        userId,
+        "purchase_refund",
+        () => (grant ? reversalDeltas(grant) : { ...emptyDeltas(), goldDelta: purchase.cost }),
+        { reversesEntryId: grant?.id ?? null, note: purchase.title },
+      );
+
+      return { purchase: this.update(this.tables.rewardPurchases, purchase, { refundedAt: new Date() }), profile };
+    });
+  }
+
+  // Attributes
+  async getAttributeDefinitions(userId: string): Promise<AttributeDefinition[]> {
+    return this.ensureAttributeDefinitions(userId);
+  }
+
+  async createAttributeDefinition(userId: string, attribute: InsertAttributeDefinition): Promise<AttributeDefinition> {
+    return this.transaction(() => {
+      const definitions = this.ensureAttributeDefinitions(userId);
+      if (definitions.some((definition) => definition.key === attribute.key)) {
+        throw new AttributeError(`Attribute ${attribute.key} already exists`);
+      }
+
+      const newAttribute = assignDefined<AttributeDefinition>({
+        id: randomUUID(),
+        userId,
+        key: attribute.key,
+        label: attribute.label,
+        icon: "star",
+        color: "blue",
+        cap: null,
+        sortOrder: Math.max(-1, ...definitions.map((definition) => definition.sortOrder)) + 1,
+        retiredAt: null,
+        createdAt: new Date(),
+      }, { ...attribute, userId });
+      this.tables.attributeDefinitions.set(newAttribute.id, newAttribute);
+      return newAttribute;
+    });
+  }
+
+  async updateAttributeDefinition(userId: string, key: string, attribute: UpdateAttributeDefinition): Promise<AttributeDefinition | undefined> {
+    const existingAttribute = this.findAttribute(userId, key);
+    return existingAttribute ? this.update(this.tables.attributeDefinitions, existingAttribute, attribute) : undefined;
+  }
+
+  async retireAttribute(userId: string, key: string, moveTo?: string | null): Promise<RetireAttributeResult> {
+    return this.transaction(() => {
+      const attribute = this.findAttribute(userId, key);
+      if (!attribute) {
+        throw new Error('Attribute not found');
+      }
+      const target = moveTo ? this.findAttribute(userId, moveTo) : undefined;
+      if (moveTo && (moveTo === key || !target || target.retiredAt)) {
+        throw new AttributeError(`Cannot move ${key} to ${moveTo}`);
+      }
+
+      this.ensureProfile(userId);
+      const retiredAttribute = this.update(this.tables.attributeDefinitions, attribute, { retiredAt: attribute.retiredAt ?? new Date() });
+      for (const quest of this.ownedBy(this.tables.quests, userId).filter((quest) => quest.targetAttribute === key)) {
+        this.update(this.tables.quests, quest, { targetAttribute: moveTo ?? null });
+      }
+
+      if (!moveTo) {
+        return { attribute: retiredAttribute, profile: this.ensureProfile(userId) };
+      }
+      const { profile } = this.appendLedgerEntry(userId, "attribute_migration",
+        (totals, rules) => migrationDeltas(totals, key, moveTo, rules), { note: `${key} -> ${moveTo}` });
+      return { attribute: retiredAttribute, profile };
+    });
+  }
+
+  async restoreAttribute(userId: string, key: string): Promise<AttributeDefinition | undefined> {
+    const existingAttribute = this.findAttribute(userId, key);
+    return existingAttribute ? this.update(this.tables.attributeDefinitions, existingAttribute, { retiredAt: null }) : undefined;
+  }
+
+  // Backup
+  async getUserData(userId: string): Promise<UserData> {
+    return this.transaction(() => ({
+      profile: this.ensureProfile(userId),
+      settings: this.ensureSystemSettings(userId),
+      questGroups: oldestFirst(this.ownedBy(this.tables.questGroups, userId)),
+      quests: oldestFirst(this.ownedBy(this.tables.quests, userId)),
+      questProgress: oldestFirst(this.ownedBy(this.tables.questProgress, userId)),
+      questProgressSteps: oldestFirst(this.ownedBy(this.tables.questProgressSteps, userId)),
+      questFailures: oldestFirst(this.ownedBy(this.tables.questFailures, userId)),
+      ledger: this.ledgerEntries(userId),
+      notes: oldestFirst(this.ownedBy(this.tables.notes, userId)),
+      shopRewards: oldestFirst(this.ownedBy(this.tables.shopRewards, userId)),
+      rewardPurchases: oldestFirst(this.ownedBy(this.tables.rewardPurchases, userId)),
+      attributes: this.storedAttributeDefinitions(userId),
+    }));
+  }
+
+  async importUserData(userId: string, rows: ImportedRows, mode: ImportMode): Promise<void> {
+    return this.transaction(() => {
+      const currentProfile = this.ensureProfile(userId);
+      const currentSettings = this.ensureSystemSettings(userId);
+      const currentAttributes = this.ensureAttributeDefinitions(userId);
+
+      const replacesBalances = mode === "replace" && rows.restoreBalances;
+      if (mode === "replace") {
+        this.deleteProgress((progress) => progress.userId === userId);
+        const {
+          questProgressSteps, questFailures, quests, questGroups, notes, rewardLedger, shopRewards, rewardPurchases, attributeDefinitions,
+        } = this.tables;
+        const tables = replacesBalances
+          ? [questProgressSteps, questFailures, quests, questGroups, notes, shopRewards, rewardLedger, rewardPurchases, attributeDefinitions]
+          : [questProgressSteps, questFailures, quests, questGroups, notes, shopRewards];
+        for (const table of tables) {
+          for (const row of this.ownedBy<{ id: string; userId: string | null }>(table, userId)) {
+            table.delete(row.id);
+          }
+        }
+      }
+
+      const insert = <T extends { id: string }>(table: Map<string, T>, values: T[]) => {
+        for (const row of values) {
+          table.set(row.id, row);
+        }
+      };
+      insert(this.tables.questGroups, rows.questGroups);
+      insert(this.tables.quests, rows.quests);
+      insert(this.tables.questProgress, rows.questProgress);
+      insert(this.tables.questProgressSteps, rows.questProgressSteps);
+      insert(this.tables.questFailures, rows.questFailures);
+      insert(this.tables.notes, rows.notes);
+      insert(this.tables.shopRewards, rows.shopRewards);
+      // Attributes the user already has keep their own settings
+      const existingKeys = replacesBalances ? [] : currentAttributes.map((attribute) => attribute.key);
+      insert(this.tables.attributeDefinitions, rows.attributes.filter((attribute) => !existingKeys.includes(attribute.key)));
+
+      if (replacesBalances) {
+        if (rows.settings) {
+          this.update(this.tables.systemSettings, currentSettings, { ...rows.settings, updatedAt: new Date() });
+        }
+
+        // The profile is whatever the restored ledger adds up to, as long as it keeps to the rules
+        const rules = this.getProgressionRules(userId);
+        const totals = replayLedger(rows.ledger, rules);
+        insert(this.tables.rewardLedger, rows.ledger);
+        insert(this.tables.rewardPurchases, rows.rewardPurchases);
+        this.update(this.tables.profiles, currentProfile, profileUpdateFromTotals(totals, rules.levelCurve));
+      }
+    });
+  }
+
+  // Idempotency keys
+  async claimIdempotencyKey(userId: string, request: IdempotentRequest): Promise<IdempotencyKey | undefined> {
+    return this.transaction(() => {
+      const existing = this.findIdempotencyKey(userId, request.key);
+      if (existing) {
+        return existing;
+      }
+
+      const id = randomUUID();
+      this.tables.idempotencyKeys.set(id, {
+        ...request,
+        id,
+        userId,
+        statusCode: null,
+        responseBody: null,
+        createdAt: new Date(),
+      });
+      return undefined;
+    });
+  }
+
+  async saveIdempotentResponse(userId: string, key: string, statusCode: number, responseBody: unknown): Promise<void> {
+    const existing = this.findIdempotencyKey(userId, key);
+    if (existing) {
+      this.update(this.tables.idempotencyKeys, existing, { statusCode, responseBody });
+    }
+  }
+
+  async releaseIdempotencyKey(userId: string, key: string): Promise<void> {
+    const existing = this.findIdempotencyKey(userId, key);
+    if (existing) {
+      this.tables.idempotencyKeys.delete(existing.id);
+    }
+  }
+
+  async deleteIdempotencyKeysBefore(cutoff: Date): Promise<number> {
+    const expired = Array.from(this.tables.idempotencyKeys.values()).filter((record) => time(record.createdAt) < cutoff.getTime());
+    for (const record of expired) {
+      this.tables.idempotencyKeys.delete(record.id);
+    }
+    return expired.length;
+  }
+
+  private findIdempotencyKey(userId: string, key: string): IdempotencyKey | undefined {
+    return Array.from(this.tables.idempotencyKeys.values()).find((record) => record.userId === userId && record.key === key);
+  }
+
+  // Run `fn` atomically: any error rolls every table back to where it started
+  private transaction<T>(fn: () => T): T {
+    const snapshot = copyTables(this.tables);
+    try {
+      return fn();
+    } catch (error) {
+      this.tables = snapshot;
+      throw error;
+    }
+  }
+
+  private update<T extends { id: string }>(table: Map<string, T>, row: T, changes: object): T {
+    const updated = { ...assignDefined(row, changes), id: row.id };
+    table.set(row.id, updated);
+    return updated;
+  }
+
+  private ownedBy<T extends { userId: string | null }>(table: Map<string, T>, userId: string): T[] {
+    return Array.from(table.values()).filter((row) => row.userId === userId);
+  }
+
+  private findOwned<T extends { id: string; userId: string | null }>(table: Map<string, T>, userId: string, id: string): T | undefined {
+    const row = table.get(id);
+    return row?.userId === userId ? row : undefined;
+  }
+
+  private findUserByTelegramId(telegramId: string): User | undefined {
+    return Array.from(this.tables.users.values()).find((user) => user.telegramId === telegramId);
+  }
+
+  private findProfile(userId: string): Profile | undefined {
+    return Array.from(this.tables.profiles.values()).find((row) => row.userId === userId);
+  }
+
+  // New profiles start with default attributes, recorded as the opening ledger entry
+  private ensureProfile(userId: string): Profile {
+    const existingProfile = this.findProfile(userId);
+    if (existingProfile) {
+      return existingProfile;
+    }
+
+    const newProfile: Profile = {
+      id: randomUUID(),
+      userId,
+      level: 1,
+      xp: 0,
+      cumulativeXp: 0,
+      availablePoints: 0,
+      attributes: startingAttributes(),
+      freezeTokens: 0,
+      gold: 0,
+      timezone: null,
+      dayStartHour: 0,
+      createdAt: new Date(),
+    };
+    this.tables.profiles.set(newProfile.id, newProfile);
+    this.insertLedgerEntry(userId, "opening_balance", diffTotals(emptyTotals(), profileTotals(newProfile)));
+    return newProfile;
+  }
+
+  private ensureSystemSettings(userId: string): SystemSettings {
+    const existingSettings = this.ownedBy(this.tables.systemSettings, userId)[0];
+    if (existingSettings) {
+      return existingSettings;
+    }
+
+    // Same defaults DatabaseStorage creates
+    const newSettings: SystemSettings = {
+      id: randomUUID(),
+      userId,
+      maxXp: 10000,
+      maxAttributePoints: 100,
+      questResetInterval: 24,
+      levelCurve: DEFAULT_LEVEL_CURVE,
+      streakMilestones: DEFAULT_STREAK_MILESTONES,
+      updatedAt: new Date(),
+    };
+    this.tables.systemSettings.set(newSettings.id, newSettings);
+    return newSettings;
+  }
+
+  private storedAttributeDefinitions(userId: string): AttributeDefinition[] {
+    return oldestFirst(this.ownedBy(this.tables.attributeDefinitions, userId)).sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  // Same defaults DatabaseStorage stores on first access
+  private ensureAttributeDefinitions(userId: string): AttributeDefinition[] {
+    const existing = this.storedAttributeDefinitions(userId);
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    return DEFAULT_ATTRIBUTES.map((attribute, index) => {
+      const newAttribute: AttributeDefinition = {
+        ...attribute,
+        id: randomUUID(),
+        userId,
+        cap: null,
+        sortOrder: index,
+        retiredAt: null,
+        createdAt: new Date(),
+      };
+      this.tables.attributeDefinitions.set(newAttribute.id, newAttribute);
+      return newAttribute;
+    });
+  }
+
+  private findAttribute(userId: string, key: string): AttributeDefinition | undefined {
+    return this.ensureAttributeDefinitions(userId).find((attribute) => attribute.key === key);
+  }
+
+  private ledgerEntries(userId: string): LedgerEntry[] {
+    return oldestFirst(this.ownedBy(this.tables.rewardLedger, userId));
+  }
+
+  private insertLedgerEntry(
+    userId: string,
+    source: LedgerSource,
+    deltas: LedgerDeltas,
+    refs: Pick<InsertLedgerEntry, "questId" | "progressId" | "reversesEntryId" | "note"> = {},
+  ): LedgerEntry {
+    const entry: LedgerEntry = {
+      id: randomUUID(),
+      userId,
+      source,
+      questId: refs.questId ?? null,
+      progressId: refs.progressId ?? null,
+      reversesEntryId: refs.reversesEntryId ?? null,
+      ...deltas,
+      note: refs.note ?? null,
+      createdAt: new Date(),
+    };
+    this.tables.rewardLedger.set(entry.id, entry);
+    return entry;
+  }
+
+  // See DatabaseStorage.appendLedgerEntry
+  private appendLedgerEntry(
+    userId: string,
+    source: LedgerSource,
+    computeDeltas: (totals: ProfileTotals, rules: ProgressionRules) => LedgerDeltas,
+    refs: Pick<InsertLedgerEntry, "questId" | "progressId" | "reversesEntryId" | "note"> = {},
+  ): { profile: Profile; entry: LedgerEntry } {
+    const currentProfile = this.findProfile(userId);
+    if (!currentProfile) {
+      throw new Error('Profile not found');
+    }
+
+    if (this.ledgerEntries(userId).length === 0) {
+      this.insertLedgerEntry(userId, "opening_balance", diffTotals(emptyTotals(), profileTotals(currentProfile)));
+    }
+
+    const rules = this.getProgressionRules(userId);
+    const { totals, applied } = applyDeltas(profileTotals(currentProfile), computeDeltas(profileTotals(currentProfile), rules), rules);
+
+    const entry = this.insertLedgerEntry(userId, source, applied, refs);
+    const updatedProfile = this.update(this.tables.profiles, currentProfile, profileUpdateFromTotals(totals, rules.levelCurve));
+
+    return { profile: updatedProfile, entry };
+  }
+
+  private requireQuest(userId: string, questId: string): Quest {
+    const quest = this.findOwned(this.tables.quests, userId, questId);
+    if (!quest) {
+      throw new Error('Quest not found');
+    }
+    return quest;
+  }
+
+  private findProgress(questId: string, periodKey: string): QuestProgress | undefined {
+    return Array.from(this.tables.questProgress.values())
+      .find((progress) => progress.questId === questId && progress.periodKey === periodKey);
+  }
+
+  private currentProgress(userId: string, questId: string): QuestProgress | undefined {
+    const quest = this.findOwned(this.tables.quests, userId, questId);
+    return quest ? this.findProgress(questId, this.getCurrentPeriodKey(quest)) : undefined;
+  }
+
+  private insertProgress(values: Partial<QuestProgress>): QuestProgress {
+    const newProgress = assignDefined<QuestProgress>({
+      id: randomUUID(),
+      userId: null,
+      questId: null,
+      periodKey: "once",
+      progress: 0,
+      completed: false,
+      completedAt: null,
+      isArchived: false,
+      archivedAt: null,
+      archiveReason: null,
+      canUndo: true,
+      failed: false,
+      failedAt: null,
+      createdAt: new Date(),
+    }, values);
+    this.tables.questProgress.set(newProgress.id, newProgress);
+    return newProgress;
+  }
+
+  // The quest's progress row for the period, created if missing
+  private ensureProgress(userId: string, quest: Quest, periodKey: string): QuestProgress {
+    return this.findProgress(quest.id, periodKey) ?? this.insertProgress({ userId, questId: quest.id, periodKey });
+  }
+
+  // Deletes matching progress rows and, like the foreign key cascade, their steps
+  private deleteProgress(predicate: (progress: QuestProgress) => boolean): number {
+    let deleted = 0;
+    for (const progress of Array.from(this.tables.questProgress.values())) {
+      if (predicate(progress)) {
+        this.deleteProgressSteps(progress.id);
+        this.tables.questProgress.delete(progress.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private deleteProgressSteps(progressId: string): void {
+    for (const step of Array.from(this.tables.questProgressSteps.values())) {
+      if (step.progressId === progressId) {
+        this.tables.questProgressSteps.delete(step.id);
+      }
+    }
+  }
+
+  // Ordered by loggedAt, then by creation
+  private progressSteps(progressId: string): QuestProgressStep[] {
+    return oldestFirst(Array.from(this.tables.questProgressSteps.values()).filter((step) => step.progressId === progressId))
+      .sort((a, b) => time(a.loggedAt) - time(b.loggedAt));
+  }
+
+  private removeQuest(questId: string): boolean {
+    this.deleteProgress((progress) => progress.questId === questId);
+    for (const failure of Array.from(this.tables.questFailures.values())) {
+      if (failure.questId === questId) {
+        this.tables.questFailures.delete(failure.id);
+      }
+    }
+    return this.tables.quests.delete(questId);
+  }
+
+  // See DatabaseStorage.logProgressStep
+  private logProgressStep(userId: string, quest: Quest, currentProgress: QuestProgress, step: QuestProgressStepInput): QuestProgress {
+    const maxProgress = quest.maxProgress || 1;
+    const previous = currentProgress.progress || 0;
+    const progress = Math.min(maxProgress, previous + step.delta);
+    const justCompleted = progress >= maxProgress;
+
+    if (progress > previous) {
+      const now = new Date();
+      const newStep: QuestProgressStep = {
+        id: randomUUID(),
+        userId,
+        progressId: currentProgress.id,
+        questId: quest.id,
+        delta: progress - previous,
+        note: step.note ?? null,
+        loggedAt: step.loggedAt ?? now,
+        createdAt: now,
+      };
+      this.tables.questProgressSteps.set(newStep.id, newStep);
+    }
+
+    const updatedProgress = this.update(this.tables.questProgress, currentProgress, {
+      progress,
+      ...(justCompleted ? { completed: true, completedAt: new Date() } : {})
+    });
+
+    if (justCompleted) {
+      const streak = this.getQuestStreak(userId, quest);
+      this.appendLedgerEntry(userId, "quest_completion", (totals, rules) => (
+        questRewardDeltas(quest, totals, rules, streakMultiplier(streak, rules.streakMilestones))
+      ), {
+        questId: quest.id,
+        progressId: currentProgress.id,
+      });
+    }
+
+    return updatedProgress;
+  }
+
+  // See DatabaseStorage.reopenCompletedQuest
+  private reopenCompletedQuest(userId: string, quest: Quest, progress: QuestProgress): QuestProgress {
+    const progressResult = this.update(this.tables.questProgress, progress, {
+      progress: 0,
+      completed: false,
+      completedAt: null,
+      isArchived: false,
+      archivedAt: null,
+      archiveReason: null
+    });
+
+    this.deleteProgressSteps(progress.id);
+    this.reverseQuestCompletion(userId, quest, progress);
+
+    return progressResult;
+  }
+
+  // Gives back exactly what the completion granted
+  private reverseQuestCompletion(userId: string, quest: Quest, progress: QuestProgress): void {
+    const grant = newestFirst(this.tables.rewardLedger.values())
+      .find((entry) => entry.progressId === progress.id && entry.source === "quest_completion");
+
+    // Completed without a grant (imported, or before the ledger existed): nothing to give back
+    if (!grant) {
+      return;
+    }
+
+    const alreadyReversed = Array.from(this.tables.rewardLedger.values())
+      .some((entry) => entry.reversesEntryId === grant.id);
+    if (!alreadyReversed) {
+      this.appendLedgerEntry(userId, "quest_reversal", () => reversalDeltas(grant), {
+        questId: quest.id,
+        progressId: progress.id,
+        reversesEntryId: grant.id,
+      });
+    }
+  }
+
+  private getAllocatedAttributes(userId: string): Record<string, number> {
+    return allocatedAttributes(this.ledgerEntries(userId)
+      .filter((entry) => ["attribute_allocation", "respec", "attribute_migration"].includes(entry.source)));
+  }
+
+  private getProgressionRules(userId: string): ProgressionRules {
+    return progressionRules(this.ownedBy(this.tables.systemSettings, userId)[0], this.storedAttributeDefinitions(userId));
+  }
+
+  // See DatabaseStorage.getQuestStreak
+  private getQuestStreak(userId: string, quest: Quest, now: Date = new Date()): number {
+    const settings = this.ensureSystemSettings(userId);
+    const completed = this.ownedBy(this.tables.questProgress, userId)
+      .filter((progress) => progress.questId === quest.id && progress.completed);
+    const frozen = this.ownedBy(this.tables.streakFreezes, userId).filter((freeze) => freeze.questId === quest.id);
+
+    return questStreak(
+      quest,
+      settings.questResetInterval ?? 24,
+      new Set(completed.map((progress) => progress.periodKey)),
+      new Set(frozen.map((freeze) => freeze.periodKey)),
+      now,
+      dayClock(this.ensureProfile(userId)),
+    ).current;
+  }
+
+  private getCurrentPeriod(quest: Quest, now: Date = new Date()) {
+    const settings = this.ensureSystemSettings(quest.userId!);
+    const period = getQuestPeriod(quest, settings.questResetInterval ?? 24, now, dayClock(this.ensureProfile(quest.userId!)));
+    return carriedPeriod(period, Array.from(this.tables.questProgress.values()).filter((progress) => progress.questId === quest.id));
+  }
+
+  private getCurrentPeriodKey(quest: Quest, now: Date = new Date()): string {
+    return this.getCurrentPeriod(quest, now).key;
+  }
+}
@@ -0,0 +1,19 @@
+import fs from "fs";
+import { describe, expect, it } from "vitest";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { LEGACY_UPGRADE, MIGRATIONS_FOLDER } from "./migrate";
+
+describe("legacy upgrade", () => {
+  it("creates every table and constraint of the initial migration", () => {
+    const [initial] = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+    const upgrade = fs.readFileSync(LEGACY_UPGRADE, "utf8");
+    const initialSql = initial.sql.join("\n");
+
+    for (const [, table] of Array.from(initialSql.matchAll(/CREATE TABLE "(\w+)"/g))) {
+      expect(upgrade).toMatch(new RegExp(`(CREATE TABLE IF NOT EXISTS|ALTER TABLE) "${table}"`));
+    }
+    for (const [, constraint] of Array.from(initialSql.matchAll(/CONSTRAINT "(\w+)"/g))) {
+      expect(upgrade).toContain(`CONSTRAINT "${constraint}"`);
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import fs from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { migrate } from "drizzle-orm/postgres-js/migrator";
+import { getDb, type Database } from "./db";
+
+// Generated from shared/schema.ts with `npm run db:generate` and checked in
+export const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Hand-written upgrade for databases pushed before multi-user support (see baselinePushedDatabase)
+export const LEGACY_UPGRADE = path.join(MIGRATIONS_FOLDER, "legacy", "upgrade_to_0000.sql");
+
+/**
+ * Databases set up with `drizzle-kit push` already have a schema but no migration
+ * history. Ones pushed with `users` match the initial migration; older single-user
+ * ones (a `profile` but no `users`) are upgraded to it first. Either way the initial
+ * migration is recorded as applied so it is not run again.
+ */
+async function baselinePushedDatabase(db: Database): Promise<void> {
+  await db.execute(sql`CREATE SCHEMA IF NOT EXISTS drizzle`);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (
+      id SERIAL PRIMARY KEY,
+      hash text NOT NULL,
+      created_at bigint
+    )
+  `);
+
+  const [{ applied }] = await db.execute<{ applied: number }>(sql`SELECT count(*)::int AS applied FROM drizzle.__drizzle_migrations`);
+  if (applied > 0) {
+    return;
+  }
+
+  const [{ pushed, legacy }] = await db.execute<{ pushed: boolean; legacy: boolean }>(sql`
+    SELECT to_regclass('public.users') IS NOT NULL AS pushed,
+           to_regclass('public.users') IS NULL AND to_regclass('public.profile') IS NOT NULL AS legacy
+  `);
+  if (!pushed && !legacy) {
+    return;
+  }
+
+  const [initial] = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  await db.transaction(async (tx) => {
+    if (legacy) {
+      const statements = fs.readFileSync(LEGACY_UPGRADE, "utf8").split("--> statement-breakpoint");
+      for (const statement of statements) {
+        await tx.execute(sql.raw(statement));
+      }
+    }
+
+    await tx.execute(sql`
+      INSERT INTO drizzle.__drizzle_migrations (hash, created_at)
+      VALUES (${initial.hash}, ${initial.folderMillis})
+    `);
+  });
+}
+
+// Apply every migration in ./migrations that the database has not seen yet
+export async function runMigrations(): Promise<void> {
+  const db = getDb();
+  await baselinePushedDatabase(db);
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
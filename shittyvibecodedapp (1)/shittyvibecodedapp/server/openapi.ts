@@ -0,0 +1,95 @@
+import type { ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { apiRoutes, errorResponseSchema, IDEMPOTENCY_KEY_HEADER, type ApiRouteDefinition } from "@shared/api";
+import { INIT_DATA_HEADER } from "./auth";
+
+type JsonSchema = ReturnType<typeof zodToJsonSchema>;
+
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  // Inline everything so each operation reads on its own
+  return zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none" });
+}
+
+function jsonContent(schema: ZodTypeAny) {
+  return { "application/json": { schema: toJsonSchema(schema) } };
+}
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function buildOperation(name: string, route: ApiRouteDefinition) {
+  const pathParameters = Array.from(route.path.matchAll(/:(\w+)/g), ([, param]) => ({
+    name: param,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+  const queryParameters = Object.entries(route.query?.shape ?? {}).map(([param, schema]) => ({
+    name: param,
+    in: "query",
+    required: !(schema as ZodTypeAny).isOptional(),
+    schema: toJsonSchema(schema as ZodTypeAny),
+  }));
+  const headerParameters = route.method === "GET" ? [] : [{
+    name: IDEMPOTENCY_KEY_HEADER,
+    in: "header",
+    required: false,
+    description: "Run the request at most once; repeats return the first response",
+    schema: { type: "string", maxLength: 200 },
+  }];
+
+  const responses: Record<string, unknown> = {
+    200: { description: "Success", content: jsonContent(route.response) },
+    401: { description: "Missing or invalid Telegram init data", content: jsonContent(errorResponseSchema) },
+  };
+  if (route.body || route.path.includes(":")) {
+    responses[400] = { description: "Invalid request", content: jsonContent(errorResponseSchema) };
+  }
+  if (route.path.includes(":")) {
+    responses[404] = { description: "Not found", content: jsonContent(errorResponseSchema) };
+  }
+  if (route.method !== "GET") {
+    responses[409] = { description: "A request with the same idempotency key is still running", content: jsonContent(errorResponseSchema) };
+    responses[422] = { description: "The idempotency key was used for a different request", content: jsonContent(errorResponseSchema) };
+  }
+  if (route.adminOnly) {
+    responses[403] = { description: "Admin access required", content: jsonContent(errorResponseSchema) };
+  }
+
+  return {
+    operationId: name,
+    summary: route.summary,
+    tags: [route.tag],
+    parameters: [...pathParameters, ...queryParameters, ...headerParameters],
+    ...(route.body ? { requestBody: { required: true, content: jsonContent(route.body) } } : {}),
+    responses,
+  };
+}
+
+// OpenAPI 3 description of shared/api.ts, served at /api/openapi.json
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [name, route] of Object.entries(apiRoutes) as [string, ApiRouteDefinition][]) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: buildOperation(name, route) };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: { title: "CryptoAlerts API", version: "1.0.0" },
+    servers: [{ url: "/" }],
+    security: [{ telegramInitData: [] }],
+    components: {
+      securitySchemes: {
+        telegramInitData: {
+          type: "apiKey",
+          in: "header",
+          name: INIT_DATA_HEADER,
+          description: "Telegram WebApp initData, signed with the bot token",
+        },
+      },
+    },
+    paths,
+  };
+}
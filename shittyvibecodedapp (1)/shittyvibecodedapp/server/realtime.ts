@@ -0,0 +1,90 @@
+import { STATUS_CODES, type Server } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
+import { REALTIME_PATH, type SyncEvent } from "@shared/events";
+import { authenticateTelegramUser, telegramAuthOptionsFromEnv, TelegramAuthError, type TelegramAuthOptions } from "./auth";
+import type { IStorage } from "./storage";
+
+// Dead connections are dropped after missing one ping
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+type Listener = (event: SyncEvent) => void;
+
+const listeners = new Map<string, Set<Listener>>();
+
+export function subscribe(userId: string, listener: Listener): () => void {
+  const userListeners = listeners.get(userId) ?? new Set<Listener>();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) {
+      listeners.delete(userId);
+    }
+  };
+}
+
+// Send an event to every connection of one user
+export function publish(userId: string, event: SyncEvent): void {
+  for (const listener of Array.from(listeners.get(userId) ?? [])) {
+    listener(event);
+  }
+}
+
+// Send an event to everyone connected, for changes not tied to a single user
+export function publishToAll(event: SyncEvent): void {
+  for (const userId of Array.from(listeners.keys())) {
+    publish(userId, event);
+  }
+}
+
+/**
+ * Accept WebSocket connections on REALTIME_PATH and forward each user's events
+ * to their sockets. Other upgrade requests (Vite HMR) are left alone.
+ */
+export function attachRealtime(
+  server: Server,
+  storage: IStorage,
+  options: TelegramAuthOptions = telegramAuthOptionsFromEnv(),
+): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== REALTIME_PATH) {
+      return;
+    }
+
+    try {
+      const { user } = await authenticateTelegramUser(storage, url.searchParams.get("initData") ?? undefined, options);
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        alive.add(ws);
+        ws.on("pong", () => alive.add(ws));
+
+        const unsubscribe = subscribe(user.id, (event) => ws.send(JSON.stringify(event)));
+        ws.on("close", unsubscribe);
+        wss.emit("connection", ws, req);
+      });
+    } catch (error) {
+      const status = error instanceof TelegramAuthError ? error.status : 500;
+      socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  server.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
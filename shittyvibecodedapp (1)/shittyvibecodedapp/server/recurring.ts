@@ -0,0 +1,108 @@
+import type { Quest, QuestProgress } from "@shared/schema";
+import { UTC_CLOCK, addDays, dayStartTime, daysBetween, userDate, weekdayIndex, type DayClock } from "@shared/timezone";
+
+export const ONCE_PERIOD_KEY = "once";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Multi-day intervals are counted from here
+const EPOCH_DAY = "1970-01-01";
+
+export interface QuestPeriod {
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+export function isRecurringQuest(quest: Pick<Quest, "enableRecurring" | "repetitionFrequency">): boolean {
+  return !!quest.enableRecurring && !!quest.repetitionFrequency && quest.repetitionFrequency !== "none";
+}
+
+// Past its deadline a quest only waits for the scheduler to fail it (see processExpiredDeadlines)
+export function isPastDeadline(quest: Pick<Quest, "enableDeadline" | "deadline">, now: Date): boolean {
+  return !!quest.enableDeadline && !!quest.deadline && quest.deadline < now;
+}
+
+/**
+ * Resolve the period a quest completion belongs to, in the user's days (see DayClock).
+ * Daily quests roll over every `resetIntervalHours` (systemSettings.questResetInterval):
+ * shorter intervals split each day from its start, longer ones span whole days.
+ * Weekly quests roll over at the start of Monday and monthly quests at the start of the 1st.
+ * Non-recurring quests always belong to the single "once" period.
+ */
+export function getQuestPeriod(
+  quest: Pick<Quest, "enableRecurring" | "repetitionFrequency">,
+  resetIntervalHours: number,
+  now: Date = new Date(),
+  clock: DayClock = UTC_CLOCK,
+): QuestPeriod {
+  if (!isRecurringQuest(quest)) {
+    return { key: ONCE_PERIOD_KEY, start: new Date(0), end: new Date(8.64e15) };
+  }
+
+  const today = userDate(now, clock);
+
+  switch (quest.repetitionFrequency) {
+    case "daily": {
+      const intervalHours = Math.max(1, resetIntervalHours);
+      let start: Date;
+      let end: Date;
+      if (intervalHours < 24) {
+        const dayStart = dayStartTime(today, clock);
+        const dayEnd = dayStartTime(addDays(today, 1), clock);
+        const intervalMs = intervalHours * HOUR_MS;
+        start = new Date(dayStart.getTime() + Math.floor((now.getTime() - dayStart.getTime()) / intervalMs) * intervalMs);
+        // The last interval of the day ends with it
+        end = new Date(Math.min(start.getTime() + intervalMs, dayEnd.getTime()));
+      } else {
+        const days = Math.round(intervalHours / 24);
+        const first = addDays(EPOCH_DAY, Math.floor(daysBetween(EPOCH_DAY, today) / days) * days);
+        start = dayStartTime(first, clock);
+        end = dayStartTime(addDays(first, days), clock);
+      }
+      return { key: `daily:${start.toISOString().slice(0, 13)}`, start, end };
+    }
+    case "weekly": {
+      const monday = addDays(today, -weekdayIndex(today));
+      return {
+        key: `weekly:${monday}`,
+        start: dayStartTime(monday, clock),
+        end: dayStartTime(addDays(monday, 7), clock),
+      };
+    }
+    case "monthly": {
+      const first = `${today.slice(0, 7)}-01`;
+      const next = addDays(first, 32).slice(0, 7);
+      return {
+        key: `monthly:${today.slice(0, 7)}`,
+        start: dayStartTime(first, clock),
+        end: dayStartTime(`${next}-01`, clock),
+      };
+    }
+    default:
+      throw new Error(`Invalid repetition frequency: ${quest.repetitionFrequency}`);
+  }
+}
+
+type PeriodProgress = Pick<QuestProgress, "periodKey" | "completed" | "completedAt" | "createdAt">;
+
+/**
+ * Moving the user's clock (see shared/timezone.ts) can put `now` in a period whose key
+ * differs from the one progress was recorded under earlier in the same hours. Progress
+ * made within the period's time range keeps its key, completed progress first, so a
+ * clock change never reopens a quest already completed in that range.
+ */
+export function carriedPeriod(period: QuestPeriod, progress: PeriodProgress[]): QuestPeriod {
+  if (period.key === ONCE_PERIOD_KEY) {
+    return period;
+  }
+
+  const madeAt = (row: PeriodProgress) => (row.completedAt ?? row.createdAt)?.getTime() ?? NaN;
+  const inRange = progress
+    .filter((row) => madeAt(row) >= period.start.getTime() && madeAt(row) < period.end.getTime())
+    .sort((a, b) => madeAt(b) - madeAt(a));
+  const carried = inRange.find((row) => row.completed)
+    ?? inRange.find((row) => row.periodKey === period.key)
+    ?? inRange[0];
+  return carried ? { ...period, key: carried.periodKey } : period;
+}
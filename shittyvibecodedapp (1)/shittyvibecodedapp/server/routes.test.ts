@@ -0,0 +1,771 @@
+import type { AddressInfo } from "net";
+import { createServer, type Server } from "http";
+import express from "express";
+import { WebSocket } from "ws";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Profile } from "@shared/schema";
+import { apiRoutes } from "@shared/api";
+import { REALTIME_PATH, type SyncEvent } from "@shared/events";
+import type { IStorage } from "./storage";
+
+// Fresh in-memory storage and the unsigned development user for every test
+let app: express.Express;
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  vi.stubEnv("STORAGE_DRIVER", "memory");
+  vi.stubEnv("NODE_ENV", "development");
+  vi.stubEnv("TELEGRAM_BOT_TOKEN", "");
+  vi.resetModules();
+  const { registerRoutes } = await import("./routes");
+
+  app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  vi.unstubAllEnvs();
+});
+
+async function api(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Promise<{ status: number; body: any; headers: Headers }> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: body === undefined ? headers : { ...headers, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json(), headers: response.headers };
+}
+
+type ProfileSnapshot = Pick<Profile, "xp" | "level" | "cumulativeXp" | "availablePoints" | "attributes"> & Partial<Pick<Profile, "gold">>;
+
+const startingProfile: ProfileSnapshot = {
+  xp: 0,
+  level: 1,
+  cumulativeXp: 0,
+  availablePoints: 0,
+  attributes: { physique: 10, mental: 10, success: 10, social: 10, skills: 10 },
+};
+
+async function expectProfile(expected: ProfileSnapshot) {
+  const { status, body } = await api("GET", "/api/profile");
+  expect(status).toBe(200);
+  expect(body).toMatchObject(expected);
+
+  // Whatever happened, the ledger still adds up to the profile
+  const reconciliation = await api("GET", "/api/ledger/reconcile");
+  expect(reconciliation.body.inSync).toBe(true);
+}
+
+async function createQuest(fields: Record<string, unknown> = {}) {
+  const { status, body } = await api("POST", "/api/quests", {
+    title: "Deep work",
+    xpReward: 900,
+    attributePointReward: 2,
+    targetAttribute: "mental",
+    ...fields,
+  });
+  expect(status).toBe(200);
+  return body as { id: string };
+}
+
+// 900 XP crosses into level 2 (800 XP per level), which also grants one available point
+const rewardedProfile: ProfileSnapshot = {
+  xp: 900,
+  level: 2,
+  cumulativeXp: 900,
+  availablePoints: 1,
+  attributes: { ...startingProfile.attributes!, mental: 12 },
+};
+
+describe("quest lifecycle", () => {
+  it("rewards completion once and keeps it through archiving", async () => {
+    const quest = await createQuest();
+    await expectProfile(startingProfile);
+
+    const completed = await api("POST", `/api/quests/${quest.id}/complete`);
+    expect(completed.status).toBe(200);
+    expect(completed.body.completed).toBe(true);
+    await expectProfile(rewardedProfile);
+
+    // Completing again in the same period is a no-op
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    await expectProfile(rewardedProfile);
+
+    const archived = await api("POST", `/api/quests/${quest.id}/archive`, { reason: "Done" });
+    expect(archived.status).toBe(200);
+    expect(archived.body.isArchived).toBe(true);
+    expect(archived.body.archiveReason).toBe("Done");
+    await expectProfile(rewardedProfile);
+  });
+
+  it("takes the reward back when an archived completion is undone", async () => {
+    const quest = await createQuest();
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    await api("POST", `/api/quests/${quest.id}/archive`);
+
+    const undone = await api("POST", `/api/quests/${quest.id}/undo`);
+    expect(undone.status).toBe(200);
+    expect(undone.body).toMatchObject({ completed: false, progress: 0, isArchived: false });
+    await expectProfile(startingProfile);
+
+    // The quest can be completed again and pays out again
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    await expectProfile(rewardedProfile);
+  });
+
+  it("cancels a completion exactly like undo", async () => {
+    const quest = await createQuest();
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    await api("POST", `/api/quests/${quest.id}/archive`);
+
+    const cancelled = await api("POST", `/api/quests/${quest.id}/cancel`);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body).toMatchObject({ completed: false, progress: 0, isArchived: false });
+    await expectProfile(startingProfile);
+
+    expect((await api("POST", `/api/quests/${quest.id}/cancel`)).status).toBe(400);
+    expect((await api("POST", `/api/quests/${quest.id}/undo`)).status).toBe(400);
+    await expectProfile(startingProfile);
+  });
+
+  it("only archives completed quests", async () => {
+    const quest = await createQuest();
+
+    const archived = await api("POST", `/api/quests/${quest.id}/archive`);
+    expect(archived.status).toBe(400);
+    expect(archived.body.message).toBe("Quest is not completed yet");
+    expect((await api("POST", "/api/quests/missing/archive")).status).toBe(404);
+    await expectProfile(startingProfile);
+  });
+
+  it("deletes archived quests for good and keeps the reward", async () => {
+    const quest = await createQuest();
+    await api("POST", `/api/quests/${quest.id}/complete`);
+
+    expect((await api("DELETE", `/api/quests/${quest.id}/archive`)).status).toBe(400);
+    await api("POST", `/api/quests/${quest.id}/archive`);
+
+    const deleted = await api("DELETE", `/api/quests/${quest.id}/archive`);
+    expect(deleted.status).toBe(200);
+    await expectProfile(rewardedProfile);
+
+    // Gone, so its reward cannot be earned a second time
+    expect((await api("GET", "/api/quests")).body).toEqual([]);
+    expect((await api("GET", "/api/quest-progress")).body).toEqual([]);
+    expect((await api("POST", `/api/quests/${quest.id}/complete`)).status).toBe(404);
+    await expectProfile(rewardedProfile);
+  });
+
+  it("keeps rewards when a completed quest is deleted", async () => {
+    const quest = await createQuest({ attributePointReward: 1, targetAttribute: null });
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    await expectProfile({ ...rewardedProfile, availablePoints: 2, attributes: startingProfile.attributes });
+
+    expect((await api("DELETE", `/api/quests/${quest.id}`)).status).toBe(200);
+    expect((await api("DELETE", `/api/quests/${quest.id}`)).status).toBe(404);
+    await expectProfile({ ...rewardedProfile, availablePoints: 2, attributes: startingProfile.attributes });
+  });
+
+  it("refuses to complete a quest past its deadline before the scheduler fails it", async () => {
+    const quest = await createQuest({ enableDeadline: true, deadline: new Date(Date.now() - 60 * 1000).toISOString(), maxProgress: 2 });
+
+    const completed = await api("POST", `/api/quests/${quest.id}/complete`);
+    expect(completed.status).toBe(400);
+    expect(completed.body.message).toBe("Quest deadline has passed");
+    expect((await api("POST", `/api/quests/${quest.id}/progress`, { delta: 2 })).status).toBe(400);
+    await expectProfile(startingProfile);
+  });
+
+  it("refuses to complete a quest the scheduler has failed", async () => {
+    const quest = await createQuest({ enableDeadline: true, deadline: new Date(Date.now() - 60 * 1000).toISOString() });
+    const { storage } = await import("./storage");
+    expect(await storage.processExpiredDeadlines(new Date())).toHaveLength(1);
+
+    const deadline = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    expect((await api("PATCH", `/api/quests/${quest.id}`, { deadline })).status).toBe(200);
+    const completed = await api("POST", `/api/quests/${quest.id}/complete`);
+    expect(completed.status).toBe(400);
+    expect(completed.body.message).toBe("Quest deadline has passed");
+    await expectProfile(startingProfile);
+  });
+});
+
+describe("quest group lifecycle", () => {
+  it("creates, updates and deletes a group along with its quests", async () => {
+    const created = await api("POST", "/api/quest-groups", { name: "Mornings" });
+    expect(created.status).toBe(200);
+    expect(created.body).toMatchObject({ name: "Mornings", icon: "calendar" });
+    const groupId = created.body.id;
+
+    const renamed = await api("PATCH", `/api/quest-groups/${groupId}`, { name: "Early mornings" });
+    expect(renamed.body.name).toBe("Early mornings");
+
+    const done = await createQuest({ groupId });
+    const open = await createQuest({ groupId, title: "Stretch", xpReward: 50, attributePointReward: 0 });
+    expect((await api("GET", `/api/quests?groupId=${groupId}`)).body).toHaveLength(2);
+    expect((await api("POST", "/api/quests", { title: "Orphan", groupId: "missing" })).status).toBe(400);
+
+    await api("POST", `/api/quests/${done.id}/complete`);
+    await api("POST", `/api/quests/${done.id}/archive`);
+    await api("POST", `/api/quests/${open.id}/progress`, { delta: 1 });
+    await expectProfile({ ...rewardedProfile, xp: 950, cumulativeXp: 950 });
+
+    const deleted = await api("DELETE", `/api/quest-groups/${groupId}`);
+    expect(deleted.status).toBe(200);
+    expect((await api("GET", "/api/quest-groups")).body).toEqual([]);
+    expect((await api("GET", "/api/quests")).body).toEqual([]);
+    expect((await api("GET", "/api/quest-progress")).body).toEqual([]);
+    expect((await api("DELETE", `/api/quest-groups/${groupId}`)).status).toBe(404);
+
+    // Rewards already earned are kept
+    await expectProfile({ ...rewardedProfile, xp: 950, cumulativeXp: 950 });
+  });
+});
+
+describe("request validation", () => {
+  it("returns field errors for invalid bodies", async () => {
+    const quest = await createQuest();
+
+    const invalidUpdate = await api("PATCH", `/api/quests/${quest.id}`, { xpReward: -5, repetitionFrequency: "yearly" });
+    expect(invalidUpdate.status).toBe(400);
+    expect(invalidUpdate.body.message).toBe("Invalid quest data");
+    expect(invalidUpdate.body.errors.map((error: { path: string }) => error.path).sort()).toEqual(["repetitionFrequency", "xpReward"]);
+
+    const missingTitle = await api("POST", "/api/notes", { content: "No title" });
+    expect(missingTitle.status).toBe(400);
+    expect(missingTitle.body.errors).toEqual([{ path: "title", message: expect.any(String) }]);
+
+    const invalidStep = await api("POST", `/api/quests/${quest.id}/progress`, { delta: 0 });
+    expect(invalidStep.status).toBe(400);
+    expect(invalidStep.body.errors[0].path).toBe("delta");
+  });
+
+  it("ignores ids, owners and timestamps in update bodies", async () => {
+    const group = (await api("POST", "/api/quest-groups", { name: "Evenings" })).body;
+    const note = (await api("POST", "/api/notes", { title: "Ideas" })).body;
+
+    const updatedGroup = await api("PATCH", `/api/quest-groups/${group.id}`, {
+      id: "hijacked",
+      userId: "someone-else",
+      createdAt: "2000-01-01T00:00:00.000Z",
+      name: "Late evenings",
+    });
+    expect(updatedGroup.status).toBe(200);
+    expect(updatedGroup.body).toMatchObject({ id: group.id, userId: group.userId, createdAt: group.createdAt, name: "Late evenings" });
+
+    const updatedNote = await api("PATCH", `/api/notes/${note.id}`, { id: "hijacked", userId: "someone-else", content: "More" });
+    expect(updatedNote.body).toMatchObject({ id: note.id, userId: note.userId, title: "Ideas", content: "More" });
+  });
+});
+
+describe("idempotency keys", () => {
+  it("replays the first response instead of logging progress again", async () => {
+    const quest = await createQuest({ maxProgress: 3 });
+    const headers = { "Idempotency-Key": "step-1" };
+
+    const first = await api("POST", `/api/quests/${quest.id}/progress`, { delta: 1 }, headers);
+    const replay = await api("POST", `/api/quests/${quest.id}/progress`, { delta: 1 }, headers);
+    expect(first.status).toBe(200);
+    expect(first.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(replay.status).toBe(200);
+    expect(replay.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(replay.body).toEqual(first.body);
+
+    expect(first.body.progress).toBe(1);
+    expect((await api("GET", `/api/quests/${quest.id}/progress`)).body).toHaveLength(1);
+
+    // A new key is a new step
+    await api("POST", `/api/quests/${quest.id}/progress`, { delta: 1 }, { "Idempotency-Key": "step-2" });
+    expect((await api("GET", `/api/quests/${quest.id}/progress`)).body).toHaveLength(2);
+  });
+
+  it("never grants a completion reward twice for the same key", async () => {
+    const quest = await createQuest();
+    const headers = { "Idempotency-Key": "complete-1" };
+
+    await api("POST", `/api/quests/${quest.id}/complete`, undefined, headers);
+    await api("POST", `/api/quests/${quest.id}/undo`);
+    await expectProfile(startingProfile);
+
+    const replay = await api("POST", `/api/quests/${quest.id}/complete`, undefined, headers);
+    expect(replay.status).toBe(200);
+    expect(replay.body.completed).toBe(true);
+    await expectProfile(startingProfile);
+  });
+
+  it("records client errors and rejects keys reused for other requests", async () => {
+    const quest = await createQuest();
+    const headers = { "Idempotency-Key": "reused" };
+
+    expect((await api("POST", `/api/quests/${quest.id}/progress`, { delta: 0 }, headers)).status).toBe(400);
+    expect((await api("POST", `/api/quests/${quest.id}/progress`, { delta: 1 }, headers)).status).toBe(400);
+
+    const otherRoute = await api("POST", `/api/quests/${quest.id}/complete`, undefined, headers);
+    expect(otherRoute.status).toBe(422);
+    await expectProfile(startingProfile);
+  });
+});
+
+describe("achievements", () => {
+  async function achievement(id: string) {
+    const { status, body } = await api("GET", "/api/achievements");
+    expect(status).toBe(200);
+    return (body as { id: string; progress: number; target: number; unlockedAt: string | null }[]).find((item) => item.id === id)!;
+  }
+
+  it("unlocks on completion and keeps the unlock when the completion is undone", async () => {
+    expect(await achievement("quests-1")).toMatchObject({ progress: 0, target: 1, unlockedAt: null });
+    expect(await achievement("level-5")).toMatchObject({ progress: 1, target: 5 });
+
+    const quest = await createQuest();
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    const unlocked = await achievement("quests-1");
+    expect(unlocked.progress).toBe(1);
+    expect(unlocked.unlockedAt).not.toBeNull();
+    expect(await achievement("streak-3")).toMatchObject({ progress: 1, unlockedAt: null });
+    expect(await achievement("level-5")).toMatchObject({ progress: 2 });
+
+    await api("POST", `/api/quests/${quest.id}/cancel`);
+    expect(await achievement("quests-1")).toEqual(unlocked);
+    expect(await achievement("quests-10")).toMatchObject({ progress: 0 });
+  });
+});
+
+describe("streaks", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts consecutive periods and multiplies XP at milestones", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-09T12:00:00Z"));
+    const quest = await createQuest({ enableRecurring: true, repetitionFrequency: "daily" });
+
+    for (const day of ["2026-03-09", "2026-03-10", "2026-03-11"]) {
+      vi.setSystemTime(new Date(`${day}T12:00:00Z`));
+      expect((await api("POST", `/api/quests/${quest.id}/complete`)).status).toBe(200);
+    }
+
+    // The third day in a row reaches the 3-day milestone: 900 + 900 + 900 × 1.1
+    const { body: profile } = await api("GET", "/api/profile");
+    expect(profile.cumulativeXp).toBe(2790);
+    expect((await api("GET", "/api/ledger/reconcile")).body.inSync).toBe(true);
+
+    const { status, body } = await api("GET", "/api/streaks");
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      daily: { current: 3, best: 3 },
+      quests: [{ questId: quest.id, current: 3, best: 3, multiplier: 1.1 }],
+      freezeTokens: 0,
+    });
+
+    // Skipping a day breaks the streak
+    vi.setSystemTime(new Date("2026-03-13T12:00:00Z"));
+    expect((await api("GET", "/api/streaks")).body).toMatchObject({
+      daily: { current: 0, best: 3 },
+      quests: [{ current: 0, best: 3, multiplier: 1 }],
+    });
+  });
+});
+
+describe("time zone", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts the user's days at their hour in their time zone", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-09T12:00:00Z"));
+    expect((await api("GET", "/api/profile")).body).toMatchObject({ timezone: null, dayStartHour: 0 });
+
+    expect((await api("PATCH", "/api/profile/timezone", { timezone: "Mars/Olympus" })).status).toBe(400);
+    expect((await api("PATCH", "/api/profile/timezone", { dayStartHour: 24 })).status).toBe(400);
+    const updated = await api("PATCH", "/api/profile/timezone", { timezone: "Europe/Berlin", dayStartHour: 4 });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ timezone: "Europe/Berlin", dayStartHour: 4 });
+
+    // 02:00 in Berlin still belongs to the 9th, 05:00 starts the 10th; in UTC both would be the 10th
+    const quest = await createQuest({ enableRecurring: true, repetitionFrequency: "daily" });
+    for (const time of ["2026-03-10T01:00:00Z", "2026-03-10T04:00:00Z"]) {
+      vi.setSystemTime(new Date(time));
+      expect((await api("POST", `/api/quests/${quest.id}/complete`)).status).toBe(200);
+    }
+    expect((await api("GET", "/api/streaks")).body).toMatchObject({
+      daily: { current: 2 },
+      quests: [{ questId: quest.id, current: 2 }],
+    });
+  });
+
+  it("does not reopen a completed quest when the day start moves", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-09T12:00:00Z"));
+    const quest = await createQuest({ enableRecurring: true, repetitionFrequency: "daily" });
+    const completed = await api("POST", `/api/quests/${quest.id}/complete`);
+    expect(completed.status).toBe(200);
+
+    // Each hour puts noon in a period with a different key, but the completion still covers it
+    for (const dayStartHour of [1, 2, 3, 4, 0]) {
+      await api("PATCH", "/api/profile/timezone", { dayStartHour });
+      const repeated = await api("POST", `/api/quests/${quest.id}/complete`);
+      expect(repeated.body).toMatchObject({ id: completed.body.id, completed: true });
+    }
+    await expectProfile(rewardedProfile);
+
+    // The next day is a new period again
+    vi.setSystemTime(new Date("2026-03-10T12:00:00Z"));
+    expect((await api("POST", `/api/quests/${quest.id}/complete`)).status).toBe(200);
+    expect((await api("GET", "/api/profile")).body.cumulativeXp).toBe(1800);
+  });
+});
+
+describe("history", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns XP, attributes and completions per bucket", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-09T12:00:00Z"));
+    const quest = await createQuest();
+    await api("POST", `/api/quests/${quest.id}/complete`);
+
+    const { status, body } = await api("GET", "/api/history?from=2026-03-08&to=2026-03-09");
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ from: "2026-03-08", to: "2026-03-09", granularity: "day" });
+    // The profile and its opening balance only exist from the 9th
+    expect(body.points).toMatchObject([
+      { period: "2026-03-08", xp: 0, level: 1, attributes: {}, questsCompleted: 0 },
+      { period: "2026-03-09", xp: 900, level: 2, attributes: rewardedProfile.attributes, xpEarned: 900, questsCompleted: 1 },
+    ]);
+    expect(body.points[0].attributes).toEqual({});
+
+    expect((await api("GET", "/api/history?granularity=month")).body.points).toHaveLength(2);
+    expect((await api("GET", "/api/history?granularity=hourly")).status).toBe(400);
+    expect((await api("GET", "/api/history?from=2026-03-10&to=2026-03-01")).status).toBe(400);
+  });
+});
+
+describe("calendar", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("aggregates completions per day in the user's time zone", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-09T23:30:00Z"));
+    const quest = await createQuest();
+    await api("POST", `/api/quests/${quest.id}/complete`);
+
+    const utc = await api("GET", "/api/calendar?from=2026-03-01&to=2026-03-31");
+    expect(utc.status).toBe(200);
+    expect(utc.body).toMatchObject({ timezone: "UTC", days: [{ date: "2026-03-09", completions: 1, xpEarned: 900 }] });
+
+    // Already the 10th in Tokyo
+    await api("PATCH", "/api/profile/timezone", { timezone: "Asia/Tokyo" });
+    const tokyo = await api("GET", "/api/calendar");
+    expect(tokyo.body).toMatchObject({ to: "2026-03-10", timezone: "Asia/Tokyo", days: [{ date: "2026-03-10", completions: 1 }] });
+
+    const day = await api("GET", "/api/calendar/2026-03-10");
+    expect(day.status).toBe(200);
+    expect(day.body.completions).toMatchObject([{ questId: quest.id, title: "Deep work", xpEarned: 900 }]);
+
+    expect((await api("GET", "/api/calendar/2026-02-31")).status).toBe(400);
+  });
+});
+
+describe("shop", () => {
+  it("spends gold earned from quests and refunds purchases", async () => {
+    const quest = await createQuest({ coinReward: 150 });
+    await api("POST", `/api/quests/${quest.id}/complete`);
+
+    const reward = await api("POST", "/api/shop/rewards", { title: "Movie night", cost: 100 });
+    expect(reward.status).toBe(200);
+
+    const purchase = await api("POST", `/api/shop/rewards/${reward.body.id}/purchase`);
+    expect(purchase.status).toBe(200);
+    expect(purchase.body.purchase).toMatchObject({ rewardId: reward.body.id, title: "Movie night", cost: 100, refundedAt: null });
+    expect(purchase.body.profile.gold).toBe(50);
+    await expectProfile({ ...rewardedProfile, gold: 50 });
+
+    // Only 50 gold left
+    const declined = await api("POST", `/api/shop/rewards/${reward.body.id}/purchase`);
+    expect(declined.status).toBe(400);
+    expect(declined.body.message).toMatch(/not enough gold/i);
+    expect((await api("GET", "/api/shop/purchases")).body).toHaveLength(1);
+
+    const refunded = await api("POST", `/api/shop/purchases/${purchase.body.purchase.id}/refund`);
+    expect(refunded.status).toBe(200);
+    expect(refunded.body.purchase.refundedAt).not.toBeNull();
+    expect(refunded.body.profile.gold).toBe(150);
+
+    // Refunding twice returns the gold once
+    expect((await api("POST", `/api/shop/purchases/${purchase.body.purchase.id}/refund`)).body.profile.gold).toBe(150);
+    await expectProfile({ ...rewardedProfile, gold: 150 });
+  });
+
+  it("returns 404 for unknown rewards and purchases", async () => {
+    expect((await api("POST", "/api/shop/rewards/missing/purchase")).status).toBe(404);
+    expect((await api("POST", "/api/shop/purchases/missing/refund")).status).toBe(404);
+    expect((await api("PATCH", "/api/shop/rewards/missing", { cost: 5 })).status).toBe(404);
+  });
+});
+
+describe("attributes", () => {
+  it("starts with the default five attributes", async () => {
+    const { status, body } = await api("GET", "/api/attributes");
+    expect(status).toBe(200);
+    expect(body.map((attribute: { key: string }) => attribute.key)).toEqual(["physique", "mental", "success", "social", "skills"]);
+  });
+
+  it("adds, renames and retires attributes and moves their points and quests", async () => {
+    const created = await api("POST", "/api/attributes", { key: "luck", label: "Luck", icon: "star", color: "teal", cap: 10, sortOrder: 5 });
+    expect(created.status).toBe(200);
+    expect((await api("POST", "/api/attributes", { key: "luck", label: "Luck again" })).status).toBe(409);
+
+    // Level 2 grants one point to spend on the new attribute
+    const quest = await createQuest();
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    expect((await api("POST", "/api/profile/allocate", { deltas: { luck: 1 } })).status).toBe(200);
+    await expectProfile({ ...rewardedProfile, availablePoints: 0, attributes: { ...rewardedProfile.attributes, luck: 1 } });
+
+    const renamed = await api("PATCH", "/api/attributes/luck", { label: "Fortune" });
+    expect(renamed.status).toBe(200);
+    expect(renamed.body).toMatchObject({ key: "luck", label: "Fortune", cap: 10 });
+
+    expect((await api("POST", "/api/attributes/mental/retire", { moveTo: "mental" })).status).toBe(400);
+    const retired = await api("POST", "/api/attributes/mental/retire", { moveTo: "luck" });
+    expect(retired.status).toBe(200);
+    expect(retired.body.attribute.retiredAt).not.toBeNull();
+    // Luck is capped at 10, so only 9 of mental's 12 points fit
+    expect(retired.body.profile.attributes).toMatchObject({ mental: 3, luck: 10 });
+    await expectProfile({ ...rewardedProfile, availablePoints: 0, attributes: { ...rewardedProfile.attributes, mental: 3, luck: 10 } });
+
+    const quests = (await api("GET", "/api/quests")).body;
+    expect(quests.find((q: { id: string }) => q.id === quest.id).targetAttribute).toBe("luck");
+    expect((await api("POST", "/api/profile/allocate", { deltas: { mental: 1 } })).status).toBe(400);
+
+    const restored = await api("POST", "/api/attributes/mental/restore");
+    expect(restored.status).toBe(200);
+    expect(restored.body.retiredAt).toBeNull();
+  });
+
+  it("keeps attribute caps within maxAttributePoints", async () => {
+    expect((await api("POST", "/api/attributes", { key: "luck", label: "Luck", cap: 101 })).status).toBe(400);
+    expect((await api("PATCH", "/api/attributes/physique", { cap: 500 })).status).toBe(400);
+    expect((await api("PATCH", "/api/attributes/physique", { cap: 100 })).status).toBe(200);
+  });
+
+  it("rejects quests that target unknown or retired attributes", async () => {
+    expect((await api("POST", "/api/quests", { title: "Lucky", targetAttribute: "luck" })).status).toBe(400);
+    expect((await api("POST", "/api/quests", { title: "Anything", targetAttribute: "none" })).status).toBe(200);
+
+    const quest = await createQuest();
+    await api("POST", "/api/attributes/skills/retire", {});
+    expect((await api("PATCH", `/api/quests/${quest.id}`, { targetAttribute: "skills" })).status).toBe(400);
+    expect((await api("PATCH", `/api/quests/${quest.id}`, { targetAttribute: "physique" })).status).toBe(200);
+  });
+
+  it("returns 404 for unknown attributes", async () => {
+    expect((await api("PATCH", "/api/attributes/missing", { label: "Missing" })).status).toBe(404);
+    expect((await api("POST", "/api/attributes/missing/retire", {})).status).toBe(404);
+    expect((await api("POST", "/api/attributes/missing/restore")).status).toBe(404);
+  });
+});
+
+describe("backup", () => {
+  async function seedData() {
+    const group = (await api("POST", "/api/quest-groups", { name: "Mornings" })).body;
+    const quest = await createQuest({ groupId: group.id });
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    await api("POST", "/api/notes", { title: "Plan", content: "Run" });
+    return { group, quest };
+  }
+
+  it("replaces content with an earlier export but keeps the user's balances", async () => {
+    const { group, quest } = await seedData();
+    const exported = await api("GET", "/api/export");
+    expect(exported.status).toBe(200);
+    expect(exported.body).toMatchObject({ version: 1, profile: rewardedProfile });
+
+    await api("POST", `/api/quests/${quest.id}/cancel`);
+    await api("POST", "/api/notes", { title: "Later" });
+    await expectProfile(startingProfile);
+
+    // Only admins restore the ledger; anyone else could write their own
+    const imported = await api("POST", "/api/import", { mode: "replace", backup: exported.body });
+    expect(imported.status).toBe(200);
+    expect(imported.body).toMatchObject({
+      mode: "replace", questGroups: 1, quests: 1, questProgress: 1, notes: 1, ledgerEntries: 0, rewardPurchases: 0, settings: false,
+    });
+    await expectProfile(startingProfile);
+
+    // Same data under new ids, with references following along
+    const [restoredGroup] = (await api("GET", "/api/quest-groups")).body;
+    const [restoredQuest] = (await api("GET", "/api/quests")).body;
+    const [restoredProgress] = (await api("GET", "/api/quest-progress")).body;
+    expect(restoredGroup).toMatchObject({ name: "Mornings" });
+    expect(restoredGroup.id).not.toBe(group.id);
+    expect(restoredQuest).toMatchObject({ title: "Deep work", groupId: restoredGroup.id });
+    // Its completion was never paid out here, so the quest comes back open
+    expect(restoredProgress).toMatchObject({ questId: restoredQuest.id, completed: false });
+    expect((await api("GET", "/api/notes")).body.map((note: { title: string }) => note.title)).toEqual(["Plan"]);
+  });
+
+  it("ignores balances a user writes into a backup", async () => {
+    const exported = (await api("GET", "/api/export")).body;
+    const forged = {
+      ...exported,
+      profile: { ...exported.profile, xp: 80000, cumulativeXp: 80000, gold: 1_000_000 },
+      ledger: [{ ...exported.ledger[0], xpDelta: 80000, cumulativeXpDelta: 80000, goldDelta: 1_000_000, availablePointsDelta: 500 }],
+    };
+
+    expect((await api("POST", "/api/import", { mode: "replace", backup: forged })).status).toBe(200);
+    await expectProfile({ ...startingProfile, gold: 0 });
+  });
+
+  it("merges a backup next to existing data without touching the profile", async () => {
+    await seedData();
+    const exported = await api("GET", "/api/export");
+
+    for (const expectedQuests of [2, 3]) {
+      const imported = await api("POST", "/api/import", { mode: "merge", backup: exported.body });
+      expect(imported.status).toBe(200);
+      expect(imported.body).toMatchObject({ mode: "merge", quests: 1, ledgerEntries: 0 });
+
+      const quests = (await api("GET", "/api/quests")).body as { id: string }[];
+      expect(new Set(quests.map((quest) => quest.id)).size).toBe(expectedQuests);
+    }
+    expect((await api("GET", "/api/notes")).body).toHaveLength(3);
+    await expectProfile(rewardedProfile);
+  });
+
+  it("imports completions as open quests that pay and take back only their own reward", async () => {
+    const { quest } = await seedData();
+    const exported = await api("GET", "/api/export");
+    await api("POST", "/api/import", { mode: "merge", backup: exported.body });
+
+    const imported = (await api("GET", "/api/quests")).body.find((candidate: { id: string }) => candidate.id !== quest.id);
+    expect((await api("POST", `/api/quests/${imported.id}/complete`)).body.completed).toBe(true);
+    await expectProfile({ xp: 1800, level: 3, cumulativeXp: 1800, availablePoints: 2, attributes: { ...rewardedProfile.attributes, mental: 14 } });
+
+    expect((await api("POST", `/api/quests/${imported.id}/progress/undo`)).status).toBe(200);
+    await expectProfile(rewardedProfile);
+  });
+
+  it("rejects documents that are not backups", async () => {
+    const exported = await api("GET", "/api/export");
+
+    const wrongVersion = await api("POST", "/api/import", { mode: "replace", backup: { ...exported.body, version: 2 } });
+    expect(wrongVersion.status).toBe(400);
+    expect(wrongVersion.body.errors[0].path).toBe("backup.version");
+    expect((await api("POST", "/api/import", { mode: "overwrite", backup: exported.body })).status).toBe(400);
+    expect((await api("POST", "/api/import", { mode: "merge", backup: { version: 1 } })).status).toBe(400);
+  });
+});
+
+describe("API contract", () => {
+  it("registers exactly the routes described in shared/api.ts", () => {
+    const registered = (app._router.stack as { route?: { path: string; methods: Record<string, boolean> } }[])
+      .flatMap(({ route }) => (route ? Object.keys(route.methods).map((method) => `${method.toUpperCase()} ${route.path}`) : []))
+      .filter((route) => route !== "GET /api/openapi.json");
+    const described = Object.values(apiRoutes).map((route) => `${route.method} ${route.path}`);
+
+    expect(registered.sort()).toEqual(described.sort());
+  });
+
+  it("serves the OpenAPI document", async () => {
+    const { status, body } = await api("GET", "/api/openapi.json");
+    expect(status).toBe(200);
+    expect(body.openapi).toMatch(/^3\./);
+    expect(Object.keys(body.paths)).toContain("/api/quests/{questId}/archive");
+
+    const archive = body.paths["/api/quests/{questId}/archive"];
+    expect(archive.post.operationId).toBe("archiveQuest");
+    expect(archive.post.parameters.map((parameter: { name: string; in: string }) => `${parameter.in}:${parameter.name}`))
+      .toEqual(["path:questId", "header:Idempotency-Key"]);
+    expect(archive.post.requestBody.content["application/json"].schema.properties.reason.type).toBe("string");
+    expect(archive.delete.operationId).toBe("deleteArchivedQuest");
+  });
+});
+
+describe("realtime sync", () => {
+  async function listen(): Promise<{ events: SyncEvent[]; close: () => Promise<void> }> {
+    const socket = new WebSocket(`${baseUrl.replace("http", "ws")}${REALTIME_PATH}`);
+    const events: SyncEvent[] = [];
+    socket.on("message", (data) => events.push(JSON.parse(data.toString())));
+    await new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+
+    return {
+      events,
+      close: () => new Promise<void>((resolve) => {
+        socket.once("close", () => resolve());
+        socket.close();
+      }),
+    };
+  }
+
+  it("pushes quest completions and profile changes to open connections", async () => {
+    const first = await listen();
+    const second = await listen();
+    const quest = await createQuest();
+    await vi.waitFor(() => expect(second.events).toContainEqual({ type: "quests.changed" }));
+
+    await api("POST", `/api/quests/${quest.id}/complete`);
+    for (const { events } of [first, second]) {
+      await vi.waitFor(() => {
+        expect(events).toContainEqual(expect.objectContaining({ type: "quest.completed", questId: quest.id }));
+        expect(events).toContainEqual({ type: "profile.changed", profile: expect.objectContaining({ xp: 900, level: 2 }) });
+      });
+    }
+
+    await first.close();
+    await second.close();
+  });
+
+  it("pushes note changes", async () => {
+    const connection = await listen();
+
+    const note = (await api("POST", "/api/notes", { title: "Groceries" })).body;
+    await api("PATCH", `/api/notes/${note.id}`, { content: "Milk" });
+    await api("DELETE", `/api/notes/${note.id}`);
+
+    await vi.waitFor(() => expect(connection.events.map((event) => event.type)).toEqual(["note.updated", "note.updated", "note.deleted"]));
+    expect(connection.events[1]).toMatchObject({ note: { id: note.id, title: "Groceries", content: "Milk" } });
+    expect(connection.events[2]).toEqual({ type: "note.deleted", noteId: note.id });
+
+    await connection.close();
+  });
+
+  it("rejects connections without valid Telegram init data", async () => {
+    const { attachRealtime } = await import("./realtime");
+    const signedServer = createServer();
+    attachRealtime(signedServer, {} as IStorage, { botToken: "test-token" });
+    await new Promise<void>((resolve) => signedServer.listen(0, "127.0.0.1", resolve));
+    const { port } = signedServer.address() as AddressInfo;
+
+    const socket = new WebSocket(`ws://127.0.0.1:${port}${REALTIME_PATH}?initData=forged`);
+    const status = await new Promise((resolve) => {
+      socket.once("unexpected-response", (req, res) => {
+        req.destroy();
+        resolve(res.statusCode);
+      });
+    });
+    expect(status).toBe(401);
+
+    await new Promise((resolve) => signedServer.close(resolve));
+  });
+});
@@ -1,103 +1,469 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertProfileSchema, insertQuestGroupSchema, insertQuestSchema, insertSystemSettingsSchema, insertNoteSchema, attributesSchema } from "@shared/schema";
-import { z } from "zod";
+import { requireAdmin, telegramAuth } from "./auth";
+import { AllocationError, AttributeError, CapExceededError, InsufficientGoldError } from "./ledger";
+import { sendValidationError, validateBody } from "./validation";
+import { buildOpenApiDocument } from "./openapi";
+import { attachRealtime, publish } from "./realtime";
+import { idempotency } from "./idempotency";
+import { contentOnly, importSummary, remapBackup, toBackup } from "./backup";
+import { checkAchievements } from "./achievements";
+import { getStreakSummary } from "./streaks";
+import { HistoryRangeError, getHistory } from "./history";
+import { historyQuerySchema } from "@shared/history";
+import { CalendarRangeError, getCalendar, getCalendarDay } from "./calendar";
+import { calendarQuerySchema } from "@shared/calendar";
+import { isoDateSchema, timezoneSettingsSchema, type TimezoneSettings } from "@shared/timezone";
+import { freezeTokensUpdateSchema } from "@shared/streaks";
+import { type ImportBackup, importBackupSchema } from "@shared/backup";
+import {
+  type InsertNote, type InsertQuest, type InsertQuestGroup, type QuestProgressStepInput, type UpdateNote, type UpdateQuest, type UpdateQuestGroup, type UpdateSystemSettings,
+  adminPointsSchema, archiveQuestSchema, attributeAllocationSchema, insertNoteSchema, insertQuestGroupSchema, insertQuestSchema, questProgressStepSchema,
+  updateNoteSchema, updateQuestGroupSchema, updateQuestSchema, updateSystemSettingsSchema, userRoleUpdateSchema,
+  type InsertShopReward, type UpdateShopReward, insertShopRewardSchema, updateShopRewardSchema,
+  type InsertAttributeDefinition, type RetireAttribute, type UpdateAttributeDefinition,
+  insertAttributeDefinitionSchema, retireAttributeSchema, updateAttributeDefinitionSchema,
+} from "@shared/schema";
+
+// Admin routes act on the admin's own data unless another user is given as ?userId=
+async function adminTargetUserId(req: Request): Promise<string | undefined> {
+  const { userId } = req.query;
+  if (typeof userId !== "string" || userId === req.user!.id) {
+    return req.user!.id;
+  }
+
+  const targetUser = await storage.getUser(userId);
+  return targetUser?.id;
+}
+
+// Quests reward an active attribute, or available points when the target is "none" (or empty)
+async function isQuestTarget(userId: string, targetAttribute: string | null | undefined): Promise<boolean> {
+  if (!targetAttribute || targetAttribute === "none") {
+    return true;
+  }
+
+  const attributes = await storage.getAttributeDefinitions(userId);
+  return attributes.some((attribute) => attribute.key === targetAttribute && !attribute.retiredAt);
+}
+
+// Caps may lower the user's maxAttributePoints for one attribute, never raise it
+async function capError(userId: string, cap: number | null | undefined): Promise<string | undefined> {
+  const { maxAttributePoints } = await storage.getSystemSettings(userId);
+  if (cap != null && maxAttributePoints != null && cap > maxAttributePoints) {
+    return `Cap cannot exceed ${maxAttributePoints}`;
+  }
+  return undefined;
+}
+
+// Push the user's latest profile to their other devices
+async function publishProfile(userId: string): Promise<void> {
+  try {
+    const profile = await storage.getProfile(userId);
+    publish(userId, { type: "profile.changed", profile });
+  } catch (error) {
+    console.error('Error publishing profile:', error);
+  }
+}
+
+// Unlock what the last change earned and announce it on the user's devices
+async function publishAchievements(userId: string): Promise<void> {
+  try {
+    const { unlocked } = await checkAchievements(storage, userId);
+    for (const achievement of unlocked) {
+      publish(userId, { type: "achievement.unlocked", achievement });
+    }
+  } catch (error) {
+    console.error('Error checking achievements:', error);
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Public, so tooling can fetch it without Telegram credentials
+  app.get("/api/openapi.json", (_req, res) => {
+    res.json(buildOpenApiDocument());
+  });
+
+  // Every other API call acts on behalf of the Telegram user making it
+  app.use("/api", telegramAuth(storage));
+  // Replayed offline mutations carry an Idempotency-Key and run at most once
+  app.use("/api", idempotency(storage));
+
+  app.get("/api/me", (req, res) => {
+    res.json(req.user);
+  });
+
+  // Users (admin only)
+  app.get("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get users" });
+    }
+  });
+
+  app.patch("/api/users/:id/role", requireAdmin, validateBody(userRoleUpdateSchema, "Invalid role"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+
+      const updatedUser = await storage.setUserRole(id, role);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(updatedUser);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
   // Profile
   app.get("/api/profile", async (req, res) => {
     try {
-      const profile = await storage.getProfile();
+      const profile = await storage.getProfile(req.user!.id);
       res.json(profile);
     } catch (error) {
       res.status(500).json({ message: "Failed to get profile" });
     }
   });
 
-  app.patch("/api/profile/attributes", async (req, res) => {
+  // Spend or refund available points; the server checks points and caps
+  app.post("/api/profile/allocate", validateBody(attributeAllocationSchema, "Invalid allocation data"), async (req, res) => {
     try {
-      const { attributes, availablePoints } = req.body;
-      const validatedAttributes = attributesSchema.parse(attributes);
-      
-      const updateData: any = {
-        attributes: validatedAttributes,
-      };
-      
-      if (typeof availablePoints === 'number') {
-        updateData.availablePoints = availablePoints;
+      const { deltas } = req.body;
+      const updatedProfile = await storage.allocateAttributes(req.user!.id, deltas);
+      res.json(updatedProfile);
+      publish(req.user!.id, { type: "profile.changed", profile: updatedProfile });
+      void publishAchievements(req.user!.id);
+    } catch (error) {
+      if (error instanceof CapExceededError || error instanceof AllocationError) {
+        return res.status(400).json({ message: error.message });
       }
       
-      const updatedProfile = await storage.updateProfile(updateData);
+      console.error('Error allocating attributes:', error);
+      res.status(500).json({ message: "Failed to allocate attributes" });
+    }
+  });
+
+  // Refund every allocated point
+  app.post("/api/profile/respec", async (req, res) => {
+    try {
+      const updatedProfile = await storage.respecAttributes(req.user!.id);
       res.json(updatedProfile);
+      publish(req.user!.id, { type: "profile.changed", profile: updatedProfile });
     } catch (error) {
-      res.status(400).json({ message: "Invalid attributes data" });
+      console.error('Error resetting attribute allocation:', error);
+      res.status(500).json({ message: "Failed to reset attributes" });
     }
   });
 
-  app.patch("/api/profile/admin-points", async (req, res) => {
+  // Moving the day boundary moves every current period, so quests are refreshed too
+  app.patch("/api/profile/timezone", validateBody(timezoneSettingsSchema, "Invalid time zone settings"), async (req, res) => {
+    try {
+      const settings: TimezoneSettings = req.body;
+      const updatedProfile = await storage.updateProfile(req.user!.id, settings);
+      res.json(updatedProfile);
+      publish(req.user!.id, { type: "profile.changed", profile: updatedProfile });
+      publish(req.user!.id, { type: "quests.changed" });
+    } catch (error) {
+      console.error('Error updating time zone:', error);
+      res.status(500).json({ message: "Failed to update time zone" });
+    }
+  });
+
+  app.patch("/api/profile/admin-points", requireAdmin, validateBody(adminPointsSchema, "Invalid available points value"), async (req, res) => {
     try {
       const { availablePoints } = req.body;
-      
-      if (typeof availablePoints !== 'number' || availablePoints < 0) {
-        return res.status(400).json({ message: "Invalid available points value" });
+
+      const userId = await adminTargetUserId(req);
+      if (!userId) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      const updateData = { availablePoints };
-      const updatedProfile = await storage.updateProfile(updateData);
+      const updatedProfile = await storage.adjustProfile(userId, "admin_adjustment", { availablePoints }, "Set available points");
       res.json(updatedProfile);
+      publish(userId, { type: "profile.changed", profile: updatedProfile });
+    } catch (error) {
+      if (error instanceof CapExceededError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update available points" });
+    }
+  });
+
+  app.patch("/api/profile/freeze-tokens", requireAdmin, validateBody(freezeTokensUpdateSchema, "Invalid freeze tokens value"), async (req, res) => {
+    try {
+      const { freezeTokens } = req.body;
+
+      const userId = await adminTargetUserId(req);
+      if (!userId) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedProfile = await storage.updateProfile(userId, { freezeTokens });
+      res.json(updatedProfile);
+      publish(userId, { type: "profile.changed", profile: updatedProfile });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update freeze tokens" });
+    }
+  });
+
+
+  // Attributes
+  app.get("/api/attributes", async (req, res) => {
+    try {
+      const attributes = await storage.getAttributeDefinitions(req.user!.id);
+      res.json(attributes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get attributes" });
+    }
+  });
+
+  app.post("/api/attributes", validateBody(insertAttributeDefinitionSchema, "Invalid attribute data"), async (req, res) => {
+    try {
+      const validatedAttribute: InsertAttributeDefinition = req.body;
+      const invalidCap = await capError(req.user!.id, validatedAttribute.cap);
+      if (invalidCap) {
+        return res.status(400).json({ message: invalidCap });
+      }
+
+      const attribute = await storage.createAttributeDefinition(req.user!.id, validatedAttribute);
+      res.json(attribute);
+      publish(req.user!.id, { type: "attributes.changed" });
+    } catch (error) {
+      if (error instanceof AttributeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create attribute" });
+    }
+  });
+
+  app.patch("/api/attributes/:key", validateBody(updateAttributeDefinitionSchema, "Invalid attribute data"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      const updateData: UpdateAttributeDefinition = req.body;
+      const invalidCap = await capError(req.user!.id, updateData.cap);
+      if (invalidCap) {
+        return res.status(400).json({ message: invalidCap });
+      }
+
+      const updatedAttribute = await storage.updateAttributeDefinition(req.user!.id, key, updateData);
+      if (!updatedAttribute) {
+        return res.status(404).json({ message: "Attribute not found" });
+      }
+
+      res.json(updatedAttribute);
+      publish(req.user!.id, { type: "attributes.changed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update attribute" });
+    }
+  });
+
+  // Retired attributes keep their value but take no more rewards or allocations
+  app.post("/api/attributes/:key/retire", validateBody(retireAttributeSchema, "Invalid attribute data"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      const { moveTo }: RetireAttribute = req.body;
+      const result = await storage.retireAttribute(req.user!.id, key, moveTo);
+      res.json(result);
+      publish(req.user!.id, { type: "attributes.changed" });
+      publish(req.user!.id, { type: "profile.changed", profile: result.profile });
+    } catch (error) {
+      if (error instanceof AttributeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Attribute not found') {
+        return res.status(404).json({ message: "Attribute not found" });
+      }
+
+      console.error('Error retiring attribute:', error);
+      res.status(500).json({ message: "Failed to retire attribute" });
+    }
+  });
+
+  app.post("/api/attributes/:key/restore", async (req, res) => {
+    try {
+      const { key } = req.params;
+      const restoredAttribute = await storage.restoreAttribute(req.user!.id, key);
+      if (!restoredAttribute) {
+        return res.status(404).json({ message: "Attribute not found" });
+      }
+
+      res.json(restoredAttribute);
+      publish(req.user!.id, { type: "attributes.changed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore attribute" });
+    }
+  });
+
+  // Reward Ledger
+  app.get("/api/ledger", async (req, res) => {
+    try {
+      const entries = await storage.getLedgerEntries(req.user!.id);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get ledger" });
+    }
+  });
+
+  // Report drift between profile totals and the ledger
+  app.get("/api/ledger/reconcile", async (req, res) => {
+    try {
+      const report = await storage.reconcileLedger(req.user!.id, false);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reconcile ledger" });
+    }
+  });
+
+  // Repair drift by recomputing profile totals from the ledger
+  app.post("/api/ledger/reconcile", requireAdmin, async (req, res) => {
+    try {
+      const userId = await adminTargetUserId(req);
+      if (!userId) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const report = await storage.reconcileLedger(userId, true);
+      res.json(report);
+      if (report.repaired) {
+        void publishProfile(userId);
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reconcile ledger" });
+    }
+  });
+
+  // Achievements
+  app.get("/api/achievements", async (req, res) => {
+    try {
+      // Also unlocks anything earned before the last check, e.g. before achievements existed
+      const { achievements, unlocked } = await checkAchievements(storage, req.user!.id);
+      res.json(achievements);
+      for (const achievement of unlocked) {
+        publish(req.user!.id, { type: "achievement.unlocked", achievement });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get achievements" });
+    }
+  });
+
+  // Streaks
+  app.get("/api/streaks", async (req, res) => {
+    try {
+      const summary = await getStreakSummary(storage, req.user!.id);
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get streaks" });
+    }
+  });
+
+  // History
+  app.get("/api/history", async (req, res) => {
+    const query = historyQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return sendValidationError(res, "Invalid history range", query.error);
+    }
+
+    try {
+      const history = await getHistory(storage, req.user!.id, query.data);
+      res.json(history);
+    } catch (error) {
+      if (error instanceof HistoryRangeError) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      console.error('Error getting history:', error);
+      res.status(500).json({ message: "Failed to get history" });
+    }
+  });
+
+  // Calendar
+  app.get("/api/calendar", async (req, res) => {
+    const query = calendarQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return sendValidationError(res, "Invalid calendar range", query.error);
+    }
+
+    try {
+      const calendar = await getCalendar(storage, req.user!.id, query.data);
+      res.json(calendar);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update available points" });
+      if (error instanceof CalendarRangeError) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      console.error('Error getting calendar:', error);
+      res.status(500).json({ message: "Failed to get calendar" });
     }
   });
 
+  app.get("/api/calendar/:date", async (req, res) => {
+    const date = isoDateSchema.safeParse(req.params.date);
+    if (!date.success) {
+      return sendValidationError(res, "Invalid date", date.error);
+    }
+
+    try {
+      const day = await getCalendarDay(storage, req.user!.id, date.data);
+      res.json(day);
+    } catch (error) {
+      console.error('Error getting calendar day:', error);
+      res.status(500).json({ message: "Failed to get calendar day" });
+    }
+  });
 
   // Quest Groups
   app.get("/api/quest-groups", async (req, res) => {
     try {
-      const groups = await storage.getAllQuestGroups();
+      const groups = await storage.getAllQuestGroups(req.user!.id);
       res.json(groups);
     } catch (error) {
       res.status(500).json({ message: "Failed to get quest groups" });
     }
   });
 
-  app.post("/api/quest-groups", async (req, res) => {
+  app.post("/api/quest-groups", validateBody(insertQuestGroupSchema, "Invalid quest group data"), async (req, res) => {
     try {
-      const validatedGroup = insertQuestGroupSchema.parse(req.body);
-      const group = await storage.createQuestGroup(validatedGroup);
+      const validatedGroup: InsertQuestGroup = req.body;
+      const group = await storage.createQuestGroup(req.user!.id, validatedGroup);
       res.json(group);
+      publish(req.user!.id, { type: "quests.changed" });
     } catch (error) {
-      res.status(400).json({ message: "Invalid quest group data" });
+      res.status(500).json({ message: "Failed to create quest group" });
     }
   });
 
-  app.patch("/api/quest-groups/:id", async (req, res) => {
+  app.patch("/api/quest-groups/:id", validateBody(updateQuestGroupSchema, "Invalid quest group data"), async (req, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      const updateData: UpdateQuestGroup = req.body;
       
-      const updatedGroup = await storage.updateQuestGroup(id, updateData);
+      const updatedGroup = await storage.updateQuestGroup(req.user!.id, id, updateData);
       if (!updatedGroup) {
         return res.status(404).json({ message: "Quest group not found" });
       }
       
       res.json(updatedGroup);
+      publish(req.user!.id, { type: "quests.changed" });
     } catch (error) {
-      res.status(400).json({ message: "Failed to update quest group" });
+      res.status(500).json({ message: "Failed to update quest group" });
     }
   });
 
   app.delete("/api/quest-groups/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteQuestGroup(id);
+      const deleted = await storage.deleteQuestGroup(req.user!.id, id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Quest group not found" });
       }
       
       res.json({ success: true });
+      publish(req.user!.id, { type: "quests.changed" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete quest group" });
     }
@@ -110,9 +476,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       let quests;
       if (groupId) {
-        quests = await storage.getQuestsByGroupId(groupId as string);
+        quests = await storage.getQuestsByGroupId(req.user!.id, groupId as string);
       } else {
-        quests = await storage.getAllQuests();
+        quests = await storage.getAllQuests(req.user!.id);
       }
       
       res.json(quests);
@@ -124,76 +490,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Quest Progress
   app.get("/api/quest-progress", async (req, res) => {
     try {
-      const questProgress = await storage.getAllQuestProgress();
+      const questProgress = await storage.getAllQuestProgress(req.user!.id);
       res.json(questProgress);
     } catch (error) {
       res.status(500).json({ message: "Failed to get quest progress" });
     }
   });
 
-  app.post("/api/quests", async (req, res) => {
+  // Missed deadlines and the penalties they cost
+  app.get("/api/quest-failures", async (req, res) => {
+    try {
+      const failures = await storage.getAllQuestFailures(req.user!.id);
+      res.json(failures);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get quest failures" });
+    }
+  });
+
+  app.post("/api/quests", validateBody(insertQuestSchema, "Invalid quest data"), async (req, res) => {
     try {
-      const validatedQuest = insertQuestSchema.parse(req.body);
-      const quest = await storage.createQuest(validatedQuest);
+      const validatedQuest: InsertQuest = req.body;
+
+      // Quests can only be added to the user's own groups
+      if (validatedQuest.groupId) {
+        const groupExists = await storage.getQuestGroup(req.user!.id, validatedQuest.groupId);
+        if (!groupExists) {
+          return res.status(400).json({ message: "Quest group not found" });
+        }
+      }
+
+      if (!(await isQuestTarget(req.user!.id, validatedQuest.targetAttribute))) {
+        return res.status(400).json({ message: "Target attribute not found" });
+      }
+
+      const quest = await storage.createQuest(req.user!.id, validatedQuest);
       res.json(quest);
+      publish(req.user!.id, { type: "quests.changed" });
     } catch (error) {
-      res.status(400).json({ message: "Invalid quest data" });
+      res.status(500).json({ message: "Failed to create quest" });
     }
   });
 
-  app.patch("/api/quests/:id", async (req, res) => {
+  app.patch("/api/quests/:id", validateBody(updateQuestSchema, "Invalid quest data"), async (req, res) => {
     try {
       const { id } = req.params;
-      
-      // Create a partial schema for updates, excluding fields that shouldn't be updatable
-      const updateQuestSchema = insertQuestSchema.partial().omit({ 
-        id: true, 
-        createdAt: true 
-      }).extend({
-        // Enforce constraints on numeric fields
-        xpReward: z.number().min(0).optional(),
-        coinReward: z.number().min(0).optional(),
-        maxProgress: z.number().min(1).optional(),
-      });
-      
-      // Validate the request body
-      const validatedData = updateQuestSchema.parse(req.body);
+      const validatedData: UpdateQuest = req.body;
       
       // Verify questGroupId exists if provided
       if (validatedData.groupId) {
-        const groupExists = await storage.getQuestGroup(validatedData.groupId);
+        const groupExists = await storage.getQuestGroup(req.user!.id, validatedData.groupId);
         if (!groupExists) {
           return res.status(400).json({ message: "Quest group not found" });
         }
       }
+
+      if (!(await isQuestTarget(req.user!.id, validatedData.targetAttribute))) {
+        return res.status(400).json({ message: "Target attribute not found" });
+      }
       
-      const updatedQuest = await storage.updateQuest(id, validatedData);
+      const updatedQuest = await storage.updateQuest(req.user!.id, id, validatedData);
       if (!updatedQuest) {
         return res.status(404).json({ message: "Quest not found" });
       }
       
       res.json(updatedQuest);
+      publish(req.user!.id, { type: "quests.changed" });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: "Invalid quest data", 
-          errors: error.errors 
-        });
-      }
-      res.status(400).json({ message: "Failed to update quest" });
+      res.status(500).json({ message: "Failed to update quest" });
     }
   });
 
   app.delete("/api/quests/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteQuest(id);
+      const deleted = await storage.deleteQuest(req.user!.id, id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Quest not found" });
       }
       
       res.json({ success: true });
+      publish(req.user!.id, { type: "quests.changed" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete quest" });
     }
@@ -202,24 +579,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/quests/:questId/complete", async (req, res) => {
     try {
       const { questId } = req.params;
-      const completedQuest = await storage.completeQuest(questId);
+      const completedQuest = await storage.completeQuest(req.user!.id, questId);
       res.json(completedQuest);
+      publish(req.user!.id, { type: "quest.completed", questId, progress: completedQuest });
+      void publishProfile(req.user!.id);
+      void publishAchievements(req.user!.id);
     } catch (error) {
       // Handle specific error cases
       if (error instanceof Error && error.message === 'Quest not found') {
         return res.status(404).json({ message: "Quest not found" });
       }
+      if (error instanceof Error && error.message === 'Quest failed') {
+        return res.status(400).json({ message: "Quest deadline has passed" });
+      }
       
       console.error('Error completing quest:', error);
       res.status(500).json({ message: "Failed to complete quest" });
     }
   });
 
+  // Steps logged towards a multi-step quest in its current period
+  app.get("/api/quests/:questId/progress", async (req, res) => {
+    try {
+      const { questId } = req.params;
+      const steps = await storage.getQuestProgressSteps(req.user!.id, questId);
+      res.json(steps);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get quest progress" });
+    }
+  });
+
+  // Add progress; the quest completes and pays out once maxProgress is reached
+  app.post("/api/quests/:questId/progress", validateBody(questProgressStepSchema, "Invalid progress data"), async (req, res) => {
+    try {
+      const { questId } = req.params;
+      const step: QuestProgressStepInput = req.body;
+      const updatedProgress = await storage.addQuestProgress(req.user!.id, questId, step);
+      res.json(updatedProgress);
+      publish(req.user!.id, updatedProgress.completed ? { type: "quest.completed", questId, progress: updatedProgress } : { type: "quests.changed" });
+      void publishProfile(req.user!.id);
+      if (updatedProgress.completed) {
+        void publishAchievements(req.user!.id);
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Quest not found') {
+        return res.status(404).json({ message: "Quest not found" });
+      }
+      if (error instanceof Error && error.message === 'Quest already completed') {
+        return res.status(400).json({ message: "Quest is already completed" });
+      }
+      if (error instanceof Error && error.message === 'Quest failed') {
+        return res.status(400).json({ message: "Quest deadline has passed" });
+      }
+      
+      console.error('Error adding quest progress:', error);
+      res.status(500).json({ message: "Failed to add quest progress" });
+    }
+  });
+
+  // Remove the most recent step, taking back the reward if it completed the quest
+  app.post("/api/quests/:questId/progress/undo", async (req, res) => {
+    try {
+      const { questId } = req.params;
+      const updatedProgress = await storage.undoLastProgressStep(req.user!.id, questId);
+      res.json(updatedProgress);
+      publish(req.user!.id, { type: "quests.changed" });
+      void publishProfile(req.user!.id);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Quest not found') {
+        return res.status(404).json({ message: "Quest not found" });
+      }
+      if (error instanceof Error && error.message === 'No progress to undo') {
+        return res.status(400).json({ message: "No progress to undo" });
+      }
+      
+      console.error('Error undoing quest progress step:', error);
+      res.status(500).json({ message: "Failed to undo quest progress" });
+    }
+  });
+
   app.post("/api/quests/:questId/cancel", async (req, res) => {
     try {
       const { questId } = req.params;
-      const cancelledQuest = await storage.cancelQuestCompletion(questId);
+      const cancelledQuest = await storage.cancelQuestCompletion(req.user!.id, questId);
       res.json(cancelledQuest);
+      publish(req.user!.id, { type: "quests.changed" });
+      void publishProfile(req.user!.id);
     } catch (error) {
       // Handle specific error cases
       if (error instanceof Error && error.message === 'Quest not found') {
@@ -235,12 +680,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Archive completed quest
-  app.post("/api/quests/:questId/archive", async (req, res) => {
+  app.post("/api/quests/:questId/archive", validateBody(archiveQuestSchema, "Invalid archive data"), async (req, res) => {
     try {
       const { questId } = req.params;
-      const { reason = "Archived by user" } = req.body;
-      const archivedQuest = await storage.archiveQuest(questId, reason);
+      const { reason } = req.body;
+      const archivedQuest = await storage.archiveQuest(req.user!.id, questId, reason);
       res.json(archivedQuest);
+      publish(req.user!.id, { type: "quests.changed" });
     } catch (error) {
       if (error instanceof Error && error.message === 'Quest not found') {
         return res.status(404).json({ message: "Quest not found" });
@@ -258,8 +704,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/quests/:questId/archive", async (req, res) => {
     try {
       const { questId } = req.params;
-      const deleted = await storage.deleteArchivedQuest(questId);
+      const deleted = await storage.deleteArchivedQuest(req.user!.id, questId);
       res.json({ success: true });
+      publish(req.user!.id, { type: "quests.changed" });
     } catch (error) {
       if (error instanceof Error && error.message === 'Quest not found') {
         return res.status(404).json({ message: "Quest not found" });
@@ -277,8 +724,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/quests/:questId/undo", async (req, res) => {
     try {
       const { questId } = req.params;
-      const undoneQuest = await storage.undoQuestCompletion(questId);
+      const undoneQuest = await storage.undoQuestCompletion(req.user!.id, questId);
       res.json(undoneQuest);
+      publish(req.user!.id, { type: "quests.changed" });
+      void publishProfile(req.user!.id);
     } catch (error) {
       if (error instanceof Error && error.message === 'Quest not found') {
         return res.status(404).json({ message: "Quest not found" });
@@ -295,7 +744,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Notes
   app.get("/api/notes", async (req, res) => {
     try {
-      const notes = await storage.getAllNotes();
+      const notes = await storage.getAllNotes(req.user!.id);
       res.json(notes);
     } catch (error) {
       res.status(500).json({ message: "Failed to get notes" });
@@ -305,7 +754,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/notes/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const note = await storage.getNote(id);
+      const note = await storage.getNote(req.user!.id, id);
       
       if (!note) {
         return res.status(404).json({ message: "Note not found" });
@@ -317,73 +766,211 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/notes", async (req, res) => {
+  app.post("/api/notes", validateBody(insertNoteSchema, "Invalid note data"), async (req, res) => {
     try {
-      const validatedNote = insertNoteSchema.parse(req.body);
-      const note = await storage.createNote(validatedNote);
+      const validatedNote: InsertNote = req.body;
+      const note = await storage.createNote(req.user!.id, validatedNote);
       res.json(note);
+      publish(req.user!.id, { type: "note.updated", note });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: "Invalid note data", 
-          errors: error.errors 
-        });
-      }
       res.status(500).json({ message: "Failed to create note" });
     }
   });
 
-  app.patch("/api/notes/:id", async (req, res) => {
+  app.patch("/api/notes/:id", validateBody(updateNoteSchema, "Invalid note data"), async (req, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      const updateData: UpdateNote = req.body;
       
-      const updatedNote = await storage.updateNote(id, updateData);
+      const updatedNote = await storage.updateNote(req.user!.id, id, updateData);
       if (!updatedNote) {
         return res.status(404).json({ message: "Note not found" });
       }
       
       res.json(updatedNote);
+      publish(req.user!.id, { type: "note.updated", note: updatedNote });
     } catch (error) {
-      res.status(400).json({ message: "Failed to update note" });
+      res.status(500).json({ message: "Failed to update note" });
     }
   });
 
   app.delete("/api/notes/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteNote(id);
+      const deleted = await storage.deleteNote(req.user!.id, id);
       
       if (!deleted) {
         return res.status(404).json({ message: "Note not found" });
       }
       
       res.json({ success: true });
+      publish(req.user!.id, { type: "note.deleted", noteId: id });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete note" });
     }
   });
 
+  // Shop
+  app.get("/api/shop/rewards", async (req, res) => {
+    try {
+      const rewards = await storage.getAllShopRewards(req.user!.id);
+      res.json(rewards);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get shop rewards" });
+    }
+  });
+
+  app.post("/api/shop/rewards", validateBody(insertShopRewardSchema, "Invalid reward data"), async (req, res) => {
+    try {
+      const validatedReward: InsertShopReward = req.body;
+      const reward = await storage.createShopReward(req.user!.id, validatedReward);
+      res.json(reward);
+      publish(req.user!.id, { type: "shop.changed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create shop reward" });
+    }
+  });
+
+  app.patch("/api/shop/rewards/:id", validateBody(updateShopRewardSchema, "Invalid reward data"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updateData: UpdateShopReward = req.body;
+
+      const updatedReward = await storage.updateShopReward(req.user!.id, id, updateData);
+      if (!updatedReward) {
+        return res.status(404).json({ message: "Reward not found" });
+      }
+
+      res.json(updatedReward);
+      publish(req.user!.id, { type: "shop.changed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update shop reward" });
+    }
+  });
+
+  app.delete("/api/shop/rewards/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deleteShopReward(req.user!.id, id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Reward not found" });
+      }
+
+      res.json({ success: true });
+      publish(req.user!.id, { type: "shop.changed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete shop reward" });
+    }
+  });
+
+  // Spend gold on a reward; fails without changing anything when the balance is too low
+  app.post("/api/shop/rewards/:id/purchase", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const result = await storage.purchaseReward(req.user!.id, id);
+      res.json(result);
+      publish(req.user!.id, { type: "profile.changed", profile: result.profile });
+      publish(req.user!.id, { type: "shop.changed" });
+    } catch (error) {
+      if (error instanceof InsufficientGoldError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Reward not found') {
+        return res.status(404).json({ message: "Reward not found" });
+      }
+
+      console.error('Error purchasing reward:', error);
+      res.status(500).json({ message: "Failed to purchase reward" });
+    }
+  });
+
+  app.get("/api/shop/purchases", async (req, res) => {
+    try {
+      const purchases = await storage.getRewardPurchases(req.user!.id);
+      res.json(purchases);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get purchases" });
+    }
+  });
+
+  app.post("/api/shop/purchases/:id/refund", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const result = await storage.refundPurchase(req.user!.id, id);
+      res.json(result);
+      publish(req.user!.id, { type: "profile.changed", profile: result.profile });
+      publish(req.user!.id, { type: "shop.changed" });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Purchase not found') {
+        return res.status(404).json({ message: "Purchase not found" });
+      }
+
+      console.error('Error refunding purchase:', error);
+      res.status(500).json({ message: "Failed to refund purchase" });
+    }
+  });
+
   // System Settings
   app.get("/api/system-settings", async (req, res) => {
     try {
-      const settings = await storage.getSystemSettings();
+      const settings = await storage.getSystemSettings(req.user!.id);
       res.json(settings);
     } catch (error) {
       res.status(500).json({ message: "Failed to get system settings" });
     }
   });
 
-  app.patch("/api/system-settings", async (req, res) => {
+  // Settings are per-user: admins change their own, or another user's with ?userId=
+  app.patch("/api/system-settings", requireAdmin, validateBody(updateSystemSettingsSchema, "Invalid system settings"), async (req, res) => {
     try {
-      const updateData = req.body;
-      const updatedSettings = await storage.updateSystemSettings(updateData);
+      const userId = await adminTargetUserId(req);
+      if (!userId) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updateData: UpdateSystemSettings = req.body;
+      const updatedSettings = await storage.updateSystemSettings(userId, updateData);
       res.json(updatedSettings);
+      publish(userId, { type: "settings.changed", settings: updatedSettings });
+      void publishProfile(userId);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update system settings" });
+    }
+  });
+
+  // Backup
+  app.get("/api/export", async (req, res) => {
+    try {
+      const data = await storage.getUserData(req.user!.id);
+      res.json(toBackup(data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  app.post("/api/import", validateBody(importBackupSchema, "Invalid backup"), async (req, res) => {
+    try {
+      const { mode, backup }: ImportBackup = req.body;
+      // Balances and system settings are admin-only, so other users restore content and keep the rest
+      const remapped = remapBackup(backup, req.user!.id);
+      const rows = req.user!.role === "admin" ? remapped : contentOnly(remapped);
+
+      await storage.importUserData(req.user!.id, rows, mode);
+      res.json(importSummary(rows, mode));
+      publish(req.user!.id, { type: "data.imported" });
+      void publishAchievements(req.user!.id);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update system settings" });
+      if (error instanceof CapExceededError) {
+        return res.status(400).json({ message: `The backup's ledger breaks a rule: ${error.message}` });
+      }
+      console.error('Error importing data:', error);
+      res.status(500).json({ message: "Failed to import data" });
     }
   });
 
   const httpServer = createServer(app);
+  // Changes published above reach the user's other devices over WebSocket
+  attachRealtime(httpServer, storage);
   return httpServer;
 }
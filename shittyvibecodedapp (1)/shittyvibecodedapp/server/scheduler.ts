@@ -0,0 +1,67 @@
+import type { IStorage } from "./storage";
+import { log } from "./vite";
+import { publish, publishToAll } from "./realtime";
+import { IDEMPOTENCY_KEY_TTL_MS } from "./idempotency";
+import { freezeMissedStreaks } from "./streaks";
+
+// How often the scheduler checks for period rollovers and missed deadlines
+const SCHEDULER_TICK_MS = 5 * 60 * 1000;
+
+/**
+ * Periodically reopen recurring quests whose period has rolled over, fail
+ * quests whose deadline has passed and spend freeze tokens on missed streak
+ * periods. All jobs are idempotent, so running them again after a restart is a no-op.
+ */
+export function startQuestScheduler(storage: IStorage): () => void {
+  const tick = async () => {
+    const now = new Date();
+
+    try {
+      const reopened = await storage.resetRecurringQuests(now);
+      if (reopened > 0) {
+        log(`reopened ${reopened} recurring quest(s)`, "scheduler");
+        publishToAll({ type: "quests.changed" });
+      }
+    } catch (error) {
+      console.error('Error resetting recurring quests:', error);
+    }
+
+    try {
+      const failures = await storage.processExpiredDeadlines(now);
+      if (failures.length > 0) {
+        log(`failed ${failures.length} overdue quest(s)`, "scheduler");
+        for (const userId of Array.from(new Set(failures.map((failure) => failure.userId)))) {
+          if (userId) {
+            publish(userId, { type: "quests.changed" });
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error processing expired deadlines:', error);
+    }
+
+    try {
+      const userIds = await freezeMissedStreaks(storage, now);
+      if (userIds.length > 0) {
+        log(`froze streaks for ${userIds.length} user(s)`, "scheduler");
+        for (const userId of userIds) {
+          publish(userId, { type: "profile.changed", profile: await storage.getProfile(userId) });
+        }
+      }
+    } catch (error) {
+      console.error('Error freezing missed streaks:', error);
+    }
+
+    try {
+      await storage.deleteIdempotencyKeysBefore(new Date(now.getTime() - IDEMPOTENCY_KEY_TTL_MS));
+    } catch (error) {
+      console.error('Error deleting expired idempotency keys:', error);
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, SCHEDULER_TICK_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
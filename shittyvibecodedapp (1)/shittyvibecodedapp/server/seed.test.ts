@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { insertQuestGroupSchema, insertQuestSchema } from "@shared/schema";
+import { DEFAULT_ATTRIBUTES } from "@shared/attributes";
+import { STARTER_QUEST_GROUPS } from "./seed";
+
+describe("starter quests", () => {
+  it("are valid quest groups and quests", () => {
+    for (const starter of STARTER_QUEST_GROUPS) {
+      expect(() => insertQuestGroupSchema.parse(starter.group)).not.toThrow();
+      for (const quest of starter.quests) {
+        expect(() => insertQuestSchema.parse(quest)).not.toThrow();
+        expect(DEFAULT_ATTRIBUTES.map((attribute) => attribute.key)).toContain(quest.targetAttribute);
+      }
+    }
+  });
+});
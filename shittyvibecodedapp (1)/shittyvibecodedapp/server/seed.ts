@@ -0,0 +1,132 @@
+import { eq, isNull } from "drizzle-orm";
+import { questGroups, quests, users, type InsertQuest, type InsertQuestGroup } from "@shared/schema";
+import { getDb } from "./db";
+
+export interface StarterQuestGroup {
+  group: InsertQuestGroup;
+  quests: Omit<InsertQuest, "groupId">[];
+}
+
+// Example content so a fresh install has something to complete
+export const STARTER_QUEST_GROUPS: StarterQuestGroup[] = [
+  {
+    group: { name: "Daily Habits", description: "Small wins that add up every day", icon: "calendar" },
+    quests: [
+      {
+        title: "Drink 8 glasses of water",
+        xpReward: 50,
+        attributePointReward: 1,
+        targetAttribute: "physique",
+        maxProgress: 8,
+        enableRecurring: true,
+        repetitionFrequency: "daily",
+      },
+      {
+        title: "Read for 20 minutes",
+        xpReward: 50,
+        attributePointReward: 1,
+        targetAttribute: "mental",
+        enableRecurring: true,
+        repetitionFrequency: "daily",
+      },
+      {
+        title: "Plan tomorrow",
+        description: "Write down the three most important tasks for tomorrow",
+        xpReward: 30,
+        attributePointReward: 1,
+        targetAttribute: "success",
+        enableRecurring: true,
+        repetitionFrequency: "daily",
+      },
+    ],
+  },
+  {
+    group: { name: "Fitness", description: "Train the body", icon: "flame" },
+    quests: [
+      {
+        title: "Morning workout",
+        xpReward: 100,
+        attributePointReward: 1,
+        targetAttribute: "physique",
+        difficulty: "D",
+        enableRecurring: true,
+        repetitionFrequency: "daily",
+      },
+      {
+        title: "Run 20 km this week",
+        description: "Log each run as a 5 km step",
+        xpReward: 300,
+        attributePointReward: 2,
+        targetAttribute: "physique",
+        difficulty: "C",
+        maxProgress: 4,
+        enableRecurring: true,
+        repetitionFrequency: "weekly",
+      },
+    ],
+  },
+  {
+    group: { name: "Growth", description: "Skills, people and long-term goals", icon: "brain" },
+    quests: [
+      {
+        title: "Learn something new",
+        description: "A course lesson, a tutorial or a chapter of a technical book",
+        xpReward: 150,
+        attributePointReward: 1,
+        targetAttribute: "skills",
+        difficulty: "D",
+        enableRecurring: true,
+        repetitionFrequency: "weekly",
+      },
+      {
+        title: "Call a friend or family member",
+        xpReward: 100,
+        attributePointReward: 1,
+        targetAttribute: "social",
+        enableRecurring: true,
+        repetitionFrequency: "weekly",
+      },
+      {
+        title: "Finish a personal project milestone",
+        xpReward: 500,
+        attributePointReward: 3,
+        targetAttribute: "success",
+        difficulty: "B",
+      },
+    ],
+  },
+];
+
+/**
+ * Add the starter groups and quests for every user who has no quest groups yet.
+ * On a fresh install there are no users, so the content is left unowned and the
+ * first user to sign in claims it (see DatabaseStorage.getOrCreateUser).
+ * Returns the number of owners that were seeded.
+ */
+export async function seedDatabase(): Promise<number> {
+  const db = getDb();
+  const existingUsers = await db.select({ id: users.id }).from(users).orderBy(users.createdAt);
+  const owners = existingUsers.length === 0 ? [null] : existingUsers.map((user) => user.id);
+
+  let seeded = 0;
+  for (const owner of owners) {
+    await db.transaction(async (tx) => {
+      const [existingGroup] = await tx
+        .select({ id: questGroups.id })
+        .from(questGroups)
+        .where(owner ? eq(questGroups.userId, owner) : isNull(questGroups.userId))
+        .limit(1);
+      if (existingGroup) {
+        return;
+      }
+
+      for (const starter of STARTER_QUEST_GROUPS) {
+        const [group] = await tx.insert(questGroups).values({ ...starter.group, userId: owner }).returning();
+        await tx.insert(quests).values(starter.quests.map((quest) => ({ ...quest, userId: owner, groupId: group.id })));
+      }
+      seeded++;
+    });
+  }
+
+  return seeded;
+}
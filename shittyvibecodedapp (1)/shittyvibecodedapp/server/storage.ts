@@ -1,75 +1,259 @@
-import { type Profile, type InsertProfile, type QuestGroup, type InsertQuestGroup, type Quest, type InsertQuest, type QuestProgress, type Note, type InsertNote, type SystemSettings, type InsertSystemSettings } from "@shared/schema";
-import { db } from "./db";
-import { profile, questGroups, quests, questProgress, notes, systemSettings } from "@shared/schema";
-import { eq, sql } from "drizzle-orm";
+import { type User, type InsertUser, type UserRole, type Profile, type InsertProfile, type QuestGroup, type InsertQuestGroup, type Quest, type InsertQuest, type QuestProgress, type QuestProgressStep, type QuestProgressStepInput, type QuestFailure, type LedgerEntry, type InsertLedgerEntry, type Note, type InsertNote, type SystemSettings, type InsertSystemSettings, type IdempotencyKey, type AchievementUnlock, type StreakFreeze, type ShopReward, type InsertShopReward, type RewardPurchase, type AttributeDefinition, type InsertAttributeDefinition, type UpdateAttributeDefinition } from "@shared/schema";
+import { getDb, type Database } from "./db";
+import { users, profile, questGroups, quests, questProgress, questProgressSteps, questFailures, rewardLedger, notes, systemSettings, idempotencyKeys, achievementUnlocks, streakFreezes, shopRewards, rewardPurchases, attributeDefinitions } from "@shared/schema";
+import { and, desc, eq, gte, inArray, isNotNull, isNull, lt, ne, sql } from "drizzle-orm";
+import { carriedPeriod, getQuestPeriod, isPastDeadline } from "./recurring";
+import { questStreak } from "./streaks";
+import { streakMultiplier } from "@shared/streaks";
+import { dayClock } from "@shared/timezone";
+import type { ImportMode } from "@shared/backup";
+import type { ImportedRows, UserData } from "./backup";
+import { MemStorage } from "./mem-storage";
+import { levelForXp } from "@shared/leveling";
+import { DEFAULT_ATTRIBUTES, startingAttributes } from "@shared/attributes";
+import {
+  type LedgerDeltas, type LedgerReconciliation, type LedgerSource, type ProfileTotals, type ProgressionRules,
+  AttributeError, allocatedAttributes, allocationDeltas, applyDeltas, assertWithinCaps, diffTotals, emptyDeltas, emptyTotals, hasChanges,
+  migrationDeltas, penaltyDeltas, profileTotals, profileUpdateFromTotals, progressionRules, purchaseDeltas, questRewardDeltas, respecDeltas,
+  replayLedger, reversalDeltas, sumLedger,
+} from "./ledger";
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+export type TelegramIdentity = Omit<InsertUser, "id" | "role" | "createdAt">;
+
+export type IdempotentRequest = Pick<IdempotencyKey, "key" | "method" | "path">;
+
+// A purchase or refund along with the profile's new gold balance
+export interface PurchaseResult {
+  purchase: RewardPurchase;
+  profile: Profile;
+}
+
+// A retired attribute along with the profile its points may have moved on
+export interface RetireAttributeResult {
+  attribute: AttributeDefinition;
+  profile: Profile;
+}
 
 export interface IStorage {
-  // Single User Profile
-  getProfile(): Promise<Profile>;
-  updateProfile(profileData: Partial<Profile>): Promise<Profile>;
+  // Users
+  getUser(id: string): Promise<User | undefined>;
+  getOrCreateUser(identity: TelegramIdentity): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  setUserRole(id: string, role: UserRole): Promise<User | undefined>;
+
+  // Profile
+  getProfile(userId: string): Promise<Profile>;
+  updateProfile(userId: string, profileData: Partial<Profile>): Promise<Profile>;
+  adjustProfile(userId: string, source: LedgerSource, changes: Partial<Pick<ProfileTotals, "availablePoints" | "attributes">>, note?: string): Promise<Profile>;
+  allocateAttributes(userId: string, deltas: Record<string, number>): Promise<Profile>;
+  respecAttributes(userId: string): Promise<Profile>;
+
+  // Reward Ledger
+  getLedgerEntries(userId: string): Promise<LedgerEntry[]>;
+  reconcileLedger(userId: string, repair: boolean): Promise<LedgerReconciliation>;
 
   // Quest Groups
-  getAllQuestGroups(): Promise<QuestGroup[]>;
-  getQuestGroup(id: string): Promise<QuestGroup | undefined>;
-  createQuestGroup(group: InsertQuestGroup): Promise<QuestGroup>;
-  updateQuestGroup(id: string, group: Partial<QuestGroup>): Promise<QuestGroup | undefined>;
-  deleteQuestGroup(id: string): Promise<boolean>;
+  getAllQuestGroups(userId: string): Promise<QuestGroup[]>;
+  getQuestGroup(userId: string, id: string): Promise<QuestGroup | undefined>;
+  createQuestGroup(userId: string, group: InsertQuestGroup): Promise<QuestGroup>;
+  updateQuestGroup(userId: string, id: string, group: Partial<QuestGroup>): Promise<QuestGroup | undefined>;
+  deleteQuestGroup(userId: string, id: string): Promise<boolean>;
 
   // Quests
-  getQuestsByGroupId(groupId: string): Promise<Quest[]>;
-  getAllQuests(): Promise<Quest[]>;
-  getQuest(id: string): Promise<Quest | undefined>;
-  createQuest(quest: InsertQuest): Promise<Quest>;
-  updateQuest(id: string, quest: Partial<Quest>): Promise<Quest | undefined>;
-  deleteQuest(id: string): Promise<boolean>;
+  getQuestsByGroupId(userId: string, groupId: string): Promise<Quest[]>;
+  getAllQuests(userId: string): Promise<Quest[]>;
+  getQuest(userId: string, id: string): Promise<Quest | undefined>;
+  createQuest(userId: string, quest: InsertQuest): Promise<Quest>;
+  updateQuest(userId: string, id: string, quest: Partial<Quest>): Promise<Quest | undefined>;
+  deleteQuest(userId: string, id: string): Promise<boolean>;
 
   // Quest Progress
-  getAllQuestProgress(): Promise<QuestProgress[]>;
-  getQuestProgress(questId: string): Promise<QuestProgress | undefined>;
-  completeQuest(questId: string): Promise<QuestProgress>;
-  cancelQuestCompletion(questId: string): Promise<QuestProgress>;
-  archiveQuest(questId: string, reason: string): Promise<QuestProgress>;
-  restoreQuestFromArchive(questId: string): Promise<QuestProgress>;
-  deleteArchivedQuest(questId: string): Promise<boolean>;
+  getAllQuestProgress(userId: string): Promise<QuestProgress[]>;
+  getQuestProgress(userId: string, questId: string): Promise<QuestProgress | undefined>;
+  // Once failed, or past the deadline before the scheduler fails it, this and addQuestProgress throw 'Quest failed'
+  completeQuest(userId: string, questId: string): Promise<QuestProgress>;
+  getQuestProgressSteps(userId: string, questId: string): Promise<QuestProgressStep[]>;
+  addQuestProgress(userId: string, questId: string, step: QuestProgressStepInput): Promise<QuestProgress>;
+  undoLastProgressStep(userId: string, questId: string): Promise<QuestProgress>;
+  cancelQuestCompletion(userId: string, questId: string): Promise<QuestProgress>;
+  archiveQuest(userId: string, questId: string, reason: string): Promise<QuestProgress>;
+  restoreQuestFromArchive(userId: string, questId: string): Promise<QuestProgress>;
+  deleteArchivedQuest(userId: string, questId: string): Promise<boolean>;
+  undoQuestCompletion(userId: string, questId: string): Promise<QuestProgress>;
+  resetRecurringQuests(now: Date): Promise<number>;
+
+  // Deadlines
+  getAllQuestFailures(userId: string): Promise<QuestFailure[]>;
+  processExpiredDeadlines(now: Date): Promise<QuestFailure[]>;
 
   // Notes
-  getAllNotes(): Promise<Note[]>;
-  getNote(id: string): Promise<Note | undefined>;
-  createNote(note: InsertNote): Promise<Note>;
-  updateNote(id: string, note: Partial<Note>): Promise<Note | undefined>;
-  deleteNote(id: string): Promise<boolean>;
+  getAllNotes(userId: string): Promise<Note[]>;
+  getNote(userId: string, id: string): Promise<Note | undefined>;
+  createNote(userId: string, note: InsertNote): Promise<Note>;
+  updateNote(userId: string, id: string, note: Partial<Note>): Promise<Note | undefined>;
+  deleteNote(userId: string, id: string): Promise<boolean>;
 
-  // System Settings
-  getSystemSettings(): Promise<SystemSettings>;
-  updateSystemSettings(settings: Partial<SystemSettings>): Promise<SystemSettings>;
+  // System Settings, one row per user; they only ever govern that user's own profile,
+  // so a new level curve recomputes that one profile's level
+  getSystemSettings(userId: string): Promise<SystemSettings>;
+  updateSystemSettings(userId: string, settings: Partial<SystemSettings>): Promise<SystemSettings>;
+
+  // Achievements (see server/achievements.ts)
+  getAchievementUnlocks(userId: string): Promise<AchievementUnlock[]>;
+  // Returns only the unlocks this call created
+  unlockAchievements(userId: string, achievementIds: string[], unlockedAt: Date): Promise<AchievementUnlock[]>;
+
+  // Streaks (see server/streaks.ts)
+  getStreakFreezes(userId: string): Promise<StreakFreeze[]>;
+  // Spends one freeze token on the period; undefined if none are left or it is already frozen
+  useStreakFreeze(userId: string, questId: string | null, periodKey: string): Promise<StreakFreeze | undefined>;
+
+  // Shop
+  getAllShopRewards(userId: string): Promise<ShopReward[]>;
+  createShopReward(userId: string, reward: InsertShopReward): Promise<ShopReward>;
+  updateShopReward(userId: string, id: string, reward: Partial<ShopReward>): Promise<ShopReward | undefined>;
+  deleteShopReward(userId: string, id: string): Promise<boolean>;
+  getRewardPurchases(userId: string): Promise<RewardPurchase[]>;
+  // Throws InsufficientGoldError when the reward costs more than the balance
+  purchaseReward(userId: string, rewardId: string): Promise<PurchaseResult>;
+  // Gives the gold back; refunding again is a no-op
+  refundPurchase(userId: string, purchaseId: string): Promise<PurchaseResult>;
+
+  // Attributes (see shared/attributes.ts), retired ones included, in display order.
+  // The defaults are stored on first access
+  getAttributeDefinitions(userId: string): Promise<AttributeDefinition[]>;
+  // Throws AttributeError when the key is taken
+  createAttributeDefinition(userId: string, attribute: InsertAttributeDefinition): Promise<AttributeDefinition>;
+  updateAttributeDefinition(userId: string, key: string, attribute: UpdateAttributeDefinition): Promise<AttributeDefinition | undefined>;
+  // Quests targeting the attribute move to `moveTo` (or to available points), and so do its
+  // points as far as `moveTo`'s cap allows. Throws AttributeError for an unusable `moveTo`
+  retireAttribute(userId: string, key: string, moveTo?: string | null): Promise<RetireAttributeResult>;
+  restoreAttribute(userId: string, key: string): Promise<AttributeDefinition | undefined>;
+
+  // Backup (see server/backup.ts)
+  getUserData(userId: string): Promise<UserData>;
+  importUserData(userId: string, rows: ImportedRows, mode: ImportMode): Promise<void>;
+
+  // Idempotency keys (see server/idempotency.ts)
+  // Returns the existing record if the key was already claimed, otherwise claims it
+  claimIdempotencyKey(userId: string, request: IdempotentRequest): Promise<IdempotencyKey | undefined>;
+  saveIdempotentResponse(userId: string, key: string, statusCode: number, responseBody: unknown): Promise<void>;
+  releaseIdempotencyKey(userId: string, key: string): Promise<void>;
+  deleteIdempotencyKeysBefore(cutoff: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
-  
-  // Single User Profile
-  async getProfile(): Promise<Profile> {
+  private get db(): Database {
+    return getDb();
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    try {
+      const [user] = await this.db.select().from(users).where(eq(users.id, id));
+      return user;
+    } catch (error) {
+      console.error('Error getting user:', error);
+      throw error;
+    }
+  }
+
+  async getOrCreateUser(identity: TelegramIdentity): Promise<User> {
+    try {
+      const [existingUser] = await this.db.select().from(users).where(eq(users.telegramId, identity.telegramId));
+      if (existingUser) {
+        return existingUser;
+      }
+
+      const newUser = await this.db.transaction(async (tx) => {
+        const [inserted] = await tx.insert(users).values(identity).onConflictDoNothing().returning();
+        if (!inserted) {
+          // Another request provisioned this user first
+          const [raced] = await tx.select().from(users).where(eq(users.telegramId, identity.telegramId));
+          return raced;
+        }
+
+        // The first user to sign in inherits data from the single-user era
+        const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(users);
+        if (count === 1) {
+          await this.claimUnownedData(tx, inserted.id);
+        }
+
+        return inserted;
+      });
+
+      // Provision the profile and settings up front
+      await this.getProfile(newUser.id);
+      await this.getSystemSettings(newUser.id);
+
+      return newUser;
+    } catch (error) {
+      console.error('Error getting or creating user:', error);
+      throw error;
+    }
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    try {
+      return await this.db.select().from(users).orderBy(users.createdAt);
+    } catch (error) {
+      console.error('Error getting all users:', error);
+      throw error;
+    }
+  }
+
+  async setUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    try {
+      const [updatedUser] = await this.db
+        .update(users)
+        .set({ role })
+        .where(eq(users.id, id))
+        .returning();
+      return updatedUser;
+    } catch (error) {
+      console.error('Error setting user role:', error);
+      throw error;
+    }
+  }
+
+  // Profile
+  async getProfile(userId: string): Promise<Profile> {
     try {
-      const profiles = await db.select().from(profile).limit(1);
-      
+      const profiles = await this.db.select().from(profile).where(eq(profile.userId, userId));
+
       if (profiles.length === 0) {
         // Create default profile if none exists
         const defaultProfile: InsertProfile = {
           level: 1,
           xp: 0,
           availablePoints: 0,
-          attributes: {
-            physique: 10,
-            mental: 10,
-            success: 10,
-            social: 10,
-            skills: 10
-          }
+          attributes: startingAttributes(),
         };
-        
-        const [newProfile] = await db.insert(profile).values(defaultProfile).returning();
-        return newProfile;
+
+        return await this.db.transaction(async (tx) => {
+          const [newProfile] = await tx
+            .insert(profile)
+            .values({ ...defaultProfile, userId })
+            .onConflictDoNothing()
+            .returning();
+
+          if (!newProfile) {
+            const [existingProfile] = await tx.select().from(profile).where(eq(profile.userId, userId));
+            return existingProfile;
+          }
+
+          // Starting attributes are the first ledger entry
+          await tx.insert(rewardLedger).values({
+            userId,
+            source: "opening_balance",
+            ...diffTotals(emptyTotals(), profileTotals(newProfile)),
+          });
+          return newProfile;
+        });
       }
-      
+
       return profiles[0];
     } catch (error) {
       console.error('Error getting profile:', error);
@@ -77,17 +261,17 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateProfile(profileData: Partial<Profile>): Promise<Profile> {
+  async updateProfile(userId: string, profileData: Partial<Profile>): Promise<Profile> {
     try {
       // Get current profile to ensure it exists
-      const currentProfile = await this.getProfile();
-      
-      const [updatedProfile] = await db
+      const currentProfile = await this.getProfile(userId);
+
+      const [updatedProfile] = await this.db
         .update(profile)
         .set(profileData)
         .where(eq(profile.id, currentProfile.id))
         .returning();
-        
+
       return updatedProfile;
     } catch (error) {
       console.error('Error updating profile:', error);
@@ -95,19 +279,134 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Set points or attributes directly; the difference is recorded on the ledger
+  async adjustProfile(userId: string, source: LedgerSource, changes: Partial<Pick<ProfileTotals, "availablePoints" | "attributes">>, note?: string): Promise<Profile> {
+    try {
+      await this.getProfile(userId);
+
+      return await this.db.transaction(async (tx) => {
+        const { profile: updatedProfile } = await this.appendLedgerEntry(tx, userId, source, (totals, rules) => {
+          const target = {
+            ...totals,
+            availablePoints: changes.availablePoints ?? totals.availablePoints,
+            attributes: { ...totals.attributes, ...changes.attributes },
+          };
+          // Explicit edits are rejected rather than silently clamped
+          assertWithinCaps(totals, target, rules);
+          return diffTotals(totals, target);
+        }, { note });
+        return updatedProfile;
+      });
+    } catch (error) {
+      console.error('Error adjusting profile:', error);
+      throw error;
+    }
+  }
+
+  async allocateAttributes(userId: string, deltas: Record<string, number>): Promise<Profile> {
+    try {
+      await this.getProfile(userId);
+
+      return await this.db.transaction(async (tx) => {
+        const allocated = await this.getAllocatedAttributes(tx, userId);
+        const { profile: updatedProfile } = await this.appendLedgerEntry(tx, userId, "attribute_allocation",
+          (totals, rules) => allocationDeltas(totals, deltas, allocated, rules));
+        return updatedProfile;
+      });
+    } catch (error) {
+      console.error('Error allocating attributes:', error);
+      throw error;
+    }
+  }
+
+  async respecAttributes(userId: string): Promise<Profile> {
+    try {
+      await this.getProfile(userId);
+
+      return await this.db.transaction(async (tx) => {
+        const allocated = await this.getAllocatedAttributes(tx, userId);
+        const { profile: updatedProfile } = await this.appendLedgerEntry(tx, userId, "respec",
+          (totals) => respecDeltas(totals, allocated), { note: "Refunded all allocated points" });
+        return updatedProfile;
+      });
+    } catch (error) {
+      console.error('Error resetting attribute allocation:', error);
+      throw error;
+    }
+  }
+
+  // Reward Ledger
+  async getLedgerEntries(userId: string): Promise<LedgerEntry[]> {
+    try {
+      return await this.db
+        .select()
+        .from(rewardLedger)
+        .where(eq(rewardLedger.userId, userId))
+        .orderBy(desc(rewardLedger.createdAt));
+    } catch (error) {
+      console.error('Error getting ledger entries:', error);
+      throw error;
+    }
+  }
+
+  async reconcileLedger(userId: string, repair: boolean): Promise<LedgerReconciliation> {
+    try {
+      await this.getProfile(userId);
+
+      return await this.db.transaction(async (tx) => {
+        const [currentProfile] = await tx.select().from(profile).where(eq(profile.userId, userId)).for("update");
+        const entries = await tx.select().from(rewardLedger).where(eq(rewardLedger.userId, userId));
+
+        const { levelCurve } = await this.getProgressionRules(tx, userId);
+
+        const profileSide = profileTotals(currentProfile);
+        const ledgerSide = sumLedger(entries);
+        const drift = diffTotals(ledgerSide, profileSide);
+        const inSync = !hasChanges(drift) && currentProfile.level === levelForXp(profileSide.xp, levelCurve);
+
+        if (!repair || inSync) {
+          return { inSync, repaired: false, entries: entries.length, profile: profileSide, ledger: ledgerSide, drift };
+        }
+
+        if (entries.length === 0) {
+          // Profile predates the ledger: open it with the current balances
+          await tx.insert(rewardLedger).values({ userId, source: "opening_balance", ...drift });
+          return { inSync: false, repaired: true, entries: 1, profile: profileSide, ledger: profileSide, drift };
+        }
+
+        // Otherwise the ledger is the source of truth
+        await tx
+          .update(profile)
+          .set(profileUpdateFromTotals(ledgerSide, levelCurve))
+          .where(eq(profile.id, currentProfile.id));
+        return { inSync: false, repaired: true, entries: entries.length, profile: ledgerSide, ledger: ledgerSide, drift };
+      });
+    } catch (error) {
+      console.error('Error reconciling ledger:', error);
+      throw error;
+    }
+  }
+
   // Quest Groups
-  async getAllQuestGroups(): Promise<QuestGroup[]> {
+  async getAllQuestGroups(userId: string): Promise<QuestGroup[]> {
     try {
-      return await db.select().from(questGroups).orderBy(questGroups.createdAt);
+      return await this.db
+        .select()
+        .from(questGroups)
+        .where(eq(questGroups.userId, userId))
+        .orderBy(questGroups.createdAt);
     } catch (error) {
       console.error('Error getting all quest groups:', error);
       throw error;
     }
   }
 
-  async getQuestGroup(id: string): Promise<QuestGroup | undefined> {
+  async getQuestGroup(userId: string, id: string): Promise<QuestGroup | undefined> {
     try {
-      const [questGroup] = await db.select().from(questGroups).where(eq(questGroups.id, id));
+      const [questGroup] = await this.db
+        .select()
+        .from(questGroups)
+        .where(and(eq(questGroups.id, id), eq(questGroups.userId, userId)));
       return questGroup;
     } catch (error) {
       console.error('Error getting quest group:', error);
@@ -115,9 +414,9 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createQuestGroup(group: InsertQuestGroup): Promise<QuestGroup> {
+  async createQuestGroup(userId: string, group: InsertQuestGroup): Promise<QuestGroup> {
     try {
-      const [newGroup] = await db.insert(questGroups).values(group).returning();
+      const [newGroup] = await this.db.insert(questGroups).values({ ...group, userId }).returning();
       return newGroup;
     } catch (error) {
       console.error('Error creating quest group:', error);
@@ -125,12 +424,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateQuestGroup(id: string, group: Partial<QuestGroup>): Promise<QuestGroup | undefined> {
+  async updateQuestGroup(userId: string, id: string, group: Partial<QuestGroup>): Promise<QuestGroup | undefined> {
     try {
-      const [updatedGroup] = await db
+      const [updatedGroup] = await this.db
         .update(questGroups)
-        .set(group)
-        .where(eq(questGroups.id, id))
+        .set({ ...group, userId })
+        .where(and(eq(questGroups.id, id), eq(questGroups.userId, userId)))
         .returning();
       return updatedGroup;
     } catch (error) {
@@ -139,13 +438,18 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async deleteQuestGroup(id: string): Promise<boolean> {
+  async deleteQuestGroup(userId: string, id: string): Promise<boolean> {
     try {
-      // First delete all quests in this group
-      await db.delete(quests).where(eq(quests.groupId, id));
-      
-      const result = await db.delete(questGroups).where(eq(questGroups.id, id));
-      return result.rowCount ? result.rowCount > 0 : false;
+      // First delete all quests in this group, along with their progress
+      const groupQuests = await this.getQuestsByGroupId(userId, id);
+      for (const quest of groupQuests) {
+        await this.deleteQuest(userId, quest.id);
+      }
+
+      const result = await this.db
+        .delete(questGroups)
+        .where(and(eq(questGroups.id, id), eq(questGroups.userId, userId)));
+      return result.count > 0;
     } catch (error) {
       console.error('Error deleting quest group:', error);
       throw error;
@@ -153,12 +457,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Quests
-  async getQuestsByGroupId(groupId: string): Promise<Quest[]> {
+  async getQuestsByGroupId(userId: string, groupId: string): Promise<Quest[]> {
     try {
-      return await db
+      return await this.db
         .select()
         .from(quests)
-        .where(eq(quests.groupId, groupId))
+        .where(and(eq(quests.groupId, groupId), eq(quests.userId, userId)))
         .orderBy(quests.createdAt);
     } catch (error) {
       console.error('Error getting quests by group ID:', error);
@@ -166,18 +470,25 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getAllQuests(): Promise<Quest[]> {
+  async getAllQuests(userId: string): Promise<Quest[]> {
     try {
-      return await db.select().from(quests).orderBy(quests.createdAt);
+      return await this.db
+        .select()
+        .from(quests)
+        .where(eq(quests.userId, userId))
+        .orderBy(quests.createdAt);
     } catch (error) {
       console.error('Error getting all quests:', error);
       throw error;
     }
   }
 
-  async getQuest(id: string): Promise<Quest | undefined> {
+  async getQuest(userId: string, id: string): Promise<Quest | undefined> {
     try {
-      const [quest] = await db.select().from(quests).where(eq(quests.id, id));
+      const [quest] = await this.db
+        .select()
+        .from(quests)
+        .where(and(eq(quests.id, id), eq(quests.userId, userId)));
       return quest;
     } catch (error) {
       console.error('Error getting quest:', error);
@@ -185,9 +496,9 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createQuest(quest: InsertQuest): Promise<Quest> {
+  async createQuest(userId: string, quest: InsertQuest): Promise<Quest> {
     try {
-      const [newQuest] = await db.insert(quests).values(quest).returning();
+      const [newQuest] = await this.db.insert(quests).values({ ...quest, userId }).returning();
       return newQuest;
     } catch (error) {
       console.error('Error creating quest:', error);
@@ -195,12 +506,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateQuest(id: string, quest: Partial<Quest>): Promise<Quest | undefined> {
+  async updateQuest(userId: string, id: string, quest: Partial<Quest>): Promise<Quest | undefined> {
     try {
-      const [updatedQuest] = await db
+      const [updatedQuest] = await this.db
         .update(quests)
-        .set(quest)
-        .where(eq(quests.id, id))
+        .set({ ...quest, userId })
+        .where(and(eq(quests.id, id), eq(quests.userId, userId)))
         .returning();
       return updatedQuest;
     } catch (error) {
@@ -209,13 +520,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async deleteQuest(id: string): Promise<boolean> {
+  async deleteQuest(userId: string, id: string): Promise<boolean> {
     try {
-      // Delete quest progress for this quest first
-      await db.delete(questProgress).where(eq(questProgress.questId, id));
-      
-      const result = await db.delete(quests).where(eq(quests.id, id));
-      return result.rowCount ? result.rowCount > 0 : false;
+      const quest = await this.getQuest(userId, id);
+      if (!quest) {
+        return false;
+      }
+
+      // Delete quest progress and failure log for this quest first
+      await this.db.delete(questProgress).where(eq(questProgress.questId, id));
+      await this.db.delete(questFailures).where(eq(questFailures.questId, id));
+
+      const result = await this.db.delete(quests).where(eq(quests.id, id));
+      return result.count > 0;
     } catch (error) {
       console.error('Error deleting quest:', error);
       throw error;
@@ -223,21 +540,32 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Quest Progress
-  async getAllQuestProgress(): Promise<QuestProgress[]> {
+  async getAllQuestProgress(userId: string): Promise<QuestProgress[]> {
     try {
-      return await db.select().from(questProgress).orderBy(questProgress.createdAt);
+      return await this.db
+        .select()
+        .from(questProgress)
+        .where(eq(questProgress.userId, userId))
+        .orderBy(questProgress.createdAt);
     } catch (error) {
       console.error('Error getting all quest progress:', error);
       throw error;
     }
   }
 
-  async getQuestProgress(questId: string): Promise<QuestProgress | undefined> {
+  // Progress for the quest's current period (see getQuestPeriod)
+  async getQuestProgress(userId: string, questId: string): Promise<QuestProgress | undefined> {
     try {
-      const [progress] = await db
+      const quest = await this.getQuest(userId, questId);
+      if (!quest) {
+        return undefined;
+      }
+
+      const periodKey = await this.getCurrentPeriodKey(quest);
+      const [progress] = await this.db
         .select()
         .from(questProgress)
-        .where(eq(questProgress.questId, questId));
+        .where(and(eq(questProgress.questId, questId), eq(questProgress.periodKey, periodKey)));
       return progress;
     } catch (error) {
       console.error('Error getting quest progress:', error);
@@ -245,108 +573,33 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async completeQuest(questId: string): Promise<QuestProgress> {
+  async completeQuest(userId: string, questId: string): Promise<QuestProgress> {
     try {
       // Get quest details first to validate it exists and get rewards
-      const quest = await this.getQuest(questId);
+      const quest = await this.getQuest(userId, questId);
       if (!quest) {
         throw new Error('Quest not found');
       }
 
+      await this.getProfile(userId);
+      const periodKey = await this.getCurrentPeriodKey(quest);
+
       // Use database transaction for atomic quest completion
-      return await db.transaction(async (tx) => {
-        // Single atomic upsert operation using INSERT...ON CONFLICT
-        // This handles both first-time completion and idempotent repeat calls
-        const completionTimestamp = new Date();
-        const [progressResult] = await tx
-          .insert(questProgress)
-          .values({
-            questId,
-            progress: 1,
-            completed: true,
-            completedAt: completionTimestamp
-          })
-          .onConflictDoUpdate({
-            target: questProgress.questId,
-            set: {
-              // Only update if not already completed (CASE WHEN logic)
-              progress: sql`CASE WHEN ${questProgress.completed} = false THEN ${questProgress.progress} + 1 ELSE ${questProgress.progress} END`,
-              completed: sql`CASE WHEN ${questProgress.completed} = false THEN true ELSE ${questProgress.completed} END`,
-              completedAt: sql`CASE WHEN ${questProgress.completed} = false THEN EXCLUDED.completed_at ELSE ${questProgress.completedAt} END`
-            }
-          })
-          .returning({
-            id: questProgress.id,
-            questId: questProgress.questId,
-            progress: questProgress.progress,
-            completed: questProgress.completed,
-            completedAt: questProgress.completedAt,
-            createdAt: questProgress.createdAt,
-            // Use a clever technique to detect if this operation changed the completion status
-            // If completedAt matches our timestamp, it means we just completed it
-            wasJustCompleted: sql<boolean>`${questProgress.completedAt} = ${completionTimestamp.toISOString()}::timestamp`.as('was_just_completed')
-          });
+      return await this.db.transaction(async (tx) => {
+        const currentProgress = await this.lockCurrentProgress(tx, userId, quest, periodKey);
 
-        // Award XP and attribute points only if quest completion status actually changed
-        if (progressResult.completed && progressResult.wasJustCompleted) {
-          // Calculate level from XP (800 XP per level)
-          const currentProfile = await tx.select().from(profile).limit(1);
-          if (currentProfile.length > 0) {
-            const currentXP = currentProfile[0].xp || 0;
-            const newXP = currentXP + (quest.xpReward || 0);
-            const currentLevel = Math.floor(currentXP / 800) + 1;
-            const newLevel = Math.floor(newXP / 800) + 1;
-            const levelIncrease = newLevel - currentLevel;
-            
-            // Update profile with new XP, level, cumulative XP, and available points
-            const currentCumulativeXP = currentProfile[0].cumulativeXp || 0;
-            const newCumulativeXP = currentCumulativeXP + (quest.xpReward || 0);
-            
-            const updates: any = {
-              xp: sql`${profile.xp} + ${quest.xpReward || 0}`,
-              level: newLevel,
-              cumulativeXp: newCumulativeXP  // Fix: Update cumulative XP on quest completion
-            };
-            
-            // Award attribute points if specified
-            if (quest.attributePointReward && quest.attributePointReward > 0) {
-              if (quest.targetAttribute) {
-                // Whitelist allowed attributes to prevent SQL injection
-                const allowedAttributes = ['physique', 'mental', 'success', 'social', 'skills'];
-                if (!allowedAttributes.includes(quest.targetAttribute)) {
-                  throw new Error(`Invalid target attribute: ${quest.targetAttribute}`);
-                }
-                
-                // Award to specific attribute safely
-                const currentAttributes = currentProfile[0].attributes || {};
-                const attributeValue = (currentAttributes as any)[quest.targetAttribute] || 0;
-                const newAttributeValue = Math.min(100, attributeValue + quest.attributePointReward);
-                
-                // Update attributes object safely without raw SQL
-                const updatedAttributes = {
-                  ...currentAttributes,
-                  [quest.targetAttribute]: newAttributeValue
-                };
-                updates.attributes = updatedAttributes;
-              } else {
-                // Award as available points
-                updates.availablePoints = sql`${profile.availablePoints} + ${quest.attributePointReward}`;
-              }
-            }
-            
-            // Award additional available points for level ups (1 per level)
-            if (levelIncrease > 0) {
-              const additionalPoints = updates.availablePoints 
-                ? sql`${updates.availablePoints} + ${levelIncrease}`
-                : sql`${profile.availablePoints} + ${levelIncrease}`;
-              updates.availablePoints = additionalPoints;
-            }
-            
-            await tx.update(profile).set(updates);
-          }
+        // Repeat calls within the same period are idempotent and never grant the reward twice
+        if (currentProgress.completed) {
+          return currentProgress;
+        }
+        if (currentProgress.failed || isPastDeadline(quest, new Date())) {
+          throw new Error('Quest failed');
         }
 
-        return progressResult;
+        // Log the remaining steps in one go
+        return await this.logProgressStep(tx, userId, quest, currentProgress, {
+          delta: (quest.maxProgress || 1) - (currentProgress.progress || 0),
+        });
       });
     } catch (error) {
       console.error('Error completing quest:', error);
@@ -354,76 +607,129 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async cancelQuestCompletion(questId: string): Promise<QuestProgress> {
+  // Steps logged in the quest's current period, oldest first
+  async getQuestProgressSteps(userId: string, questId: string): Promise<QuestProgressStep[]> {
     try {
-      // Get quest details first to validate it exists and get rewards to rollback
-      const quest = await this.getQuest(questId);
+      const currentProgress = await this.getQuestProgress(userId, questId);
+      if (!currentProgress) {
+        return [];
+      }
+
+      return await this.db
+        .select()
+        .from(questProgressSteps)
+        .where(eq(questProgressSteps.progressId, currentProgress.id))
+        .orderBy(questProgressSteps.loggedAt, questProgressSteps.createdAt);
+    } catch (error) {
+      console.error('Error getting quest progress steps:', error);
+      throw error;
+    }
+  }
+
+  async addQuestProgress(userId: string, questId: string, step: QuestProgressStepInput): Promise<QuestProgress> {
+    try {
+      const quest = await this.getQuest(userId, questId);
       if (!quest) {
         throw new Error('Quest not found');
       }
 
-      // Check if quest is actually completed
-      const existingProgress = await this.getQuestProgress(questId);
-      if (!existingProgress || !existingProgress.completed) {
-        throw new Error('Quest not completed');
+      await this.getProfile(userId);
+      const periodKey = await this.getCurrentPeriodKey(quest);
+
+      return await this.db.transaction(async (tx) => {
+        const currentProgress = await this.lockCurrentProgress(tx, userId, quest, periodKey);
+        if (currentProgress.completed) {
+          throw new Error('Quest already completed');
+        }
+        if (currentProgress.failed || isPastDeadline(quest, new Date())) {
+          throw new Error('Quest failed');
+        }
+
+        return await this.logProgressStep(tx, userId, quest, currentProgress, step);
+      });
+    } catch (error) {
+      console.error('Error adding quest progress:', error);
+      throw error;
+    }
+  }
+
+  async undoLastProgressStep(userId: string, questId: string): Promise<QuestProgress> {
+    try {
+      const quest = await this.getQuest(userId, questId);
+      if (!quest) {
+        throw new Error('Quest not found');
       }
 
-      // Use database transaction for atomic quest cancellation rollback
-      return await db.transaction(async (tx) => {
-        // Reset quest progress to incomplete
+      await this.getProfile(userId);
+      const periodKey = await this.getCurrentPeriodKey(quest);
+
+      return await this.db.transaction(async (tx) => {
+        const [currentProgress] = await tx
+          .select()
+          .from(questProgress)
+          .where(and(eq(questProgress.questId, questId), eq(questProgress.periodKey, periodKey)))
+          .for("update");
+
+        const [lastStep] = currentProgress ? await tx
+          .select()
+          .from(questProgressSteps)
+          .where(eq(questProgressSteps.progressId, currentProgress.id))
+          .orderBy(desc(questProgressSteps.loggedAt), desc(questProgressSteps.createdAt))
+          .limit(1) : [];
+        if (!currentProgress || !lastStep) {
+          throw new Error('No progress to undo');
+        }
+
+        await tx.delete(questProgressSteps).where(eq(questProgressSteps.id, lastStep.id));
+
+        // Stepping back from completion also takes back the reward
         const [progressResult] = await tx
           .update(questProgress)
           .set({
-            progress: 0,
-            completed: false,
-            completedAt: null
+            progress: Math.max(0, (currentProgress.progress || 0) - lastStep.delta),
+            ...(currentProgress.completed ? {
+              completed: false,
+              completedAt: null,
+              isArchived: false,
+              archivedAt: null,
+              archiveReason: null
+            } : {})
           })
-          .where(eq(questProgress.questId, questId))
+          .where(eq(questProgress.id, currentProgress.id))
           .returning();
 
-        // Rollback profile XP and attribute points
-        const currentProfile = await tx.select().from(profile).limit(1);
-        if (currentProfile.length > 0) {
-          const currentXP = currentProfile[0].xp || 0;
-          const newXP = Math.max(0, currentXP - (quest.xpReward || 0));
-          const currentLevel = Math.floor(currentXP / 800) + 1;
-          const newLevel = Math.floor(newXP / 800) + 1;
-          const levelDecrease = currentLevel - newLevel;
-          
-          // Update profile with reduced XP and level
-          const updates: any = {
-            xp: Math.max(0, newXP),
-            level: newLevel
-          };
-          
-          // Rollback attribute points if they were awarded
-          if (quest.attributePointReward && quest.attributePointReward > 0) {
-            if (quest.targetAttribute) {
-              // Rollback from specific attribute
-              const currentAttributes = currentProfile[0].attributes || {};
-              const attributeValue = (currentAttributes as any)[quest.targetAttribute] || 0;
-              const newAttributeValue = Math.max(0, attributeValue - quest.attributePointReward);
-              
-              updates.attributes = sql`jsonb_set(${profile.attributes}, '{${quest.targetAttribute}}', '${newAttributeValue}'::jsonb)`;
-            } else {
-              // Rollback from available points
-              updates.availablePoints = sql`${profile.availablePoints} - ${quest.attributePointReward}`;
-            }
-          }
-          
-          // Rollback additional available points that were awarded for level ups
-          if (levelDecrease > 0) {
-            const pointsToRemove = updates.availablePoints 
-              ? sql`${updates.availablePoints} - ${levelDecrease}`
-              : sql`${profile.availablePoints} - ${levelDecrease}`;
-            updates.availablePoints = sql`GREATEST(0, ${pointsToRemove})`; // Ensure never goes below 0
-          }
-          
-          await tx.update(profile).set(updates);
+        if (currentProgress.completed) {
+          await this.reverseQuestCompletion(tx, userId, quest, currentProgress);
         }
 
         return progressResult;
       });
+    } catch (error) {
+      console.error('Error undoing quest progress step:', error);
+      throw error;
+    }
+  }
+
+  async cancelQuestCompletion(userId: string, questId: string): Promise<QuestProgress> {
+    try {
+      // Get quest details first to validate it exists and get rewards to rollback
+      const quest = await this.getQuest(userId, questId);
+      if (!quest) {
+        throw new Error('Quest not found');
+      }
+
+      // Check if quest is actually completed
+      const existingProgress = await this.getQuestProgress(userId, questId);
+      if (!existingProgress || !existingProgress.completed) {
+        throw new Error('Quest not completed');
+      }
+
+      await this.getProfile(userId);
+
+      // Use database transaction for atomic quest cancellation rollback
+      return await this.db.transaction(async (tx) => {
+        return await this.reopenCompletedQuest(tx, userId, quest, existingProgress);
+      });
     } catch (error) {
       console.error('Error cancelling quest completion:', error);
       throw error;
@@ -431,18 +737,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Notes
-  async getAllNotes(): Promise<Note[]> {
+  async getAllNotes(userId: string): Promise<Note[]> {
     try {
-      return await db.select().from(notes).orderBy(notes.createdAt);
+      return await this.db
+        .select()
+        .from(notes)
+        .where(eq(notes.userId, userId))
+        .orderBy(notes.createdAt);
     } catch (error) {
       console.error('Error getting all notes:', error);
       throw error;
     }
   }
 
-  async getNote(id: string): Promise<Note | undefined> {
+  async getNote(userId: string, id: string): Promise<Note | undefined> {
     try {
-      const [note] = await db.select().from(notes).where(eq(notes.id, id));
+      const [note] = await this.db
+        .select()
+        .from(notes)
+        .where(and(eq(notes.id, id), eq(notes.userId, userId)));
       return note;
     } catch (error) {
       console.error('Error getting note:', error);
@@ -450,9 +763,9 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createNote(note: InsertNote): Promise<Note> {
+  async createNote(userId: string, note: InsertNote): Promise<Note> {
     try {
-      const [newNote] = await db.insert(notes).values(note).returning();
+      const [newNote] = await this.db.insert(notes).values({ ...note, userId }).returning();
       return newNote;
     } catch (error) {
       console.error('Error creating note:', error);
@@ -460,15 +773,16 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateNote(id: string, note: Partial<Note>): Promise<Note | undefined> {
+  async updateNote(userId: string, id: string, note: Partial<Note>): Promise<Note | undefined> {
     try {
-      const [updatedNote] = await db
+      const [updatedNote] = await this.db
         .update(notes)
         .set({
           ...note,
+          userId,
           updatedAt: new Date()
         })
-        .where(eq(notes.id, id))
+        .where(and(eq(notes.id, id), eq(notes.userId, userId)))
         .returning();
       return updatedNote;
     } catch (error) {
@@ -477,10 +791,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async deleteNote(id: string): Promise<boolean> {
+  async deleteNote(userId: string, id: string): Promise<boolean> {
     try {
-      const result = await db.delete(notes).where(eq(notes.id, id));
-      return result.rowCount ? result.rowCount > 0 : false;
+      const result = await this.db
+        .delete(notes)
+        .where(and(eq(notes.id, id), eq(notes.userId, userId)));
+      return result.count > 0;
     } catch (error) {
       console.error('Error deleting note:', error);
       throw error;
@@ -488,10 +804,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   // System Settings
-  async getSystemSettings(): Promise<SystemSettings> {
+  async getSystemSettings(userId: string): Promise<SystemSettings> {
     try {
-      const settings = await db.select().from(systemSettings).limit(1);
-      
+      const settings = await this.db.select().from(systemSettings).where(eq(systemSettings.userId, userId));
+
       if (settings.length === 0) {
         // Create default system settings if none exist
         const defaultSettings: InsertSystemSettings = {
@@ -499,11 +815,19 @@ export class DatabaseStorage implements IStorage {
           maxAttributePoints: 100,
           questResetInterval: 24
         };
-        
-        const [newSettings] = await db.insert(systemSettings).values(defaultSettings).returning();
+
+        const [newSettings] = await this.db
+          .insert(systemSettings)
+          .values({ ...defaultSettings, userId })
+          .onConflictDoNothing()
+          .returning();
+        if (!newSettings) {
+          const [existingSettings] = await this.db.select().from(systemSettings).where(eq(systemSettings.userId, userId));
+          return existingSettings;
+        }
         return newSettings;
       }
-      
+
       return settings[0];
     } catch (error) {
       console.error('Error getting system settings:', error);
@@ -511,173 +835,1029 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateSystemSettings(settings: Partial<SystemSettings>): Promise<SystemSettings> {
+  async updateSystemSettings(userId: string, settings: Partial<SystemSettings>): Promise<SystemSettings> {
     try {
       // Get current settings to ensure they exist
-      const currentSettings = await this.getSystemSettings();
-      
-      const [updatedSettings] = await db
-        .update(systemSettings)
-        .set({
-          ...settings,
-          updatedAt: new Date()
-        })
-        .where(eq(systemSettings.id, currentSettings.id))
-        .returning();
-        
-      return updatedSettings;
+      const currentSettings = await this.getSystemSettings(userId);
+
+      return await this.db.transaction(async (tx) => {
+        const [updatedSettings] = await tx
+          .update(systemSettings)
+          .set({
+            ...settings,
+            userId,
+            updatedAt: new Date()
+          })
+          .where(eq(systemSettings.id, currentSettings.id))
+          .returning();
+
+        // Levels follow the curve, so a new curve recomputes the profile's level
+        if (settings.levelCurve) {
+          const [currentProfile] = await tx.select().from(profile).where(eq(profile.userId, userId)).for("update");
+          if (currentProfile) {
+            await tx
+              .update(profile)
+              .set({ level: levelForXp(currentProfile.xp || 0, updatedSettings.levelCurve) })
+              .where(eq(profile.id, currentProfile.id));
+          }
+        }
+
+        return updatedSettings;
+      });
     } catch (error) {
       console.error('Error updating system settings:', error);
       throw error;
     }
   }
 
-  async archiveQuest(questId: string, reason: string): Promise<QuestProgress> {
+  // Achievements
+  async getAchievementUnlocks(userId: string): Promise<AchievementUnlock[]> {
     try {
-      const existingProgress = await this.getQuestProgress(questId);
-      if (!existingProgress) {
-        throw new Error('Quest progress not found');
-      }
-
-      const [archivedProgress] = await db
-        .update(questProgress)
-        .set({
-          isArchived: true,
-          archivedAt: new Date(),
-          archiveReason: reason,
-          canUndo: true
-        })
-        .where(eq(questProgress.questId, questId))
-        .returning();
-
-      return archivedProgress;
+      return await this.db
+        .select()
+        .from(achievementUnlocks)
+        .where(eq(achievementUnlocks.userId, userId))
+        .orderBy(desc(achievementUnlocks.unlockedAt));
     } catch (error) {
-      console.error('Error archiving quest:', error);
+      console.error('Error getting achievement unlocks:', error);
       throw error;
     }
   }
 
-  async restoreQuestFromArchive(questId: string): Promise<QuestProgress> {
+  async unlockAchievements(userId: string, achievementIds: string[], unlockedAt: Date): Promise<AchievementUnlock[]> {
     try {
-      const [restoredProgress] = await db
-        .update(questProgress)
-        .set({
-          isArchived: false,
-          archivedAt: null,
-          archiveReason: null,
-          canUndo: true
-        })
-        .where(eq(questProgress.questId, questId))
-        .returning();
-
-      if (!restoredProgress) {
-        throw new Error('Quest progress not found');
+      if (achievementIds.length === 0) {
+        return [];
       }
 
-      return restoredProgress;
+      return await this.db
+        .insert(achievementUnlocks)
+        .values(achievementIds.map((achievementId) => ({ userId, achievementId, unlockedAt })))
+        .onConflictDoNothing()
+        .returning();
     } catch (error) {
-      console.error('Error restoring quest from archive:', error);
+      console.error('Error unlocking achievements:', error);
       throw error;
     }
   }
 
-  async deleteArchivedQuest(questId: string): Promise<boolean> {
+  // Streaks
+  async getStreakFreezes(userId: string): Promise<StreakFreeze[]> {
     try {
-      // Only allow deletion of archived quests
-      const existingProgress = await this.getQuestProgress(questId);
-      if (!existingProgress?.isArchived) {
-        throw new Error('Quest not archived');
-      }
-
-      const result = await db
-        .delete(questProgress)
-        .where(eq(questProgress.questId, questId));
-        
-      return result.rowCount ? result.rowCount > 0 : false;
+      return await this.db
+        .select()
+        .from(streakFreezes)
+        .where(eq(streakFreezes.userId, userId))
+        .orderBy(streakFreezes.createdAt);
     } catch (error) {
-      console.error('Error deleting archived quest:', error);
+      console.error('Error getting streak freezes:', error);
       throw error;
     }
   }
 
-  async undoQuestCompletion(questId: string): Promise<QuestProgress> {
+  async useStreakFreeze(userId: string, questId: string | null, periodKey: string): Promise<StreakFreeze | undefined> {
     try {
-      // Get quest details first to validate it exists and get rewards to rollback
-      const quest = await this.getQuest(questId);
-      if (!quest) {
-        throw new Error('Quest not found');
-      }
+      await this.getProfile(userId);
 
-      // Check if quest is actually completed (works for both active and archived quests)
-      const existingProgress = await this.getQuestProgress(questId);
+      return await this.db.transaction(async (tx) => {
+        const [currentProfile] = await tx.select().from(profile).where(eq(profile.userId, userId)).for("update");
+        if (currentProfile.freezeTokens <= 0) {
+          return undefined;
+        }
+
+        const [existing] = await tx
+          .select({ id: streakFreezes.id })
+          .from(streakFreezes)
+          .where(and(
+            eq(streakFreezes.userId, userId),
+            questId === null ? isNull(streakFreezes.questId) : eq(streakFreezes.questId, questId),
+            eq(streakFreezes.periodKey, periodKey)
+          ))
+          .limit(1);
+        if (existing) {
+          return undefined;
+        }
+
+        await tx
+          .update(profile)
+          .set({ freezeTokens: currentProfile.freezeTokens - 1 })
+          .where(eq(profile.id, currentProfile.id));
+        const [freeze] = await tx.insert(streakFreezes).values({ userId, questId, periodKey }).returning();
+        return freeze;
+      });
+    } catch (error) {
+      console.error('Error using streak freeze:', error);
+      throw error;
+    }
+  }
+
+  // Shop
+  async getAllShopRewards(userId: string): Promise<ShopReward[]> {
+    try {
+      return await this.db
+        .select()
+        .from(shopRewards)
+        .where(eq(shopRewards.userId, userId))
+        .orderBy(shopRewards.createdAt);
+    } catch (error) {
+      console.error('Error getting shop rewards:', error);
+      throw error;
+    }
+  }
+
+  async createShopReward(userId: string, reward: InsertShopReward): Promise<ShopReward> {
+    try {
+      const [newReward] = await this.db.insert(shopRewards).values({ ...reward, userId }).returning();
+      return newReward;
+    } catch (error) {
+      console.error('Error creating shop reward:', error);
+      throw error;
+    }
+  }
+
+  async updateShopReward(userId: string, id: string, reward: Partial<ShopReward>): Promise<ShopReward | undefined> {
+    try {
+      const [updatedReward] = await this.db
+        .update(shopRewards)
+        .set({ ...reward, userId })
+        .where(and(eq(shopRewards.id, id), eq(shopRewards.userId, userId)))
+        .returning();
+      return updatedReward;
+    } catch (error) {
+      console.error('Error updating shop reward:', error);
+      throw error;
+    }
+  }
+
+  // Past purchases keep their copied title and cost
+  async deleteShopReward(userId: string, id: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .delete(shopRewards)
+        .where(and(eq(shopRewards.id, id), eq(shopRewards.userId, userId)));
+      return result.count > 0;
+    } catch (error) {
+      console.error('Error deleting shop reward:', error);
+      throw error;
+    }
+  }
+
+  async getRewardPurchases(userId: string): Promise<RewardPurchase[]> {
+    try {
+      return await this.db
+        .select()
+        .from(rewardPurchases)
+        .where(eq(rewardPurchases.userId, userId))
+        .orderBy(desc(rewardPurchases.createdAt));
+    } catch (error) {
+      console.error('Error getting reward purchases:', error);
+      throw error;
+    }
+  }
+
+  async purchaseReward(userId: string, rewardId: string): Promise<PurchaseResult> {
+    try {
+      await this.getProfile(userId);
+
+      return await this.db.transaction(async (tx) => {
+        const [reward] = await tx
+          .select()
+          .from(shopRewards)
+          .where(and(eq(shopRewards.id, rewardId), eq(shopRewards.userId, userId)));
+        if (!reward) {
+          throw new Error('Reward not found');
+        }
+
+        // The ledger entry locks the profile, so concurrent purchases cannot spend the same gold
+        const { profile: updatedProfile, entry } = await this.appendLedgerEntry(tx, userId, "reward_purchase", (totals) => purchaseDeltas(totals, reward.cost), {
+          note: reward.title,
+        });
+
+        const [purchase] = await tx
+          .insert(rewardPurchases)
+          .values({ userId, rewardId: reward.id, ledgerEntryId: entry.id, title: reward.title, cost: reward.cost })
+          .returning();
+        return { purchase, profile: updatedProfile };
+      });
+    } catch (error) {
+      console.error('Error purchasing reward:', error);
+      throw error;
+    }
+  }
+
+  async refundPurchase(userId: string, purchaseId: string): Promise<PurchaseResult> {
+    try {
+      const currentProfile = await this.getProfile(userId);
+
+      return await this.db.transaction(async (tx) => {
+        const [purchase] = await tx
+          .select()
+          .from(rewardPurchases)
+          .where(and(eq(rewardPurchases.id, purchaseId), eq(rewardPurchases.userId, userId)))
+          .for("update");
+        if (!purchase) {
+          throw new Error('Purchase not found');
+        }
+        if (purchase.refundedAt) {
+          return { purchase, profile: currentProfile };
+        }
+
+        const [grant] = purchase.ledgerEntryId
+          ? await tx.select().from(rewardLedger).where(eq(rewardLedger.id, purchase.ledgerEntryId))
+          : [];
+        const { profile: updatedProfile } = await this.appendLedgerEntry(
+          tx,
+          userId,
+          "purchase_refund",
+          () => (grant ? reversalDeltas(grant) : { ...emptyDeltas(), goldDelta: purchase.cost }),
+          { reversesEntryId: grant?.id ?? null, note: purchase.title },
+        );
+
+        const [refunded] = await tx
+          .update(rewardPurchases)
+          .set({ refundedAt: new Date() })
+          .where(eq(rewardPurchases.id, purchase.id))
+          .returning();
+        return { purchase: refunded, profile: updatedProfile };
+      });
+    } catch (error) {
+      console.error('Error refunding purchase:', error);
+      throw error;
+    }
+  }
+
+  // Attributes
+  async getAttributeDefinitions(userId: string): Promise<AttributeDefinition[]> {
+    try {
+      const definitions = await this.db
+        .select()
+        .from(attributeDefinitions)
+        .where(eq(attributeDefinitions.userId, userId))
+        .orderBy(attributeDefinitions.sortOrder, attributeDefinitions.createdAt);
+      if (definitions.length > 0) {
+        return definitions;
+      }
+
+      await this.db
+        .insert(attributeDefinitions)
+        .values(DEFAULT_ATTRIBUTES.map((attribute, index) => ({ ...attribute, userId, sortOrder: index })))
+        .onConflictDoNothing();
+      return await this.db
+        .select()
+        .from(attributeDefinitions)
+        .where(eq(attributeDefinitions.userId, userId))
+        .orderBy(attributeDefinitions.sortOrder, attributeDefinitions.createdAt);
+    } catch (error) {
+      console.error('Error getting attribute definitions:', error);
+      throw error;
+    }
+  }
+
+  // New attributes go last and start at zero
+  async createAttributeDefinition(userId: string, attribute: InsertAttributeDefinition): Promise<AttributeDefinition> {
+    try {
+      const definitions = await this.getAttributeDefinitions(userId);
+      const sortOrder = attribute.sortOrder ?? Math.max(-1, ...definitions.map((definition) => definition.sortOrder)) + 1;
+
+      const [newAttribute] = await this.db
+        .insert(attributeDefinitions)
+        .values({ ...attribute, sortOrder, userId })
+        .onConflictDoNothing()
+        .returning();
+      if (!newAttribute) {
+        throw new AttributeError(`Attribute ${attribute.key} already exists`);
+      }
+      return newAttribute;
+    } catch (error) {
+      console.error('Error creating attribute definition:', error);
+      throw error;
+    }
+  }
+
+  async updateAttributeDefinition(userId: string, key: string, attribute: UpdateAttributeDefinition): Promise<AttributeDefinition | undefined> {
+    try {
+      await this.getAttributeDefinitions(userId);
+
+      const [updatedAttribute] = await this.db
+        .update(attributeDefinitions)
+        .set({ ...attribute, userId })
+        .where(and(eq(attributeDefinitions.userId, userId), eq(attributeDefinitions.key, key)))
+        .returning();
+      return updatedAttribute;
+    } catch (error) {
+      console.error('Error updating attribute definition:', error);
+      throw error;
+    }
+  }
+
+  async retireAttribute(userId: string, key: string, moveTo?: string | null): Promise<RetireAttributeResult> {
+    try {
+      await this.getProfile(userId);
+      await this.getAttributeDefinitions(userId);
+
+      return await this.db.transaction(async (tx) => {
+        const definitions = await tx
+          .select()
+          .from(attributeDefinitions)
+          .where(eq(attributeDefinitions.userId, userId))
+          .for("update");
+        const attribute = definitions.find((definition) => definition.key === key);
+        if (!attribute) {
+          throw new Error('Attribute not found');
+        }
+        if (moveTo && (moveTo === key || !definitions.some((definition) => definition.key === moveTo && !definition.retiredAt))) {
+          throw new AttributeError(`Cannot move ${key} to ${moveTo}`);
+        }
+
+        const [retiredAttribute] = await tx
+          .update(attributeDefinitions)
+          .set({ retiredAt: attribute.retiredAt ?? new Date() })
+          .where(eq(attributeDefinitions.id, attribute.id))
+          .returning();
+        await tx
+          .update(quests)
+          .set({ targetAttribute: moveTo ?? null })
+          .where(and(eq(quests.userId, userId), eq(quests.targetAttribute, key)));
+
+        if (!moveTo) {
+          const [currentProfile] = await tx.select().from(profile).where(eq(profile.userId, userId));
+          return { attribute: retiredAttribute, profile: currentProfile };
+        }
+        const { profile: updatedProfile } = await this.appendLedgerEntry(tx, userId, "attribute_migration",
+          (totals, rules) => migrationDeltas(totals, key, moveTo, rules), { note: `${key} -> ${moveTo}` });
+        return { attribute: retiredAttribute, profile: updatedProfile };
+      });
+    } catch (error) {
+      console.error('Error retiring attribute:', error);
+      throw error;
+    }
+  }
+
+  async restoreAttribute(userId: string, key: string): Promise<AttributeDefinition | undefined> {
+    try {
+      const [restoredAttribute] = await this.db
+        .update(attributeDefinitions)
+        .set({ retiredAt: null })
+        .where(and(eq(attributeDefinitions.userId, userId), eq(attributeDefinitions.key, key)))
+        .returning();
+      return restoredAttribute;
+    } catch (error) {
+      console.error('Error restoring attribute:', error);
+      throw error;
+    }
+  }
+
+  // Backup
+  async getUserData(userId: string): Promise<UserData> {
+    try {
+      const currentProfile = await this.getProfile(userId);
+      const settings = await this.getSystemSettings(userId);
+
+      return await this.db.transaction(async (tx) => ({
+        profile: currentProfile,
+        settings,
+        questGroups: await tx.select().from(questGroups).where(eq(questGroups.userId, userId)).orderBy(questGroups.createdAt),
+        quests: await tx.select().from(quests).where(eq(quests.userId, userId)).orderBy(quests.createdAt),
+        questProgress: await tx.select().from(questProgress).where(eq(questProgress.userId, userId)).orderBy(questProgress.createdAt),
+        questProgressSteps: await tx.select().from(questProgressSteps).where(eq(questProgressSteps.userId, userId)).orderBy(questProgressSteps.createdAt),
+        questFailures: await tx.select().from(questFailures).where(eq(questFailures.userId, userId)).orderBy(questFailures.createdAt),
+        ledger: await tx.select().from(rewardLedger).where(eq(rewardLedger.userId, userId)).orderBy(rewardLedger.createdAt),
+        notes: await tx.select().from(notes).where(eq(notes.userId, userId)).orderBy(notes.createdAt),
+        shopRewards: await tx.select().from(shopRewards).where(eq(shopRewards.userId, userId)).orderBy(shopRewards.createdAt),
+        rewardPurchases: await tx.select().from(rewardPurchases).where(eq(rewardPurchases.userId, userId)).orderBy(rewardPurchases.createdAt),
+        attributes: await tx.select().from(attributeDefinitions).where(eq(attributeDefinitions.userId, userId)).orderBy(attributeDefinitions.sortOrder),
+      }));
+    } catch (error) {
+      console.error('Error getting user data:', error);
+      throw error;
+    }
+  }
+
+  async importUserData(userId: string, rows: ImportedRows, mode: ImportMode): Promise<void> {
+    try {
+      await this.getProfile(userId);
+      await this.getSystemSettings(userId);
+      // Merged attributes join the user's own set, so that has to be stored first
+      await this.getAttributeDefinitions(userId);
+
+      await this.db.transaction(async (tx) => {
+        const [currentProfile] = await tx.select().from(profile).where(eq(profile.userId, userId)).for("update");
+
+        if (mode === "replace") {
+          await tx.delete(questProgressSteps).where(eq(questProgressSteps.userId, userId));
+          await tx.delete(questProgress).where(eq(questProgress.userId, userId));
+          await tx.delete(questFailures).where(eq(questFailures.userId, userId));
+          await tx.delete(quests).where(eq(quests.userId, userId));
+          await tx.delete(questGroups).where(eq(questGroups.userId, userId));
+          await tx.delete(notes).where(eq(notes.userId, userId));
+          await tx.delete(shopRewards).where(eq(shopRewards.userId, userId));
+          if (rows.restoreBalances) {
+            await tx.delete(rewardLedger).where(eq(rewardLedger.userId, userId));
+            await tx.delete(rewardPurchases).where(eq(rewardPurchases.userId, userId));
+            await tx.delete(attributeDefinitions).where(eq(attributeDefinitions.userId, userId));
+          }
+        }
+
+        // Parents before children, for the foreign keys
+        if (rows.questGroups.length > 0) await tx.insert(questGroups).values(rows.questGroups);
+        if (rows.quests.length > 0) await tx.insert(quests).values(rows.quests);
+        if (rows.questProgress.length > 0) await tx.insert(questProgress).values(rows.questProgress);
+        if (rows.questProgressSteps.length > 0) await tx.insert(questProgressSteps).values(rows.questProgressSteps);
+        if (rows.questFailures.length > 0) await tx.insert(questFailures).values(rows.questFailures);
+        if (rows.notes.length > 0) await tx.insert(notes).values(rows.notes);
+        if (rows.shopRewards.length > 0) await tx.insert(shopRewards).values(rows.shopRewards);
+        // Attributes the user already has keep their own settings
+        if (rows.attributes.length > 0) await tx.insert(attributeDefinitions).values(rows.attributes).onConflictDoNothing();
+
+        if (mode === "replace" && rows.restoreBalances) {
+          if (rows.settings) {
+            await tx
+              .update(systemSettings)
+              .set({ ...rows.settings, updatedAt: new Date() })
+              .where(eq(systemSettings.userId, userId));
+          }
+
+          // The profile is whatever the restored ledger adds up to, as long as it keeps to the rules
+          const rules = await this.getProgressionRules(tx, userId);
+          const totals = replayLedger(rows.ledger, rules);
+          await tx.insert(rewardLedger).values(rows.ledger);
+          if (rows.rewardPurchases.length > 0) await tx.insert(rewardPurchases).values(rows.rewardPurchases);
+          await tx
+            .update(profile)
+            .set(profileUpdateFromTotals(totals, rules.levelCurve))
+            .where(eq(profile.id, currentProfile.id));
+        }
+      });
+    } catch (error) {
+      console.error('Error importing user data:', error);
+      throw error;
+    }
+  }
+
+  // Idempotency keys
+  async claimIdempotencyKey(userId: string, request: IdempotentRequest): Promise<IdempotencyKey | undefined> {
+    try {
+      const [claimed] = await this.db
+        .insert(idempotencyKeys)
+        .values({ ...request, userId })
+        .onConflictDoNothing()
+        .returning();
+      if (claimed) {
+        return undefined;
+      }
+
+      const [existing] = await this.db
+        .select()
+        .from(idempotencyKeys)
+        .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, request.key)));
+      return existing;
+    } catch (error) {
+      console.error('Error claiming idempotency key:', error);
+      throw error;
+    }
+  }
+
+  async saveIdempotentResponse(userId: string, key: string, statusCode: number, responseBody: unknown): Promise<void> {
+    try {
+      await this.db
+        .update(idempotencyKeys)
+        .set({ statusCode, responseBody })
+        .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+    } catch (error) {
+      console.error('Error saving idempotent response:', error);
+      throw error;
+    }
+  }
+
+  async releaseIdempotencyKey(userId: string, key: string): Promise<void> {
+    try {
+      await this.db
+        .delete(idempotencyKeys)
+        .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+    } catch (error) {
+      console.error('Error releasing idempotency key:', error);
+      throw error;
+    }
+  }
+
+  async deleteIdempotencyKeysBefore(cutoff: Date): Promise<number> {
+    try {
+      const deleted = await this.db
+        .delete(idempotencyKeys)
+        .where(lt(idempotencyKeys.createdAt, cutoff))
+        .returning({ id: idempotencyKeys.id });
+      return deleted.length;
+    } catch (error) {
+      console.error('Error deleting expired idempotency keys:', error);
+      throw error;
+    }
+  }
+
+  async archiveQuest(userId: string, questId: string, reason: string): Promise<QuestProgress> {
+    try {
+      const quest = await this.getQuest(userId, questId);
+      if (!quest) {
+        throw new Error('Quest not found');
+      }
+
+      // Only completed quests can be archived
+      const existingProgress = await this.getQuestProgress(userId, questId);
+      if (!existingProgress?.completed) {
+        throw new Error('Quest not completed');
+      }
+
+      const [archivedProgress] = await this.db
+        .update(questProgress)
+        .set({
+          isArchived: true,
+          archivedAt: new Date(),
+          archiveReason: reason,
+          canUndo: true
+        })
+        .where(eq(questProgress.id, existingProgress.id))
+        .returning();
+
+      return archivedProgress;
+    } catch (error) {
+      console.error('Error archiving quest:', error);
+      throw error;
+    }
+  }
+
+  async restoreQuestFromArchive(userId: string, questId: string): Promise<QuestProgress> {
+    try {
+      const existingProgress = await this.getQuestProgress(userId, questId);
+      if (!existingProgress) {
+        throw new Error('Quest progress not found');
+      }
+
+      const [restoredProgress] = await this.db
+        .update(questProgress)
+        .set({
+          isArchived: false,
+          archivedAt: null,
+          archiveReason: null,
+          canUndo: true
+        })
+        .where(eq(questProgress.id, existingProgress.id))
+        .returning();
+
+      if (!restoredProgress) {
+        throw new Error('Quest progress not found');
+      }
+
+      return restoredProgress;
+    } catch (error) {
+      console.error('Error restoring quest from archive:', error);
+      throw error;
+    }
+  }
+
+  async deleteArchivedQuest(userId: string, questId: string): Promise<boolean> {
+    try {
+      const quest = await this.getQuest(userId, questId);
+      if (!quest) {
+        throw new Error('Quest not found');
+      }
+
+      // Only allow deletion of archived quests
+      const existingProgress = await this.getQuestProgress(userId, questId);
+      if (!existingProgress?.isArchived) {
+        throw new Error('Quest not archived');
+      }
+
+      // Dropping just the progress row would reopen the quest and let its reward be earned again,
+      // so the quest goes with it. Its ledger entries stay.
+      return await this.deleteQuest(userId, questId);
+    } catch (error) {
+      console.error('Error deleting archived quest:', error);
+      throw error;
+    }
+  }
+
+  async undoQuestCompletion(userId: string, questId: string): Promise<QuestProgress> {
+    try {
+      // Get quest details first to validate it exists and get rewards to rollback
+      const quest = await this.getQuest(userId, questId);
+      if (!quest) {
+        throw new Error('Quest not found');
+      }
+
+      // Check if quest is actually completed (works for both active and archived quests)
+      const existingProgress = await this.getQuestProgress(userId, questId);
       if (!existingProgress || !existingProgress.completed) {
         throw new Error('Quest not completed');
       }
 
+      await this.getProfile(userId);
+
       // Use database transaction for atomic quest completion rollback
-      return await db.transaction(async (tx) => {
-        // Reset quest progress to incomplete and remove from archive
-        const [progressResult] = await tx
-          .update(questProgress)
-          .set({
-            progress: 0,
-            completed: false,
-            completedAt: null,
-            isArchived: false,
-            archivedAt: null,
-            archiveReason: null
-          })
-          .where(eq(questProgress.questId, questId))
-          .returning();
+      return await this.db.transaction(async (tx) => {
+        return await this.reopenCompletedQuest(tx, userId, quest, existingProgress);
+      });
+    } catch (error) {
+      console.error('Error undoing quest completion:', error);
+      throw error;
+    }
+  }
 
-        // Rollback profile XP from cumulative XP (not current XP)
-        const currentProfile = await tx.select().from(profile).limit(1);
-        if (currentProfile.length > 0) {
-          const currentCumulativeXP = currentProfile[0].cumulativeXp || 0;
-          const newCumulativeXP = Math.max(0, currentCumulativeXP - (quest.xpReward || 0));
-          
-          // Update profile with reduced cumulative XP
-          const updates: any = {
-            cumulativeXp: newCumulativeXP
-          };
-          
-          // Rollback attribute points if they were awarded
-          if (quest.attributePointReward && quest.attributePointReward > 0) {
-            if (quest.targetAttribute) {
-              // Whitelist allowed attributes to prevent SQL injection
-              const allowedAttributes = ['physique', 'mental', 'success', 'social', 'skills'];
-              if (!allowedAttributes.includes(quest.targetAttribute)) {
-                throw new Error(`Invalid target attribute: ${quest.targetAttribute}`);
-              }
-              
-              // Rollback from specific attribute safely
-              const currentAttributes = currentProfile[0].attributes || {};
-              const attributeValue = (currentAttributes as any)[quest.targetAttribute] || 0;
-              const newAttributeValue = Math.max(0, attributeValue - quest.attributePointReward);
-              
-              // Update attributes object safely without raw SQL
-              const updatedAttributes = {
-                ...currentAttributes,
-                [quest.targetAttribute]: newAttributeValue
-              };
-              updates.attributes = updatedAttributes;
-            } else {
-              // Rollback from available points
-              const currentAvailable = currentProfile[0].availablePoints || 0;
-              updates.availablePoints = Math.max(0, currentAvailable - quest.attributePointReward);
+  // Runs for every user; each quest uses its owner's settings
+  async resetRecurringQuests(now: Date): Promise<number> {
+    try {
+      const recurringQuests = await this.db
+        .select()
+        .from(quests)
+        .where(and(
+          eq(quests.enableRecurring, true),
+          ne(quests.repetitionFrequency, 'none'),
+          isNotNull(quests.userId)
+        ));
+
+      let reopened = 0;
+      for (const quest of recurringQuests) {
+        if (quest.isActive === false) {
+          continue;
+        }
+
+        const period = await this.getCurrentPeriod(quest, now);
+
+        await this.db.transaction(async (tx) => {
+          // Completions from earlier periods stay as read-only history
+          await tx
+            .update(questProgress)
+            .set({
+              isArchived: true,
+              archivedAt: sql`COALESCE(${questProgress.archivedAt}, ${now.toISOString()}::timestamp)`,
+              archiveReason: sql`COALESCE(${questProgress.archiveReason}, 'Recurring period ended')`,
+              canUndo: false
+            })
+            .where(and(
+              eq(questProgress.questId, quest.id),
+              ne(questProgress.periodKey, period.key),
+              eq(questProgress.completed, true),
+              eq(questProgress.canUndo, true)
+            ));
+
+          // Unfinished progress does not carry over into the next period
+          await tx
+            .delete(questProgress)
+            .where(and(
+              eq(questProgress.questId, quest.id),
+              ne(questProgress.periodKey, period.key),
+              eq(questProgress.completed, false)
+            ));
+
+          const inserted = await tx
+            .insert(questProgress)
+            .values({ userId: quest.userId, questId: quest.id, periodKey: period.key })
+            .onConflictDoNothing()
+            .returning({ id: questProgress.id });
+
+          reopened += inserted.length;
+        });
+      }
+
+      return reopened;
+    } catch (error) {
+      console.error('Error resetting recurring quests:', error);
+      throw error;
+    }
+  }
+
+  // Deadlines
+  async getAllQuestFailures(userId: string): Promise<QuestFailure[]> {
+    try {
+      return await this.db
+        .select()
+        .from(questFailures)
+        .where(eq(questFailures.userId, userId))
+        .orderBy(desc(questFailures.createdAt));
+    } catch (error) {
+      console.error('Error getting quest failures:', error);
+      throw error;
+    }
+  }
+
+  // Runs for every user; penalties land on the quest owner's profile
+  async processExpiredDeadlines(now: Date): Promise<QuestFailure[]> {
+    try {
+      const overdueQuests = await this.db
+        .select()
+        .from(quests)
+        .where(and(
+          eq(quests.enableDeadline, true),
+          lt(quests.deadline, now),
+          isNotNull(quests.userId)
+        ));
+
+      const failures: QuestFailure[] = [];
+      for (const quest of overdueQuests) {
+        if (quest.isActive === false || !quest.deadline) {
+          continue;
+        }
+
+        // A quest that cannot be failed (e.g. it targets an unknown attribute) must not hold up the rest
+        try {
+          const userId = quest.userId!;
+          const periodKey = (await this.getCurrentPeriod(quest, now)).key;
+          const currentProgress = await this.db
+            .select()
+            .from(questProgress)
+            .where(and(eq(questProgress.questId, quest.id), eq(questProgress.periodKey, periodKey)));
+          if (currentProgress[0]?.completed) {
+            continue;
+          }
+
+          await this.getProfile(userId);
+
+          const failure = await this.db.transaction(async (tx) => {
+            // The (questId, deadline) unique key makes this the single point
+            // where a missed deadline is recorded and penalised
+            const [newFailure] = await tx
+              .insert(questFailures)
+              .values({
+                userId,
+                questId: quest.id,
+                deadline: quest.deadline!,
+                penaltyXP: quest.enablePenalty ? quest.penaltyXP || 0 : 0,
+                penaltyAttributePoints: quest.enablePenalty ? quest.penaltyAttributePoints || 0 : 0,
+                targetAttribute: quest.targetAttribute,
+              })
+              .onConflictDoNothing()
+              .returning();
+
+            if (!newFailure) {
+              return undefined;
             }
+
+            await tx
+              .insert(questProgress)
+              .values({ userId, questId: quest.id, periodKey, failed: true, failedAt: now })
+              .onConflictDoUpdate({
+                target: [questProgress.questId, questProgress.periodKey],
+                set: { failed: true, failedAt: now }
+              });
+
+            if ((newFailure.penaltyXP || 0) > 0 || (newFailure.penaltyAttributePoints || 0) > 0) {
+              await this.appendLedgerEntry(tx, userId, "deadline_penalty", (_totals, rules) => penaltyDeltas(newFailure, rules), {
+                questId: quest.id,
+                note: "Missed deadline",
+              });
+            }
+
+            return newFailure;
+          });
+
+          if (failure) {
+            failures.push(failure);
           }
-          
-          await tx.update(profile).set(updates);
+        } catch (error) {
+          console.error(`Error failing quest ${quest.id}:`, error);
         }
+      }
 
-        return progressResult;
-      });
+      return failures;
     } catch (error) {
-      console.error('Error undoing quest completion:', error);
+      console.error('Error processing expired deadlines:', error);
       throw error;
     }
   }
+
+  /**
+   * Record a ledger entry and apply it to the profile in the same transaction.
+   * Deltas are computed against the locked profile row and clamped at zero;
+   * the entry stores what was actually applied so the ledger always sums to the profile.
+   */
+  private async appendLedgerEntry(
+    tx: Transaction,
+    userId: string,
+    source: LedgerSource,
+    computeDeltas: (totals: ProfileTotals, rules: ProgressionRules) => LedgerDeltas,
+    refs: Pick<InsertLedgerEntry, "questId" | "progressId" | "reversesEntryId" | "note"> = {},
+  ): Promise<{ profile: Profile; entry: LedgerEntry }> {
+    const [currentProfile] = await tx.select().from(profile).where(eq(profile.userId, userId)).for("update");
+    if (!currentProfile) {
+      throw new Error('Profile not found');
+    }
+
+    // Profiles created before the ledger existed start with an opening balance
+    const [firstEntry] = await tx
+      .select({ id: rewardLedger.id })
+      .from(rewardLedger)
+      .where(eq(rewardLedger.userId, userId))
+      .limit(1);
+    if (!firstEntry) {
+      await tx.insert(rewardLedger).values({
+        userId,
+        source: "opening_balance",
+        ...diffTotals(emptyTotals(), profileTotals(currentProfile)),
+      });
+    }
+
+    const rules = await this.getProgressionRules(tx, userId);
+    const { totals, applied } = applyDeltas(profileTotals(currentProfile), computeDeltas(profileTotals(currentProfile), rules), rules);
+
+    const [entry] = await tx
+      .insert(rewardLedger)
+      .values({ userId, source, ...refs, ...applied })
+      .returning();
+
+    const [updatedProfile] = await tx
+      .update(profile)
+      .set(profileUpdateFromTotals(totals, rules.levelCurve))
+      .where(eq(profile.id, currentProfile.id))
+      .returning();
+
+    return { profile: updatedProfile, entry };
+  }
+
+  // The quest's progress row for the period, created if missing and locked for update
+  private async lockCurrentProgress(tx: Transaction, userId: string, quest: Quest, periodKey: string): Promise<QuestProgress> {
+    await tx
+      .insert(questProgress)
+      .values({ userId, questId: quest.id, periodKey })
+      .onConflictDoNothing();
+
+    const [currentProgress] = await tx
+      .select()
+      .from(questProgress)
+      .where(and(eq(questProgress.questId, quest.id), eq(questProgress.periodKey, periodKey)))
+      .for("update");
+    return currentProgress;
+  }
+
+  /**
+   * Add a step to a locked, incomplete progress row. Progress is capped at
+   * maxProgress; reaching it completes the quest and grants the reward.
+   */
+  private async logProgressStep(tx: Transaction, userId: string, quest: Quest, currentProgress: QuestProgress, step: QuestProgressStepInput): Promise<QuestProgress> {
+    const maxProgress = quest.maxProgress || 1;
+    const previous = currentProgress.progress || 0;
+    const progress = Math.min(maxProgress, previous + step.delta);
+    const justCompleted = progress >= maxProgress;
+
+    if (progress > previous) {
+      await tx.insert(questProgressSteps).values({
+        userId,
+        progressId: currentProgress.id,
+        questId: quest.id,
+        delta: progress - previous,
+        note: step.note,
+        loggedAt: step.loggedAt,
+      });
+    }
+
+    const [updatedProgress] = await tx
+      .update(questProgress)
+      .set({
+        progress,
+        ...(justCompleted ? { completed: true, completedAt: new Date() } : {})
+      })
+      .where(eq(questProgress.id, currentProgress.id))
+      .returning();
+
+    if (justCompleted) {
+      // Award XP and attribute points for the newly completed period, XP multiplied by the streak it extends
+      const streak = await this.getQuestStreak(tx, userId, quest);
+      await this.appendLedgerEntry(tx, userId, "quest_completion", (totals, rules) => (
+        questRewardDeltas(quest, totals, rules, streakMultiplier(streak, rules.streakMilestones))
+      ), {
+        questId: quest.id,
+        progressId: currentProgress.id,
+      });
+    }
+
+    return updatedProgress;
+  }
+
+  // Cancel and undo both reopen the quest for its period (out of the archive) and take back the reward
+  private async reopenCompletedQuest(tx: Transaction, userId: string, quest: Quest, progress: QuestProgress): Promise<QuestProgress> {
+    const [progressResult] = await tx
+      .update(questProgress)
+      .set({
+        progress: 0,
+        completed: false,
+        completedAt: null,
+        isArchived: false,
+        archivedAt: null,
+        archiveReason: null
+      })
+      .where(eq(questProgress.id, progress.id))
+      .returning();
+
+    await tx.delete(questProgressSteps).where(eq(questProgressSteps.progressId, progress.id));
+    await this.reverseQuestCompletion(tx, userId, quest, progress);
+
+    return progressResult;
+  }
+
+  // Gives back exactly what the completion granted
+  private async reverseQuestCompletion(tx: Transaction, userId: string, quest: Quest, progress: QuestProgress): Promise<void> {
+    const [grant] = await tx
+      .select()
+      .from(rewardLedger)
+      .where(and(eq(rewardLedger.progressId, progress.id), eq(rewardLedger.source, "quest_completion")))
+      .orderBy(desc(rewardLedger.createdAt))
+      .limit(1);
+
+    // Completed without a grant (imported, or before the ledger existed): nothing to give back
+    if (!grant) {
+      return;
+    }
+
+    const [existingReversal] = await tx
+      .select({ id: rewardLedger.id })
+      .from(rewardLedger)
+      .where(eq(rewardLedger.reversesEntryId, grant.id))
+      .limit(1);
+    if (existingReversal) {
+      return;
+    }
+
+    await this.appendLedgerEntry(tx, userId, "quest_reversal", () => reversalDeltas(grant), {
+      questId: quest.id,
+      progressId: progress.id,
+      reversesEntryId: grant.id,
+    });
+  }
+
+  // Rows written before multi-user support have no owner
+  private async claimUnownedData(tx: Transaction, userId: string): Promise<void> {
+    await tx.update(profile).set({ userId }).where(isNull(profile.userId));
+    await tx.update(questGroups).set({ userId }).where(isNull(questGroups.userId));
+    await tx.update(quests).set({ userId }).where(isNull(quests.userId));
+    await tx.update(questProgress).set({ userId }).where(isNull(questProgress.userId));
+    await tx.update(questFailures).set({ userId }).where(isNull(questFailures.userId));
+    await tx.update(rewardLedger).set({ userId }).where(isNull(rewardLedger.userId));
+    await tx.update(notes).set({ userId }).where(isNull(notes.userId));
+    await tx.update(systemSettings).set({ userId }).where(isNull(systemSettings.userId));
+  }
+
+  // Locks the profile first so concurrent allocations see each other's entries
+  private async getAllocatedAttributes(tx: Transaction, userId: string): Promise<Record<string, number>> {
+    await tx.select({ id: profile.id }).from(profile).where(eq(profile.userId, userId)).for("update");
+
+    const entries = await tx
+      .select({ source: rewardLedger.source, attributeDeltas: rewardLedger.attributeDeltas, createdAt: rewardLedger.createdAt })
+      .from(rewardLedger)
+      .where(and(
+        eq(rewardLedger.userId, userId),
+        inArray(rewardLedger.source, ["attribute_allocation", "respec", "attribute_migration"])
+      ))
+      .orderBy(rewardLedger.createdAt);
+    return allocatedAttributes(entries);
+  }
+
+  private async getProgressionRules(tx: Transaction, userId: string): Promise<ProgressionRules> {
+    const [settings] = await tx.select().from(systemSettings).where(eq(systemSettings.userId, userId));
+    const attributes = await tx.select().from(attributeDefinitions).where(eq(attributeDefinitions.userId, userId));
+    return progressionRules(settings, attributes);
+  }
+
+  // The quest's current streak, counting the period completed within this transaction
+  private async getQuestStreak(tx: Transaction, userId: string, quest: Quest, now: Date = new Date()): Promise<number> {
+    const [settings] = await tx.select().from(systemSettings).where(eq(systemSettings.userId, userId));
+    const [userProfile] = await tx.select().from(profile).where(eq(profile.userId, userId));
+    const completed = await tx
+      .select({ periodKey: questProgress.periodKey })
+      .from(questProgress)
+      .where(and(eq(questProgress.questId, quest.id), eq(questProgress.completed, true)));
+    const frozen = await tx
+      .select({ periodKey: streakFreezes.periodKey })
+      .from(streakFreezes)
+      .where(and(eq(streakFreezes.userId, userId), eq(streakFreezes.questId, quest.id)));
+
+    return questStreak(
+      quest,
+      settings?.questResetInterval ?? 24,
+      new Set(completed.map((row) => row.periodKey)),
+      new Set(frozen.map((row) => row.periodKey)),
+      now,
+      dayClock(userProfile),
+    ).current;
+  }
+
+  private async getCurrentPeriod(quest: Quest, now: Date = new Date()) {
+    const settings = await this.getSystemSettings(quest.userId!);
+    const userProfile = await this.getProfile(quest.userId!);
+    const period = getQuestPeriod(quest, settings.questResetInterval ?? 24, now, dayClock(userProfile));
+    // Only progress made within the period can carry its key over (see carriedPeriod)
+    const madeAt = sql`coalesce(${questProgress.completedAt}, ${questProgress.createdAt})`;
+    const progress = await this.db
+      .select()
+      .from(questProgress)
+      .where(and(eq(questProgress.questId, quest.id), gte(madeAt, period.start), lt(madeAt, period.end)));
+    return carriedPeriod(period, progress);
+  }
+
+  private async getCurrentPeriodKey(quest: Quest, now: Date = new Date()): Promise<string> {
+    return (await this.getCurrentPeriod(quest, now)).key;
+  }
+}
+
+// STORAGE_DRIVER=memory keeps all data in process memory (tests, development without Postgres)
+function createStorage(): IStorage {
+  return process.env.STORAGE_DRIVER === "memory" ? new MemStorage() : new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage: IStorage = createStorage();
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LedgerEntry, Quest } from "@shared/schema";
+import { MemStorage } from "./mem-storage";
+import { getQuestPeriod } from "./recurring";
+import { completionTimes, dailyStreak, dayPeriod, freezeMissedStreaks, getStreakSummary, questStreak } from "./streaks";
+
+const now = new Date("2026-03-10T12:00:00Z");
+
+function daysAgo(days: number, hour = 9): Date {
+  return new Date(Date.UTC(2026, 2, 10 - days, hour));
+}
+
+function dayKeys(...days: number[]): Set<string> {
+  return new Set(days.map((days) => dayPeriod(daysAgo(days)).key));
+}
+
+function entry(id: string, source: string, fields: Partial<LedgerEntry> = {}): LedgerEntry {
+  return { id, source, reversesEntryId: null, createdAt: now, ...fields } as LedgerEntry;
+}
+
+// Weekly quest created eight weeks before `now` (a Tuesday); weeks start on Monday
+const weekly = {
+  id: "q1",
+  enableRecurring: true,
+  repetitionFrequency: "weekly",
+  createdAt: new Date("2026-01-13T00:00:00Z"),
+} as Quest;
+
+function weekKey(date: string): string {
+  return getQuestPeriod(weekly, 24, new Date(date)).key;
+}
+
+describe("completionTimes", () => {
+  it("skips completions that were reversed", () => {
+    const times = completionTimes([
+      entry("a", "quest_completion", { createdAt: daysAgo(2) }),
+      entry("b", "quest_completion", { createdAt: daysAgo(1) }),
+      entry("c", "quest_reversal", { reversesEntryId: "b" }),
+      entry("d", "deadline_penalty"),
+    ]);
+
+    expect(times).toEqual([daysAgo(2)]);
+  });
+});
+
+describe("dailyStreak", () => {
+  it("counts consecutive days up to today", () => {
+    const times = [daysAgo(0), daysAgo(1), daysAgo(1, 20), daysAgo(2), daysAgo(4), daysAgo(5), daysAgo(6), daysAgo(7)];
+    expect(dailyStreak(times, new Set(), now)).toEqual({ current: 3, best: 4 });
+  });
+
+  it("keeps yesterday's streak alive until today is over", () => {
+    expect(dailyStreak([daysAgo(1), daysAgo(2)], new Set(), now).current).toBe(2);
+    expect(dailyStreak([daysAgo(2), daysAgo(3)], new Set(), now).current).toBe(0);
+  });
+
+  it("bridges frozen days without counting them", () => {
+    expect(dailyStreak([daysAgo(0), daysAgo(2), daysAgo(3)], dayKeys(1), now)).toEqual({ current: 3, best: 3 });
+  });
+});
+
+describe("questStreak", () => {
+  it("has no streak for one-off quests", () => {
+    const once = { ...weekly, enableRecurring: false } as Quest;
+    expect(questStreak(once, 24, new Set(["once"]), new Set(), now)).toEqual({ current: 0, best: 0 });
+  });
+
+  it("breaks when a period is missed", () => {
+    // Completed the three weeks before this one, missed the two weeks before those
+    const completed = new Set([weekKey("2026-02-17"), weekKey("2026-02-24"), weekKey("2026-03-03"), weekKey("2026-01-20"), weekKey("2026-01-27")]);
+
+    expect(questStreak(weekly, 24, completed, new Set(), now)).toEqual({ current: 3, best: 3 });
+
+    completed.add(weekKey(now.toISOString()));
+    expect(questStreak(weekly, 24, completed, new Set(), now)).toEqual({ current: 4, best: 4 });
+
+    // Freezing the missed weeks joins both runs
+    const frozen = new Set([weekKey("2026-02-03"), weekKey("2026-02-10")]);
+    expect(questStreak(weekly, 24, completed, frozen, now)).toEqual({ current: 6, best: 6 });
+  });
+});
+
+describe("user days", () => {
+  const berlin = { timezone: "Europe/Berlin", dayStartHour: 4 };
+  const daily = { ...weekly, repetitionFrequency: "daily" } as Quest;
+
+  it("rolls periods over at the user's day start", () => {
+    // 02:00 in Berlin is still the 9th; 05:00 starts the 10th
+    const night = getQuestPeriod(daily, 24, new Date("2026-03-10T01:00:00Z"), berlin);
+    expect(night.start.toISOString()).toBe("2026-03-09T03:00:00.000Z");
+    expect(night.end.toISOString()).toBe("2026-03-10T03:00:00.000Z");
+    expect(getQuestPeriod(daily, 24, new Date("2026-03-10T04:00:00Z"), berlin).key).not.toBe(night.key);
+
+    // Twelve-hour intervals split the user's day
+    expect(getQuestPeriod(daily, 12, new Date("2026-03-10T16:00:00Z"), berlin).start.toISOString()).toBe("2026-03-10T15:00:00.000Z");
+    expect(getQuestPeriod(weekly, 24, new Date("2026-03-09T02:00:00Z"), berlin).key).toBe("weekly:2026-03-02");
+  });
+
+  it("keeps UTC period keys for profiles in UTC", () => {
+    expect(getQuestPeriod(daily, 24, now).key).toBe("daily:2026-03-10T00");
+    expect(getQuestPeriod(daily, 6, now).key).toBe("daily:2026-03-10T12");
+    expect(weekKey(now.toISOString())).toBe("weekly:2026-03-09");
+  });
+
+  it("counts daily streaks in the user's days", () => {
+    // 23:30 UTC is already tomorrow in Tokyo
+    const times = [new Date("2026-03-08T23:30:00Z"), new Date("2026-03-10T09:00:00Z")];
+    expect(dailyStreak(times, new Set(), now).current).toBe(1);
+    expect(dailyStreak(times, new Set(), now, { timezone: "Asia/Tokyo", dayStartHour: 0 }).current).toBe(2);
+  });
+});
+
+describe("freezeMissedStreaks", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("spends a token on a missed period and keeps the streak going", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const storage = new MemStorage();
+    const userId = (await storage.getOrCreateUser({ telegramId: "42" })).id;
+    await storage.updateProfile(userId, { freezeTokens: 1 });
+
+    vi.setSystemTime(daysAgo(3));
+    const quest = await storage.createQuest(userId, { title: "Read", enableRecurring: true, repetitionFrequency: "daily" });
+    for (const days of [3, 2]) {
+      vi.setSystemTime(daysAgo(days));
+      await storage.completeQuest(userId, quest.id);
+    }
+
+    // Yesterday was missed by both the quest and the daily streak, but there is only one token
+    vi.setSystemTime(now);
+    expect(await freezeMissedStreaks(storage, now)).toEqual([userId]);
+    expect(await freezeMissedStreaks(storage, now)).toEqual([]);
+
+    const summary = await getStreakSummary(storage, userId, now);
+    expect(summary.freezeTokens).toBe(0);
+    expect(summary.daily).toEqual({ current: 2, best: 2 });
+    expect(summary.quests[0]).toMatchObject({ current: 0, best: 2 });
+  });
+});
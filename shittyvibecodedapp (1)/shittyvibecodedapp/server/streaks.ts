@@ -0,0 +1,197 @@
+import type { LedgerEntry, Quest, QuestProgress, StreakFreeze } from "@shared/schema";
+import { streakMultiplier, type Streak, type StreakSummary } from "@shared/streaks";
+import { UTC_CLOCK, addDays, dayClock, dayStartTime, userDate, type DayClock } from "@shared/timezone";
+import { getQuestPeriod, isRecurringQuest, type QuestPeriod } from "./recurring";
+import type { IStorage } from "./storage";
+
+type StreakQuest = Pick<Quest, "id" | "enableRecurring" | "repetitionFrequency" | "createdAt">;
+
+/**
+ * Walk back one period at a time from `from`. Completed periods extend the run,
+ * frozen ones keep it going without adding to it, and anything else breaks it.
+ * `current` is the run ending at `from`; `best` is the longest run back to `since`.
+ */
+export function countStreak(
+  from: QuestPeriod,
+  previous: (period: QuestPeriod) => QuestPeriod,
+  completed: Set<string>,
+  frozen: Set<string>,
+  since: Date,
+): Streak {
+  let current: number | null = null;
+  let best = 0;
+  let run = 0;
+
+  for (let period = from; period.end.getTime() > since.getTime(); period = previous(period)) {
+    if (completed.has(period.key)) {
+      run++;
+    } else if (!frozen.has(period.key)) {
+      current ??= run;
+      best = Math.max(best, run);
+      run = 0;
+    }
+  }
+
+  return { current: current ?? run, best: Math.max(best, run) };
+}
+
+// Streaks are counted up to now; the open period only counts once it is completed
+function streakUpTo(
+  now: QuestPeriod,
+  previous: (period: QuestPeriod) => QuestPeriod,
+  completed: Set<string>,
+  frozen: Set<string>,
+  since: Date,
+): Streak {
+  const from = completed.has(now.key) ? now : previous(now);
+  const streak = countStreak(from, previous, completed, frozen, since);
+  return { current: streak.current, best: Math.max(streak.best, streak.current) };
+}
+
+export function previousQuestPeriod(quest: StreakQuest, resetIntervalHours: number, period: QuestPeriod, clock: DayClock = UTC_CLOCK): QuestPeriod {
+  return getQuestPeriod(quest, resetIntervalHours, new Date(period.start.getTime() - 1), clock);
+}
+
+// Completed periods of a recurring quest in a row; non-recurring quests have no streak
+export function questStreak(
+  quest: StreakQuest,
+  resetIntervalHours: number,
+  completed: Set<string>,
+  frozen: Set<string>,
+  now: Date,
+  clock: DayClock = UTC_CLOCK,
+): Streak {
+  if (!isRecurringQuest(quest)) {
+    return { current: 0, best: 0 };
+  }
+
+  return streakUpTo(
+    getQuestPeriod(quest, resetIntervalHours, now, clock),
+    (period) => previousQuestPeriod(quest, resetIntervalHours, period, clock),
+    completed,
+    frozen,
+    quest.createdAt ?? now,
+  );
+}
+
+// The user's days, keyed like the other periods
+export function dayPeriod(date: Date, clock: DayClock = UTC_CLOCK): QuestPeriod {
+  const day = userDate(date, clock);
+  return { key: `day:${day}`, start: dayStartTime(day, clock), end: dayStartTime(addDays(day, 1), clock) };
+}
+
+function previousDay(clock: DayClock): (period: QuestPeriod) => QuestPeriod {
+  return (period) => dayPeriod(new Date(period.start.getTime() - 1), clock);
+}
+
+// Completions on the ledger that were not undone or cancelled; the ledger keeps
+// them even after the quest itself is deleted
+export function completionEntries(entries: LedgerEntry[]): LedgerEntry[] {
+  const reversed = new Set(entries.map((entry) => entry.reversesEntryId));
+  return entries.filter((entry) => entry.source === "quest_completion" && !reversed.has(entry.id) && entry.createdAt);
+}
+
+export function completionTimes(entries: LedgerEntry[]): Date[] {
+  return completionEntries(entries).map((entry) => entry.createdAt!);
+}
+
+function earliest(times: Date[], now: Date): Date {
+  return times.reduce((first, time) => (time < first ? time : first), now);
+}
+
+// Days in a row with at least one quest completed
+export function dailyStreak(times: Date[], frozen: Set<string>, now: Date, clock: DayClock = UTC_CLOCK): Streak {
+  const days = new Set(times.map((time) => dayPeriod(time, clock).key));
+  return streakUpTo(dayPeriod(now, clock), previousDay(clock), days, frozen, earliest(times, now));
+}
+
+function completedPeriods(progress: QuestProgress[], questId: string): Set<string> {
+  return new Set(progress.filter((row) => row.questId === questId && row.completed).map((row) => row.periodKey));
+}
+
+function frozenPeriods(freezes: StreakFreeze[], questId: string | null): Set<string> {
+  return new Set(freezes.filter((freeze) => freeze.questId === questId).map((freeze) => freeze.periodKey));
+}
+
+export async function getStreakSummary(storage: IStorage, userId: string, now: Date = new Date()): Promise<StreakSummary> {
+  const profile = await storage.getProfile(userId);
+  const settings = await storage.getSystemSettings(userId);
+  const quests = await storage.getAllQuests(userId);
+  const progress = await storage.getAllQuestProgress(userId);
+  const freezes = await storage.getStreakFreezes(userId);
+  const entries = await storage.getLedgerEntries(userId);
+  const resetInterval = settings.questResetInterval ?? 24;
+  const clock = dayClock(profile);
+
+  return {
+    daily: dailyStreak(completionTimes(entries), frozenPeriods(freezes, null), now, clock),
+    quests: quests.filter(isRecurringQuest).map((quest) => {
+      const streak = questStreak(quest, resetInterval, completedPeriods(progress, quest.id), frozenPeriods(freezes, quest.id), now, clock);
+      // The next completion extends the streak unless this period is already done
+      const period = getQuestPeriod(quest, resetInterval, now, clock);
+      const next = completedPeriods(progress, quest.id).has(period.key) ? streak.current : streak.current + 1;
+      return { questId: quest.id, ...streak, multiplier: streakMultiplier(next, settings.streakMilestones) };
+    }),
+    freezeTokens: profile.freezeTokens,
+    milestones: settings.streakMilestones,
+  };
+}
+
+/**
+ * Spend freeze tokens on periods that just ended without a completion, while the
+ * streak before them is still alive. Runs from the scheduler; a period is only
+ * frozen once, so running it again is a no-op. Returns the users whose streaks were kept.
+ */
+export async function freezeMissedStreaks(storage: IStorage, now: Date = new Date()): Promise<string[]> {
+  const kept: string[] = [];
+
+  for (const user of await storage.getAllUsers()) {
+    const profile = await storage.getProfile(user.id);
+    if (profile.freezeTokens <= 0) {
+      continue;
+    }
+
+    const settings = await storage.getSystemSettings(user.id);
+    const quests = await storage.getAllQuests(user.id);
+    const progress = await storage.getAllQuestProgress(user.id);
+    const freezes = await storage.getStreakFreezes(user.id);
+    const entries = await storage.getLedgerEntries(user.id);
+    const resetInterval = settings.questResetInterval ?? 24;
+    const clock = dayClock(profile);
+
+    // Periods that ended just before the current one without a completion
+    const missed: { questId: string | null; periodKey: string }[] = [];
+
+    const times = completionTimes(entries);
+    const days = new Set(times.map((time) => dayPeriod(time, clock).key));
+    const previousUserDay = previousDay(clock);
+    const yesterday = previousUserDay(dayPeriod(now, clock));
+    const dailyFrozen = frozenPeriods(freezes, null);
+    if (!days.has(yesterday.key) && !dailyFrozen.has(yesterday.key)
+      && countStreak(previousUserDay(yesterday), previousUserDay, days, dailyFrozen, earliest(times, now)).current > 0) {
+      missed.push({ questId: null, periodKey: yesterday.key });
+    }
+
+    for (const quest of quests.filter((quest) => quest.isActive && isRecurringQuest(quest))) {
+      const previous = (period: QuestPeriod) => previousQuestPeriod(quest, resetInterval, period, clock);
+      const lastPeriod = previous(getQuestPeriod(quest, resetInterval, now, clock));
+      const completed = completedPeriods(progress, quest.id);
+      const frozen = frozenPeriods(freezes, quest.id);
+      if (!completed.has(lastPeriod.key) && !frozen.has(lastPeriod.key)
+        && countStreak(previous(lastPeriod), previous, completed, frozen, quest.createdAt ?? now).current > 0) {
+        missed.push({ questId: quest.id, periodKey: lastPeriod.key });
+      }
+    }
+
+    for (const { questId, periodKey } of missed) {
+      if (!await storage.useStreakFreeze(user.id, questId, periodKey)) {
+        break;
+      }
+      if (!kept.includes(user.id)) {
+        kept.push(user.id);
+      }
+    }
+  }
+
+  return kept;
+}
@@ -0,0 +1,25 @@
+import type { Request, Response, NextFunction } from "express";
+import type { z } from "zod";
+import { toFieldErrors, type ValidationErrorResponse } from "@shared/validation";
+
+export function sendValidationError(res: Response, message: string, error: z.ZodError) {
+  const body: ValidationErrorResponse = { message, errors: toFieldErrors(error) };
+  return res.status(400).json(body);
+}
+
+/**
+ * Parse the request body with `schema` before the handler runs. Invalid bodies get a
+ * 400 with per-field errors; valid ones replace `req.body` with the parsed value, so
+ * unknown fields never reach storage.
+ */
+export function validateBody(schema: z.ZodTypeAny, message: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return sendValidationError(res, message, result.error);
+    }
+
+    req.body = result.data;
+    next();
+  };
+}
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+// What an achievement measures and the value that unlocks it
+export const achievementRuleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("quests_completed"), count: z.number().int().min(1) }),
+  // Consecutive days with at least one quest completed
+  z.object({ type: z.literal("daily_streak"), days: z.number().int().min(1) }),
+  z.object({ type: z.literal("level"), level: z.number().int().min(1) }),
+  z.object({ type: z.literal("attribute"), attribute: z.string(), value: z.number().int().min(1) }),
+]);
+
+export type AchievementRule = z.infer<typeof achievementRuleSchema>;
+
+export interface AchievementDefinition {
+  // Stored with each unlock, so never rename one
+  id: string;
+  title: string;
+  description: string;
+  // Key into the client's icon map (client/src/lib/achievements.ts)
+  icon: string;
+  rule: AchievementRule;
+}
+
+/**
+ * Every achievement there is. The server checks them after each event that can
+ * move a rule forward (see server/achievements.ts); adding one here is enough,
+ * existing users unlock it the next time they are checked.
+ */
+export const ACHIEVEMENTS: readonly AchievementDefinition[] = [
+  { id: "quests-1", title: "First Steps", description: "Complete your first quest", icon: "target", rule: { type: "quests_completed", count: 1 } },
+  { id: "quests-10", title: "Adventurer", description: "Complete 10 quests", icon: "compass", rule: { type: "quests_completed", count: 10 } },
+  { id: "quests-50", title: "Quest Master", description: "Complete 50 quests", icon: "award", rule: { type: "quests_completed", count: 50 } },
+  { id: "quests-250", title: "Legend", description: "Complete 250 quests", icon: "crown", rule: { type: "quests_completed", count: 250 } },
+  { id: "streak-3", title: "On a Roll", description: "Complete quests 3 days in a row", icon: "flame", rule: { type: "daily_streak", days: 3 } },
+  { id: "streak-7", title: "Week Warrior", description: "Complete quests 7 days in a row", icon: "flame", rule: { type: "daily_streak", days: 7 } },
+  { id: "streak-30", title: "Unstoppable", description: "Complete quests 30 days in a row", icon: "flame", rule: { type: "daily_streak", days: 30 } },
+  { id: "level-5", title: "Rising Star", description: "Reach level 5", icon: "trending-up", rule: { type: "level", level: 5 } },
+  { id: "level-10", title: "Veteran", description: "Reach level 10", icon: "star", rule: { type: "level", level: 10 } },
+  { id: "level-25", title: "Elite", description: "Reach level 25", icon: "trophy", rule: { type: "level", level: 25 } },
+  { id: "physique-25", title: "Iron Body", description: "Raise physique to 25", icon: "dumbbell", rule: { type: "attribute", attribute: "physique", value: 25 } },
+  { id: "mental-25", title: "Sharp Mind", description: "Raise mental to 25", icon: "brain", rule: { type: "attribute", attribute: "mental", value: 25 } },
+  { id: "success-25", title: "High Achiever", description: "Raise success to 25", icon: "trophy", rule: { type: "attribute", attribute: "success", value: 25 } },
+  { id: "social-25", title: "Social Butterfly", description: "Raise social to 25", icon: "users", rule: { type: "attribute", attribute: "social", value: 25 } },
+  { id: "skills-25", title: "Jack of All Trades", description: "Raise skills to 25", icon: "wrench", rule: { type: "attribute", attribute: "skills", value: 25 } },
+];
+
+// An achievement as the API returns it: progress is capped at target once unlocked
+export const achievementSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  icon: z.string(),
+  rule: achievementRuleSchema,
+  progress: z.number().int(),
+  target: z.number().int(),
+  unlockedAt: z.date().nullable(),
+});
+
+export type Achievement = z.infer<typeof achievementSchema>;
@@ -0,0 +1,332 @@
+import { z } from "zod";
+import {
+  adminPointsSchema, archiveQuestSchema, attributeAllocationSchema, insertNoteSchema, insertQuestGroupSchema, insertQuestSchema,
+  questProgressStepSchema, selectLedgerEntrySchema, selectNoteSchema, selectProfileSchema, selectQuestFailureSchema, selectQuestGroupSchema,
+  selectQuestProgressSchema, selectQuestProgressStepSchema, selectQuestSchema, selectSystemSettingsSchema, selectUserSchema,
+  updateNoteSchema, updateQuestGroupSchema, updateQuestSchema, updateSystemSettingsSchema, userRoleUpdateSchema,
+  insertShopRewardSchema, selectRewardPurchaseSchema, selectShopRewardSchema, updateShopRewardSchema,
+  insertAttributeDefinitionSchema, retireAttributeSchema, selectAttributeDefinitionSchema, updateAttributeDefinitionSchema,
+} from "./schema";
+import { achievementSchema } from "./achievements";
+import { freezeTokensUpdateSchema, streakSummarySchema } from "./streaks";
+import { backupSchema, importBackupSchema, importSummarySchema } from "./backup";
+import { historyQuerySchema, historySchema } from "./history";
+import { calendarDayDetailSchema, calendarQuerySchema, calendarSchema } from "./calendar";
+import { timezoneSettingsSchema } from "./timezone";
+
+/**
+ * The HTTP API as data. server/openapi.ts turns it into the OpenAPI document served at
+ * /api/openapi.json, and client/src/lib/api.ts derives the typed client and react-query
+ * hooks from it. server/routes.test.ts checks that every route here is registered.
+ */
+export interface ApiRouteDefinition {
+  method: "GET" | "POST" | "PATCH" | "DELETE";
+  // Express-style path; `:name` segments are path parameters
+  path: string;
+  summary: string;
+  tag: string;
+  adminOnly?: boolean;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  response: z.ZodTypeAny;
+}
+
+// Mutations sent with this header run at most once per user and key (see server/idempotency.ts)
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+export const successSchema = z.object({ success: z.literal(true) });
+
+export const errorResponseSchema = z.object({
+  message: z.string(),
+  // Present on validation errors, see shared/validation.ts
+  errors: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+const profileTotalsSchema = z.object({
+  xp: z.number().int(),
+  cumulativeXp: z.number().int(),
+  availablePoints: z.number().int(),
+  attributes: z.record(z.string(), z.number().int()),
+  gold: z.number().int(),
+});
+
+const ledgerDeltasSchema = z.object({
+  xpDelta: z.number().int(),
+  cumulativeXpDelta: z.number().int(),
+  availablePointsDelta: z.number().int(),
+  attributeDeltas: z.record(z.string(), z.number().int()),
+  goldDelta: z.number().int(),
+});
+
+// The purchase or refund with the profile's new gold balance
+const purchaseResultSchema = z.object({
+  purchase: selectRewardPurchaseSchema,
+  profile: selectProfileSchema,
+});
+
+// The retired attribute with the profile its points may have moved on
+const retireAttributeResultSchema = z.object({
+  attribute: selectAttributeDefinitionSchema,
+  profile: selectProfileSchema,
+});
+
+export const ledgerReconciliationSchema = z.object({
+  inSync: z.boolean(),
+  repaired: z.boolean(),
+  entries: z.number().int(),
+  profile: profileTotalsSchema,
+  ledger: profileTotalsSchema,
+  drift: ledgerDeltasSchema,
+});
+
+// Admin routes act on another user when one is given
+const adminTargetQuerySchema = z.object({ userId: z.string().optional() });
+
+export const apiRoutes = {
+  // Users
+  getMe: { method: "GET", path: "/api/me", summary: "The signed-in user", tag: "Users", response: selectUserSchema },
+  listUsers: { method: "GET", path: "/api/users", summary: "All users", tag: "Users", adminOnly: true, response: z.array(selectUserSchema) },
+  setUserRole: {
+    method: "PATCH", path: "/api/users/:id/role", summary: "Change a user's role", tag: "Users", adminOnly: true,
+    body: userRoleUpdateSchema, response: selectUserSchema,
+  },
+
+  // Profile
+  getProfile: { method: "GET", path: "/api/profile", summary: "The user's profile", tag: "Profile", response: selectProfileSchema },
+  allocateAttributes: {
+    method: "POST", path: "/api/profile/allocate", summary: "Spend or refund available points", tag: "Profile",
+    body: attributeAllocationSchema, response: selectProfileSchema,
+  },
+  respecAttributes: {
+    method: "POST", path: "/api/profile/respec", summary: "Refund every allocated point", tag: "Profile",
+    response: selectProfileSchema,
+  },
+  updateTimezone: {
+    method: "PATCH", path: "/api/profile/timezone", summary: "Set the time zone and the hour the user's days start", tag: "Profile",
+    body: timezoneSettingsSchema, response: selectProfileSchema,
+  },
+  setAvailablePoints: {
+    method: "PATCH", path: "/api/profile/admin-points", summary: "Set available points", tag: "Profile", adminOnly: true,
+    query: adminTargetQuerySchema, body: adminPointsSchema, response: selectProfileSchema,
+  },
+  setFreezeTokens: {
+    method: "PATCH", path: "/api/profile/freeze-tokens", summary: "Set the streak freeze tokens", tag: "Profile", adminOnly: true,
+    query: adminTargetQuerySchema, body: freezeTokensUpdateSchema, response: selectProfileSchema,
+  },
+
+  // Attributes
+  listAttributes: {
+    method: "GET", path: "/api/attributes", summary: "The user's attributes, retired ones included", tag: "Attributes",
+    response: z.array(selectAttributeDefinitionSchema),
+  },
+  createAttribute: {
+    method: "POST", path: "/api/attributes", summary: "Add an attribute", tag: "Attributes",
+    body: insertAttributeDefinitionSchema, response: selectAttributeDefinitionSchema,
+  },
+  updateAttribute: {
+    method: "PATCH", path: "/api/attributes/:key", summary: "Rename, restyle, reorder or recap an attribute", tag: "Attributes",
+    body: updateAttributeDefinitionSchema, response: selectAttributeDefinitionSchema,
+  },
+  retireAttribute: {
+    method: "POST", path: "/api/attributes/:key/retire", summary: "Retire an attribute, optionally moving its points and quests", tag: "Attributes",
+    body: retireAttributeSchema, response: retireAttributeResultSchema,
+  },
+  restoreAttribute: {
+    method: "POST", path: "/api/attributes/:key/restore", summary: "Bring a retired attribute back", tag: "Attributes",
+    response: selectAttributeDefinitionSchema,
+  },
+
+  // Reward ledger
+  listLedgerEntries: {
+    method: "GET", path: "/api/ledger", summary: "Reward ledger, newest first", tag: "Ledger",
+    response: z.array(selectLedgerEntrySchema),
+  },
+  checkLedger: {
+    method: "GET", path: "/api/ledger/reconcile", summary: "Compare the profile with the ledger", tag: "Ledger",
+    response: ledgerReconciliationSchema,
+  },
+  repairLedger: {
+    method: "POST", path: "/api/ledger/reconcile", summary: "Recompute the profile from the ledger", tag: "Ledger", adminOnly: true,
+    query: adminTargetQuerySchema, response: ledgerReconciliationSchema,
+  },
+
+  // Achievements
+  listAchievements: {
+    method: "GET", path: "/api/achievements", summary: "Every achievement with the user's progress and unlock time", tag: "Achievements",
+    response: z.array(achievementSchema),
+  },
+
+  // Streaks
+  getStreaks: {
+    method: "GET", path: "/api/streaks", summary: "Daily and per-quest streaks with the next completion's multiplier", tag: "Streaks",
+    response: streakSummarySchema,
+  },
+
+  // History
+  getHistory: {
+    method: "GET", path: "/api/history", summary: "XP, level, attributes and completions over time, replayed from the ledger", tag: "History",
+    query: historyQuerySchema, response: historySchema,
+  },
+
+  // Calendar
+  getCalendar: {
+    method: "GET", path: "/api/calendar", summary: "Completions, XP and deadlines per day in the user's time zone", tag: "Calendar",
+    query: calendarQuerySchema, response: calendarSchema,
+  },
+  getCalendarDay: {
+    method: "GET", path: "/api/calendar/:date", summary: "What was completed and what is due on one day", tag: "Calendar",
+    response: calendarDayDetailSchema,
+  },
+
+  // Quest groups
+  listQuestGroups: {
+    method: "GET", path: "/api/quest-groups", summary: "All quest groups", tag: "Quest groups",
+    response: z.array(selectQuestGroupSchema),
+  },
+  createQuestGroup: {
+    method: "POST", path: "/api/quest-groups", summary: "Create a quest group", tag: "Quest groups",
+    body: insertQuestGroupSchema, response: selectQuestGroupSchema,
+  },
+  updateQuestGroup: {
+    method: "PATCH", path: "/api/quest-groups/:id", summary: "Update a quest group", tag: "Quest groups",
+    body: updateQuestGroupSchema, response: selectQuestGroupSchema,
+  },
+  deleteQuestGroup: {
+    method: "DELETE", path: "/api/quest-groups/:id", summary: "Delete a quest group and its quests", tag: "Quest groups",
+    response: successSchema,
+  },
+
+  // Quests
+  listQuests: {
+    method: "GET", path: "/api/quests", summary: "All quests, optionally in one group", tag: "Quests",
+    query: z.object({ groupId: z.string().optional() }), response: z.array(selectQuestSchema),
+  },
+  createQuest: {
+    method: "POST", path: "/api/quests", summary: "Create a quest", tag: "Quests",
+    body: insertQuestSchema, response: selectQuestSchema,
+  },
+  updateQuest: {
+    method: "PATCH", path: "/api/quests/:id", summary: "Update a quest", tag: "Quests",
+    body: updateQuestSchema, response: selectQuestSchema,
+  },
+  deleteQuest: {
+    method: "DELETE", path: "/api/quests/:id", summary: "Delete a quest", tag: "Quests",
+    response: successSchema,
+  },
+
+  // Quest progress
+  listQuestProgress: {
+    method: "GET", path: "/api/quest-progress", summary: "Progress rows for every quest and period", tag: "Quest progress",
+    response: z.array(selectQuestProgressSchema),
+  },
+  listQuestFailures: {
+    method: "GET", path: "/api/quest-failures", summary: "Missed deadlines, newest first", tag: "Quest progress",
+    response: z.array(selectQuestFailureSchema),
+  },
+  completeQuest: {
+    method: "POST", path: "/api/quests/:questId/complete", summary: "Complete a quest for its current period", tag: "Quest progress",
+    response: selectQuestProgressSchema,
+  },
+  listQuestProgressSteps: {
+    method: "GET", path: "/api/quests/:questId/progress", summary: "Steps logged in the current period", tag: "Quest progress",
+    response: z.array(selectQuestProgressStepSchema),
+  },
+  addQuestProgress: {
+    method: "POST", path: "/api/quests/:questId/progress", summary: "Log a progress step", tag: "Quest progress",
+    body: questProgressStepSchema, response: selectQuestProgressSchema,
+  },
+  undoQuestProgressStep: {
+    method: "POST", path: "/api/quests/:questId/progress/undo", summary: "Remove the most recent step", tag: "Quest progress",
+    response: selectQuestProgressSchema,
+  },
+  cancelQuestCompletion: {
+    method: "POST", path: "/api/quests/:questId/cancel", summary: "Cancel a completion and reverse its reward", tag: "Quest progress",
+    response: selectQuestProgressSchema,
+  },
+  archiveQuest: {
+    method: "POST", path: "/api/quests/:questId/archive", summary: "Archive a completed quest", tag: "Quest progress",
+    body: archiveQuestSchema, response: selectQuestProgressSchema,
+  },
+  deleteArchivedQuest: {
+    method: "DELETE", path: "/api/quests/:questId/archive", summary: "Delete an archived quest", tag: "Quest progress",
+    response: successSchema,
+  },
+  undoQuestCompletion: {
+    method: "POST", path: "/api/quests/:questId/undo", summary: "Undo a completion, archived or not", tag: "Quest progress",
+    response: selectQuestProgressSchema,
+  },
+
+  // Notes
+  listNotes: { method: "GET", path: "/api/notes", summary: "All notes", tag: "Notes", response: z.array(selectNoteSchema) },
+  getNote: { method: "GET", path: "/api/notes/:id", summary: "One note", tag: "Notes", response: selectNoteSchema },
+  createNote: { method: "POST", path: "/api/notes", summary: "Create a note", tag: "Notes", body: insertNoteSchema, response: selectNoteSchema },
+  updateNote: { method: "PATCH", path: "/api/notes/:id", summary: "Update a note", tag: "Notes", body: updateNoteSchema, response: selectNoteSchema },
+  deleteNote: { method: "DELETE", path: "/api/notes/:id", summary: "Delete a note", tag: "Notes", response: successSchema },
+
+  // Shop
+  listShopRewards: { method: "GET", path: "/api/shop/rewards", summary: "The user's reward catalog", tag: "Shop", response: z.array(selectShopRewardSchema) },
+  createShopReward: {
+    method: "POST", path: "/api/shop/rewards", summary: "Add a reward to the catalog", tag: "Shop",
+    body: insertShopRewardSchema, response: selectShopRewardSchema,
+  },
+  updateShopReward: {
+    method: "PATCH", path: "/api/shop/rewards/:id", summary: "Update a reward", tag: "Shop",
+    body: updateShopRewardSchema, response: selectShopRewardSchema,
+  },
+  deleteShopReward: { method: "DELETE", path: "/api/shop/rewards/:id", summary: "Remove a reward from the catalog", tag: "Shop", response: successSchema },
+  purchaseShopReward: {
+    method: "POST", path: "/api/shop/rewards/:id/purchase", summary: "Buy a reward with gold", tag: "Shop",
+    response: purchaseResultSchema,
+  },
+  listRewardPurchases: {
+    method: "GET", path: "/api/shop/purchases", summary: "Purchase history, newest first", tag: "Shop",
+    response: z.array(selectRewardPurchaseSchema),
+  },
+  refundRewardPurchase: {
+    method: "POST", path: "/api/shop/purchases/:id/refund", summary: "Refund a purchase", tag: "Shop",
+    response: purchaseResultSchema,
+  },
+
+  // System settings
+  getSystemSettings: {
+    method: "GET", path: "/api/system-settings", summary: "The user's system settings", tag: "System settings",
+    response: selectSystemSettingsSchema,
+  },
+  updateSystemSettings: {
+    method: "PATCH", path: "/api/system-settings", summary: "Update system settings", tag: "System settings", adminOnly: true,
+    query: adminTargetQuerySchema, body: updateSystemSettingsSchema, response: selectSystemSettingsSchema,
+  },
+
+  // Backup
+  exportData: {
+    method: "GET", path: "/api/export", summary: "Everything the user owns as a versioned backup document", tag: "Backup",
+    response: backupSchema,
+  },
+  importData: {
+    method: "POST", path: "/api/import", summary: "Restore a backup, merged with or replacing the user's data", tag: "Backup",
+    body: importBackupSchema, response: importSummarySchema,
+  },
+} as const satisfies Record<string, ApiRouteDefinition>;
+
+export type ApiRoutes = typeof apiRoutes;
+export type ApiRouteName = keyof ApiRoutes;
+
+type PathParamNames<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}` ? Param | PathParamNames<`/${Rest}`>
+  : Path extends `${string}:${infer Param}` ? Param
+  : never;
+
+export type ApiPathParams<Name extends ApiRouteName> = { [Param in PathParamNames<ApiRoutes[Name]["path"]>]: string };
+export type ApiQuery<Name extends ApiRouteName> = ApiRoutes[Name] extends { query: z.ZodTypeAny } ? z.input<ApiRoutes[Name]["query"]> : never;
+export type ApiBody<Name extends ApiRouteName> = ApiRoutes[Name] extends { body: z.ZodTypeAny } ? z.input<ApiRoutes[Name]["body"]> : never;
+export type ApiResponse<Name extends ApiRouteName> = z.infer<ApiRoutes[Name]["response"]>;
+
+// Fill in `:name` path parameters
+export function apiPath(path: string, params: Record<string, string> = {}): string {
+  return path.replace(/:(\w+)/g, (_, name: string) => {
+    if (params[name] === undefined) {
+      throw new Error(`Missing path parameter: ${name}`);
+    }
+    return encodeURIComponent(params[name]);
+  });
+}
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+// Each user's attributes are rows in attribute_definitions; the profile keeps
+// their values in `attributes`, keyed by `key`. Keys never change, so labels can be
+// renamed freely and the ledger's attributeDeltas stay valid.
+
+export const ATTRIBUTE_ICONS = [
+  "shield", "brain", "star", "heart", "zap", "dumbbell", "book", "music", "palette", "coins", "flame", "target",
+] as const;
+
+export const ATTRIBUTE_COLORS = ["green", "blue", "yellow", "red", "purple", "orange", "pink", "teal"] as const;
+
+export const attributeKeySchema = z.string().regex(/^[a-z][a-z0-9_]{0,31}$/, "Use lowercase letters, digits and underscores");
+export const attributeIconSchema = z.enum(ATTRIBUTE_ICONS);
+export const attributeColorSchema = z.enum(ATTRIBUTE_COLORS);
+
+export type AttributeIcon = z.infer<typeof attributeIconSchema>;
+export type AttributeColor = z.infer<typeof attributeColorSchema>;
+
+// What every new user starts with, each at STARTING_ATTRIBUTE_VALUE
+export const DEFAULT_ATTRIBUTES: { key: string; label: string; icon: AttributeIcon; color: AttributeColor }[] = [
+  { key: "physique", label: "Physique", icon: "shield", color: "green" },
+  { key: "mental", label: "Mental", icon: "brain", color: "blue" },
+  { key: "success", label: "Success", icon: "star", color: "yellow" },
+  { key: "social", label: "Social", icon: "heart", color: "red" },
+  { key: "skills", label: "Skills", icon: "zap", color: "purple" },
+];
+
+export const STARTING_ATTRIBUTE_VALUE = 10;
+
+export function startingAttributes(): Record<string, number> {
+  return Object.fromEntries(DEFAULT_ATTRIBUTES.map((attribute) => [attribute.key, STARTING_ATTRIBUTE_VALUE]));
+}
+
+// The fields the progression rules and the client need from a definition
+export interface AttributeLike {
+  key: string;
+  cap: number | null;
+  sortOrder: number;
+  retiredAt: Date | string | null;
+}
+
+// Attributes that take rewards and allocations, in display order
+export function activeAttributes<T extends AttributeLike>(attributes: T[]): T[] {
+  return attributes.filter((attribute) => !attribute.retiredAt).sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+// Attributes without their own cap use systemSettings.maxAttributePoints, which also bounds the ones with a cap
+export function attributeCap(attribute: Pick<AttributeLike, "cap">, maxAttributePoints: number): number {
+  return Math.min(attribute.cap ?? maxAttributePoints, maxAttributePoints);
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import {
+  selectAttributeDefinitionSchema, selectLedgerEntrySchema, selectNoteSchema, selectProfileSchema, selectQuestFailureSchema, selectQuestGroupSchema,
+  selectQuestProgressSchema, selectQuestProgressStepSchema, selectQuestSchema, selectRewardPurchaseSchema, selectShopRewardSchema,
+  selectSystemSettingsSchema,
+} from "./schema";
+import { streakMilestonesSchema } from "./streaks";
+
+// Bump when the document shape changes; imports of other versions are rejected
+export const BACKUP_VERSION = 1;
+
+// Dates are ISO strings once the document has been through JSON
+const timestamp = z.coerce.date().nullable();
+
+// Rows keep their original ids so references inside the document resolve;
+// the server gives every row a new id on import
+export const backupSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.coerce.date(),
+  profile: selectProfileSchema.omit({ id: true, userId: true }).extend({
+    // Added after the first backups were taken
+    freezeTokens: z.number().int().min(0).optional(),
+    gold: z.number().int().min(0).optional(),
+    timezone: z.string().nullable().optional(),
+    dayStartHour: z.number().int().optional(),
+    createdAt: timestamp,
+  }),
+  settings: selectSystemSettingsSchema.omit({ id: true, userId: true }).extend({
+    streakMilestones: streakMilestonesSchema.optional(),
+    updatedAt: timestamp,
+  }),
+  questGroups: z.array(selectQuestGroupSchema.omit({ userId: true }).extend({
+    createdAt: timestamp,
+  })),
+  quests: z.array(selectQuestSchema.omit({ userId: true }).extend({
+    coinReward: z.number().int().nullable().default(0),
+    deadline: timestamp,
+    createdAt: timestamp,
+  })),
+  questProgress: z.array(selectQuestProgressSchema.omit({ userId: true }).extend({
+    completedAt: timestamp,
+    archivedAt: timestamp,
+    failedAt: timestamp,
+    createdAt: timestamp,
+  })),
+  questProgressSteps: z.array(selectQuestProgressStepSchema.omit({ userId: true }).extend({
+    loggedAt: timestamp,
+    createdAt: timestamp,
+  })),
+  questFailures: z.array(selectQuestFailureSchema.omit({ userId: true }).extend({
+    deadline: z.coerce.date(),
+    createdAt: timestamp,
+  })),
+  ledger: z.array(selectLedgerEntrySchema.omit({ userId: true }).extend({
+    goldDelta: z.number().int().default(0),
+    createdAt: timestamp,
+  })),
+  notes: z.array(selectNoteSchema.omit({ userId: true }).extend({
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })),
+  shopRewards: z.array(selectShopRewardSchema.omit({ userId: true }).extend({
+    createdAt: timestamp,
+  })).default([]),
+  rewardPurchases: z.array(selectRewardPurchaseSchema.omit({ userId: true }).extend({
+    refundedAt: timestamp,
+    createdAt: timestamp,
+  })).default([]),
+  // Empty for users who kept the default attributes
+  attributes: z.array(selectAttributeDefinitionSchema.omit({ userId: true }).extend({
+    retiredAt: timestamp,
+    createdAt: timestamp,
+  })).default([]),
+});
+
+export type Backup = z.infer<typeof backupSchema>;
+
+// merge adds the backup's quests, notes and shop rewards next to the existing ones, plus
+// the attributes the user does not have yet;
+// replace wipes the user's data first; for admins it also restores the profile, ledger, purchases,
+// attributes and settings, while other users keep their own
+export const importModeSchema = z.enum(["merge", "replace"]);
+export type ImportMode = z.infer<typeof importModeSchema>;
+
+export const importBackupSchema = z.object({
+  mode: importModeSchema,
+  backup: backupSchema,
+});
+
+export type ImportBackup = z.infer<typeof importBackupSchema>;
+
+// Rows created by an import
+export const importSummarySchema = z.object({
+  mode: importModeSchema,
+  questGroups: z.number().int(),
+  quests: z.number().int(),
+  questProgress: z.number().int(),
+  questProgressSteps: z.number().int(),
+  questFailures: z.number().int(),
+  ledgerEntries: z.number().int(),
+  notes: z.number().int(),
+  shopRewards: z.number().int(),
+  rewardPurchases: z.number().int(),
+  // Whether the backup's system settings were restored
+  settings: z.boolean(),
+});
+
+export type ImportSummary = z.infer<typeof importSummarySchema>;
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { selectQuestSchema } from "./schema";
+import { isoDateSchema } from "./timezone";
+
+// The heatmap covers a year; longer ranges are split by the client
+export const MAX_CALENDAR_DAYS = 366;
+
+// Days are the user's days (see shared/timezone.ts); the range defaults to the year up to today
+export const calendarQuerySchema = z.object({
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+});
+
+export type CalendarQuery = z.infer<typeof calendarQuerySchema>;
+
+export const calendarDaySchema = z.object({
+  date: z.string(),
+  completions: z.number().int(),
+  // Net of penalties and undone completions
+  xpEarned: z.number().int(),
+  // Quests with a deadline on this day
+  deadlines: z.number().int(),
+});
+
+export type CalendarDay = z.infer<typeof calendarDaySchema>;
+
+// Only days with something on them are listed
+export const calendarSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  timezone: z.string(),
+  days: z.array(calendarDaySchema),
+});
+
+export type Calendar = z.infer<typeof calendarSchema>;
+
+export const calendarCompletionSchema = z.object({
+  entryId: z.string(),
+  questId: z.string().nullable(),
+  // Null once the quest has been deleted
+  title: z.string().nullable(),
+  groupId: z.string().nullable(),
+  xpEarned: z.number().int(),
+  completedAt: z.date(),
+});
+
+export type CalendarCompletion = z.infer<typeof calendarCompletionSchema>;
+
+export const calendarDayDetailSchema = calendarDaySchema.omit({ completions: true, deadlines: true }).extend({
+  timezone: z.string(),
+  completions: z.array(calendarCompletionSchema),
+  deadlines: z.array(selectQuestSchema),
+});
+
+export type CalendarDayDetail = z.infer<typeof calendarDayDetailSchema>;
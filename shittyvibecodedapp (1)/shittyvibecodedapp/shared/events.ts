@@ -0,0 +1,25 @@
+import type { Achievement } from "./achievements";
+import type { Note, Profile, QuestProgress, SystemSettings } from "./schema";
+
+// WebSocket endpoint on the API server; pass Telegram initData as `?initData=`
+export const REALTIME_PATH = "/api/ws";
+
+/**
+ * Domain events pushed to every open tab of the user they belong to, so
+ * changes made on one device show up on the others without a reload.
+ */
+export type SyncEvent =
+  | { type: "profile.changed"; profile: Profile }
+  | { type: "quest.completed"; questId: string; progress: QuestProgress }
+  // Quest groups, quests, progress or failures changed in some other way
+  | { type: "quests.changed" }
+  | { type: "note.updated"; note: Note }
+  | { type: "note.deleted"; noteId: string }
+  | { type: "settings.changed"; settings: SystemSettings }
+  | { type: "achievement.unlocked"; achievement: Achievement }
+  // Shop rewards or purchases changed; the gold balance comes with profile.changed
+  | { type: "shop.changed" }
+  // Attributes were added, edited, retired or restored; retiring may also retarget quests
+  | { type: "attributes.changed" }
+  // A backup was imported; anything may have changed
+  | { type: "data.imported" };
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { isoDateSchema } from "./timezone";
+
+export const historyGranularitySchema = z.enum(["day", "week", "month"]);
+
+export type HistoryGranularity = z.infer<typeof historyGranularitySchema>;
+
+// The longest range each granularity may span, so one request stays a few hundred points
+export const MAX_HISTORY_DAYS: Record<HistoryGranularity, number> = { day: 366, week: 366 * 3, month: 366 * 10 };
+
+// `from` and `to` are inclusive calendar days; both default to the last 30 days
+export const historyQuerySchema = z.object({
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  granularity: historyGranularitySchema.default("day"),
+});
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+// One bucket. Totals are as of the end of the bucket; the rest happened within it
+export const historyPointSchema = z.object({
+  // First day of the bucket, YYYY-MM-DD
+  period: z.string(),
+  xp: z.number().int(),
+  cumulativeXp: z.number().int(),
+  level: z.number().int(),
+  attributes: z.record(z.string(), z.number().int()),
+  // Net of penalties and undone completions
+  xpEarned: z.number().int(),
+  questsCompleted: z.number().int(),
+  // Keyed by quest group id; "none" for completions of deleted or ungrouped quests
+  completionsByGroup: z.record(z.string(), z.number().int()),
+});
+
+export type HistoryPoint = z.infer<typeof historyPointSchema>;
+
+export const historySchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  granularity: historyGranularitySchema,
+  points: z.array(historyPointSchema),
+});
+
+export type History = z.infer<typeof historySchema>;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LEVEL_CURVE, levelCurveSchema, levelForXp, levelProgress, xpForLevel } from "./leveling";
+
+describe("linear curve", () => {
+  it("matches the original 800 XP per level", () => {
+    expect(levelForXp(0)).toBe(1);
+    expect(levelForXp(799)).toBe(1);
+    expect(levelForXp(800)).toBe(2);
+    expect(levelForXp(2500, DEFAULT_LEVEL_CURVE)).toBe(4);
+  });
+
+  it("reports progress within the level", () => {
+    expect(levelProgress(1000)).toEqual({
+      level: 2,
+      currentLevelXp: 200,
+      levelSpanXp: 800,
+      xpToNextLevel: 600,
+      percent: 25,
+    });
+  });
+});
+
+describe("exponential curve", () => {
+  const curve = { type: "exponential", baseXp: 100, growth: 2 } as const;
+
+  it("doubles the XP needed for each level", () => {
+    expect(xpForLevel(2, curve)).toBe(100);
+    expect(xpForLevel(3, curve)).toBe(300);
+    expect(xpForLevel(4, curve)).toBe(700);
+    expect(levelForXp(699, curve)).toBe(3);
+    expect(levelForXp(700, curve)).toBe(4);
+  });
+
+  it("agrees with xpForLevel at every boundary", () => {
+    for (let level = 1; level <= 12; level++) {
+      expect(levelForXp(xpForLevel(level, curve), curve)).toBe(level);
+    }
+  });
+});
+
+describe("table curve", () => {
+  const curve = { type: "table", thresholds: [100, 250, 500] } as const;
+
+  it("uses the thresholds as level boundaries", () => {
+    expect(levelForXp(99, curve)).toBe(1);
+    expect(levelForXp(100, curve)).toBe(2);
+    expect(levelForXp(499, curve)).toBe(3);
+    expect(levelProgress(300, curve)).toMatchObject({ level: 3, currentLevelXp: 50, levelSpanXp: 250 });
+  });
+
+  it("stops at the last threshold", () => {
+    expect(levelProgress(10_000, curve)).toMatchObject({
+      level: 4,
+      levelSpanXp: null,
+      xpToNextLevel: null,
+      percent: 100,
+    });
+  });
+
+  it("rejects thresholds that do not increase", () => {
+    expect(levelCurveSchema.safeParse({ type: "table", thresholds: [100, 100] }).success).toBe(false);
+    expect(levelCurveSchema.safeParse(curve).success).toBe(true);
+  });
+});
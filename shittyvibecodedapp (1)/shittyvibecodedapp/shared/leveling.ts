@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+// Levels above this are never reported, so a very flat curve cannot loop forever
+export const MAX_LEVEL = 1000;
+
+/**
+ * How much XP each level needs.
+ * - linear: every level takes `xpPerLevel`
+ * - exponential: level n → n+1 takes `baseXp * growth^(n-1)`
+ * - table: `thresholds[i]` is the total XP needed to reach level i + 2
+ */
+export const levelCurveSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("linear"),
+    xpPerLevel: z.number().int().min(1),
+  }),
+  z.object({
+    type: z.literal("exponential"),
+    baseXp: z.number().int().min(1),
+    growth: z.number().min(1).max(10),
+  }),
+  z.object({
+    type: z.literal("table"),
+    thresholds: z.array(z.number().int().min(1)).min(1).max(MAX_LEVEL - 1).refine(
+      (thresholds) => thresholds.every((xp, i) => i === 0 || xp > thresholds[i - 1]),
+      { message: "Thresholds must be strictly increasing" },
+    ),
+  }),
+]);
+
+export type LevelCurve = z.infer<typeof levelCurveSchema>;
+
+export const DEFAULT_LEVEL_CURVE: LevelCurve = { type: "linear", xpPerLevel: 800 };
+
+export interface LevelProgress {
+  level: number;
+  // XP earned since reaching the current level
+  currentLevelXp: number;
+  // XP between the current and the next level; null at the top of a table curve
+  levelSpanXp: number | null;
+  xpToNextLevel: number | null;
+  percent: number;
+}
+
+// XP needed to go from `level` to `level + 1`, or null when there is no next level
+function stepXp(curve: LevelCurve, level: number): number | null {
+  if (level >= MAX_LEVEL) {
+    return null;
+  }
+
+  switch (curve.type) {
+    case "linear":
+      return curve.xpPerLevel;
+    case "exponential":
+      return Math.max(1, Math.round(curve.baseXp * Math.pow(curve.growth, level - 1)));
+    case "table": {
+      if (level > curve.thresholds.length) {
+        return null;
+      }
+      const previous = level === 1 ? 0 : curve.thresholds[level - 2];
+      return curve.thresholds[level - 1] - previous;
+    }
+  }
+}
+
+// Total XP needed to reach `level`; level 1 starts at 0
+export function xpForLevel(level: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): number {
+  let total = 0;
+  for (let current = 1; current < level; current++) {
+    const step = stepXp(curve, current);
+    if (step === null) {
+      break;
+    }
+    total += step;
+  }
+  return total;
+}
+
+export function levelProgress(xp: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): LevelProgress {
+  const safeXp = Math.max(0, xp);
+
+  if (curve.type === "linear") {
+    const level = Math.min(MAX_LEVEL, Math.floor(safeXp / curve.xpPerLevel) + 1);
+    const currentLevelXp = safeXp - (level - 1) * curve.xpPerLevel;
+    return toProgress(level, currentLevelXp, stepXp(curve, level));
+  }
+
+  let level = 1;
+  let levelStart = 0;
+  let step = stepXp(curve, level);
+  while (step !== null && levelStart + step <= safeXp) {
+    levelStart += step;
+    level++;
+    step = stepXp(curve, level);
+  }
+
+  return toProgress(level, safeXp - levelStart, step);
+}
+
+export function levelForXp(xp: number, curve: LevelCurve = DEFAULT_LEVEL_CURVE): number {
+  return levelProgress(xp, curve).level;
+}
+
+function toProgress(level: number, currentLevelXp: number, levelSpanXp: number | null): LevelProgress {
+  return {
+    level,
+    currentLevelXp,
+    levelSpanXp,
+    xpToNextLevel: levelSpanXp === null ? null : levelSpanXp - currentLevelXp,
+    percent: levelSpanXp === null ? 100 : Math.min(100, (currentLevelXp / levelSpanXp) * 100),
+  };
+}
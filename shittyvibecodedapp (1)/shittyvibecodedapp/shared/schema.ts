@@ -1,33 +1,46 @@
 import { sql } from "drizzle-orm";
 import { pgTable, text, varchar, integer, jsonb, timestamp, boolean, unique } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_LEVEL_CURVE, levelCurveSchema, type LevelCurve } from "./leveling";
+import { DEFAULT_STREAK_MILESTONES, streakMilestonesSchema, type StreakMilestone } from "./streaks";
+import { attributeColorSchema, attributeIconSchema, attributeKeySchema, startingAttributes, type AttributeColor, type AttributeIcon } from "./attributes";
 
-// Single user profile for personal use
+// Users are identified by their Telegram account and provisioned on first sign-in
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  telegramId: text("telegram_id").notNull().unique(),
+  username: text("username"),
+  firstName: text("first_name"),
+  lastName: text("last_name"),
+  role: text("role").notNull().default("user"), // user, admin
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One profile per user
 export const profile = pgTable("profile", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).unique(),
   level: integer("level").default(1),
   xp: integer("xp").default(0),
   cumulativeXp: integer("cumulative_xp").default(0),
   availablePoints: integer("available_points").default(0),
-  attributes: jsonb("attributes").$type<{
-    physique: number;
-    mental: number;
-    success: number;
-    social: number;
-    skills: number;
-  }>().default({
-    physique: 10,
-    mental: 10,
-    success: 10,
-    social: 10,
-    skills: 10
-  }),
+  // Values by attribute key (see attributeDefinitions); retired attributes keep theirs
+  attributes: jsonb("attributes").$type<Record<string, number>>().default(startingAttributes()),
+  // Each one keeps a streak alive through one missed period (see server/streaks.ts)
+  freezeTokens: integer("freeze_tokens").notNull().default(0),
+  // Spent in the shop; like XP it is the sum of the ledger's goldDelta
+  gold: integer("gold").notNull().default(0),
+  // When the user's days begin (see shared/timezone.ts); the time zone is taken from
+  // the browser on first use and counts as UTC until then
+  timezone: text("timezone"),
+  dayStartHour: integer("day_start_hour").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const questGroups = pgTable("quest_groups", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
   name: text("name").notNull(),
   description: text("description"),
   icon: text("icon").default("calendar"),
@@ -36,11 +49,13 @@ export const questGroups = pgTable("quest_groups", {
 
 export const quests = pgTable("quests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
   groupId: varchar("group_id").references(() => questGroups.id),
   title: text("title").notNull(),
   description: text("description"),
   xpReward: integer("xp_reward").default(100),
   attributePointReward: integer("attribute_point_reward").default(1),
+  coinReward: integer("coin_reward").default(0),
   targetAttribute: text("target_attribute"),
   difficulty: text("difficulty").default("E"),
   maxProgress: integer("max_progress").default(1),
@@ -48,7 +63,7 @@ export const quests = pgTable("quests", {
   enableRecurring: boolean("enable_recurring").default(false),
   repetitionFrequency: text("repetition_frequency").default("none"),
   enableDeadline: boolean("enable_deadline").default(false),
-  deadline: timestamp("deadline"),
+  deadline: timestamp("deadline", { withTimezone: true }),
   enablePenalty: boolean("enable_penalty").default(false),
   penaltyXP: integer("penalty_xp").default(0),
   penaltyAttributePoints: integer("penalty_attribute_points").default(0),
@@ -56,10 +71,13 @@ export const quests = pgTable("quests", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Simplified quest completion tracking for single user
+// Quest completion tracking, one row per quest per period.
+// Non-recurring quests only ever have the "once" period.
 export const questProgress = pgTable("quest_progress", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
   questId: varchar("quest_id").references(() => quests.id),
+  periodKey: text("period_key").notNull().default("once"),
   progress: integer("progress").default(0),
   completed: boolean("completed").default(false),
   completedAt: timestamp("completed_at"),
@@ -68,54 +86,253 @@ export const questProgress = pgTable("quest_progress", {
   archivedAt: timestamp("archived_at"),
   archiveReason: text("archive_reason"),
   canUndo: boolean("can_undo").default(true),
+  // Deadline expiry
+  failed: boolean("failed").default(false),
+  failedAt: timestamp("failed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueQuestPeriod: unique().on(table.questId, table.periodKey),
+}));
+
+// Individual steps logged towards a multi-step quest; the progress row holds their sum
+export const questProgressSteps = pgTable("quest_progress_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  progressId: varchar("progress_id").references(() => questProgress.id, { onDelete: "cascade" }).notNull(),
+  questId: varchar("quest_id").references(() => quests.id),
+  delta: integer("delta").notNull(),
+  note: text("note"),
+  loggedAt: timestamp("logged_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per missed deadline, so a penalty is never applied twice
+export const questFailures = pgTable("quest_failures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  questId: varchar("quest_id").references(() => quests.id),
+  deadline: timestamp("deadline", { withTimezone: true }).notNull(),
+  penaltyXP: integer("penalty_xp").default(0),
+  penaltyAttributePoints: integer("penalty_attribute_points").default(0),
+  targetAttribute: text("target_attribute"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
-  uniqueQuestId: unique().on(table.questId),
+  uniqueQuestDeadline: unique().on(table.questId, table.deadline),
 }));
 
 // Notes section for personal notes
 export const notes = pgTable("notes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
   title: text("title").notNull(),
   content: text("content"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Append-only record of every change to profile XP, points and attributes.
+// Profile totals are the sum of these rows (see server/ledger.ts).
+export const rewardLedger = pgTable("reward_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  source: text("source").notNull(),
+  // Plain references: ledger rows outlive the quests and progress they came from
+  questId: varchar("quest_id"),
+  progressId: varchar("progress_id"),
+  reversesEntryId: varchar("reverses_entry_id"),
+  xpDelta: integer("xp_delta").notNull().default(0),
+  cumulativeXpDelta: integer("cumulative_xp_delta").notNull().default(0),
+  availablePointsDelta: integer("available_points_delta").notNull().default(0),
+  attributeDeltas: jsonb("attribute_deltas").$type<Record<string, number>>().notNull().default({}),
+  goldDelta: integer("gold_delta").notNull().default(0),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per-user, despite the name: each user's caps, reset interval and level curve
 export const systemSettings = pgTable("system_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).unique(),
   maxXp: integer("max_xp").default(80000),
   maxAttributePoints: integer("max_attribute_points").default(100),
   questResetInterval: integer("quest_reset_interval").default(24),
+  // See shared/leveling.ts
+  levelCurve: jsonb("level_curve").$type<LevelCurve>().notNull().default(DEFAULT_LEVEL_CURVE),
+  // See shared/streaks.ts
+  streakMilestones: jsonb("streak_milestones").$type<StreakMilestone[]>().notNull().default(DEFAULT_STREAK_MILESTONES),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Responses to mutating requests sent with an Idempotency-Key header, so a
+// retried or replayed request returns the first response instead of running again
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  key: text("key").notNull(),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  // Null while the first request is still running
+  statusCode: integer("status_code"),
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueUserKey: unique().on(table.userId, table.key),
+}));
+
+// A missed period a freeze token was spent on, so it does not break the streak.
+// questId is null for the overall daily streak; a plain reference, like the ledger's
+export const streakFreezes = pgTable("streak_freezes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  questId: varchar("quest_id"),
+  periodKey: text("period_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// When each user unlocked each achievement (definitions live in shared/achievements.ts)
+export const achievementUnlocks = pgTable("achievement_unlocks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  achievementId: text("achievement_id").notNull(),
+  unlockedAt: timestamp("unlocked_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueUserAchievement: unique().on(table.userId, table.achievementId),
+}));
+
+// Real-life rewards a user defines for themselves and buys with gold
+export const shopRewards = pgTable("shop_rewards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  cost: integer("cost").notNull(),
+  icon: text("icon").default("gift"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Title and cost are copied at purchase time, so history survives edits and deletes.
+// Plain references, like the ledger's; a refund reverses the purchase's ledger entry
+export const rewardPurchases = pgTable("reward_purchases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  rewardId: varchar("reward_id"),
+  ledgerEntryId: varchar("ledger_entry_id"),
+  title: text("title").notNull(),
+  cost: integer("cost").notNull(),
+  refundedAt: timestamp("refunded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// The user's attributes; see shared/attributes.ts. Retired ones are hidden and take
+// no rewards, but keep their value and can be restored
+export const attributeDefinitions = pgTable("attribute_definitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  key: text("key").notNull(),
+  label: text("label").notNull(),
+  icon: text("icon").$type<AttributeIcon>().notNull().default("star"),
+  color: text("color").$type<AttributeColor>().notNull().default("blue"),
+  // Null falls back to systemSettings.maxAttributePoints
+  cap: integer("cap"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  retiredAt: timestamp("retired_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueUserKey: unique().on(table.userId, table.key),
+}));
+
 export const insertProfileSchema = createInsertSchema(profile).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
-export const insertQuestGroupSchema = createInsertSchema(questGroups).omit({
+export const insertQuestGroupSchema = createInsertSchema(questGroups, {
+  name: (schema) => schema.min(1),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
-export const insertQuestSchema = createInsertSchema(quests).omit({
+export const insertQuestSchema = createInsertSchema(quests, {
+  title: (schema) => schema.min(1),
+  xpReward: z.number().int().min(0).nullable().optional(),
+  attributePointReward: z.number().int().min(0).nullable().optional(),
+  coinReward: z.number().int().min(0).nullable().optional(),
+  maxProgress: z.number().int().min(1).nullable().optional(),
+  repetitionFrequency: z.enum(["none", "daily", "weekly", "monthly"]).nullable().optional(),
+  // Deadlines arrive as ISO strings; a blank value clears the deadline
+  deadline: z.preprocess((value) => value === "" ? null : value, z.coerce.date().nullable()).optional(),
+  penaltyXP: z.number().int().min(0).nullable().optional(),
+  penaltyAttributePoints: z.number().int().min(0).nullable().optional(),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
-export const insertNoteSchema = createInsertSchema(notes).omit({
+export const insertNoteSchema = createInsertSchema(notes, {
+  title: (schema) => schema.min(1),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertSystemSettingsSchema = createInsertSchema(systemSettings).omit({
+export const insertShopRewardSchema = createInsertSchema(shopRewards, {
+  title: (schema) => schema.min(1),
+  cost: z.number().int().min(0),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertAttributeDefinitionSchema = createInsertSchema(attributeDefinitions, {
+  key: attributeKeySchema,
+  label: z.string().trim().min(1).max(40),
+  icon: attributeIconSchema.optional(),
+  color: attributeColorSchema.optional(),
+  cap: z.number().int().min(1).nullable().optional(),
+  sortOrder: z.number().int().optional(),
+}).omit({
   id: true,
+  userId: true,
+  retiredAt: true,
+  createdAt: true,
+});
+
+// Retiring an attribute can hand its points and quest targets to another one
+export const retireAttributeSchema = z.object({
+  moveTo: attributeKeySchema.nullable().optional(),
+});
+
+export const insertSystemSettingsSchema = createInsertSchema(systemSettings, {
+  maxXp: z.number().int().min(1).nullable().optional(),
+  maxAttributePoints: z.number().int().min(1).nullable().optional(),
+  questResetInterval: z.number().int().min(1).nullable().optional(),
+  levelCurve: levelCurveSchema.optional(),
+  streakMilestones: streakMilestonesSchema.optional(),
+}).omit({
+  id: true,
+  userId: true,
   updatedAt: true,
 });
 
+// PATCH bodies accept any subset of the insert fields. Ids, owners and timestamps
+// are not part of the insert schemas, so they are stripped rather than overwritten.
+export const updateQuestGroupSchema = insertQuestGroupSchema.partial();
+export const updateQuestSchema = insertQuestSchema.partial();
+export const updateNoteSchema = insertNoteSchema.partial();
+export const updateSystemSettingsSchema = insertSystemSettingsSchema.partial();
+export const updateShopRewardSchema = insertShopRewardSchema.partial();
+// Keys are fixed once created
+export const updateAttributeDefinitionSchema = insertAttributeDefinitionSchema.omit({ key: true }).partial();
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type Profile = typeof profile.$inferSelect;
 export type InsertQuestGroup = z.infer<typeof insertQuestGroupSchema>;
@@ -123,15 +340,83 @@ export type QuestGroup = typeof questGroups.$inferSelect;
 export type InsertQuest = z.infer<typeof insertQuestSchema>;
 export type Quest = typeof quests.$inferSelect;
 export type QuestProgress = typeof questProgress.$inferSelect;
+export type QuestProgressStep = typeof questProgressSteps.$inferSelect;
+export type QuestFailure = typeof questFailures.$inferSelect;
+export type LedgerEntry = typeof rewardLedger.$inferSelect;
+export type InsertLedgerEntry = typeof rewardLedger.$inferInsert;
 export type InsertNote = z.infer<typeof insertNoteSchema>;
 export type Note = typeof notes.$inferSelect;
 export type SystemSettings = typeof systemSettings.$inferSelect;
 export type InsertSystemSettings = z.infer<typeof insertSystemSettingsSchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type AchievementUnlock = typeof achievementUnlocks.$inferSelect;
+export type StreakFreeze = typeof streakFreezes.$inferSelect;
+export type InsertShopReward = z.infer<typeof insertShopRewardSchema>;
+export type ShopReward = typeof shopRewards.$inferSelect;
+export type RewardPurchase = typeof rewardPurchases.$inferSelect;
+export type InsertAttributeDefinition = z.infer<typeof insertAttributeDefinitionSchema>;
+export type AttributeDefinition = typeof attributeDefinitions.$inferSelect;
+export type UpdateQuestGroup = z.infer<typeof updateQuestGroupSchema>;
+export type UpdateQuest = z.infer<typeof updateQuestSchema>;
+export type UpdateNote = z.infer<typeof updateNoteSchema>;
+export type UpdateSystemSettings = z.infer<typeof updateSystemSettingsSchema>;
+export type UpdateShopReward = z.infer<typeof updateShopRewardSchema>;
+export type UpdateAttributeDefinition = z.infer<typeof updateAttributeDefinitionSchema>;
+export type RetireAttribute = z.infer<typeof retireAttributeSchema>;
+
+export const questProgressStepSchema = z.object({
+  delta: z.number().int().min(1).default(1),
+  note: z.string().max(500).optional(),
+  loggedAt: z.coerce.date().optional(),
+});
+export type QuestProgressStepInput = z.infer<typeof questProgressStepSchema>;
+
+// Points to add (positive) or refund (negative) per attribute
+export const attributeAllocationSchema = z.object({
+  deltas: z.record(z.string(), z.number().int()),
+});
+
+export const userRoleSchema = z.enum(["user", "admin"]);
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const userRoleUpdateSchema = z.object({
+  role: userRoleSchema,
+});
 
-export const attributesSchema = z.object({
-  physique: z.number().min(0).max(100),
-  mental: z.number().min(0).max(100),
-  success: z.number().min(0).max(100),
-  social: z.number().min(0).max(100),
-  skills: z.number().min(0).max(100),
+export const adminPointsSchema = z.object({
+  availablePoints: z.number().int().min(0),
+});
+
+export const archiveQuestSchema = z.object({
+  reason: z.string().trim().min(1).max(200).default("Archived by user"),
+});
+
+// Values by attribute key; upper bounds are each attribute's cap and are checked on the server
+export const attributesSchema = z.record(z.string(), z.number().int().min(0));
+
+// Rows as the API returns them (see shared/api.ts); JSON columns get their real shape
+export const selectUserSchema = createSelectSchema(users, {
+  role: userRoleSchema,
+});
+export const selectProfileSchema = createSelectSchema(profile, {
+  attributes: attributesSchema.nullable(),
+});
+export const selectQuestGroupSchema = createSelectSchema(questGroups);
+export const selectQuestSchema = createSelectSchema(quests);
+export const selectQuestProgressSchema = createSelectSchema(questProgress);
+export const selectQuestProgressStepSchema = createSelectSchema(questProgressSteps);
+export const selectQuestFailureSchema = createSelectSchema(questFailures);
+export const selectLedgerEntrySchema = createSelectSchema(rewardLedger, {
+  attributeDeltas: z.record(z.string(), z.number().int()),
+});
+export const selectNoteSchema = createSelectSchema(notes);
+export const selectSystemSettingsSchema = createSelectSchema(systemSettings, {
+  levelCurve: levelCurveSchema,
+  streakMilestones: streakMilestonesSchema,
+});
+export const selectShopRewardSchema = createSelectSchema(shopRewards);
+export const selectRewardPurchaseSchema = createSelectSchema(rewardPurchases);
+export const selectAttributeDefinitionSchema = createSelectSchema(attributeDefinitions, {
+  icon: attributeIconSchema,
+  color: attributeColorSchema,
 });
@@ -0,0 +1,61 @@
+import { z } from "zod";
+
+// Completion rewards (XP) are multiplied once a recurring quest's streak reaches `streak` periods
+export const streakMilestoneSchema = z.object({
+  streak: z.number().int().min(2),
+  multiplier: z.number().min(1).max(10),
+});
+
+export const streakMilestonesSchema = z.array(streakMilestoneSchema).max(20);
+
+export type StreakMilestone = z.infer<typeof streakMilestoneSchema>;
+
+export const DEFAULT_STREAK_MILESTONES: StreakMilestone[] = [
+  { streak: 3, multiplier: 1.1 },
+  { streak: 7, multiplier: 1.25 },
+  { streak: 30, multiplier: 1.5 },
+];
+
+// The multiplier of the highest milestone reached
+export function streakMultiplier(streak: number, milestones: StreakMilestone[] = DEFAULT_STREAK_MILESTONES): number {
+  return milestones.reduce((multiplier, milestone) => (
+    streak >= milestone.streak ? Math.max(multiplier, milestone.multiplier) : multiplier
+  ), 1);
+}
+
+export function nextStreakMilestone(streak: number, milestones: StreakMilestone[] = DEFAULT_STREAK_MILESTONES): StreakMilestone | null {
+  return milestones
+    .filter((milestone) => milestone.streak > streak)
+    .sort((a, b) => a.streak - b.streak)[0] ?? null;
+}
+
+// Consecutive periods completed, counting frozen ones as kept but not completed
+export const streakSchema = z.object({
+  current: z.number().int(),
+  best: z.number().int(),
+});
+
+export type Streak = z.infer<typeof streakSchema>;
+
+export const questStreakSchema = streakSchema.extend({
+  questId: z.string(),
+  // What the next completion is multiplied by
+  multiplier: z.number(),
+});
+
+export type QuestStreak = z.infer<typeof questStreakSchema>;
+
+export const streakSummarySchema = z.object({
+  // Days with at least one quest completed
+  daily: streakSchema,
+  // Recurring quests only
+  quests: z.array(questStreakSchema),
+  freezeTokens: z.number().int(),
+  milestones: streakMilestonesSchema,
+});
+
+export type StreakSummary = z.infer<typeof streakSummarySchema>;
+
+export const freezeTokensUpdateSchema = z.object({
+  freezeTokens: z.number().int().min(0).max(1000),
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { dayClock, dayStartTime, isoDateSchema, localDateTime, timezoneSettingsSchema, userDate, weekdayIndex, zonedDateTime, zonedTime } from "./timezone";
+
+const berlin = { timezone: "Europe/Berlin", dayStartHour: 4 };
+
+describe("zonedTime", () => {
+  it("finds the instant of a wall-clock time across DST changes", () => {
+    expect(zonedTime("2026-01-15", 4, "Europe/Berlin").toISOString()).toBe("2026-01-15T03:00:00.000Z");
+    // Clocks go forward at 02:00 on the 29th of March
+    expect(zonedTime("2026-03-29", 4, "Europe/Berlin").toISOString()).toBe("2026-03-29T02:00:00.000Z");
+    expect(zonedTime("2026-03-10", 0, "Asia/Kolkata").toISOString()).toBe("2026-03-09T18:30:00.000Z");
+  });
+
+  it("round-trips datetime-local values", () => {
+    const deadline = zonedDateTime("2026-03-11T00:05", "Europe/Berlin");
+    expect(deadline.toISOString()).toBe("2026-03-10T23:05:00.000Z");
+    expect(localDateTime(deadline, "Europe/Berlin")).toBe("2026-03-11T00:05");
+    expect(localDateTime(deadline, "UTC")).toBe("2026-03-10T23:05");
+  });
+});
+
+describe("userDate", () => {
+  it("counts the hours before the day start towards the previous day", () => {
+    // 02:30 and 04:30 in Berlin
+    expect(userDate(new Date("2026-03-10T01:30:00Z"), berlin)).toBe("2026-03-09");
+    expect(userDate(new Date("2026-03-10T03:30:00Z"), berlin)).toBe("2026-03-10");
+    expect(dayStartTime("2026-03-10", berlin).toISOString()).toBe("2026-03-10T03:00:00.000Z");
+  });
+
+  it("treats profiles without a time zone as UTC", () => {
+    expect(dayClock({ timezone: null, dayStartHour: 0 })).toEqual({ timezone: "UTC", dayStartHour: 0 });
+    expect(userDate(new Date("2026-03-10T23:59:00Z"), dayClock(null))).toBe("2026-03-10");
+  });
+
+  it("starts weeks on Monday", () => {
+    expect(weekdayIndex("2026-03-09")).toBe(0);
+    expect(weekdayIndex("2026-03-15")).toBe(6);
+  });
+});
+
+describe("validation", () => {
+  it("rejects unknown time zones, hours and impossible dates", () => {
+    expect(timezoneSettingsSchema.safeParse({ timezone: "Asia/Tokyo", dayStartHour: 23 }).success).toBe(true);
+    expect(timezoneSettingsSchema.safeParse({ timezone: "Mars/Olympus" }).success).toBe(false);
+    expect(timezoneSettingsSchema.safeParse({ dayStartHour: 24 }).success).toBe(false);
+    expect(isoDateSchema.safeParse("2026-02-31").success).toBe(false);
+  });
+});
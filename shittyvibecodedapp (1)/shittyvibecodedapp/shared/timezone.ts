@@ -0,0 +1,108 @@
+import { z } from "zod";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// YYYY-MM-DD; Date rolls impossible days like 02-31 over into the next month, so those are rejected
+export const isoDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .refine((day) => !isNaN(Date.parse(day)) && new Date(`${day}T00:00:00Z`).toISOString().startsWith(day), "Not a calendar date");
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// IANA names such as "Europe/Berlin"
+export const timezoneSchema = z.string().max(64).refine(isValidTimezone, "Unknown time zone");
+
+// Both default on the profile: the time zone is detected on first use, the day starts at midnight
+export const timezoneSettingsSchema = z.object({
+  timezone: timezoneSchema.optional(),
+  dayStartHour: z.number().int().min(0).max(23).optional(),
+});
+
+export type TimezoneSettings = z.infer<typeof timezoneSettingsSchema>;
+
+/**
+ * When a user's days begin: at `dayStartHour` o'clock in `timezone`. Daily resets,
+ * streaks, deadlines shown per day, history and the calendar all count days this way,
+ * so a night owl with a 4am start still finishes "today" at 2am.
+ */
+export interface DayClock {
+  timezone: string;
+  dayStartHour: number;
+}
+
+export const UTC_CLOCK: DayClock = { timezone: "UTC", dayStartHour: 0 };
+
+// Profiles without a detected time zone count in UTC
+export function dayClock(settings: { timezone: string | null; dayStartHour: number } | null | undefined): DayClock {
+  return settings ? { timezone: settings.timezone ?? "UTC", dayStartHour: settings.dayStartHour } : UTC_CLOCK;
+}
+
+// The calendar day (YYYY-MM-DD) it is at `date` in `timezone`
+export function localDate(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+// The wall-clock time at `date` in `timezone`, as YYYY-MM-DDTHH:mm like a datetime-local input
+export function localDateTime(date: Date, timezone: string): string {
+  const time = new Intl.DateTimeFormat("en-GB", { timeZone: timezone, hourCycle: "h23", hour: "2-digit", minute: "2-digit" }).format(date);
+  return `${localDate(date, timezone)}T${time}`;
+}
+
+// The instant a YYYY-MM-DDTHH:mm wall-clock time occurs in `timezone`
+export function zonedDateTime(value: string, timezone: string): Date {
+  const [day, time] = value.split("T");
+  const [hours, minutes] = time.split(":").map(Number);
+  return zonedTime(day, hours + minutes / 60, timezone);
+}
+
+// How far `timezone`'s wall clock is ahead of UTC at `date`
+function timezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone, hourCycle: "h23", year: "numeric", month: "numeric", day: "numeric", hour: "numeric", minute: "numeric", second: "numeric",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant it is `hour` o'clock (fractions are minutes) on `day` in `timezone`
+export function zonedTime(day: string, hour: number, timezone: string): Date {
+  const wallClock = Date.parse(`${day}T00:00:00Z`) + hour * HOUR_MS;
+  const guess = wallClock - timezoneOffsetMs(new Date(wallClock), timezone);
+  // Correct once for a DST change between the guess and the answer
+  return new Date(wallClock - timezoneOffsetMs(new Date(guess), timezone));
+}
+
+// The user's day at `date`; before dayStartHour it is still the previous day
+export function userDate(date: Date, clock: DayClock): string {
+  const day = localDate(date, clock.timezone);
+  return date.getTime() < dayStartTime(day, clock).getTime() ? addDays(day, -1) : day;
+}
+
+// When the user's `day` begins
+export function dayStartTime(day: string, clock: DayClock): Date {
+  return zonedTime(day, clock.dayStartHour, clock.timezone);
+}
+
+// 0 for Monday through 6 for Sunday
+export function weekdayIndex(day: string): number {
+  return (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of any time zone
+export function addDays(day: string, days: number): string {
+  return new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
@@ -0,0 +1,21 @@
+import type { ZodError } from "zod";
+
+export interface FieldError {
+  // Dotted field name as react-hook-form uses it, e.g. "levelCurve.xpPerLevel"; "" for the whole body
+  path: string;
+  message: string;
+}
+
+// Body of every 400 response caused by invalid input
+export interface ValidationErrorResponse {
+  message: string;
+  errors: FieldError[];
+}
+
+export function toFieldErrors(error: ZodError): FieldError[] {
+  return error.errors.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+}
+
+export function isValidationErrorResponse(body: unknown): body is ValidationErrorResponse {
+  return typeof body === "object" && body !== null && Array.isArray((body as ValidationErrorResponse).errors);
+}